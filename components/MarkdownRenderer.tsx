@@ -7,13 +7,23 @@ import rehypeKatex from 'rehype-katex';
 import CodeBlock from './CodeBlock';
 import 'katex/dist/katex.min.css';
 import { downloadImageFromSrc } from '../utils/download';
+import { UrlCitation } from '@/types/chat';
+import { insertCitationMarkers } from '@/utils/webSearchUtils';
+import { getProviderHost } from '@/utils/modelUtils';
 
 interface MarkdownRendererProps {
   content: string;
   className?: string;
+  /** Web sources of the answer, shown as numbered footnotes with source cards */
+  citations?: UrlCitation[];
 }
 
-export default function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+export default function MarkdownRenderer({ content, className, citations }: MarkdownRendererProps) {
+  const sources = citations ?? [];
+  // Links to a cited source render as its footnote number
+  const footnoteNumbers = new Map(sources.map((citation, index) => [citation.url, index + 1]));
+  const markdown = sources.length > 0 ? insertCitationMarkers(content, sources) : content;
+
   return (
     <div className={`prose prose-invert max-w-none text-[1rem] leading-relaxed ${className || ''}`}>
       <ReactMarkdown
@@ -91,16 +101,33 @@ export default function MarkdownRenderer({ content, className }: MarkdownRendere
           ),
 
           // Links
-          a: ({ href, children }) => (
-            <a
-              href={href}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-blue-400 hover:text-blue-300 underline underline-offset-2 transition-colors"
-            >
-              {children}
-            </a>
-          ),
+          a: ({ href, children }) => {
+            const footnoteNumber = href ? footnoteNumbers.get(href) : undefined;
+            if (footnoteNumber !== undefined) {
+              const citation = sources[footnoteNumber - 1];
+              return (
+                <a
+                  href={href}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={citation.title || getProviderHost(citation.url)}
+                  className="inline-flex items-center justify-center align-super text-[0.7em] leading-none min-w-[1.5em] px-1 py-0.5 mx-0.5 rounded bg-white/10 hover:bg-white/20 text-blue-300 no-underline transition-colors"
+                >
+                  {footnoteNumber}
+                </a>
+              );
+            }
+            return (
+              <a
+                href={href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300 underline underline-offset-2 transition-colors"
+              >
+                {children}
+              </a>
+            );
+          },
 
           // Blockquotes
           blockquote: ({ children }) => (
@@ -180,8 +207,34 @@ export default function MarkdownRenderer({ content, className }: MarkdownRendere
           ),
         }}
       >
-        {content}
+        {markdown}
       </ReactMarkdown>
+
+      {sources.length > 0 && (
+        <div className="not-prose mt-4">
+          <div className="text-xs text-white/50 mb-2">Sources</div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {sources.map((citation, index) => (
+              <a
+                key={citation.url}
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex gap-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-md p-2.5 no-underline transition-colors"
+              >
+                <span className="flex-shrink-0 text-xs text-white/50">{index + 1}</span>
+                <span className="min-w-0">
+                  <span className="block text-sm text-white truncate">{citation.title || getProviderHost(citation.url)}</span>
+                  <span className="block text-xs text-white/50 truncate">{getProviderHost(citation.url)}</span>
+                  {citation.content && (
+                    <span className="block text-xs text-white/60 mt-1 line-clamp-2">{citation.content}</span>
+                  )}
+                </span>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -2,29 +2,25 @@
 
 import MarkdownRenderer from './MarkdownRenderer';
 import { downloadImageFromSrc } from '../utils/download';
-
-interface MessageContent {
-  type: 'text' | 'image_url';
-  text?: string;
-  image_url?: {
-    url: string;
-  };
-}
+import { MessageContent, UrlCitation } from '@/types/chat';
+import { isAttachmentTextPart } from '@/utils/attachmentUtils';
 
 interface MessageContentProps {
   content: string | MessageContent[];
+  /** Web sources cited in a text answer */
+  citations?: UrlCitation[];
 }
 
-export default function MessageContentRenderer({ content }: MessageContentProps) {
+export default function MessageContentRenderer({ content, citations }: MessageContentProps) {
   if (typeof content === 'string') {
-    return <MarkdownRenderer content={content} />;
+    return <MarkdownRenderer content={content} citations={citations} />;
   }
 
   // Count the number of images
   const imageCount = content.filter(item => item.type === 'image_url').length;
 
-  // Separate text and images
-  const textContent = content.filter(item => item.type === 'text');
+  // Separate text and images; attached documents are shown as chips by the message instead
+  const textContent = content.filter(item => item.type === 'text' && !isAttachmentTextPart(item));
   const imageContent = content.filter(item => item.type === 'image_url');
 
   return (
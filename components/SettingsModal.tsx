@@ -173,6 +173,8 @@ const SettingsModal = ({
                 onClose={onClose}
                 mintUrl={mintUrl}
                 setMintUrl={handleMintUrlChange}
+                baseUrl={baseUrl}
+                setBaseUrl={setBaseUrl}
             />
           ) : activeTab === 'models' ? (
             <ModelsTab
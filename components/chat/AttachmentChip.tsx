@@ -0,0 +1,40 @@
+import { FileText, X } from 'lucide-react';
+import { MessageAttachment } from '@/types/chat';
+
+interface AttachmentChipProps {
+  attachment: Pick<MessageAttachment, 'name' | 'size'> & Partial<Pick<MessageAttachment, 'sentAs'>>;
+  /** Shows a remove button when set */
+  onRemove?: () => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Name and size of an attached document, in the chat input and on sent messages
+ */
+export default function AttachmentChip({ attachment, onRemove }: AttachmentChipProps) {
+  return (
+    <div
+      className="flex items-center gap-1.5 max-w-[16rem] text-xs text-white/80 bg-white/5 border border-white/10 rounded-md px-2 py-1"
+      title={attachment.sentAs === 'file' ? `${attachment.name} (sent as a file)` : attachment.name}
+    >
+      <FileText className="w-3.5 h-3.5 flex-shrink-0 text-white/60" />
+      <span className="truncate">{attachment.name}</span>
+      <span className="flex-shrink-0 text-white/40">{formatSize(attachment.size)}</span>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="flex-shrink-0 text-white/50 hover:text-white cursor-pointer"
+          aria-label={`Remove ${attachment.name}`}
+          type="button"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
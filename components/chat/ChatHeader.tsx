@@ -5,6 +5,10 @@ import { Menu, SquarePen } from 'lucide-react';
 import { useChat } from '@/context/ChatProvider';
 import { useAuth } from '@/context/AuthProvider';
 import ModelSelector from './ModelSelector';
+import GenerationParamsPanel from './GenerationParamsPanel';
+import PersonaSelector from './PersonaSelector';
+import CompareModelsPanel from './CompareModelsPanel';
+import ImageGalleryPanel from './ImageGalleryPanel';
 import BalanceDisplay from '../ui/BalanceDisplay';
 
 /**
@@ -25,6 +29,7 @@ const ChatHeader: React.FC = () => {
     configuredModels,
     toggleConfiguredModel,
     setModelProviderFor,
+    modelProviderMap,
     
     // UI State
     isMobile,
@@ -33,6 +38,18 @@ const ChatHeader: React.FC = () => {
     setIsSidebarOpen,
     setIsLoginModalOpen,
     createNewConversationHandler,
+
+    // Conversation State
+    activeConversationId,
+    activeConversationParameters,
+    setActiveConversationParameters,
+    activePersonaId,
+    selectPersona,
+
+    // Compare Mode
+    compareTargets,
+    setCompareTargets,
+    isComparing,
     
     // Balance
     balance,
@@ -94,7 +111,7 @@ const ChatHeader: React.FC = () => {
         )}
 
         {/* Model Selector - left aligned; add padding on mobile and when sidebar is collapsed to avoid overlap */}
-        <div className={`${isMobile ? 'pl-20' : (isAuthenticated && isSidebarCollapsed ? 'pl-20' : '')}`}>
+        <div className={`flex items-center gap-2 ${isMobile ? 'pl-20' : (isAuthenticated && isSidebarCollapsed ? 'pl-20' : '')}`}>
           <ModelSelector
             selectedModel={selectedModel}
             isModelDrawerOpen={isModelDrawerOpen}
@@ -113,6 +130,38 @@ const ChatHeader: React.FC = () => {
               setInitialSettingsTab('models');
             }}
           />
+          {isAuthenticated && (
+            <>
+              <GenerationParamsPanel
+                parameters={activeConversationParameters}
+                setParameters={setActiveConversationParameters}
+                maxCompletionTokens={selectedModel?.per_request_limits?.completion_tokens}
+                isMobile={isMobile}
+              />
+              <PersonaSelector
+                activePersonaId={activePersonaId}
+                selectPersona={selectPersona}
+                handleModelChange={handleModelChange}
+                openPersonaSettings={() => {
+                  setIsSettingsOpen(true);
+                  setInitialSettingsTab('settings');
+                }}
+                isMobile={isMobile}
+              />
+              <CompareModelsPanel
+                models={filteredModels}
+                compareTargets={compareTargets}
+                setCompareTargets={setCompareTargets}
+                modelProviderMap={modelProviderMap}
+                isComparing={isComparing}
+                isMobile={isMobile}
+              />
+              <ImageGalleryPanel
+                conversationId={activeConversationId}
+                isMobile={isMobile}
+              />
+            </>
+          )}
         </div>
 
         {/* Balance Display */}
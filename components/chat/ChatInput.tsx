@@ -1,6 +1,11 @@
 import { useRef, useEffect, useState } from 'react';
-import { ImagePlus, Loader2, Send, X } from 'lucide-react';
+import { Globe, Loader2, Paperclip, Send, Square, X } from 'lucide-react';
+import { toast } from 'sonner';
 import { useChat } from '@/context/ChatProvider';
+import { useCostPreview } from '@/hooks/useCostPreview';
+import { DOCUMENT_ACCEPT, isDocumentFile, readDocumentAttachment } from '@/utils/attachmentUtils';
+import { getImageOutputMode } from '@/utils/imageGenerationUtils';
+import AttachmentChip from './AttachmentChip';
 
 interface ChatInputProps {
   inputMessage: string;
@@ -8,6 +13,7 @@ interface ChatInputProps {
   uploadedImages: string[];
   setUploadedImages: React.Dispatch<React.SetStateAction<string[]>>;
   sendMessage: () => void;
+  stopGeneration: () => void;
   isLoading: boolean;
   isAuthenticated: boolean;
   textareaHeight: number;
@@ -23,6 +29,7 @@ export default function ChatInput({
   uploadedImages,
   setUploadedImages,
   sendMessage,
+  stopGeneration,
   isLoading,
   isAuthenticated,
   textareaHeight,
@@ -35,7 +42,27 @@ export default function ChatInput({
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isAnimating, setIsAnimating] = useState(false);
   const [isCentered, setIsCentered] = useState(!hasMessages);
-  const { isSidebarOpen } = useChat();
+  const {
+    isSidebarOpen,
+    webSearchEnabled,
+    setWebSearchEnabled,
+    selectedModel,
+    attachments,
+    setAttachments,
+    messages,
+    activeConversationRequestOptions
+  } = useChat();
+  const [readingFiles, setReadingFiles] = useState(0);
+  const webSearchCost = selectedModel?.sats_pricing?.web_search ?? 0;
+  const costPreview = useCostPreview({
+    model: selectedModel,
+    messages,
+    systemPrompt: activeConversationRequestOptions.systemPrompt,
+    inputMessage,
+    uploadedImages,
+    attachments,
+    webSearch: webSearchEnabled
+  });
   const unifiedBgClass = isMobile && isSidebarOpen ? 'bg-[#181818]' : 'bg-[#212121]';
 
   // Handle animation when messages change from external updates
@@ -69,11 +96,12 @@ export default function ChatInput({
     }
   };
 
-  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
 
     const newImages: string[] = [];
+    const documents: File[] = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
@@ -84,6 +112,10 @@ export default function ChatInput({
         } catch (error) {
           console.error('Error converting file to base64:', error);
         }
+      } else if (isDocumentFile(file)) {
+        documents.push(file);
+      } else {
+        toast.error(`${file.name} is not an image, PDF or text file`);
       }
     }
 
@@ -93,6 +125,19 @@ export default function ChatInput({
     if (event.target) {
       event.target.value = '';
     }
+
+    // Text extraction can take a moment for large PDFs
+    setReadingFiles(count => count + documents.length);
+    await Promise.all(documents.map(async file => {
+      try {
+        const attachment = await readDocumentAttachment(file);
+        setAttachments(prev => [...prev, attachment]);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Could not read ${file.name}`);
+      } finally {
+        setReadingFiles(count => count - 1);
+      }
+    }));
   };
 
   const convertFileToBase64 = (file: File): Promise<string> => {
@@ -151,6 +196,25 @@ export default function ChatInput({
         }}
       >
         <div className={`mx-auto w-full ${isCentered && !isMobile ? 'max-w-[38rem]' : 'max-w-[44rem]'} ${isMobile ? 'pb-3 px-1' : ''}`}>
+          {/* Attached documents */}
+          {(attachments.length > 0 || readingFiles > 0) && (
+            <div className="mb-3 flex flex-wrap gap-2">
+              {attachments.map(attachment => (
+                <AttachmentChip
+                  key={attachment.id}
+                  attachment={attachment}
+                  onRemove={() => setAttachments(prev => prev.filter(entry => entry.id !== attachment.id))}
+                />
+              ))}
+              {readingFiles > 0 && (
+                <div className="flex items-center gap-1.5 text-xs text-white/60 px-2 py-1">
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  Reading {readingFiles === 1 ? 'file' : `${readingFiles} files`}…
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Image Preview */}
           {uploadedImages.length > 0 && (
             <div className="mb-3 flex flex-wrap gap-2">
@@ -173,13 +237,25 @@ export default function ChatInput({
           )}
 
           <div className="relative flex items-end">
+            {/* Estimated prompt cost of the draft */}
+            {isAuthenticated && costPreview && (
+              <span
+                className="absolute -top-5 right-4 text-[11px] text-white/40 select-none cursor-default"
+                title={`${costPreview.exact ? '' : '~'}${costPreview.tokens.toLocaleString()} prompt tokens. The answer is billed on top; whatever the request does not use is refunded.`}
+              >
+                {costPreview.sats < 0.01
+                  ? '<0.01 sats'
+                  : `~${costPreview.sats < 10 ? costPreview.sats.toFixed(2) : Math.round(costPreview.sats).toLocaleString()} sats`}
+              </span>
+            )}
+
             {/* Hidden file input */}
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept={`image/*,${DOCUMENT_ACCEPT}`}
               multiple
-              onChange={handleImageUpload}
+              onChange={handleFileUpload}
               className="hidden"
             />
 
@@ -193,8 +269,12 @@ export default function ChatInput({
                   handleSendMessage();
                 }
               }}
-              placeholder={isAuthenticated ? (isCentered ? `Type your message...` : `Ask anything...`) : `Sign in to start chatting...`}
-              className="flex-1 bg-white/10 rounded-3xl px-4 py-3 text-[16.5px] sm:text-[16.5px] text-white focus:outline-none pl-14 pr-12 resize-none min-h-[48px] max-h-32 overflow-y-auto"
+              placeholder={!isAuthenticated
+                ? `Sign in to start chatting...`
+                : getImageOutputMode(selectedModel) === 'endpoint'
+                  ? `Describe the image to generate...`
+                  : isCentered ? `Type your message...` : `Ask anything...`}
+              className="flex-1 bg-white/10 rounded-3xl px-4 py-3 text-[16.5px] sm:text-[16.5px] text-white focus:outline-none pl-24 pr-12 resize-none min-h-[48px] max-h-32 overflow-y-auto"
               autoComplete="off"
               data-tutorial="chat-input"
               rows={1}
@@ -212,29 +292,49 @@ export default function ChatInput({
               }}
             />
 
-            {/* Image upload button */}
+            {/* Image and document upload button */}
             <button
               onClick={() => fileInputRef.current?.click()}
               disabled={!isAuthenticated}
               className={`absolute left-3 p-2 rounded-full bg-transparent hover:bg-white/10 md:hover:bg-white/20 disabled:opacity-50 disabled:bg-transparent transition-colors cursor-pointer ${textareaHeight <= 48 ? 'top-1/2 transform -translate-y-1/2' : 'bottom-2'}`}
-              aria-label="Upload image"
+              aria-label="Attach images or documents"
+              title="Attach images, PDFs, text or code files"
             >
-              <ImagePlus className="h-5 w-5 text-white" />
+              <Paperclip className="h-5 w-5 text-white" />
             </button>
 
-            {/* Send button */}
+            {/* Web search toggle, applies to the next message only */}
             <button
-              onClick={handleSendMessage}
-              disabled={isLoading || (!isAuthenticated && !inputMessage.trim() && uploadedImages.length === 0)}
-              className={`absolute right-3 p-2 rounded-full bg-transparent hover:bg-white/10 md:hover:bg-white/20 disabled:opacity-50 disabled:bg-transparent transition-colors cursor-pointer ${textareaHeight <= 48 ? 'top-1/2 transform -translate-y-1/2' : 'bottom-2'}`}
-              aria-label="Send message"
+              onClick={() => setWebSearchEnabled(!webSearchEnabled)}
+              disabled={!isAuthenticated}
+              className={`absolute left-12 p-2 rounded-full ${webSearchEnabled ? 'bg-white/20' : 'bg-transparent'} hover:bg-white/10 md:hover:bg-white/20 disabled:opacity-50 disabled:bg-transparent transition-colors cursor-pointer ${textareaHeight <= 48 ? 'top-1/2 transform -translate-y-1/2' : 'bottom-2'}`}
+              aria-label="Search the web"
+              aria-pressed={webSearchEnabled}
+              title={webSearchCost > 0 ? `Search the web (+${webSearchCost.toFixed(webSearchCost % 1 === 0 ? 0 : 3)} sats)` : 'Search the web'}
             >
-              {isLoading ? (
-                <Loader2 className="h-5 w-5 animate-spin text-white" />
-              ) : (
-                <Send className="h-5 w-5 text-white" />
-              )}
+              <Globe className={`h-5 w-5 ${webSearchEnabled ? 'text-blue-400' : 'text-white'}`} />
             </button>
+
+            {/* Send / stop button */}
+            {isLoading ? (
+              <button
+                onClick={stopGeneration}
+                className={`absolute right-3 p-2 rounded-full bg-transparent hover:bg-white/10 md:hover:bg-white/20 transition-colors cursor-pointer ${textareaHeight <= 48 ? 'top-1/2 transform -translate-y-1/2' : 'bottom-2'}`}
+                aria-label="Stop generating"
+                title="Stop generating"
+              >
+                <Square className="h-5 w-5 text-white fill-white" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!isAuthenticated && !inputMessage.trim() && uploadedImages.length === 0 && attachments.length === 0}
+                className={`absolute right-3 p-2 rounded-full bg-transparent hover:bg-white/10 md:hover:bg-white/20 disabled:opacity-50 disabled:bg-transparent transition-colors cursor-pointer ${textareaHeight <= 48 ? 'top-1/2 transform -translate-y-1/2' : 'bottom-2'}`}
+                aria-label="Send message"
+              >
+                <Send className="h-5 w-5 text-white" />
+              </button>
+            )}
           </div>
         </div>
       </div>
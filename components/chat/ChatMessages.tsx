@@ -1,9 +1,78 @@
-import { Message, MessageContent } from '@/types/chat';
-import { Edit, MessageSquare, Copy, Check, Eye, EyeOff } from 'lucide-react';
+import { ErrorAction, GalleryImage, Message, MessageContent, MessageErrorDetails } from '@/types/chat';
+import { Edit, MessageSquare, Copy, Check, Eye, EyeOff, Wrench, Shuffle, ChevronLeft, ChevronRight, Scissors, Info, StepForward, Globe } from 'lucide-react';
 import MessageContentRenderer from '@/components/MessageContent';
 import MarkdownRenderer from '@/components/MarkdownRenderer';
 import ThinkingSection from '@/components/ui/ThinkingSection';
-import { RefObject, useState, useEffect, useRef, useCallback } from 'react';
+import MessageMetadataPanel, { getMetadataSummary } from './MessageMetadataPanel';
+import AttachmentChip from './AttachmentChip';
+import GeneratedImages from './GeneratedImages';
+import { ReactNode, RefObject, useState, useEffect, useRef, useCallback } from 'react';
+import { BranchInfo } from '@/utils/messageTreeUtils';
+import { getProviderHost } from '@/utils/modelUtils';
+import { getLatestContextInfo } from '@/utils/contextUtils';
+import { ERROR_ACTION_HINTS, ERROR_ACTION_LABELS } from '@/utils/routstrErrors';
+
+const BranchSwitcher = ({
+  info,
+  onSwitch,
+  disabled
+}: {
+  info: BranchInfo;
+  onSwitch: (offset: number) => void;
+  disabled: boolean;
+}) => (
+  <div className="flex items-center gap-0.5 text-xs text-white/60 select-none">
+    <button
+      onClick={() => onSwitch(-1)}
+      disabled={disabled || info.current <= 1}
+      className="p-1 rounded-md hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent cursor-pointer"
+      aria-label="Previous variant"
+    >
+      <ChevronLeft className="w-3 h-3" />
+    </button>
+    <span className="tabular-nums">{info.current}/{info.total}</span>
+    <button
+      onClick={() => onSwitch(1)}
+      disabled={disabled || info.current >= info.total}
+      className="p-1 rounded-md hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent cursor-pointer"
+      aria-label="Next variant"
+    >
+      <ChevronRight className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+const ContextBoundary = ({ excludedCount, summary }: { excludedCount: number; summary?: string }) => {
+  const [showSummary, setShowSummary] = useState(false);
+  return (
+    <div className="mb-8">
+      <div className="flex items-center gap-3 text-xs text-white/50">
+        <div className="flex-grow border-t border-dashed border-white/15" />
+        <span className="flex items-center gap-1.5">
+          <Scissors className="w-3 h-3" />
+          {summary
+            ? `${excludedCount} earlier message${excludedCount === 1 ? ' was' : 's were'} summarized to fit the context window`
+            : `${excludedCount} earlier message${excludedCount === 1 ? ' was' : 's were'} not sent to fit the context window`}
+        </span>
+        {summary && (
+          <button
+            onClick={() => setShowSummary(!showSummary)}
+            className="text-white/60 hover:text-white underline-offset-2 hover:underline cursor-pointer"
+            type="button"
+          >
+            {showSummary ? 'Hide summary' : 'Show summary'}
+          </button>
+        )}
+        <div className="flex-grow border-t border-dashed border-white/15" />
+      </div>
+      {summary && showSummary && (
+        <div className="mt-2 bg-white/5 border border-white/10 rounded-md p-3 text-sm text-white/70 whitespace-pre-wrap">
+          {summary}
+        </div>
+      )}
+    </div>
+  );
+};
 
 interface ChatMessagesProps {
   messages: Message[];
@@ -16,9 +85,20 @@ interface ChatMessagesProps {
   cancelEditing: () => void;
   saveInlineEdit: () => void;
   retryMessage: (index: number) => void;
+  /** Asks the model to finish an answer that was cut off by a reload */
+  continueGeneration: (index: number) => void;
+  /** Runs the action suggested by a typed error notice, other than a plain retry */
+  onErrorAction: (action: ErrorAction, details: MessageErrorDetails, index: number) => void;
   getTextFromContent: (content: string | MessageContent[]) => string;
   messagesEndRef: RefObject<HTMLDivElement | null>;
   isMobile: boolean;
+  branchInfo: (BranchInfo | null)[];
+  switchBranch: (messageIndex: number, offset: number) => void;
+  isLoading: boolean;
+  /** Side-by-side answers of a running or unresolved compare run */
+  compareView?: ReactNode;
+  /** Images generated in the conversation, for answers whose image data was left out of storage */
+  galleryImages: GalleryImage[];
 }
 
 export default function ChatMessages({
@@ -32,11 +112,19 @@ export default function ChatMessages({
   cancelEditing,
   saveInlineEdit,
   retryMessage,
+  continueGeneration,
+  onErrorAction,
   getTextFromContent,
   messagesEndRef,
-  isMobile
+  isMobile,
+  branchInfo,
+  switchBranch,
+  isLoading,
+  compareView,
+  galleryImages
 }: ChatMessagesProps) {
   const [copiedMessageIndex, setCopiedMessageIndex] = useState<number | null>(null);
+  const [expandedMetadataIndex, setExpandedMetadataIndex] = useState<number | null>(null);
   const [expandedSystemGroups, setExpandedSystemGroups] = useState<Set<number>>(new Set());
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
   const [isUserAtBottom, setIsUserAtBottom] = useState(true);
@@ -132,7 +220,7 @@ export default function ChatMessages({
     let currentGroupCount = 0;
 
     messages.forEach((message, index) => {
-      if (message.role === 'system' && !shouldAlwaysShowSystemMessage(message.content)) {
+      if (message.role === 'error' && !shouldAlwaysShowSystemMessage(message.content)) {
         if (currentGroupStart === null) {
           currentGroupStart = index;
           currentGroupCount = 1;
@@ -158,6 +246,10 @@ export default function ChatMessages({
 
   const systemGroups = getSystemMessageGroups();
 
+  // Messages the latest answer was generated without, because they did not fit the context window
+  const contextInfo = getLatestContextInfo(messages);
+  const excludedCount = contextInfo?.excludedCount ?? 0;
+
   // Toggle a specific system message group
   const toggleSystemGroup = (groupStartIndex: number) => {
     setExpandedSystemGroups(prev => {
@@ -187,14 +279,33 @@ export default function ChatMessages({
     const lastMessageIndex = group.startIndex + group.count - 1;
     const lastMessage = messages[lastMessageIndex];
 
-    if (lastMessage && lastMessage.role === 'system') {
+    if (lastMessage && lastMessage.role === 'error') {
       const textContent = getTextFromContent(lastMessage.content);
-      return textContent.includes('Pls retry');
+      return textContent.includes('Pls retry') || lastMessage.error?.action === 'retry';
     }
 
     return false;
   };
 
+  // Suggested action of the last notice in a system group, unless it is a plain retry
+  const getGroupErrorAction = (groupStartIndex: number): { details: MessageErrorDetails; index: number } | null => {
+    const group = systemGroups.find(g => g.startIndex === groupStartIndex);
+    if (!group) return null;
+
+    const lastMessageIndex = group.startIndex + group.count - 1;
+    const details = messages[lastMessageIndex]?.error;
+    return details && details.action !== 'retry' ? { details, index: lastMessageIndex } : null;
+  };
+
+  const renderErrorActionButton = (details: MessageErrorDetails, index: number) => (
+    <button
+      onClick={() => onErrorAction(details.action, details, index)}
+      className="flex items-center gap-1.5 text-xs text-red-300 hover:text-red-200 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded-md px-3 py-1.5 transition-colors cursor-pointer"
+    >
+      {ERROR_ACTION_LABELS[details.action]}
+    </button>
+  );
+
   const copyMessageContent = async (messageIndex: number, content: string | MessageContent[]) => {
     try {
       const textContent = getTextFromContent(content);
@@ -228,11 +339,15 @@ export default function ChatMessages({
             // Check if this is the start of a system message group
             const systemGroup = systemGroups.find(g => g.startIndex === index);
             const isSystemGroupStart = systemGroup &&
-              message.role === 'system' &&
+              message.role === 'error' &&
               !shouldAlwaysShowSystemMessage(message.content);
 
             return (
-              <div key={index}>
+              <div key={index} className={index < excludedCount ? 'opacity-50' : undefined}>
+                {excludedCount > 0 && index === excludedCount && (
+                  <ContextBoundary excludedCount={excludedCount} summary={contextInfo?.summary} />
+                )}
+
                 {/* Show toggle button at the start of each system message group */}
                 {isSystemGroupStart && (
                   <div className="flex justify-center items-center gap-3 mb-6">
@@ -285,6 +400,11 @@ export default function ChatMessages({
                         Retry
                       </button>
                     )}
+
+                    {(() => {
+                      const groupAction = getGroupErrorAction(index);
+                      return groupAction && renderErrorActionButton(groupAction.details, groupAction.index);
+                    })()}
                   </div>
                 )}
 
@@ -319,12 +439,31 @@ export default function ChatMessages({
                         ) : (
                           <div>
                             <div className="group relative">
+                              {message.attachments && message.attachments.length > 0 && (
+                                <div className="flex flex-wrap justify-end gap-2 mb-2">
+                                  {message.attachments.map((attachment, attachmentIndex) => (
+                                    <AttachmentChip key={attachmentIndex} attachment={attachment} />
+                                  ))}
+                                </div>
+                              )}
                               <div className="bg-zinc-700/70 rounded-2xl py-2 px-4 text-white">
                                 <div className="text-[18px]">
                                   <MessageContentRenderer content={message.content} />
                                 </div>
                               </div>
-                              <div className={`flex justify-end mt-1 ${isMobile ? 'opacity-100' : 'opacity-100 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200`}>
+                              <div className={`flex justify-end items-center gap-1 mt-1 ${isMobile || branchInfo[index] ? 'opacity-100' : 'opacity-100 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200`}>
+                                {branchInfo[index] && (
+                                  <BranchSwitcher
+                                    info={branchInfo[index]}
+                                    onSwitch={(offset) => switchBranch(index, offset)}
+                                    disabled={isLoading}
+                                  />
+                                )}
+                                {message.webSearch && (
+                                  <span className="p-1 text-white/50" title="Answered with a web search">
+                                    <Globe className="w-4 h-4" />
+                                  </span>
+                                )}
                                 <button
                                   onClick={() => startEditingMessage(index)}
                                   className="p-1 rounded-full text-white/70 hover:text-white transition-colors"
@@ -338,7 +477,7 @@ export default function ChatMessages({
                         )}
                       </div>
                     </div>
-                  ) : message.role === 'system' ? (
+                  ) : message.role === 'error' ? (
                     // Check if this system message should always be shown or if it's in an expanded group
                     (shouldAlwaysShowSystemMessage(message.content) || isInExpandedGroup(index)) ? (
                       <div className="flex justify-center mb-6 group">
@@ -352,10 +491,13 @@ export default function ChatMessages({
                                 {getTextFromContent(message.content).split('\n').map((line, idx) => (
                                   <div key={idx} className="break-words break-all">{line}</div>
                                 ))}
+                                {message.error && (
+                                  <div className="mt-1 text-xs font-normal text-red-200/70">{ERROR_ACTION_HINTS[message.error.code]}</div>
+                                )}
                               </div>
                             </div>
                           </div>
-                          <div className={`mt-1.5 ${isMobile ? 'opacity-100' : 'opacity-100 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200`}>
+                          <div className={`mt-1.5 flex items-center gap-2 ${isMobile ? 'opacity-100' : 'opacity-100 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200`}>
                             <button
                               onClick={() => retryMessage(index)}
                               className="flex items-center gap-1.5 text-xs text-red-300 hover:text-red-200 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded-md px-3 py-1.5 transition-colors cursor-pointer"
@@ -384,19 +526,73 @@ export default function ChatMessages({
                               </svg>
                               Retry
                             </button>
+                            {message.error && message.error.action !== 'retry' && renderErrorActionButton(message.error, index)}
                           </div>
                         </div>
                       </div>
                     ) : null // Don't render if system message is hidden
+                  ) : message.role === 'tool' ? (
+                    <details className="mb-6 bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white/70">
+                      <summary className="flex items-center gap-2 cursor-pointer select-none">
+                        <Wrench className="w-3 h-3" />
+                        Tool result{message.name ? `: ${message.name}` : ''}
+                      </summary>
+                      <pre className="mt-2 whitespace-pre-wrap break-words text-xs text-white/60 max-h-64 overflow-y-auto">
+                        {getTextFromContent(message.content)}
+                      </pre>
+                    </details>
                   ) : (
                     <div className="flex flex-col items-start mb-6 group">
-                      {(message.thinking) && (
-                        <ThinkingSection thinking={message.thinking} thinkingContent={thinkingContent} />
+                      {(message.thinking || message.thinkingRedacted || !!message.metadata?.usage?.reasoning_tokens) && (
+                        <ThinkingSection
+                          thinking={message.thinking}
+                          thinkingContent={thinkingContent}
+                          reasoningTokens={message.metadata?.usage?.reasoning_tokens}
+                          redacted={message.thinkingRedacted}
+                        />
+                      )}
+                      {message.tool_calls && message.tool_calls.length > 0 && (
+                        <div className="flex flex-wrap gap-2 py-1">
+                          {message.tool_calls.map(toolCall => (
+                            <span
+                              key={toolCall.id}
+                              className="flex items-center gap-1.5 text-xs text-white/70 bg-white/5 border border-white/10 rounded-md px-2 py-1 max-w-full truncate"
+                              title={toolCall.function.arguments}
+                            >
+                              <Wrench className="w-3 h-3 flex-shrink-0" />
+                              {toolCall.function.name}
+                            </span>
+                          ))}
+                        </div>
                       )}
                       <div className="w-full text-gray-100 py-2 px-0 text-[18px]">
-                        <MessageContentRenderer content={message.content} />
+                        <MessageContentRenderer content={message.content} citations={message.citations} />
                       </div>
-                      <div className={`mt-1.5 ${isMobile ? 'opacity-100' : 'opacity-100 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200 flex items-center gap-2`}>
+                      {message.images && message.images.length > 0 && (
+                        <GeneratedImages images={message.images} galleryImages={galleryImages} />
+                      )}
+                      {message.failover && (
+                        <div
+                          className="flex items-center gap-1.5 text-xs text-white/50"
+                          title={`Failed: ${message.failover.failedProviders.join(', ')}`}
+                        >
+                          <Shuffle className="w-3 h-3 flex-shrink-0" />
+                          Answered by {getProviderHost(message.failover.provider)} after {message.failover.failedProviders.map(getProviderHost).join(', ')} failed
+                        </div>
+                      )}
+                      {message.interrupted && (
+                        <div className="text-xs text-yellow-400/80">
+                          Interrupted: the page was closed while this answer was streaming
+                        </div>
+                      )}
+                      <div className={`mt-1.5 ${isMobile || branchInfo[index] ? 'opacity-100' : 'opacity-100 md:opacity-0 md:group-hover:opacity-100'} transition-opacity duration-200 flex items-center gap-2`}>
+                        {branchInfo[index] && (
+                          <BranchSwitcher
+                            info={branchInfo[index]}
+                            onSwitch={(offset) => switchBranch(index, offset)}
+                            disabled={isLoading}
+                          />
+                        )}
                         <button
                           onClick={() => copyMessageContent(index, message.content)}
                           className="flex items-center gap-1.5 text-xs text-white/80 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-md px-3 py-1.5 transition-colors cursor-pointer"
@@ -436,7 +632,31 @@ export default function ChatMessages({
                           </svg>
                           Try Again
                         </button>
+                        {message.interrupted && index === messages.length - 1 && (
+                          <button
+                            onClick={() => continueGeneration(index)}
+                            disabled={isLoading}
+                            className="flex items-center gap-1.5 text-xs text-white/80 hover:text-white bg-white/5 hover:bg-white/10 border border-white/10 rounded-md px-3 py-1.5 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <StepForward className="w-3 h-3" />
+                            Continue
+                          </button>
+                        )}
+                        {message.metadata && (
+                          <button
+                            onClick={() => setExpandedMetadataIndex(expandedMetadataIndex === index ? null : index)}
+                            className={`flex items-center gap-1.5 text-xs hover:text-white border border-white/10 rounded-md px-3 py-1.5 transition-colors cursor-pointer ${expandedMetadataIndex === index ? 'text-white bg-white/10' : 'text-white/80 bg-white/5 hover:bg-white/10'}`}
+                            title={getMetadataSummary(message.metadata)}
+                            aria-expanded={expandedMetadataIndex === index}
+                          >
+                            <Info className="w-3 h-3" />
+                            Details
+                          </button>
+                        )}
                       </div>
+                      {message.metadata && expandedMetadataIndex === index && (
+                        <MessageMetadataPanel metadata={message.metadata} />
+                      )}
                     </div>
                   )}
                 </div>
@@ -458,6 +678,8 @@ export default function ChatMessages({
           </div>
         )}
 
+        {compareView}
+
         <div ref={messagesEndRef} />
       </div>
     </div>
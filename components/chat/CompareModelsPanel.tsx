@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Check, Columns2, X } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
+import { Model } from '@/data/models';
+import { CompareTarget } from '@/types/chat';
+import { getAlternativeProviders, getProviderHost, normalizeBaseUrl } from '@/utils/modelUtils';
+import { MAX_COMPARE_MODELS, MIN_COMPARE_MODELS } from '@/hooks/useCompareMode';
+
+interface CompareModelsPanelProps {
+  models: Model[];
+  compareTargets: CompareTarget[];
+  setCompareTargets: (targets: CompareTarget[]) => void;
+  modelProviderMap: Record<string, string>;
+  isComparing: boolean;
+  isMobile: boolean;
+}
+
+/**
+ * Picks the models (and the provider for each) that compare mode sends the next prompt to
+ * Compare mode is active while at least two models are selected
+ */
+const CompareModelsPanel: React.FC<CompareModelsPanelProps> = ({
+  models,
+  compareTargets,
+  setCompareTargets,
+  modelProviderMap,
+  isComparing,
+  isMobile
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const isActive = compareTargets.length >= MIN_COMPARE_MODELS;
+
+  const visibleModels = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const unique = models.filter((model, index) => models.findIndex(m => m.id === model.id) === index);
+    return query
+      ? unique.filter(m => m.id.toLowerCase().includes(query) || m.name?.toLowerCase().includes(query))
+      : unique;
+  }, [models, search]);
+
+  const toggleModel = (modelId: string) => {
+    if (compareTargets.some(t => t.modelId === modelId)) {
+      setCompareTargets(compareTargets.filter(t => t.modelId !== modelId));
+      return;
+    }
+    if (compareTargets.length >= MAX_COMPARE_MODELS) return;
+    // Prefer the provider the user pinned for this model, otherwise the cheapest one offering it
+    const pinned = normalizeBaseUrl(modelProviderMap[modelId]);
+    const providers = getAlternativeProviders(modelId);
+    const baseUrl = providers.find(p => p.baseUrl === pinned)?.baseUrl ?? providers[0]?.baseUrl;
+    if (!baseUrl) return;
+    setCompareTargets([...compareTargets, { modelId, baseUrl }]);
+  };
+
+  const setTargetProvider = (modelId: string, baseUrl: string) => {
+    setCompareTargets(compareTargets.map(t => (t.modelId === modelId ? { ...t, baseUrl } : t)));
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={`rounded-full p-1.5 shadow-md border border-white/10 hover:bg-white/10 text-white cursor-pointer ${isActive ? 'bg-white/15' : 'bg-white/5'}`}
+          aria-label="Compare models"
+          title={isActive ? `Comparing ${compareTargets.length} models` : 'Compare models'}
+          type="button"
+        >
+          <Columns2 className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className={`${isMobile ? 'w-[92vw]' : 'w-80'} bg-[#212121] border border-white/10 rounded-md shadow-lg p-2 text-white`}
+      >
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <h3 className="text-sm font-medium text-white/80">Compare models</h3>
+          {compareTargets.length > 0 && (
+            <button
+              onClick={() => setCompareTargets([])}
+              className="text-xs text-white/50 hover:text-white cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isComparing}
+              type="button"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-white/50 px-2 mb-2">
+          Pick {MIN_COMPARE_MODELS}–{MAX_COMPARE_MODELS} models. Your next message is sent to all of them and each answer is paid for separately.
+        </p>
+
+        {compareTargets.length > 0 && (
+          <div className="space-y-1.5 mb-2 px-2">
+            {compareTargets.map(target => {
+              const providers = getAlternativeProviders(target.modelId);
+              return (
+                <div key={target.modelId} className="bg-white/5 border border-white/10 rounded-md p-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm truncate">{target.modelId}</span>
+                    <button
+                      onClick={() => toggleModel(target.modelId)}
+                      className="text-white/50 hover:text-white cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={isComparing}
+                      aria-label={`Remove ${target.modelId}`}
+                      type="button"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                  <select
+                    value={target.baseUrl}
+                    onChange={(e) => setTargetProvider(target.modelId, e.target.value)}
+                    disabled={isComparing}
+                    className="mt-1 w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white/80 focus:border-white/30 focus:outline-none"
+                  >
+                    {providers.map(provider => (
+                      <option key={provider.baseUrl} value={provider.baseUrl} className="bg-[#212121]">
+                        {getProviderHost(provider.baseUrl)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search models"
+          className="w-full bg-white/5 border border-white/10 rounded-md px-2 py-1.5 text-sm text-white focus:border-white/30 focus:outline-none mb-1"
+        />
+        <div className="max-h-56 overflow-y-auto space-y-0.5">
+          {visibleModels.map(model => {
+            const selected = compareTargets.some(t => t.modelId === model.id);
+            const disabled = isComparing || (!selected && compareTargets.length >= MAX_COMPARE_MODELS);
+            return (
+              <button
+                key={model.id}
+                onClick={() => toggleModel(model.id)}
+                disabled={disabled}
+                className="w-full flex items-center justify-between text-left px-2 py-1.5 rounded-md text-sm hover:bg-white/10 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                type="button"
+              >
+                <span className="truncate">{model.name || model.id}</span>
+                {selected && <Check className="h-4 w-4 text-white/70 flex-shrink-0 ml-2" />}
+              </button>
+            );
+          })}
+          {visibleModels.length === 0 && (
+            <p className="text-xs text-white/50 px-2 py-1.5">No models found.</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CompareModelsPanel;
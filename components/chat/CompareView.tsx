@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import MarkdownRenderer from '@/components/MarkdownRenderer';
+import ThinkingSection from '@/components/ui/ThinkingSection';
+import { CompareColumn, CompareRun } from '@/hooks/useCompareMode';
+import { getTextFromContent } from '@/utils/messageUtils';
+import { getProviderHost } from '@/utils/modelUtils';
+
+interface CompareViewProps {
+  compareRun: CompareRun;
+  isComparing: boolean;
+  onPromote: (columnId: string) => void;
+  onDismiss: () => void;
+}
+
+const formatMs = (ms?: number): string => {
+  if (ms === undefined) return '–';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const getColumnAnswer = (column: CompareColumn): string => {
+  const answer = [...column.messages].reverse().find(m => m.role === 'assistant');
+  return answer ? getTextFromContent(answer.content) : '';
+};
+
+/**
+ * Side-by-side answers of a compare run
+ * Each column shows its model's streamed answer with cost and latency, and one answer can be kept in the conversation
+ */
+const CompareView: React.FC<CompareViewProps> = ({ compareRun, isComparing, onPromote, onDismiss }) => {
+  const columnCount = compareRun.columns.length;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-white/80">Comparing {columnCount} models</h3>
+        <button
+          onClick={onDismiss}
+          className="flex items-center gap-1 text-xs text-white/50 hover:text-white cursor-pointer"
+          type="button"
+        >
+          <X className="h-3.5 w-3.5" />
+          {isComparing ? 'Stop and discard' : 'Discard all'}
+        </button>
+      </div>
+      <div className={`grid grid-cols-1 gap-3 ${columnCount >= 3 ? 'md:grid-cols-2 xl:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {compareRun.columns.map(column => {
+          const answer = column.content || getColumnAnswer(column);
+          const canPromote = !isComparing && column.status === 'done';
+          return (
+            <div key={column.id} className="flex flex-col bg-white/5 border border-white/10 rounded-md p-3 min-w-0">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex flex-col min-w-0">
+                  <span className="text-sm text-white truncate">{column.modelId}</span>
+                  <span className="text-xs text-white/40 truncate">{getProviderHost(column.baseUrl)}</span>
+                </div>
+                {(column.status === 'queued' || column.status === 'streaming') && (
+                  <Loader2 className="h-4 w-4 text-white/50 animate-spin flex-shrink-0" />
+                )}
+              </div>
+
+              <div className="flex-grow max-h-[60vh] overflow-y-auto text-gray-100 text-sm">
+                {column.thinking && (
+                  <ThinkingSection thinkingContent={column.thinking} isStreaming={column.content === ''} />
+                )}
+                {answer && <MarkdownRenderer content={answer} />}
+                {column.status === 'queued' && <p className="text-xs text-white/40">Waiting for provider…</p>}
+                {column.status === 'stopped' && !answer && <p className="text-xs text-white/40">Stopped</p>}
+                {column.errors.map((error, index) => (
+                  <p key={index} className="text-xs text-red-400 mt-1">{error}</p>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-2 mt-3 pt-2 border-t border-white/10">
+                <div className="text-xs text-white/50 space-x-2">
+                  <span title="Sats spent">{column.satsSpent} sats</span>
+                  <span title="Time to first token">TTFT {formatMs(column.firstTokenMs)}</span>
+                  <span title="Total duration">{formatMs(column.durationMs)}</span>
+                </div>
+                <button
+                  onClick={() => onPromote(column.id)}
+                  disabled={!canPromote}
+                  className="flex items-center gap-1 bg-white/10 hover:bg-white/20 text-white px-2 py-1 rounded-md text-xs transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                  type="button"
+                >
+                  <Check className="h-3.5 w-3.5" />
+                  Use this answer
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
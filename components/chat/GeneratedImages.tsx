@@ -0,0 +1,51 @@
+import { ImageOff } from 'lucide-react';
+import { GalleryImage, GeneratedImage } from '@/types/chat';
+import { downloadImageFromSrc } from '@/utils/download';
+
+interface GeneratedImagesProps {
+  images: GeneratedImage[];
+  /** Gallery of the conversation; supplies the data of images that stored conversations leave out */
+  galleryImages: GalleryImage[];
+}
+
+/**
+ * Images generated for an answer, with a download button each
+ */
+export default function GeneratedImages({ images, galleryImages }: GeneratedImagesProps) {
+  return (
+    <div className="flex flex-wrap gap-2 py-1">
+      {images.map(image => {
+        const url = image.url ?? galleryImages.find(entry => entry.id === image.id)?.url;
+        if (!url) {
+          return (
+            <div
+              key={image.id}
+              className="flex items-center gap-1.5 text-xs text-white/50 bg-white/5 border border-white/10 rounded-md px-2 py-1"
+            >
+              <ImageOff className="w-3.5 h-3.5" />
+              Image removed from the gallery
+            </div>
+          );
+        }
+        return (
+          <div key={image.id} className="relative group">
+            <img
+              src={url}
+              alt={image.revisedPrompt ?? image.prompt}
+              title={image.revisedPrompt ?? image.prompt}
+              className={`${images.length > 1 ? 'max-w-[256px] max-h-[256px]' : 'max-w-[512px] max-h-[512px]'} w-auto h-auto object-contain rounded-lg border border-white/10`}
+            />
+            <button
+              type="button"
+              onClick={() => downloadImageFromSrc(url)}
+              className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity bg-black/60 hover:bg-black/80 text-white text-xs rounded-md px-2 py-1 border border-white/20"
+              aria-label="Download image"
+            >
+              Download
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
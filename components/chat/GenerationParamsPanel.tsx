@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
+import { GenerationParameters } from '@/types/chat';
+
+interface GenerationParamsPanelProps {
+  parameters: GenerationParameters | undefined;
+  setParameters: (parameters: GenerationParameters | undefined) => void;
+  maxCompletionTokens?: number;
+  isMobile: boolean;
+}
+
+const REASONING_EFFORTS: NonNullable<GenerationParameters['reasoning_effort']>[] = ['low', 'medium', 'high'];
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Per-conversation generation parameters (temperature, max_tokens, top_p, stop, reasoning effort)
+ * Empty fields are left to the provider defaults
+ */
+const GenerationParamsPanel: React.FC<GenerationParamsPanelProps> = ({
+  parameters,
+  setParameters,
+  maxCompletionTokens,
+  isMobile
+}) => {
+  const [stopInput, setStopInput] = useState<string>((parameters?.stop ?? []).join(', '));
+
+  useEffect(() => {
+    setStopInput((parameters?.stop ?? []).join(', '));
+  }, [parameters?.stop]);
+
+  const updateParameter = <K extends keyof GenerationParameters>(key: K, value: GenerationParameters[K]) => {
+    const next: GenerationParameters = { ...parameters, [key]: value };
+    if (value === undefined) delete next[key];
+    setParameters(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const hasCustomParameters = !!parameters && Object.keys(parameters).length > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`rounded-full p-1.5 shadow-md border border-white/10 hover:bg-white/10 text-white cursor-pointer ${hasCustomParameters ? 'bg-white/15' : 'bg-white/5'}`}
+          aria-label="Generation parameters"
+          title="Generation parameters"
+          type="button"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className={`${isMobile ? 'w-[92vw]' : 'w-80'} bg-[#212121] border border-white/10 rounded-md shadow-lg p-4 text-white`}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-white/80">Generation parameters</h3>
+          <button
+            onClick={() => setParameters(undefined)}
+            disabled={!hasCustomParameters}
+            className="text-xs text-white/60 hover:text-white disabled:opacity-40 cursor-pointer"
+            type="button"
+          >
+            Reset
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <div className="flex justify-between text-xs text-white/60 mb-1">
+              <span>Temperature</span>
+              <span>{parameters?.temperature ?? 'default'}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={parameters?.temperature ?? 1}
+              onChange={(e) => updateParameter('temperature', Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-white/60 mb-1">
+              <span>Top P</span>
+              <span>{parameters?.top_p ?? 'default'}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={parameters?.top_p ?? 1}
+              onChange={(e) => updateParameter('top_p', Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-white/60 mb-1">Max tokens</label>
+            <input
+              type="number"
+              min={1}
+              max={maxCompletionTokens}
+              placeholder="Model default"
+              value={parameters?.max_tokens ?? ''}
+              onChange={(e) => updateParameter('max_tokens', parseOptionalNumber(e.target.value))}
+              className="w-full bg-white/5 border border-white/10 rounded-md px-3 py-1.5 text-sm text-white focus:border-white/30 focus:outline-none"
+            />
+            <p className="text-[11px] text-white/40 mt-1">A lower cap locks fewer sats per request</p>
+          </div>
+
+          <div>
+            <label className="block text-xs text-white/60 mb-1">Stop sequences</label>
+            <input
+              type="text"
+              placeholder="Comma separated"
+              value={stopInput}
+              onChange={(e) => setStopInput(e.target.value)}
+              onBlur={() => {
+                const stop = stopInput.split(',').map(sequence => sequence.trim()).filter(Boolean);
+                updateParameter('stop', stop.length > 0 ? stop : undefined);
+              }}
+              className="w-full bg-white/5 border border-white/10 rounded-md px-3 py-1.5 text-sm text-white focus:border-white/30 focus:outline-none"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-white/60 mb-1">Reasoning effort</label>
+            <div className="flex gap-1">
+              <button
+                onClick={() => updateParameter('reasoning_effort', undefined)}
+                className={`flex-1 text-xs rounded-md px-2 py-1.5 border border-white/10 cursor-pointer ${!parameters?.reasoning_effort ? 'bg-white/15 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`}
+                type="button"
+              >
+                Default
+              </button>
+              {REASONING_EFFORTS.map(effort => (
+                <button
+                  key={effort}
+                  onClick={() => updateParameter('reasoning_effort', effort)}
+                  className={`flex-1 text-xs rounded-md px-2 py-1.5 border border-white/10 capitalize cursor-pointer ${parameters?.reasoning_effort === effort ? 'bg-white/15 text-white' : 'bg-white/5 text-white/60 hover:bg-white/10'}`}
+                  type="button"
+                >
+                  {effort}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default GenerationParamsPanel;
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download, Images, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
+import { useImageGallery } from '@/hooks/useImageGallery';
+import { downloadImageFromSrc } from '@/utils/download';
+
+interface ImageGalleryPanelProps {
+  conversationId: string | null;
+  isMobile: boolean;
+}
+
+/**
+ * Every image generated in the active conversation, with download and delete
+ * Hidden until the conversation has images
+ */
+const ImageGalleryPanel: React.FC<ImageGalleryPanelProps> = ({ conversationId, isMobile }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { images, removeImage } = useImageGallery(conversationId);
+
+  if (images.length === 0) return null;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="rounded-full p-1.5 shadow-md border border-white/10 bg-white/5 hover:bg-white/10 text-white cursor-pointer"
+          aria-label="Image gallery"
+          title={`${images.length} generated ${images.length === 1 ? 'image' : 'images'}`}
+          type="button"
+        >
+          <Images className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className={`${isMobile ? 'w-[92vw]' : 'w-[28rem]'} bg-[#212121] border border-white/10 rounded-md shadow-lg p-2 text-white`}
+      >
+        <h3 className="text-sm font-medium text-white/80 px-2 py-1.5">Generated images</h3>
+        <div className="max-h-[60vh] overflow-y-auto grid grid-cols-2 gap-2 p-1">
+          {[...images].reverse().map(image => (
+            <div key={image.id} className="relative group bg-white/5 border border-white/10 rounded-md overflow-hidden">
+              <img
+                src={image.url}
+                alt={image.revisedPrompt ?? image.prompt}
+                className="w-full aspect-square object-cover"
+              />
+              <p className="text-xs text-white/60 px-2 py-1 truncate" title={image.revisedPrompt ?? image.prompt}>
+                {image.prompt || image.model}
+              </p>
+              <div className="absolute top-1.5 right-1.5 flex gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => downloadImageFromSrc(image.url)}
+                  className="bg-black/60 hover:bg-black/80 text-white rounded-md p-1 border border-white/20 cursor-pointer"
+                  aria-label="Download image"
+                  type="button"
+                >
+                  <Download className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => removeImage(image).catch(error => console.error('Failed to delete image:', error))}
+                  className="bg-black/60 hover:bg-black/80 text-white rounded-md p-1 border border-white/20 cursor-pointer"
+                  aria-label="Delete image"
+                  type="button"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ImageGalleryPanel;
@@ -5,7 +5,11 @@ import { useChat } from '@/context/ChatProvider';
 import { useAuth } from '@/context/AuthProvider';
 import ChatMessages from './ChatMessages';
 import ChatInput from './ChatInput';
-import { getTextFromContent } from '@/utils/messageUtils';
+import CompareView from './CompareView';
+import { useImageGallery } from '@/hooks/useImageGallery';
+import { createErrorMessage, getTextFromContent } from '@/utils/messageUtils';
+import { RefundFailedError } from '@/utils/routstrErrors';
+import { ErrorAction, MessageErrorDetails } from '@/types/chat';
 
 /**
  * Central chat interface component
@@ -44,12 +48,17 @@ const MainChatArea: React.FC = () => {
     isSidebarCollapsed,
     isMobile,
     setIsLoginModalOpen,
+    setIsSettingsOpen,
+    setInitialSettingsTab,
     
     // Conversation State
     activeConversationId,
     createNewConversationHandler,
     saveConversationById,
     getActiveConversationId,
+    activeConversationRequestOptions,
+    branchInfo,
+    switchBranch,
     
     // API State
     selectedModel,
@@ -59,10 +68,26 @@ const MainChatArea: React.FC = () => {
     // Actions
     sendMessage,
     saveInlineEdit,
-    retryMessage
+    retryMessage,
+    continueGeneration,
+    stopGeneration,
+    retryRefund,
+
+    // Compare Mode
+    isCompareMode,
+    compareRun,
+    isComparing,
+    runCompare,
+    stopCompare,
+    promoteCompareAnswer,
+    dismissCompare
   } = useChat();
+  const { images: galleryImages } = useImageGallery(activeConversationId);
 
   const handleSendMessage = async () => {
+    if (compareRun && !isComparing) {
+      dismissCompare();
+    }
     await sendMessage(
       messages,
       setMessages,
@@ -74,10 +99,28 @@ const MainChatArea: React.FC = () => {
       isAuthenticated,
       setIsLoginModalOpen,
       saveConversationById,
-      getActiveConversationId
+      getActiveConversationId,
+      activeConversationRequestOptions,
+      isCompareMode
+        ? (history, conversationId) => runCompare(history, conversationId, mintUrl, activeConversationRequestOptions)
+        : undefined
     );
   };
 
+  const handlePromoteCompareAnswer = (columnId: string) => {
+    if (!compareRun || compareRun.conversationId !== activeConversationId) return;
+    const promoted = promoteCompareAnswer(columnId);
+    if (!promoted) return;
+    const updatedMessages = [...messages, ...promoted];
+    setMessages(updatedMessages);
+    saveConversationById(compareRun.conversationId, updatedMessages);
+  };
+
+  const handleStopGeneration = () => {
+    stopGeneration();
+    stopCompare();
+  };
+
   const handleSaveInlineEdit = async () => {
     await saveInlineEdit(
       editingMessageIndex,
@@ -91,11 +134,12 @@ const MainChatArea: React.FC = () => {
       mintUrl,
       activeConversationId,
       saveConversationById,
-      getActiveConversationId
+      getActiveConversationId,
+      activeConversationRequestOptions
     );
   };
 
-  const handleRetryMessage = (index: number) => {
+  const handleRetryMessage = (index: number, overrideBudget?: boolean) => {
     retryMessage(
       index,
       messages,
@@ -105,10 +149,66 @@ const MainChatArea: React.FC = () => {
       mintUrl,
       activeConversationId,
       saveConversationById,
-      getActiveConversationId
+      getActiveConversationId,
+      activeConversationRequestOptions,
+      overrideBudget
+    );
+  };
+
+  const handleContinueGeneration = (index: number) => {
+    continueGeneration(
+      index,
+      messages,
+      setMessages,
+      selectedModel,
+      baseUrl,
+      mintUrl,
+      activeConversationId,
+      saveConversationById,
+      getActiveConversationId,
+      activeConversationRequestOptions
     );
   };
 
+  const handleErrorAction = async (action: ErrorAction, details: MessageErrorDetails, index: number) => {
+    switch (action) {
+      case 'top_up':
+        setInitialSettingsTab('wallet');
+        setIsSettingsOpen(true);
+        break;
+      case 'switch_provider':
+        setInitialSettingsTab('models');
+        setIsSettingsOpen(true);
+        break;
+      case 'trim_context':
+        setInitialSettingsTab('settings');
+        setIsSettingsOpen(true);
+        break;
+      case 'retry':
+        handleRetryMessage(index);
+        break;
+      case 'override_budget':
+        handleRetryMessage(index, true);
+        break;
+      case 'retry_refund': {
+        const conversationId = activeConversationId;
+        const refundBaseUrl = details.baseUrl ?? baseUrl;
+        const result = await retryRefund(mintUrl, refundBaseUrl);
+        if (!conversationId || conversationId !== getActiveConversationId()) return;
+        // A successful refund resolves the notice; a failed one is reported again with the new reason
+        const updatedMessages = result.success
+          ? messages.filter((_, i) => i !== index)
+          : [...messages, createErrorMessage(
+              `Refund failed: ${result.message}.`,
+              (result.error ?? new RefundFailedError(result.message ?? 'Refund failed', { baseUrl: refundBaseUrl })).toDetails()
+            )];
+        setMessages(updatedMessages);
+        saveConversationById(conversationId, updatedMessages);
+        break;
+      }
+    }
+  };
+
   return (
     <>
       {/* Chat Messages */}
@@ -123,9 +223,23 @@ const MainChatArea: React.FC = () => {
         cancelEditing={cancelEditing}
         saveInlineEdit={handleSaveInlineEdit}
         retryMessage={handleRetryMessage}
+        continueGeneration={handleContinueGeneration}
+        onErrorAction={handleErrorAction}
         getTextFromContent={getTextFromContent}
         messagesEndRef={messagesEndRef}
         isMobile={isMobile}
+        branchInfo={branchInfo}
+        switchBranch={switchBranch}
+        isLoading={isLoading || isComparing}
+        compareView={compareRun && compareRun.conversationId === activeConversationId ? (
+          <CompareView
+            compareRun={compareRun}
+            isComparing={isComparing}
+            onPromote={handlePromoteCompareAnswer}
+            onDismiss={dismissCompare}
+          />
+        ) : undefined}
+        galleryImages={galleryImages}
       />
 
       {/* Chat Input */}
@@ -135,7 +249,8 @@ const MainChatArea: React.FC = () => {
         uploadedImages={uploadedImages}
         setUploadedImages={setUploadedImages}
         sendMessage={handleSendMessage}
-        isLoading={isLoading}
+        stopGeneration={handleStopGeneration}
+        isLoading={isLoading || isComparing}
         isAuthenticated={isAuthenticated}
         textareaHeight={textareaHeight}
         setTextareaHeight={setTextareaHeight}
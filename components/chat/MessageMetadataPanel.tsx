@@ -0,0 +1,63 @@
+import React from 'react';
+import { MessageMetadata } from '@/types/chat';
+import { getProviderHost } from '@/utils/modelUtils';
+
+interface MessageMetadataPanelProps {
+  metadata: MessageMetadata;
+}
+
+const formatDuration = (ms?: number): string | undefined => {
+  if (ms === undefined) return undefined;
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+};
+
+const formatSats = (sats?: number): string | undefined => {
+  if (sats === undefined) return undefined;
+  return `${Number.isInteger(sats) ? sats : sats.toFixed(3)} sats`;
+};
+
+/**
+ * One-line summary of an answer's cost and latency, used as the details button tooltip
+ * @param metadata The answer's metadata
+ * @returns Summary text
+ */
+export const getMetadataSummary = (metadata: MessageMetadata): string => {
+  return [formatSats(metadata.satsSpent), formatDuration(metadata.durationMs), metadata.model]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+/**
+ * Usage, cost, provider and latency of the request that produced an assistant message
+ */
+const MessageMetadataPanel: React.FC<MessageMetadataPanelProps> = ({ metadata }) => {
+  const rows: [string, string | undefined][] = [
+    ['Model', metadata.model],
+    ['Provider', metadata.baseUrl ? getProviderHost(metadata.baseUrl) : undefined],
+    ['Request ID', metadata.requestId],
+    ['Prompt tokens', metadata.usage?.prompt_tokens?.toLocaleString()],
+    ['Completion tokens', metadata.usage?.completion_tokens?.toLocaleString()],
+    ['Reasoning tokens', metadata.usage?.reasoning_tokens?.toLocaleString()],
+    ['Total tokens', metadata.usage?.total_tokens?.toLocaleString()],
+    ['Sats spent', formatSats(metadata.satsSpent)],
+    ['Estimated cost', formatSats(metadata.estimatedCost === undefined ? undefined : Math.round(metadata.estimatedCost * 1000) / 1000)],
+    ['Time to first token', formatDuration(metadata.firstTokenMs)],
+    ['Total duration', formatDuration(metadata.durationMs)],
+    ['Finish reason', metadata.finishReason]
+  ];
+
+  return (
+    <div className="mt-2 bg-white/5 border border-white/10 rounded-md p-3 text-xs">
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+        {rows.filter(([, value]) => value !== undefined && value !== '').map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-white/50">{label}</dt>
+            <dd className="text-white/80 font-mono break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default MessageMetadataPanel;
@@ -1,11 +1,12 @@
 import { useRef, useEffect, useState, useMemo } from 'react';
-import { ArrowLeft, ChevronDown, ChevronRight, Loader2, Search, Settings, Star, Info, Image as ImageIcon, Type, Mic, Video, Copy, Check } from 'lucide-react';
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2, Search, Settings, Star, Info, Image as ImageIcon, Type, Mic, Video, Copy, Check, AlertTriangle } from 'lucide-react';
 import type { ReactNode } from 'react';
 import { Model } from '@/data/models';
 import { getModelNameWithoutProvider, getProviderFromModelName } from '@/data/models';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
 import { loadModelProviderMap } from '@/utils/storageUtils';
 import { parseModelKey, normalizeBaseUrl } from '@/utils/modelUtils';
+import { describeProviderReputation, getProviderReputation, getProviderReputations, ProviderReputation } from '@/utils/providerReputationUtils';
 
 interface ModelSelectorProps {
   selectedModel: Model | null;
@@ -53,6 +54,7 @@ export default function ModelSelector({
   const [detailsBaseUrl, setDetailsBaseUrl] = useState<string | null>(null);
   const [pairFilters, setPairFilters] = useState<Set<string>>(new Set());
   const [copiedModelId, setCopiedModelId] = useState<string | null>(null);
+  const [providerReputations, setProviderReputations] = useState<Record<string, ProviderReputation>>({});
   // Drawer open/close animation state
   const [isDrawerVisible, setIsDrawerVisible] = useState(false);
   const [isDrawerAnimating, setIsDrawerAnimating] = useState(false);
@@ -65,6 +67,13 @@ export default function ModelSelector({
     }
   }, []);
 
+  // Refresh the overcharge record whenever the drawer opens; it changes after every request
+  useEffect(() => {
+    if (isModelDrawerOpen) {
+      setProviderReputations(getProviderReputations());
+    }
+  }, [isModelDrawerOpen]);
+
   // Normalize base URL to ensure trailing slash and protocol (moved to utils)
 
   // Fetch and cache models for a specific provider base URL
@@ -474,6 +483,7 @@ export default function ModelSelector({
     const isFav = isFavorite || isConfiguredModel(model.id);
     const effectiveProviderLabel = providerLabel || formatProviderLabel(baseForPricing, model);
     const isDynamicProvider = !isFixedProvider;
+    const reputation = getProviderReputation(providerReputations, baseForPricing);
     return (
       <div
         key={`${configuredKeyOverride || model.id}`}
@@ -522,6 +532,11 @@ export default function ModelSelector({
                   <span title="Dynamic provider: always picks the cheapest based on pricing">~</span>
                 )}
                 <span className="truncate">{effectiveProviderLabel}</span>
+                {reputation && reputation.overchargeCount > 0 && (
+                  <span className="inline-flex" title={`${describeProviderReputation(reputation)}${reputation.isDeprioritized ? ' — de-prioritized' : ''}`}>
+                    <AlertTriangle className={`h-3 w-3 ${reputation.isDeprioritized ? 'text-yellow-400' : 'text-white/40'}`} />
+                  </span>
+                )}
                 {isDynamicProvider && (
                   <span className="inline-flex" title="Dynamic provider: always picks the cheapest based on pricing">
                     <Info className="h-3 w-3 text-white/40" />
@@ -571,6 +586,7 @@ export default function ModelSelector({
     const providerModels = baseForDetails ? providerModelCache[baseForDetails] : undefined;
     const providerSpecificModel = providerModels ? providerModels[model.id] : undefined;
     const effectiveModel = providerSpecificModel || model;
+    const reputation = getProviderReputation(providerReputations, baseForDetails);
     // Date formatter for created timestamp (epoch seconds)
     const formatDate = (epochSeconds?: number): string => {
       try {
@@ -692,6 +708,18 @@ export default function ModelSelector({
           )}
         </div>
 
+        {reputation && (
+          <div className="space-y-1">
+            <div className="text-xs text-white/60">Provider record</div>
+            <div className={`rounded-md p-2 border text-xs ${reputation.isDeprioritized ? 'bg-yellow-500/10 border-yellow-500/30' : 'bg-white/5 border-white/10'}`}>
+              <div className="font-medium">{describeProviderReputation(reputation)}</div>
+              {reputation.isDeprioritized && (
+                <div className="text-[11px] text-yellow-400/90 mt-1">De-prioritized: other providers are picked first for this model</div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Capabilities section removed per request */}
       </div>
     );
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, UserRound } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
+import { Persona } from '@/types/chat';
+import { loadPersonas } from '@/utils/storageUtils';
+
+interface PersonaSelectorProps {
+  activePersonaId: string | undefined;
+  selectPersona: (persona: Persona | null) => void;
+  handleModelChange: (modelId: string) => void;
+  openPersonaSettings: () => void;
+  isMobile: boolean;
+}
+
+/**
+ * Picks the persona for the current (or next) conversation
+ * Selecting a persona applies its system prompt, default parameters and default model
+ */
+const PersonaSelector: React.FC<PersonaSelectorProps> = ({
+  activePersonaId,
+  selectPersona,
+  handleModelChange,
+  openPersonaSettings,
+  isMobile
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [personas, setPersonas] = useState<Persona[]>(() => loadPersonas());
+
+  const activePersona = personas.find(p => p.id === activePersonaId);
+
+  const handleOpenChange = (open: boolean) => {
+    // The library is edited in settings, so re-read it every time the picker opens
+    if (open) setPersonas(loadPersonas());
+    setIsOpen(open);
+  };
+
+  const handleSelect = (persona: Persona | null) => {
+    selectPersona(persona);
+    if (persona?.defaultModel) {
+      handleModelChange(persona.defaultModel);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          className={`rounded-full p-1.5 shadow-md border border-white/10 hover:bg-white/10 text-white cursor-pointer ${activePersonaId ? 'bg-white/15' : 'bg-white/5'}`}
+          aria-label="Persona"
+          title={activePersona ? `Persona: ${activePersona.name}` : 'Persona'}
+          type="button"
+        >
+          <UserRound className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className={`${isMobile ? 'w-[92vw]' : 'w-72'} bg-[#212121] border border-white/10 rounded-md shadow-lg p-2 text-white`}
+      >
+        <h3 className="text-sm font-medium text-white/80 px-2 py-1.5">Persona</h3>
+        <div className="max-h-64 overflow-y-auto space-y-0.5">
+          <button
+            onClick={() => handleSelect(null)}
+            className="w-full flex items-center justify-between text-left px-2 py-1.5 rounded-md text-sm hover:bg-white/10 cursor-pointer"
+            type="button"
+          >
+            <span className="text-white/70">No persona</span>
+            {!activePersonaId && <Check className="h-4 w-4 text-white/70" />}
+          </button>
+          {personas.map(persona => (
+            <button
+              key={persona.id}
+              onClick={() => handleSelect(persona)}
+              className="w-full flex items-center justify-between text-left px-2 py-1.5 rounded-md text-sm hover:bg-white/10 cursor-pointer"
+              type="button"
+            >
+              <div className="flex flex-col min-w-0">
+                <span className="truncate">{persona.name}</span>
+                <span className="text-xs text-white/40 truncate">{persona.systemPrompt}</span>
+              </div>
+              {persona.id === activePersonaId && <Check className="h-4 w-4 text-white/70 flex-shrink-0 ml-2" />}
+            </button>
+          ))}
+        </div>
+        <div className="border-t border-white/10 mt-2 pt-2">
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              openPersonaSettings();
+            }}
+            className="w-full text-left px-2 py-1.5 rounded-md text-xs text-white/60 hover:text-white hover:bg-white/10 cursor-pointer"
+            type="button"
+          >
+            Manage personas
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PersonaSelector;
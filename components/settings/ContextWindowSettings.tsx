@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ContextSettings } from '@/types/chat';
+import { loadContextSettings, saveContextSettings } from '@/utils/storageUtils';
+
+const ContextWindowSettings: React.FC = () => {
+  const [settings, setSettings] = useState<ContextSettings>(() => loadContextSettings());
+  const [maxTokensInput, setMaxTokensInput] = useState<string>(settings.maxContextTokens?.toString() ?? '');
+
+  const updateSettings = (updated: ContextSettings) => {
+    setSettings(updated);
+    saveContextSettings(updated);
+  };
+
+  const handleMaxTokensChange = (value: string) => {
+    setMaxTokensInput(value);
+    const parsed = Number(value);
+    const updated: ContextSettings = { ...settings };
+    if (value.trim() !== '' && Number.isFinite(parsed) && parsed > 0) {
+      updated.maxContextTokens = Math.floor(parsed);
+    } else {
+      delete updated.maxContextTokens;
+    }
+    updateSettings(updated);
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">Context Window</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4 space-y-3">
+        <p className="text-sm text-white">What happens to the oldest messages once a conversation no longer fits the model</p>
+        <select
+          value={settings.strategy}
+          onChange={(e) => updateSettings({ ...settings, strategy: e.target.value as ContextSettings['strategy'] })}
+          className="w-full bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+        >
+          <option value="truncate" className="bg-[#212121]">Drop the oldest messages</option>
+          <option value="summarize" className="bg-[#212121]">Summarize them with the provider&apos;s cheapest model</option>
+        </select>
+        <div>
+          <input
+            type="number"
+            min={1}
+            className="w-full bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+            placeholder="Max context tokens (optional)"
+            value={maxTokensInput}
+            onChange={(e) => handleMaxTokensChange(e.target.value)}
+          />
+          <p className="text-xs text-white/50 mt-1">
+            Caps the prompt size of every request below the model&apos;s context length to keep long conversations cheap
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContextWindowSettings;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { DEMO_BASE_URL, DEMO_MINT_URL, DEFAULT_BASE_URLS, DEFAULT_MINT_URL } from '@/lib/utils';
+import { loadBaseUrlsList, loadDemoProviderState, saveBaseUrlsList, saveDemoProviderState } from '@/utils/storageUtils';
+
+interface DemoProviderSettingsProps {
+  baseUrl: string;
+  setBaseUrl: (url: string) => void;
+  mintUrl: string;
+  setMintUrl: (url: string) => void;
+}
+
+/**
+ * Switches provider and mint to the local mock node started with `npm run mock:node`,
+ * and back to the previous ones
+ */
+const DemoProviderSettings: React.FC<DemoProviderSettingsProps> = ({ baseUrl, setBaseUrl, mintUrl, setMintUrl }) => {
+  const [isEnabled, setIsEnabled] = useState<boolean>(() => loadDemoProviderState() !== null);
+  const [isReachable, setIsReachable] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+    let cancelled = false;
+    fetch(DEMO_BASE_URL)
+      .then(res => { if (!cancelled) setIsReachable(res.ok); })
+      .catch(() => { if (!cancelled) setIsReachable(false); });
+    return () => { cancelled = true; };
+  }, [isEnabled]);
+
+  const handleToggle = () => {
+    if (!isEnabled) {
+      saveDemoProviderState({ previousBaseUrl: baseUrl, previousMintUrl: mintUrl });
+      const baseUrls = loadBaseUrlsList();
+      if (!baseUrls.includes(DEMO_BASE_URL)) {
+        saveBaseUrlsList([DEMO_BASE_URL, ...baseUrls]);
+      }
+      setBaseUrl(DEMO_BASE_URL);
+      setMintUrl(DEMO_MINT_URL);
+      setIsEnabled(true);
+    } else {
+      const previous = loadDemoProviderState();
+      saveDemoProviderState(null);
+      saveBaseUrlsList(loadBaseUrlsList().filter(url => url !== DEMO_BASE_URL));
+      setBaseUrl(previous?.previousBaseUrl && previous.previousBaseUrl !== DEMO_BASE_URL ? previous.previousBaseUrl : DEFAULT_BASE_URLS[0]);
+      setMintUrl(previous?.previousMintUrl && previous.previousMintUrl !== DEMO_MINT_URL ? previous.previousMintUrl : DEFAULT_MINT_URL);
+      setIsEnabled(false);
+      setIsReachable(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">Demo Provider</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm text-white">Use the local mock node</p>
+            <p className="text-xs text-white/50 mt-1">
+              Points the provider at {DEMO_BASE_URL} and the mint at its fake mint, whose invoices are paid instantly. Start it with <code className="font-mono">npm run mock:node</code>.
+            </p>
+          </div>
+          <button
+            role="switch"
+            aria-checked={isEnabled}
+            aria-label="Use the demo provider"
+            onClick={handleToggle}
+            className={`${
+              isEnabled ? 'bg-white' : 'bg-white/20'
+            } inline-flex h-[1.15rem] w-8 shrink-0 items-center rounded-full border border-transparent shadow-sm transition-all outline-none focus-visible:ring-2 focus-visible:ring-white/50 cursor-pointer`}
+            type="button"
+          >
+            <span
+              className={`${
+                isEnabled ? 'translate-x-[calc(100%-2px)] bg-black' : 'translate-x-0 bg-white'
+              } pointer-events-none block size-4 rounded-full ring-0 transition-transform`}
+            />
+          </button>
+        </div>
+        {isEnabled && isReachable === false && (
+          <p className="text-xs text-red-400 mt-2">The mock node is not reachable. Is <code className="font-mono">npm run mock:node</code> running?</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DemoProviderSettings;
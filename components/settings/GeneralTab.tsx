@@ -2,6 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { LogOut, XCircle, Copy } from 'lucide-react';
 import { AppRouterInstance } from 'next/dist/shared/lib/app-router-context.shared-runtime';
 import NostrRelayManager from './NostrRelayManager'; // Import the new component
+import McpServerManager from './McpServerManager';
+import PersonaManager from './PersonaManager';
+import ContextWindowSettings from './ContextWindowSettings';
+import SpendingBudgetsPanel from './SpendingBudgetsPanel';
+import TokenLockSettings from './TokenLockSettings';
+import DemoProviderSettings from './DemoProviderSettings';
+import LocalEndpointSettings from './LocalEndpointSettings';
 
 interface GeneralTabProps {
   publicKey: string | undefined;
@@ -12,6 +19,8 @@ interface GeneralTabProps {
   onClose: () => void;
   mintUrl: string;
   setMintUrl: (url: string) => void;
+  baseUrl: string;
+  setBaseUrl: (url: string) => void;
   // Model configuration moved to Models tab
 }
 
@@ -24,6 +33,8 @@ const GeneralTab: React.FC<GeneralTabProps> = ({
   onClose,
   mintUrl,
   setMintUrl,
+  baseUrl,
+  setBaseUrl,
   // Model configuration moved to Models tab
 }) => {
   // Model configuration moved to Models tab
@@ -86,9 +97,35 @@ const GeneralTab: React.FC<GeneralTabProps> = ({
         <p className="text-xs text-white/50 mt-1">The Cashu mint used for token generation</p>
       </div>
 
+      {/* Local mock node for offline development */}
+      <DemoProviderSettings
+        baseUrl={baseUrl}
+        setBaseUrl={setBaseUrl}
+        mintUrl={mintUrl}
+        setMintUrl={setMintUrl}
+      />
+
       {/* Nostr Relays */}
       <NostrRelayManager />
 
+      {/* MCP tool servers */}
+      <McpServerManager />
+
+      {/* Persona library */}
+      <PersonaManager />
+
+      {/* Context window management */}
+      <ContextWindowSettings />
+
+      {/* Spending caps checked before tokens are created */}
+      <SpendingBudgetsPanel />
+
+      {/* NUT-11 locks on provider tokens */}
+      <TokenLockSettings />
+
+      {/* OpenAI-compatible endpoint for other tools */}
+      <LocalEndpointSettings />
+
       {/* Model configuration moved to Models tab */}
 
       {/* Account Section */}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { CheckCircle, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useHotTokens } from '@/hooks/useHotTokens';
+import { getProviderHost } from '@/utils/modelUtils';
+
+/**
+ * Every provider holding one of our tokens, with its live balance and a refund per provider or for all of them
+ */
+const HotTokenManager: React.FC = () => {
+  const { hotTokens, liveBalances, reports, busyBaseUrls, isReclaimingAll, checkBalances, reclaim, reclaimAll } = useHotTokens();
+  const isChecking = busyBaseUrls.length > 0 && !isReclaimingAll;
+
+  const handleReclaimAll = async () => {
+    const results = await reclaimAll();
+    const failed = results.filter(result => !result.success);
+    const refunded = results.reduce((total, result) => total + (result.refundedAmount ?? 0), 0);
+    if (failed.length === 0) {
+      toast.success(`Reclaimed ${Math.floor(refunded)} sats from ${results.length} ${results.length === 1 ? 'provider' : 'providers'}`);
+    } else {
+      toast.error(`${failed.length} of ${results.length} refunds failed`);
+    }
+  };
+
+  if (hotTokens.length === 0 && reports.length === 0) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-white/80">Tokens at Providers</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => checkBalances()}
+            disabled={hotTokens.length === 0 || busyBaseUrls.length > 0}
+            className="flex items-center gap-1 text-xs text-white/60 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            title="Ask each provider what is left on the token"
+            type="button"
+          >
+            <RefreshCw className={`h-3 w-3 ${isChecking ? 'animate-spin' : ''}`} /> Check balances
+          </button>
+          <button
+            onClick={handleReclaimAll}
+            disabled={hotTokens.length === 0 || busyBaseUrls.length > 0}
+            className="px-3 py-1.5 text-xs text-white bg-white/10 border border-white/10 rounded-md hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+            type="button"
+          >
+            {isReclaimingAll ? 'Reclaiming…' : 'Reclaim all'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white/5 border border-white/10 rounded-md">
+        {hotTokens.length === 0 ? (
+          <div className="p-4 text-center text-white/50 text-sm">No tokens left at providers</div>
+        ) : (
+          hotTokens.map(token => {
+            const live = liveBalances[token.baseUrl];
+            const isBusy = busyBaseUrls.includes(token.baseUrl);
+            return (
+              <div key={token.baseUrl} className="flex items-center justify-between gap-3 p-3 border-b border-white/5 last:border-b-0">
+                <div className="min-w-0">
+                  <div className="text-sm text-white truncate" title={token.baseUrl}>{getProviderHost(token.baseUrl)}</div>
+                  <div className="text-xs text-white/50">
+                    Sent {token.lockedAmount} sats
+                    {live?.balance !== undefined && <> · <span className="text-white/70">{Math.floor(live.balance)} sats left</span></>}
+                    {live?.error && (
+                      <span className="text-red-400" title={live.requestId ? `Request ID: ${live.requestId}` : undefined}> · {live.error}</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => reclaim(token.baseUrl)}
+                  disabled={isBusy || isReclaimingAll}
+                  className="flex items-center gap-1 px-2.5 py-1 text-xs text-white/80 bg-white/5 border border-white/10 rounded-md hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer flex-shrink-0"
+                  type="button"
+                >
+                  {isBusy && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Refund
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {reports.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {reports.map(report => (
+            <div key={report.baseUrl} className="flex items-start gap-2 text-xs">
+              {report.success
+                ? <CheckCircle className="h-3.5 w-3.5 text-green-400 flex-shrink-0 mt-px" />
+                : <XCircle className="h-3.5 w-3.5 text-red-400 flex-shrink-0 mt-px" />}
+              <div className="min-w-0">
+                <span className="text-white/70">{getProviderHost(report.baseUrl)}: </span>
+                <span className={report.success ? 'text-white/50' : 'text-red-300'}>
+                  {report.success && report.refundedAmount ? `${Number(report.refundedAmount.toFixed(3))} sats refunded` : report.message}
+                </span>
+                {report.requestId && (
+                  <span className="block font-mono text-white/40 select-all">Request ID: {report.requestId}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HotTokenManager;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, RefreshCw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useChat } from '@/context/ChatProvider';
+import { getProviderHost } from '@/utils/modelUtils';
+import { DEFAULT_LOCAL_BRIDGE_URL, getLocalBridgeCommand } from '@/utils/localEndpointUtils';
+
+// Newest entries shown in the usage log
+const VISIBLE_LOG_ENTRIES = 50;
+
+/**
+ * Switches the OpenAI-compatible endpoint served through the local bridge on and off,
+ * shows the local key tools must send, the command starting the bridge and the requests served so far
+ */
+const LocalEndpointSettings: React.FC = () => {
+  const {
+    localEndpoint,
+    localEndpointLog,
+    localEndpointError,
+    setLocalEndpointEnabled,
+    setLocalBridgeUrl,
+    regenerateLocalApiKey,
+    clearLocalEndpointLog
+  } = useChat();
+  const isEnabled = !!localEndpoint?.enabled;
+  const bridgeUrl = localEndpoint?.bridgeUrl || DEFAULT_LOCAL_BRIDGE_URL;
+  const endpointUrl = `${bridgeUrl}/v1`;
+  const [bridgeUrlInput, setBridgeUrlInput] = useState(bridgeUrl);
+
+  useEffect(() => {
+    setBridgeUrlInput(bridgeUrl);
+  }, [bridgeUrl]);
+
+  const saveBridgeUrl = () => {
+    try {
+      const url = new URL(bridgeUrlInput.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+      if (url.origin !== bridgeUrl) setLocalBridgeUrl(url.origin);
+    } catch {
+      toast.error('Enter the bridge URL, e.g. http://127.0.0.1:8788');
+      setBridgeUrlInput(bridgeUrl);
+    }
+  };
+
+  const copy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success(`${label} copied to clipboard`);
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">Local API</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm text-white">Serve an OpenAI-compatible API to tools on this machine</p>
+            <p className="text-xs text-white/50 mt-1">
+              Editors and scripts send <code className="font-mono">/v1/chat/completions</code> and <code className="font-mono">/v1/models</code> to a small bridge you run next to the browser. While this tab is open, the app answers them, paid from this wallet through the provider chosen for each model.
+            </p>
+          </div>
+          <button
+            role="switch"
+            aria-checked={isEnabled}
+            aria-label="Serve the local API"
+            onClick={() => setLocalEndpointEnabled(!isEnabled)}
+            className={`${
+              isEnabled ? 'bg-white' : 'bg-white/20'
+            } inline-flex h-[1.15rem] w-8 shrink-0 items-center rounded-full border border-transparent shadow-sm transition-all outline-none focus-visible:ring-2 focus-visible:ring-white/50 cursor-pointer`}
+            type="button"
+          >
+            <span
+              className={`${
+                isEnabled ? 'translate-x-[calc(100%-2px)] bg-black' : 'translate-x-0 bg-white'
+              } pointer-events-none block size-4 rounded-full ring-0 transition-transform`}
+            />
+          </button>
+        </div>
+
+        {localEndpointError && (
+          <p className="text-xs text-red-400">{localEndpointError}</p>
+        )}
+
+        {isEnabled && localEndpoint && (
+          <div className="space-y-2">
+            <div>
+              <p className="text-[11px] text-white/60 mb-1">Base URL</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white font-mono">{endpointUrl}</code>
+                <button className="text-white/50 hover:text-white cursor-pointer" onClick={() => copy(endpointUrl, 'Base URL')} title="Copy base URL" type="button">
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+            <div>
+              <p className="text-[11px] text-white/60 mb-1">API key</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white font-mono">{localEndpoint.apiKey}</code>
+                <button className="text-white/50 hover:text-white cursor-pointer" onClick={() => copy(localEndpoint.apiKey, 'API key')} title="Copy API key" type="button">
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+                <button className="text-white/50 hover:text-white cursor-pointer" onClick={regenerateLocalApiKey} title="Generate a new key; the old one stops working" type="button">
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+            <div>
+              <p className="text-[11px] text-white/60 mb-1">Start the bridge in the app&apos;s checkout</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white font-mono">{getLocalBridgeCommand(localEndpoint.apiKey, bridgeUrl)}</code>
+                <button className="text-white/50 hover:text-white cursor-pointer" onClick={() => copy(getLocalBridgeCommand(localEndpoint.apiKey, bridgeUrl), 'Command')} title="Copy command" type="button">
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+            <div>
+              <p className="text-[11px] text-white/60 mb-1">Bridge URL</p>
+              <input
+                type="text"
+                value={bridgeUrlInput}
+                onChange={(e) => setBridgeUrlInput(e.target.value)}
+                onBlur={saveBridgeUrl}
+                onKeyDown={(e) => { if (e.key === 'Enter') saveBridgeUrl(); }}
+                className="w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-white/20"
+                aria-label="Bridge URL"
+              />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <p className="text-[11px] text-white/60">Usage log</p>
+            {localEndpointLog.length > 0 && (
+              <button
+                className="text-white/50 hover:text-red-400 text-xs flex items-center gap-1 cursor-pointer"
+                onClick={clearLocalEndpointLog}
+                type="button"
+              >
+                <XCircle className="h-3 w-3" /> Clear
+              </button>
+            )}
+          </div>
+          <div className="max-h-40 overflow-y-auto">
+            {localEndpointLog.length > 0 ? (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-white/50 text-left">
+                    <th className="font-normal py-1">Time</th>
+                    <th className="font-normal py-1">Request</th>
+                    <th className="font-normal py-1 text-right">Status</th>
+                    <th className="font-normal py-1 text-right">Sats</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {localEndpointLog.slice(-VISIBLE_LOG_ENTRIES).reverse().map(entry => (
+                    <tr key={entry.id} className="text-white/80" title={entry.error}>
+                      <td className="py-1 pr-2 whitespace-nowrap text-white/50">{new Date(entry.timestamp).toLocaleTimeString()}</td>
+                      <td className="py-1 pr-2 max-w-0 w-full">
+                        <div className="truncate">
+                          {entry.model ?? `${entry.method} ${entry.path}`}
+                          {entry.baseUrl && <span className="text-white/40"> · {getProviderHost(entry.baseUrl)}</span>}
+                        </div>
+                      </td>
+                      <td className={`py-1 text-right ${entry.status >= 400 ? 'text-red-400' : ''}`}>{entry.status}</td>
+                      <td className="py-1 pl-2 text-right">{entry.satsSpent !== undefined ? entry.satsSpent.toFixed(entry.satsSpent % 1 === 0 ? 0 : 3) : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-sm text-white/50 py-2 text-center">No requests served yet</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocalEndpointSettings;
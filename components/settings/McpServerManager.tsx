@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Plus, XCircle, Loader, RefreshCw, Wrench, WifiOff } from 'lucide-react';
+import { McpServerConfig } from '@/types/chat';
+import { loadMcpServers, saveMcpServers } from '@/utils/storageUtils';
+import { disconnectMcpServer, listMcpServerTools } from '@/utils/mcpUtils';
+
+type ServerStatus =
+  | { state: 'checking' }
+  | { state: 'ok'; toolNames: string[] }
+  | { state: 'error'; message: string };
+
+const McpServerManager: React.FC = () => {
+  const [servers, setServers] = useState<McpServerConfig[]>(() => loadMcpServers());
+  const [newName, setNewName] = useState<string>('');
+  const [newUrl, setNewUrl] = useState<string>('');
+  const [newTransport, setNewTransport] = useState<McpServerConfig['transport']>('streamable-http');
+  const [statusById, setStatusById] = useState<Record<string, ServerStatus>>({});
+  const [error, setError] = useState<string>('');
+
+  const updateServers = (updated: McpServerConfig[]) => {
+    setServers(updated);
+    saveMcpServers(updated);
+  };
+
+  const isValidUrl = (url: string) => {
+    try {
+      const u = new URL(url.trim());
+      return u.protocol === 'https:' || u.protocol === 'http:';
+    } catch { return false; }
+  };
+
+  const checkServer = async (server: McpServerConfig) => {
+    setStatusById(prev => ({ ...prev, [server.id]: { state: 'checking' } }));
+    try {
+      const tools = await listMcpServerTools(server);
+      setStatusById(prev => ({ ...prev, [server.id]: { state: 'ok', toolNames: tools.map(t => t.name) } }));
+    } catch (err) {
+      await disconnectMcpServer(server);
+      setStatusById(prev => ({
+        ...prev,
+        [server.id]: { state: 'error', message: err instanceof Error ? err.message : 'Connection failed' }
+      }));
+    }
+  };
+
+  const handleAddServer = () => {
+    const trimmedName = newName.trim();
+    const trimmedUrl = newUrl.trim();
+    if (!trimmedName || !isValidUrl(trimmedUrl)) {
+      setError('Enter a name and a valid http(s) URL');
+      return;
+    }
+    if (servers.some(s => s.name === trimmedName)) {
+      setError('A server with this name already exists');
+      return;
+    }
+    const server: McpServerConfig = {
+      id: Date.now().toString(),
+      name: trimmedName,
+      url: trimmedUrl,
+      transport: newTransport,
+      enabled: true
+    };
+    updateServers([...servers, server]);
+    setNewName('');
+    setNewUrl('');
+    setError('');
+    checkServer(server);
+  };
+
+  const handleRemoveServer = async (server: McpServerConfig) => {
+    updateServers(servers.filter(s => s.id !== server.id));
+    await disconnectMcpServer(server);
+  };
+
+  const handleToggleServer = (server: McpServerConfig) => {
+    updateServers(servers.map(s => s.id === server.id ? { ...s, enabled: !s.enabled } : s));
+  };
+
+  const getStatusIcon = (status?: ServerStatus) => {
+    if (!status) return <Wrench className="h-4 w-4 text-gray-400" />;
+    switch (status.state) {
+      case 'checking':
+        return <Loader className="h-4 w-4 text-yellow-400 animate-spin" />;
+      case 'ok':
+        return <Wrench className="h-4 w-4 text-green-400" />;
+      case 'error':
+        return <WifiOff className="h-4 w-4 text-red-400" />;
+    }
+  };
+
+  const getStatusText = (status?: ServerStatus) => {
+    if (!status) return <span className="text-xs text-gray-400">NOT CHECKED</span>;
+    switch (status.state) {
+      case 'checking':
+        return <span className="text-xs text-yellow-400">CONNECTING</span>;
+      case 'ok':
+        return (
+          <span className="text-xs text-green-400 truncate" title={status.toolNames.join(', ')}>
+            {status.toolNames.length} tool{status.toolNames.length === 1 ? '' : 's'}
+          </span>
+        );
+      case 'error':
+        return <span className="text-xs text-red-400 truncate" title={status.message}>{status.message}</span>;
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">MCP Servers</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4">
+        <p className="text-sm text-white mb-3">Tools from enabled servers are offered to the model on every request</p>
+        <div className="max-h-48 overflow-y-auto space-y-2 mb-4">
+          {servers.length > 0 ? (
+            servers.map((server) => {
+              const status = statusById[server.id];
+              return (
+                <div className="flex items-center justify-between bg-white/5 rounded-md p-2" key={server.id}>
+                  <div className="flex items-center gap-2 flex-grow min-w-0">
+                    {getStatusIcon(status)}
+                    <div className="flex flex-col min-w-0 flex-grow">
+                      <span className={`text-sm truncate ${server.enabled ? 'text-white' : 'text-white/40'}`}>
+                        {server.name} <span className="text-white/40">({server.transport === 'sse' ? 'SSE' : 'HTTP'})</span>
+                      </span>
+                      <span className="text-xs text-white/50 truncate">{server.url}</span>
+                      {getStatusText(status)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ml-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleServer(server)}
+                      className="px-2 py-1 text-xs bg-white/10 hover:bg-white/20 text-white rounded-md transition-colors"
+                      type="button"
+                    >
+                      {server.enabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      onClick={() => checkServer(server)}
+                      disabled={status?.state === 'checking'}
+                      className="text-white/70 hover:text-white transition-colors disabled:opacity-50"
+                      type="button"
+                      title="Check connection"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${status?.state === 'checking' ? 'animate-spin' : ''}`} />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveServer(server)}
+                      className="text-red-400 hover:text-red-500 transition-colors"
+                      type="button"
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-sm text-white/50">No MCP servers added yet.</p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="w-1/3 bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+              placeholder="Name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <select
+              className="flex-grow bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+              value={newTransport}
+              onChange={(e) => setNewTransport(e.target.value as McpServerConfig['transport'])}
+            >
+              <option value="streamable-http">Streamable HTTP</option>
+              <option value="sse">HTTP + SSE (legacy)</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              className="flex-grow bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+              placeholder="https://example.com/mcp"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleAddServer();
+                }
+              }}
+            />
+            <button
+              onClick={handleAddServer}
+              className="bg-white/10 hover:bg-white/20 text-white px-3 py-2 rounded-md text-sm transition-colors flex items-center gap-1"
+              type="button"
+            >
+              <Plus className="h-4 w-4" /> Add
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default McpServerManager;
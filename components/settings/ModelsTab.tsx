@@ -5,6 +5,7 @@ import { Search, Check, XCircle, ChevronDown } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
 import { Model } from '@/data/models';
 import { getModelNameWithoutProvider } from '@/data/models';
+import ProviderReputationPanel from './ProviderReputationPanel';
 
 type ProviderItem = { name: string; endpoint_url: string; endpoint_urls?: string[] };
 
@@ -317,7 +318,7 @@ const ModelsTab: React.FC<ModelsTabProps> = ({
         </div>
       </div>
 
-      
+      <ProviderReputationPanel />
     </div>
   );
 };
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { Plus, XCircle, Pencil } from 'lucide-react';
+import { Persona } from '@/types/chat';
+import { loadPersonas, savePersonas } from '@/utils/storageUtils';
+
+interface PersonaDraft {
+  name: string;
+  systemPrompt: string;
+  defaultModel: string;
+  temperature: string;
+  maxTokens: string;
+}
+
+const EMPTY_DRAFT: PersonaDraft = {
+  name: '',
+  systemPrompt: '',
+  defaultModel: '',
+  temperature: '',
+  maxTokens: ''
+};
+
+const toDraft = (persona: Persona): PersonaDraft => ({
+  name: persona.name,
+  systemPrompt: persona.systemPrompt,
+  defaultModel: persona.defaultModel ?? '',
+  temperature: persona.defaultParameters?.temperature?.toString() ?? '',
+  maxTokens: persona.defaultParameters?.max_tokens?.toString() ?? ''
+});
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const PersonaManager: React.FC = () => {
+  const [personas, setPersonas] = useState<Persona[]>(() => loadPersonas());
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const updatePersonas = (updated: Persona[]) => {
+    setPersonas(updated);
+    savePersonas(updated);
+  };
+
+  const resetDraft = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setError('');
+  };
+
+  const handleSave = () => {
+    const name = draft.name.trim();
+    const systemPrompt = draft.systemPrompt.trim();
+    if (!name || !systemPrompt) {
+      setError('Enter a name and a system prompt');
+      return;
+    }
+    if (personas.some(p => p.name === name && p.id !== editingId)) {
+      setError('A persona with this name already exists');
+      return;
+    }
+
+    const temperature = parseOptionalNumber(draft.temperature);
+    const maxTokens = parseOptionalNumber(draft.maxTokens);
+    const defaultParameters = {
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(maxTokens !== undefined && maxTokens > 0 ? { max_tokens: Math.floor(maxTokens) } : {})
+    };
+
+    const persona: Persona = {
+      id: editingId ?? Date.now().toString(),
+      name,
+      systemPrompt,
+      ...(draft.defaultModel.trim() ? { defaultModel: draft.defaultModel.trim() } : {}),
+      ...(Object.keys(defaultParameters).length > 0 ? { defaultParameters } : {})
+    };
+
+    updatePersonas(editingId
+      ? personas.map(p => (p.id === editingId ? persona : p))
+      : [...personas, persona]);
+    resetDraft();
+  };
+
+  const handleEdit = (persona: Persona) => {
+    setDraft(toDraft(persona));
+    setEditingId(persona.id);
+    setError('');
+  };
+
+  const handleRemove = (persona: Persona) => {
+    updatePersonas(personas.filter(p => p.id !== persona.id));
+    if (editingId === persona.id) resetDraft();
+  };
+
+  const inputClassName = 'bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none';
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">Personas</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4">
+        <p className="text-sm text-white mb-3">Reusable system prompts you can pick when starting a conversation</p>
+        <div className="max-h-48 overflow-y-auto space-y-2 mb-4">
+          {personas.length > 0 ? (
+            personas.map((persona) => (
+              <div className="flex items-center justify-between bg-white/5 rounded-md p-2" key={persona.id}>
+                <div className="flex flex-col min-w-0 flex-grow">
+                  <span className="text-sm text-white truncate">
+                    {persona.name}
+                    {persona.defaultModel && <span className="text-white/40"> ({persona.defaultModel})</span>}
+                  </span>
+                  <span className="text-xs text-white/50 truncate">{persona.systemPrompt}</span>
+                </div>
+                <div className="flex items-center gap-2 ml-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleEdit(persona)}
+                    className="text-white/70 hover:text-white transition-colors"
+                    type="button"
+                    title="Edit persona"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(persona)}
+                    className="text-red-400 hover:text-red-500 transition-colors"
+                    type="button"
+                    title="Delete persona"
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-white/50">No personas added yet.</p>
+          )}
+        </div>
+        <div className="flex flex-col gap-2">
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="Name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+          <textarea
+            className={`${inputClassName} min-h-[80px] resize-y`}
+            placeholder="System prompt"
+            value={draft.systemPrompt}
+            onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+          />
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="Default model id (optional)"
+            value={draft.defaultModel}
+            onChange={(e) => setDraft({ ...draft, defaultModel: e.target.value })}
+          />
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.05}
+              className={`${inputClassName} w-1/2`}
+              placeholder="Temperature"
+              value={draft.temperature}
+              onChange={(e) => setDraft({ ...draft, temperature: e.target.value })}
+            />
+            <input
+              type="number"
+              min={1}
+              className={`${inputClassName} w-1/2`}
+              placeholder="Max tokens"
+              value={draft.maxTokens}
+              onChange={(e) => setDraft({ ...draft, maxTokens: e.target.value })}
+            />
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            {editingId && (
+              <button
+                onClick={resetDraft}
+                className="text-white/60 hover:text-white px-3 py-2 rounded-md text-sm transition-colors"
+                type="button"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              className="bg-white/10 hover:bg-white/20 text-white px-3 py-2 rounded-md text-sm transition-colors flex items-center gap-1"
+              type="button"
+            >
+              {editingId ? 'Save' : <><Plus className="h-4 w-4" /> Add</>}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { loadProviderDeviationThreshold, loadProviderLedger, saveProviderDeviationThreshold } from '@/utils/storageUtils';
+import { clearProviderLedger, getProviderReputations, MIN_REQUESTS_FOR_REPUTATION } from '@/utils/providerReputationUtils';
+import { getProviderHost } from '@/utils/modelUtils';
+
+/**
+ * Overcharge track record per provider, built from the estimated vs. actual cost of every request
+ * Providers above the deviation threshold are skipped by the cheapest-provider selection
+ */
+const ProviderReputationPanel: React.FC = () => {
+  const [ledger, setLedger] = useState(() => loadProviderLedger());
+  const [threshold, setThreshold] = useState<number>(() => loadProviderDeviationThreshold());
+  const [thresholdInput, setThresholdInput] = useState<string>(threshold.toString());
+
+  const reputations = useMemo(
+    () => Object.values(getProviderReputations(ledger, threshold))
+      .sort((a, b) => b.averageDeviationPercent - a.averageDeviationPercent),
+    [ledger, threshold]
+  );
+
+  const handleThresholdChange = (value: string) => {
+    setThresholdInput(value);
+    const parsed = Number(value);
+    if (value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0) {
+      setThreshold(parsed);
+      saveProviderDeviationThreshold(parsed);
+    }
+  };
+
+  const handleClear = (baseUrl?: string) => {
+    clearProviderLedger(baseUrl);
+    setLedger(loadProviderLedger());
+  };
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-md p-3 mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-white">Provider Reputation</h4>
+        {reputations.length > 0 && (
+          <button
+            className="text-white/50 hover:text-red-400 text-xs flex items-center gap-1 cursor-pointer"
+            onClick={() => handleClear()}
+            type="button"
+          >
+            <XCircle className="h-3 w-3" /> Reset all
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2 mb-2">
+        <label htmlFor="provider-deviation-threshold" className="text-[11px] text-white/60">
+          De-prioritize providers charging more than
+        </label>
+        <input
+          id="provider-deviation-threshold"
+          type="number"
+          min={0}
+          step={5}
+          className="w-16 bg-white/5 border border-white/10 rounded px-2 py-0.5 text-xs text-white focus:border-white/30 focus:outline-none"
+          value={thresholdInput}
+          onChange={(e) => handleThresholdChange(e.target.value)}
+        />
+        <span className="text-[11px] text-white/60">% above the estimate on average</span>
+      </div>
+      <div className="max-h-40 overflow-y-auto">
+        {reputations.length > 0 ? (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-white/50 text-left">
+                <th className="font-normal py-1">Provider</th>
+                <th className="font-normal py-1 text-right">Requests</th>
+                <th className="font-normal py-1 text-right">Overcharged</th>
+                <th className="font-normal py-1 text-right">Avg deviation</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {reputations.map(reputation => (
+                <tr key={reputation.baseUrl} className="text-white/80">
+                  <td className="py-1 pr-2 max-w-0 w-full">
+                    <div className="flex items-center gap-1 min-w-0">
+                      {reputation.isDeprioritized && (
+                        <span title="De-prioritized in provider selection" className="flex-shrink-0">
+                          <AlertTriangle className="h-3 w-3 text-yellow-400" />
+                        </span>
+                      )}
+                      <span className="truncate" title={reputation.baseUrl}>{getProviderHost(reputation.baseUrl)}</span>
+                    </div>
+                  </td>
+                  <td className="py-1 text-right">{reputation.requestCount}</td>
+                  <td className="py-1 text-right">{(reputation.overchargeRate * 100).toFixed(0)}%</td>
+                  <td className="py-1 text-right whitespace-nowrap">
+                    {reputation.averageDeviationPercent >= 0 ? '+' : ''}{reputation.averageDeviationPercent.toFixed(1)}%
+                    <span className="text-white/40"> ({reputation.averageDeviation.toFixed(2)} sats)</span>
+                  </td>
+                  <td className="py-1 pl-2 text-right">
+                    <button
+                      className="text-white/40 hover:text-red-400 cursor-pointer"
+                      onClick={() => handleClear(reputation.baseUrl)}
+                      title="Forget this provider's record"
+                      type="button"
+                    >
+                      <XCircle className="h-3 w-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-sm text-white/50 py-2 text-center">No requests recorded yet</div>
+        )}
+      </div>
+      <p className="text-[11px] text-white/40 mt-2">
+        A provider needs at least {MIN_REQUESTS_FOR_REPUTATION} recorded requests before it is de-prioritized. It is still used when no other provider serves the model.
+      </p>
+    </div>
+  );
+};
+
+export default ProviderReputationPanel;
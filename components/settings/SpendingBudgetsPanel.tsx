@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Plus, XCircle } from 'lucide-react';
+import { useChat } from '@/context/ChatProvider';
+import { useSpendingBudgets } from '@/hooks/useSpendingBudgets';
+import { BudgetPeriod, SpendingBudget } from '@/types/chat';
+import { BUDGET_PERIOD_LABELS, describeBudget } from '@/utils/budgetUtils';
+import { loadBaseUrlsList } from '@/utils/storageUtils';
+import BudgetMeter from '@/components/ui/BudgetMeter';
+
+/**
+ * Daily, weekly and monthly sats budgets, overall or for one model or provider
+ * Requests that would exceed a budget are blocked before their token is created
+ */
+const SpendingBudgetsPanel: React.FC = () => {
+  const { models } = useChat();
+  const { statuses, saveBudgets } = useSpendingBudgets();
+  const [period, setPeriod] = useState<BudgetPeriod>('daily');
+  const [scope, setScope] = useState<SpendingBudget['scope']>('all');
+  const [target, setTarget] = useState('');
+  const [limitInput, setLimitInput] = useState('');
+  const [providerOptions] = useState<string[]>(() => loadBaseUrlsList());
+
+  const budgets = statuses.map(status => status.budget);
+  const limit = Number(limitInput);
+  const canAdd = Number.isFinite(limit) && limit > 0 && (scope === 'all' || target.trim() !== '');
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const budget: SpendingBudget = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      period,
+      limit: Math.floor(limit),
+      scope,
+      ...(scope !== 'all' ? { target: target.trim() } : {})
+    };
+    saveBudgets([...budgets, budget]);
+    setLimitInput('');
+    setTarget('');
+  };
+
+  const handleLimitChange = (id: string, value: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0) return;
+    saveBudgets(budgets.map(budget => budget.id === id ? { ...budget, limit: Math.floor(parsed) } : budget));
+  };
+
+  const handleRemove = (id: string) => {
+    saveBudgets(budgets.filter(budget => budget.id !== id));
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">Spending Budgets</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4 space-y-3">
+        <p className="text-sm text-white">Block requests that would take your spending past a limit</p>
+
+        {statuses.length > 0 && (
+          <div className="space-y-3">
+            {statuses.map(status => (
+              <div key={status.budget.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-white/80 flex-1 truncate" title={status.budget.target}>
+                    {describeBudget(status.budget)}
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    aria-label="Limit in sats"
+                    className="w-20 bg-white/5 border border-white/10 rounded px-2 py-0.5 text-xs text-white focus:border-white/30 focus:outline-none"
+                    defaultValue={status.budget.limit}
+                    onBlur={(e) => handleLimitChange(status.budget.id, e.target.value)}
+                  />
+                  <span className="text-[11px] text-white/50">sats</span>
+                  <button
+                    className="text-white/40 hover:text-red-400 cursor-pointer"
+                    onClick={() => handleRemove(status.budget.id)}
+                    title="Remove this budget"
+                    type="button"
+                  >
+                    <XCircle className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <BudgetMeter status={status} />
+                <p className="text-[11px] text-white/50">
+                  {Math.ceil(status.spent)} of {status.budget.limit} sats spent {BUDGET_PERIOD_LABELS[status.budget.period]}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as BudgetPeriod)}
+            className="bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+          >
+            <option value="daily" className="bg-[#212121]">Daily</option>
+            <option value="weekly" className="bg-[#212121]">Weekly</option>
+            <option value="monthly" className="bg-[#212121]">Monthly</option>
+          </select>
+          <select
+            value={scope}
+            onChange={(e) => {
+              setScope(e.target.value as SpendingBudget['scope']);
+              setTarget('');
+            }}
+            className="bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+          >
+            <option value="all" className="bg-[#212121]">All spending</option>
+            <option value="model" className="bg-[#212121]">One model</option>
+            <option value="provider" className="bg-[#212121]">One provider</option>
+          </select>
+        </div>
+        {scope !== 'all' && (
+          <>
+            <input
+              type="text"
+              list={`budget-${scope}-options`}
+              className="w-full bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+              placeholder={scope === 'model' ? 'Model id, e.g. openai/gpt-4o' : 'Provider URL'}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            />
+            <datalist id={`budget-${scope}-options`}>
+              {(scope === 'model' ? models.map(model => model.id) : providerOptions).map(option => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={1}
+            className="flex-1 bg-white/5 border border-white/10 rounded-md px-3 py-2 text-sm text-white focus:border-white/30 focus:outline-none"
+            placeholder="Limit in sats"
+            value={limitInput}
+            onChange={(e) => setLimitInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+          />
+          <button
+            className="flex items-center gap-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded-md px-3 py-2 text-sm text-white transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={handleAdd}
+            disabled={!canAdd}
+            type="button"
+          >
+            <Plus className="h-4 w-4" /> Add
+          </button>
+        </div>
+        <p className="text-xs text-white/50">
+          A request counts with the full amount its token locks, so it is blocked as soon as it could exceed a budget; the spending shown is what providers kept after refunds. Blocked requests can still be sent anyway from the chat.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default SpendingBudgetsPanel;
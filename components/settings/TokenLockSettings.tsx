@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { RejectedLockedToken } from '@/types/chat';
+import { loadLockProviderTokens, loadLockUnsupportedProviders, loadRejectedLockedTokens, saveLockProviderTokens, STORAGE_KEYS } from '@/utils/storageUtils';
+import { clearLockUnsupported, TOKEN_LOCK_UPDATED_EVENT } from '@/utils/tokenLockUtils';
+import { getProviderHost } from '@/utils/modelUtils';
+
+/**
+ * Locks the tokens sent to providers to each provider's published key, with the providers that fell back to plain tokens
+ */
+const TokenLockSettings: React.FC = () => {
+  const [isEnabled, setIsEnabled] = useState<boolean>(() => loadLockProviderTokens());
+  const [unsupported, setUnsupported] = useState<string[]>(() => loadLockUnsupportedProviders());
+  const [rejected, setRejected] = useState<RejectedLockedToken[]>(() => loadRejectedLockedTokens());
+
+  useEffect(() => {
+    const refresh = () => {
+      setUnsupported(loadLockUnsupportedProviders());
+      setRejected(loadRejectedLockedTokens());
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEYS.LOCK_UNSUPPORTED_PROVIDERS || event.key === STORAGE_KEYS.REJECTED_LOCKED_TOKENS) refresh();
+    };
+
+    window.addEventListener(TOKEN_LOCK_UPDATED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener(TOKEN_LOCK_UPDATED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const handleToggle = () => {
+    saveLockProviderTokens(!isEnabled);
+    setIsEnabled(!isEnabled);
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-medium text-white/80 mb-2">Token Locking</h3>
+      <div className="bg-white/5 border border-white/10 rounded-md p-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm text-white">Lock tokens to the provider&apos;s key</p>
+            <p className="text-xs text-white/50 mt-1">
+              New tokens can only be spent by the key in the provider&apos;s verified node info (NUT-11), so a leaked token is useless to anyone else. Applies to the Nostr wallet; providers that refuse locked tokens get plain ones, and refused tokens return to your wallet after an hour.
+            </p>
+          </div>
+          <button
+            role="switch"
+            aria-checked={isEnabled}
+            aria-label="Lock tokens to the provider's key"
+            onClick={handleToggle}
+            className={`${
+              isEnabled ? 'bg-white' : 'bg-white/20'
+            } inline-flex h-[1.15rem] w-8 shrink-0 items-center rounded-full border border-transparent shadow-sm transition-all outline-none focus-visible:ring-2 focus-visible:ring-white/50 cursor-pointer`}
+            type="button"
+          >
+            <span
+              className={`${
+                isEnabled ? 'translate-x-[calc(100%-2px)] bg-black' : 'translate-x-0 bg-white'
+              } pointer-events-none block size-4 rounded-full ring-0 transition-transform`}
+            />
+          </button>
+        </div>
+
+        {isEnabled && unsupported.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-white/10 space-y-1.5">
+            <p className="text-xs text-white/60">Refused locked tokens, sent plain ones instead:</p>
+            {unsupported.map(baseUrl => (
+              <div key={baseUrl} className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-white/80 truncate" title={baseUrl}>{getProviderHost(baseUrl)}</span>
+                <button
+                  onClick={() => clearLockUnsupported(baseUrl)}
+                  className="text-white/60 hover:text-white cursor-pointer flex-shrink-0"
+                  type="button"
+                >
+                  Try locking again
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {rejected.length > 0 && (
+          <p className="text-xs text-white/50 mt-2">
+            {rejected.length === 1 ? '1 refused token is' : `${rejected.length} refused tokens are`} waiting for the locktime before returning to your wallet
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TokenLockSettings;
@@ -27,6 +27,9 @@ import {
 } from "@/stores/transactionHistoryStore";
 import type { TransactionHistory } from '@/types/chat';
 import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { useSpendingBudgets } from '@/hooks/useSpendingBudgets';
+import { BUDGET_PERIOD_LABELS, describeBudget } from '@/utils/budgetUtils';
+import BudgetMeter from './BudgetMeter';
 
 /**
  * User balance and authentication status component with comprehensive wallet popover
@@ -47,6 +50,12 @@ const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ setIsSettingsOpen, setI
   const [activeTab, setActiveTab] = useState<'overview' | 'send' | 'receive' | 'activity' | 'invoice'>('overview');
   const [isTransitioning, setIsTransitioning] = useState(false);
   const isMobile = useMediaQuery('(max-width: 768px)');
+  const { statuses: budgetStatuses } = useSpendingBudgets();
+  // The budget closest to its limit is shown on the wallet button
+  const tightestBudget = budgetStatuses.reduce<(typeof budgetStatuses)[number] | null>(
+    (tightest, status) => !tightest || status.ratio > tightest.ratio ? status : tightest,
+    null
+  );
   
   // Send state
   const [sendTab, setSendTab] = useState<'token' | 'lightning'>('token');
@@ -807,7 +816,10 @@ const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ setIsSettingsOpen, setI
   return (
     <Popover open={isPopoverOpen} onOpenChange={setIsPopoverOpen}>
       <PopoverTrigger asChild>
-        <button className={"flex items-center gap-2 text-white bg-white/5 hover:bg-white/10 rounded-md py-2 px-3 sm:px-4 h-[36px] text-xs sm:text-sm transition-colors cursor-pointer border border-white/10 justify-center"}>
+        <button
+          className={"relative overflow-hidden flex items-center gap-2 text-white bg-white/5 hover:bg-white/10 rounded-md py-2 px-3 sm:px-4 h-[36px] text-xs sm:text-sm transition-colors cursor-pointer border border-white/10 justify-center"}
+          title={tightestBudget ? `${describeBudget(tightestBudget.budget)}: ${Math.ceil(tightestBudget.spent)} of ${tightestBudget.budget.limit} sats spent` : undefined}
+        >
           <svg
             xmlns="http://www.w3.org/2000/svg"
             width="16"
@@ -827,6 +839,9 @@ const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ setIsSettingsOpen, setI
           <span className={isMobile ? 'text-xs' : 'text-sm'}>
             {isBalanceLoading ? 'loading' : `${balance} sats`}
           </span>
+          {tightestBudget && (
+            <BudgetMeter status={tightestBudget} className="absolute bottom-0 left-0 h-0.5 rounded-none" />
+          )}
         </button>
       </PopoverTrigger>
       <PopoverContent 
@@ -1002,6 +1017,39 @@ const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ setIsSettingsOpen, setI
                 </button>
               </div>
 
+              {/* Spending budgets */}
+              {budgetStatuses.length > 0 && (
+                <div className="bg-white/5 border border-white/10 rounded-lg p-3 mb-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white/70 text-sm font-medium">Budgets</span>
+                    <button
+                      onClick={() => {
+                        setIsSettingsOpen(true);
+                        setInitialSettingsTab('settings');
+                        setIsPopoverOpen(false);
+                      }}
+                      className="text-white/50 hover:text-white/70 text-xs cursor-pointer"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  {budgetStatuses.map(status => (
+                    <div key={status.budget.id} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-xs">
+                        <span className="text-white/60 truncate">{describeBudget(status.budget)}</span>
+                        <span className="text-white/60 font-mono flex-shrink-0">
+                          {Math.ceil(status.spent)}/{status.budget.limit}
+                        </span>
+                      </div>
+                      <BudgetMeter status={status} />
+                      <div className="text-[11px] text-white/40">
+                        {status.remaining > 0 ? `${Math.floor(status.remaining)} sats left ${BUDGET_PERIOD_LABELS[status.budget.period]}` : `Limit reached ${BUDGET_PERIOD_LABELS[status.budget.period]}`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Quick Activity Preview */}
               <div className="bg-white/5 border border-white/10 rounded-lg p-3">
                 <div className="flex items-center justify-between mb-2">
@@ -1428,7 +1476,9 @@ const BalanceDisplay: React.FC<BalanceDisplayProps> = ({ setIsSettingsOpen, setI
                             {tx.type === 'send' || tx.type === 'spent' ? '-' : '+'}
                             {tx.amount} sats
                           </div>
-                          <div className="text-xs text-white/50">Balance: {tx.balance}</div>
+                          {tx.balance !== undefined && (
+                            <div className="text-xs text-white/50">Balance: {tx.balance}</div>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -0,0 +1,26 @@
+'use client';
+
+import React from 'react';
+import type { BudgetStatus } from '@/utils/budgetUtils';
+
+interface BudgetMeterProps {
+  status: BudgetStatus;
+  className?: string;
+}
+
+/**
+ * Progress bar of a spending budget; turns yellow from 80% and red once the limit is reached
+ */
+const BudgetMeter: React.FC<BudgetMeterProps> = ({ status, className = 'h-1.5' }) => {
+  const color = status.ratio >= 1 ? 'bg-red-500' : status.ratio >= 0.8 ? 'bg-yellow-400' : 'bg-green-500';
+  return (
+    <div className={`w-full bg-white/10 rounded-full overflow-hidden ${className}`}>
+      <div
+        className={`h-full rounded-full transition-all ${color}`}
+        style={{ width: `${Math.min(100, status.ratio * 100)}%` }}
+      />
+    </div>
+  );
+};
+
+export default BudgetMeter;
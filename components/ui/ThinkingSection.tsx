@@ -9,9 +9,13 @@ interface ThinkingSectionProps {
   thinking?: string;
   thinkingContent?: string;
   isStreaming?: boolean;
+  /** Reasoning tokens reported in the usage of the answer */
+  reasoningTokens?: number;
+  /** The provider encrypted or redacted part of the reasoning */
+  redacted?: boolean;
 }
 
-export default function ThinkingSection({ thinking, thinkingContent, isStreaming = false }: ThinkingSectionProps) {
+export default function ThinkingSection({ thinking, thinkingContent, isStreaming = false, reasoningTokens, redacted = false }: ThinkingSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [copied, setCopied] = useState(false);
   const [thinkingText, setThinkingText] = useState('');
@@ -35,7 +39,7 @@ export default function ThinkingSection({ thinking, thinkingContent, isStreaming
     }
   }, [isStreaming]);
 
-  if (!thinking && !isStreaming && !thinkingContent) return null;
+  if (!thinking && !isStreaming && !thinkingContent && !redacted && !reasoningTokens) return null;
 
   const handleCopy = async () => {
     if (!thinking) return;
@@ -56,6 +60,9 @@ export default function ThinkingSection({ thinking, thinkingContent, isStreaming
       >
         <Brain className="w-3 h-3" />
         <span>{isStreaming ? 'Thinking...' : 'Thinking'}</span>
+        {!isStreaming && reasoningTokens ? (
+          <span className="text-gray-500">· {reasoningTokens.toLocaleString()} tokens</span>
+        ) : null}
         <ChevronDown 
           className={`w-3 h-3 transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`} 
         />
@@ -87,6 +94,8 @@ export default function ThinkingSection({ thinking, thinkingContent, isStreaming
               <div className="text-xs text-gray-300 leading-relaxed">
                 {thinkingText ? (
                   <MarkdownRenderer content={thinkingText} className="text-xs" />
+                ) : !isStreaming && (redacted || reasoningTokens) ? (
+                  <p className="text-gray-400">The provider did not return this reasoning.</p>
                 ) : (
                   <div className="flex items-center gap-2">
                     <div className="w-1 h-1 bg-gray-400 rounded-full animate-pulse" />
@@ -94,6 +103,9 @@ export default function ThinkingSection({ thinking, thinkingContent, isStreaming
                     <div className="w-1 h-1 bg-gray-400 rounded-full animate-pulse" style={{ animationDelay: '0.4s' }} />
                   </div>
                 )}
+                {redacted && thinkingText && (
+                  <p className="mt-2 text-gray-400">Part of the reasoning was encrypted or redacted by the provider.</p>
+                )}
               </div>
             </div>
           </motion.div>
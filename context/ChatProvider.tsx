@@ -6,6 +6,9 @@ import { useApiState, UseApiStateReturn } from '@/hooks/useApiState';
 import { useUiState, UseUiStateReturn } from '@/hooks/useUiState';
 import { useModelState, UseModelStateReturn } from '@/hooks/useModelState';
 import { useChatActions, UseChatActionsReturn } from '@/hooks/useChatActions';
+import { useCompareMode, UseCompareModeReturn } from '@/hooks/useCompareMode';
+import { useLocalEndpoint, UseLocalEndpointReturn } from '@/hooks/useLocalEndpoint';
+import { useRefundSweeper } from '@/hooks/useRefundSweeper';
 import { useAuth } from './AuthProvider';
 
 interface ChatContextType extends 
@@ -13,7 +16,9 @@ interface ChatContextType extends
   UseApiStateReturn,
   UseUiStateReturn,
   UseModelStateReturn,
-  UseChatActionsReturn {
+  UseChatActionsReturn,
+  UseCompareModeReturn,
+  UseLocalEndpointReturn {
   // Additional computed properties or methods can be added here
 }
 
@@ -40,17 +45,22 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   const { isAuthenticated } = useAuth();
   
   const conversationState = useConversationState();
-  const chatActions = useChatActions(); // Move chatActions declaration before apiState
+  const chatActions = useChatActions(conversationState.updateConversationMessages); // Move chatActions declaration before apiState
   const apiState = useApiState(isAuthenticated, chatActions.balance);
   const uiState = useUiState(isAuthenticated);
   const modelState = useModelState();
+  const compareMode = useCompareMode(chatActions.buildWalletRequestParams);
+  const localEndpoint = useLocalEndpoint(apiState.models, apiState.baseUrl, apiState.mintUrl, chatActions.buildWalletRequestParams);
+  useRefundSweeper(isAuthenticated, apiState.mintUrl, chatActions.buildWalletRequestParams);
 
   const contextValue: ChatContextType = {
     ...conversationState,
     ...apiState,
     ...uiState,
     ...modelState,
-    ...chatActions
+    ...chatActions,
+    ...compareMode,
+    ...localEndpoint
   };
 
   return (
@@ -3,7 +3,9 @@ import { useSearchParams } from 'next/navigation';
 import { Model } from '@/data/models';
 import { DEFAULT_BASE_URLS, DEFAULT_MINT_URL } from '@/lib/utils';
 import { loadMintUrl, saveMintUrl, loadBaseUrl, saveBaseUrl, loadLastUsedModel, saveLastUsedModel, loadBaseUrlsList, saveBaseUrlsList, migrateCurrentCashuToken, loadModelProviderMap, saveModelProviderMap, setStorageItem, getStorageItem } from '@/utils/storageUtils';
-import {parseModelKey, normalizeBaseUrl } from '@/utils/modelUtils';
+import {parseModelKey, normalizeBaseUrl, compareProviderOffers } from '@/utils/modelUtils';
+import { getProviderReputations } from '@/utils/providerReputationUtils';
+import { createBrowserRoutstrClient } from '@/utils/cashuUtils';
 
 export interface UseApiStateReturn {
   models: Model[];
@@ -72,10 +74,7 @@ export const useApiState = (isAuthenticated: boolean, balance: number): UseApiSt
       const results = await Promise.allSettled(
         baseUrlsList.map(async (url) => {
           const base = url.endsWith('/') ? url : `${url}/`;
-          const res = await fetch(`${base}v1/models`);
-          if (!res.ok) throw new Error(`Failed ${res.status}`);
-          const json = await res.json();
-          const list: Model[] = Array.isArray(json?.data) ? json.data : [];
+          const list = await createBrowserRoutstrClient(base, { mintUrl, usingNip60: false }).listModels();
           return { base, list };
         })
       );
@@ -93,25 +92,9 @@ export const useApiState = (isAuthenticated: boolean, balance: number): UseApiSt
       } catch {}
 
       // Build best-priced model per id across providers and remember provider
+      // Providers that overcharge beyond the configured threshold only win when nobody else serves the model
       const bestById = new Map<string, { model: Model; base: string }>();
-
-      function estimateMinCost(m: Model): number {
-        try {
-          const sp: any = m?.sats_pricing || {};
-          const maxCompletion = typeof sp?.max_completion_cost === 'number' ? sp.max_completion_cost : undefined;
-          const maxCost = typeof sp?.max_cost === 'number' ? sp.max_cost : undefined;
-          if (typeof maxCompletion === 'number') {
-            const promptRate = typeof sp?.prompt === 'number' ? sp.prompt : 0;
-            const approxTokens = 2000;
-            const promptCosts = promptRate * approxTokens;
-            return promptCosts + maxCompletion;
-          }
-          if (typeof maxCost === 'number') return maxCost;
-          return 0;
-        } catch {
-          return 0;
-        }
-      }
+      const reputations = getProviderReputations();
 
       for (const r of results) {
         if (r.status !== 'fulfilled') continue;
@@ -122,9 +105,7 @@ export const useApiState = (isAuthenticated: boolean, balance: number): UseApiSt
             bestById.set(m.id, { model: m, base });
             continue;
           }
-          const currentCost = estimateMinCost(m);
-          const existingCost = estimateMinCost(existing.model);
-          if (currentCost < existingCost) {
+          if (compareProviderOffers({ baseUrl: base, model: m }, { baseUrl: existing.base, model: existing.model }, reputations) < 0) {
             bestById.set(m.id, { model: m, base });
           }
         }
@@ -179,7 +160,7 @@ export const useApiState = (isAuthenticated: boolean, balance: number): UseApiSt
     } finally {
       setIsLoadingModels(false);
     }
-  }, [searchParams, baseUrlsList]);
+  }, [searchParams, baseUrlsList, mintUrl]);
 
   // Fetch models when baseUrl or balance changes and user is authenticated
   useEffect(() => {
@@ -6,6 +6,7 @@ import { CashuMint, CashuWallet, Proof, getDecodedToken, CheckStateEnum } from '
 import { CashuProof, CashuToken, canMakeExactChange, calculateFees, activateMint, updateMintKeys } from '@/lib/cashu';
 import { hashToCurve } from "@cashu/crypto/modules/common";
 import { useNutzapStore } from '@/stores/nutzapStore';
+import { getTokenLockOptions, hasLockedProofs } from '@/utils/tokenLockUtils';
 
 // Global flag to track if recovery has been initiated in this session
 let recoveryInitiated = false;
@@ -100,7 +101,7 @@ export function useCashuToken() {
    * Generate a send token
    * @param mintUrl The URL of the mint to use
    * @param amount Amount to send in satoshis
-   * @param p2pkPubkey The P2PK pubkey to lock the proofs to
+   * @param p2pkPubkey The P2PK pubkey to lock the proofs to; the wallet key can reclaim them after the locktime
    * @returns Object containing proofs and preferred unit
    */
   const sendToken = async (mintUrl: string, amount: number, p2pkPubkey?: string): Promise<{ proofs: Proof[], unit: string }> => {
@@ -138,7 +139,7 @@ export function useCashuToken() {
       }
 
       try {
-        const { keep: proofsToKeep, send: proofsToSend } = await wallet.send(amount, proofs, { pubkey: p2pkPubkey, privkey: cashuStore.privkey});
+        const { keep: proofsToKeep, send: proofsToSend } = await wallet.send(amount, proofs, { ...getTokenLockOptions(p2pkPubkey, cashuStore.privkey), privkey: cashuStore.privkey });
 
         // Store proofs temporarily before updating wallet state
         const pendingProofsKey = `pending_send_proofs_${Date.now()}`;
@@ -210,7 +211,8 @@ export function useCashuToken() {
           
           let proofsToKeep: Proof[], proofsToSend: Proof[];
           
-          if (exactChangeRetryResult.canMake && exactChangeRetryResult.selectedProofs) {
+          // Existing proofs are unlocked, so a locked send always swaps
+          if (!p2pkPubkey && exactChangeRetryResult.canMake && exactChangeRetryResult.selectedProofs) {
             const selectedDenominations = exactChangeRetryResult.selectedProofs.map(p => p.amount).sort((a, b) => b - a);
             const denominationCounts = selectedDenominations.reduce((acc, denom) => {
               acc[denom] = (acc[denom] || 0) + 1;
@@ -225,7 +227,7 @@ export function useCashuToken() {
             proofsToKeep = proofs.filter(p => !proofsToSend.includes(p));
           } else {
             console.log('rdlogs: Cannot make exact change on retry, using wallet.send()');
-            const result = await wallet.send(amount, proofs, { pubkey: p2pkPubkey, privkey: cashuStore.privkey });
+            const result = await wallet.send(amount, proofs, { ...getTokenLockOptions(p2pkPubkey, cashuStore.privkey), privkey: cashuStore.privkey });
             proofsToKeep = result.keep;
             proofsToSend = result.send;
           }
@@ -484,8 +486,8 @@ export function useCashuToken() {
       await wallet.loadMint();
       console.log(wallet.keysets)
 
-      // Receive proofs from token
-      const receivedProofs = await wallet.receive(token);
+      // Receive proofs from token; locked ones are signed with the wallet key (refunds of tokens a provider refused)
+      const receivedProofs = await wallet.receive(token, hasLockedProofs(tokenProofs) ? { privkey: cashuStore.privkey } : undefined);
       // Create token event in Nostr
       const receivedTokenData: CashuToken = {
         mint: normalizedMintUrl,
@@ -1,10 +1,24 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Message, TransactionHistory } from '@/types/chat';
+import { ConversationRequestOptions, Message, TransactionHistory } from '@/types/chat';
 import { createTextMessage, createMultimodalMessage } from '@/utils/messageUtils';
-import { fetchAIResponse } from '@/utils/apiUtils';
-import { loadTransactionHistory, saveTransactionHistory, loadUsingNip60, saveUsingNip60 } from '@/utils/storageUtils';
+import { buildAttachmentParts, PendingAttachment } from '@/utils/attachmentUtils';
+import { saveGalleryImages } from '@/utils/imageGalleryUtils';
+import { toast } from 'sonner';
+import {
+  buildContinuationHistory,
+  getUnrefundedCheckpoints,
+  mergeContinuation,
+  setInterruptedAnswerCost,
+  startStreamCheckpoint
+} from '@/utils/streamCheckpointUtils';
+import { refundInterruptedStream } from '@/utils/refundSweeperUtils';
+import { fetchAIResponse, FetchAIResponseParams } from '@/utils/apiUtils';
+import { normalizeGenerationParameters } from '@/utils/conversationUtils';
+import { MessageBranch } from '@/utils/messageTreeUtils';
+import { creditRecoveredSpending } from '@/utils/budgetUtils';
+import { loadTransactionHistory, saveTransactionHistory, loadUsingNip60, saveUsingNip60, loadMcpServers, PROVIDER_TOKENS_UPDATED_EVENT } from '@/utils/storageUtils';
 import { calculateBalance } from '@/lib/cashu';
-import { getBalanceFromStoredProofs, getPendingCashuTokenAmount } from '@/utils/cashuUtils'; // Removed getPendingCashuTokenAmount import
+import { getBalanceFromStoredProofs, getPendingCashuTokenAmount, unifiedRefund, UnifiedRefundResult } from '@/utils/cashuUtils'; // Removed getPendingCashuTokenAmount import
 import { useCashuStore } from '@/stores/cashuStore';
 import { useCashuWallet } from '@/hooks/useCashuWallet';
 import { useCashuToken } from '@/hooks/useCashuToken';
@@ -13,6 +27,15 @@ import React from 'react';
 import { useAuth } from '@/context/AuthProvider';
 import { useCreateCashuWallet } from '@/hooks/useCreateCashuWallet';
 
+/**
+ * Wallet and balance bookkeeping shared by every completion request
+ */
+export type WalletRequestParams = Pick<
+  FetchAIResponseParams,
+  'mintUrl' | 'usingNip60' | 'unit' | 'sendToken' | 'receiveToken' | 'activeMintUrl' |
+  'onTransactionUpdate' | 'transactionHistory' | 'onTokenCreated'
+>;
+
 export interface UseChatActionsReturn {
   inputMessage: string;
   isLoading: boolean;
@@ -27,6 +50,10 @@ export interface UseChatActionsReturn {
   mintUnits: Record<string, string>;
   isBalanceLoading: boolean;
   uploadedImages: string[];
+  /** Documents attached to the next message */
+  attachments: PendingAttachment[];
+  /** Whether the next message searches the web */
+  webSearchEnabled: boolean;
   transactionHistory: TransactionHistory[];
   hotTokenBalance: number;
   usingNip60: boolean;
@@ -36,6 +63,8 @@ export interface UseChatActionsReturn {
   setStreamingContent: (content: string) => void;
   setBalance: React.Dispatch<React.SetStateAction<number>>;
   setUploadedImages: React.Dispatch<React.SetStateAction<string[]>>;
+  setAttachments: React.Dispatch<React.SetStateAction<PendingAttachment[]>>;
+  setWebSearchEnabled: (enabled: boolean) => void;
   setTransactionHistory: React.Dispatch<React.SetStateAction<TransactionHistory[]>>;
   setUsingNip60: (using: boolean) => void;
   sendMessage: (
@@ -49,7 +78,9 @@ export interface UseChatActionsReturn {
     isAuthenticated: boolean,
     setIsLoginModalOpen: (open: boolean) => void,
     saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions,
+    requestOverride?: (messages: Message[], conversationId: string) => Promise<void>
   ) => Promise<void>;
   saveInlineEdit: (
     editingMessageIndex: number | null,
@@ -62,10 +93,26 @@ export interface UseChatActionsReturn {
     baseUrl: string,
     mintUrl: string,
     originConversationId: string | null,
-    saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    saveConversationById: (conversationId: string, newMessages: Message[], branch?: MessageBranch) => void,
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions
   ) => Promise<void>;
+  /** Sends the conversation up to a message again; overrideBudget lets that one send through the spending budgets */
   retryMessage: (
+    index: number,
+    messages: Message[],
+    setMessages: (messages: Message[]) => void,
+    selectedModel: any,
+    baseUrl: string,
+    mintUrl: string,
+    originConversationId: string | null,
+    saveConversationById: (conversationId: string, newMessages: Message[], branch?: MessageBranch) => void,
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions,
+    overrideBudget?: boolean
+  ) => void;
+  /** Asks the model to finish an answer that was cut off by a reload */
+  continueGeneration: (
     index: number,
     messages: Message[],
     setMessages: (messages: Message[]) => void,
@@ -74,16 +121,24 @@ export interface UseChatActionsReturn {
     mintUrl: string,
     originConversationId: string | null,
     saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions
   ) => void;
+  stopGeneration: () => void;
+  /** Asks a provider again for the unused balance of its token */
+  retryRefund: (mintUrl: string, baseUrl: string) => Promise<UnifiedRefundResult>;
+  buildWalletRequestParams: (mintUrl: string) => WalletRequestParams;
 }
 
 /**
  * Custom hook for handling chat operations and AI interactions
  * Manages message sending logic, AI response streaming,
  * token management for API calls, and error handling and retries
+ * @param updateConversationMessages Rewrites a conversation's messages, to store what an interrupted answer cost
  */
-export const useChatActions = (): UseChatActionsReturn => {
+export const useChatActions = (
+  updateConversationMessages: (conversationId: string, update: (messages: Message[]) => Message[]) => void
+): UseChatActionsReturn => {
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
@@ -104,12 +159,15 @@ export const useChatActions = (): UseChatActionsReturn => {
   const [currentMintUnit, setCurrentMintUnit] = useState('sat');
   const [isBalanceLoading, setIsBalanceLoading] = useState(true);
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [webSearchEnabled, setWebSearchEnabled] = useState(false);
   const [pendingCashuAmountState, setPendingCashuAmountState] = useState(0);
   const [transactionHistory, setTransactionHistoryState] = useState<TransactionHistory[]>([]);
   const [hotTokenBalance, setHotTokenBalance] = useState<number>(0);
   const [usingNip60, setUsingNip60State] = useState(() => loadUsingNip60());
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Cashu wallet hooks
   const { wallet, isLoading: isWalletLoading, didRelaysTimeout } = useCashuWallet();
@@ -174,12 +232,14 @@ export const useChatActions = (): UseChatActionsReturn => {
     // Initial update
     updatePendingAmount();
 
-    // Listen for storage events
+    // Listen for storage events, and for tokens stored or refunded in this tab
     window.addEventListener('storage', updatePendingAmount);
+    window.addEventListener(PROVIDER_TOKENS_UPDATED_EVENT, updatePendingAmount);
 
     // Cleanup
     return () => {
       window.removeEventListener('storage', updatePendingAmount);
+      window.removeEventListener(PROVIDER_TOKENS_UPDATED_EVENT, updatePendingAmount);
     };
   }, [pendingCashuAmountState]);
 
@@ -268,19 +328,36 @@ export const useChatActions = (): UseChatActionsReturn => {
     isAuthenticated: boolean,
     setIsLoginModalOpen: (open: boolean) => void,
     saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions,
+    requestOverride?: (messages: Message[], conversationId: string) => Promise<void>
   ) => {
     if (!isAuthenticated) {
       setIsLoginModalOpen(true);
       return;
     }
 
-    if (!inputMessage.trim() && uploadedImages.length === 0) return;
+    if (!inputMessage.trim() && uploadedImages.length === 0 && attachments.length === 0) return;
+
+    // Documents go as extracted text, or as files to models that read them natively
+    let documents: ReturnType<typeof buildAttachmentParts>;
+    try {
+      documents = buildAttachmentParts(attachments, selectedModel);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not attach the documents');
+      return;
+    }
 
-    // Create user message with text and images
-    const userMessage = uploadedImages.length > 0
-      ? createMultimodalMessage('user', inputMessage, uploadedImages)
+    // Create user message with text, images and documents
+    const userMessage = uploadedImages.length > 0 || documents.parts.length > 0
+      ? createMultimodalMessage('user', inputMessage, uploadedImages, documents.parts)
       : createTextMessage('user', inputMessage);
+    if (documents.records.length > 0) {
+      userMessage.attachments = documents.records;
+    }
+    if (webSearchEnabled) {
+      userMessage.webSearch = true;
+    }
 
     const updatedMessages = [...messages, userMessage];
     
@@ -292,6 +369,16 @@ export const useChatActions = (): UseChatActionsReturn => {
 
     setInputMessage('');
     setUploadedImages([]);
+    setAttachments([]);
+    setWebSearchEnabled(false);
+
+    if (requestOverride) {
+      if (activeConversationId) {
+        saveConversationById(originConversationId, updatedMessages);
+      }
+      await requestOverride(updatedMessages, originConversationId);
+      return;
+    }
 
     await performAIRequest(
       updatedMessages,
@@ -301,9 +388,10 @@ export const useChatActions = (): UseChatActionsReturn => {
       mintUrl,
       originConversationId,
       saveConversationById,
-      getActiveConversationId
+      getActiveConversationId,
+      requestOptions
     );
-  }, [inputMessage, uploadedImages]);
+  }, [inputMessage, uploadedImages, attachments, webSearchEnabled]);
 
   const saveInlineEdit = useCallback(async (
     editingMessageIndex: number | null,
@@ -316,19 +404,28 @@ export const useChatActions = (): UseChatActionsReturn => {
     baseUrl: string,
     mintUrl: string,
     originConversationId: string | null,
-    saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    saveConversationById: (conversationId: string, newMessages: Message[], branch?: MessageBranch) => void,
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions
   ) => {
     if (editingMessageIndex !== null && editingContent.trim()) {
       const updatedMessages = [...messages];
+      const editedMessage = updatedMessages[editingMessageIndex];
+      // Only the typed text changes; images and attached documents stay with the message
       updatedMessages[editingMessageIndex] = {
-        ...updatedMessages[editingMessageIndex],
-        content: editingContent
+        ...editedMessage,
+        content: Array.isArray(editedMessage.content)
+          ? editedMessage.content.map((part, partIndex) => (partIndex === 0 && part.type === 'text' ? { ...part, text: editingContent } : part))
+          : editingContent
       };
 
       const truncatedMessages = updatedMessages.slice(0, editingMessageIndex + 1);
 
       setMessages(truncatedMessages);
+      // The edited message starts a new branch; the original and its answers stay as a sibling
+      if (originConversationId) {
+        saveConversationById(originConversationId, truncatedMessages, { kind: 'edit', index: editingMessageIndex });
+      }
       setEditingMessageIndex(null);
       setEditingContent('');
 
@@ -341,7 +438,8 @@ export const useChatActions = (): UseChatActionsReturn => {
         mintUrl,
         originId,
         saveConversationById,
-        getActiveConversationId
+        getActiveConversationId,
+        requestOptions
       );
     }
   }, []);
@@ -354,11 +452,17 @@ export const useChatActions = (): UseChatActionsReturn => {
     baseUrl: string,
     mintUrl: string,
     originConversationId: string | null,
-    saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    saveConversationById: (conversationId: string, newMessages: Message[], branch?: MessageBranch) => void,
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions,
+    overrideBudget?: boolean
   ) => {
     const newMessages = messages.slice(0, index);
     setMessages(newMessages);
+    // The new answer becomes a sibling of the one it replaces
+    if (originConversationId) {
+      saveConversationById(originConversationId, newMessages, { kind: 'regenerate', index });
+    }
     performAIRequest(
       newMessages,
       setMessages,
@@ -367,10 +471,72 @@ export const useChatActions = (): UseChatActionsReturn => {
       mintUrl,
       originConversationId,
       saveConversationById,
-      getActiveConversationId
+      getActiveConversationId,
+      requestOptions,
+      overrideBudget
     );
   }, []);
 
+  // Functional update: tool round-trips and parallel requests record several transactions at once
+  const addTransaction = useCallback((transaction: TransactionHistory) => {
+    setTransactionHistoryState(prev => {
+      const updated = [...prev, transaction];
+      saveTransactionHistory(updated);
+      return updated;
+    });
+  }, []);
+
+  const buildWalletRequestParams = useCallback((mintUrl: string): WalletRequestParams => ({
+    mintUrl,
+    usingNip60,
+    unit: mintUnits[cashuStore.activeMintUrl??mintUrl],
+    sendToken: usingNip60 ? sendToken : undefined,
+    receiveToken,
+    activeMintUrl: cashuStore.activeMintUrl,
+    onTransactionUpdate: addTransaction,
+    transactionHistory,
+    onTokenCreated: setPendingCashuAmountState
+  }), [usingNip60, mintUnits, sendToken, receiveToken, cashuStore.activeMintUrl, addTransaction, transactionHistory]);
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const retryRefund = useCallback(async (mintUrl: string, baseUrl: string): Promise<UnifiedRefundResult> => {
+    const result = await unifiedRefund(mintUrl, baseUrl, usingNip60, receiveToken);
+    if (result.refundedAmount !== undefined) {
+      creditRecoveredSpending(baseUrl, currentMintUnit === 'msat' ? result.refundedAmount / 1000 : result.refundedAmount);
+    }
+    setPendingCashuAmountState(getPendingCashuTokenAmount());
+    if (!usingNip60) {
+      setBalance(getBalanceFromStoredProofs() + getPendingCashuTokenAmount());
+    }
+    return result;
+  }, [usingNip60, receiveToken, currentMintUnit]);
+
+  // Streams cut off by a reload left their token with the provider; get the unused part back once the wallet is ready
+  // and record what the answer cost. useConversationState runs first in ChatProvider, so the partial answers are restored by then.
+  const isRefundingInterruptedRef = useRef(false);
+  useEffect(() => {
+    if (isRefundingInterruptedRef.current || isLoading || (usingNip60 && (isWalletLoading || !wallet))) return;
+    const checkpoints = getUnrefundedCheckpoints();
+    if (checkpoints.length === 0) return;
+
+    isRefundingInterruptedRef.current = true;
+    (async () => {
+      for (const checkpoint of checkpoints) {
+        const satsSpent = await refundInterruptedStream(checkpoint, { usingNip60, receiveToken, onTransaction: addTransaction });
+        if (satsSpent !== null) {
+          updateConversationMessages(checkpoint.conversationId, messages => setInterruptedAnswerCost(messages, checkpoint, satsSpent));
+        }
+      }
+      setPendingCashuAmountState(getPendingCashuTokenAmount());
+      if (!usingNip60) {
+        setBalance(getBalanceFromStoredProofs() + getPendingCashuTokenAmount());
+      }
+    })();
+  }, [isLoading, usingNip60, isWalletLoading, wallet, receiveToken, addTransaction, updateConversationMessages]);
+
   const performAIRequest = useCallback(async (
     messageHistory: Message[],
     setMessages: (messages: Message[]) => void,
@@ -379,7 +545,9 @@ export const useChatActions = (): UseChatActionsReturn => {
     mintUrl: string,
     originConversationId: string | null,
     saveConversationById: (conversationId: string, newMessages: Message[]) => void,
-    getActiveConversationId: () => string | null
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions,
+    overrideBudget?: boolean
   ) => {
     setIsLoading(true);
     setStreamingContent('');
@@ -391,6 +559,13 @@ export const useChatActions = (): UseChatActionsReturn => {
       setThinkingContentByConversation(prev => ({ ...prev, [originConversationId]: '' }));
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // Lets a reload restore the partial answer and refund the token
+    const checkpoint = originConversationId
+      ? startStreamCheckpoint({ conversationId: originConversationId, baseUrl, mintUrl, modelId: selectedModel?.id })
+      : null;
+
     // Create a ref to track current messages during the API call
     let currentMessages = messageHistory;
     const updateMessages = (newMessages: Message[]) => {
@@ -406,25 +581,21 @@ export const useChatActions = (): UseChatActionsReturn => {
 
     try {
       await fetchAIResponse({
+        ...buildWalletRequestParams(mintUrl),
         messageHistory,
         selectedModel,
         baseUrl,
-        mintUrl,
-        usingNip60,
-        balance,
-        unit: mintUnits[cashuStore.activeMintUrl??mintUrl],
-        sendToken: usingNip60 ? sendToken : undefined,
-        receiveToken,
-        activeMintUrl: cashuStore.activeMintUrl,
         onStreamingUpdate: (content) => {
           // Ignore stale updates from previous streams
           if (streamingConversationIdRef.current !== (originConversationId ?? null)) return;
+          checkpoint?.update({ content });
           if (originConversationId) {
             setStreamingContentByConversation(prev => ({ ...prev, [originConversationId]: content }));
           }
         },
         onThinkingUpdate: (content) => {
           if (streamingConversationIdRef.current !== (originConversationId ?? null)) return;
+          checkpoint?.update({ thinking: content });
           if (originConversationId) {
             setThinkingContentByConversation(prev => ({ ...prev, [originConversationId]: content }));
           }
@@ -434,20 +605,26 @@ export const useChatActions = (): UseChatActionsReturn => {
           // Append to current messages state
           const updatedMessages = [...currentMessages, message];
           updateMessages(updatedMessages);
+          // The answer is stored now; anything streamed after it belongs to the next tool round
+          checkpoint?.update({ content: '', thinking: '' });
         },
-        onBalanceUpdate: setBalance,
-        onTransactionUpdate: (transaction) => {
-          const updated = [...transactionHistory, transaction];
-          setTransactionHistoryState(updated);
-          saveTransactionHistory(updated);
-          return updated;
+        onImagesGenerated: (images) => {
+          if (!originConversationId) return;
+          saveGalleryImages(originConversationId, images).catch(error => console.error('Failed to save generated images:', error));
         },
-        transactionHistory,
-        onTokenCreated: setPendingCashuAmountState,
+        abortSignal: abortController.signal,
+        mcpServers: loadMcpServers(),
+        generationParameters: normalizeGenerationParameters(requestOptions?.parameters),
+        systemPrompt: requestOptions?.systemPrompt,
+        overrideBudget
       });
       setPendingCashuAmountState(getPendingCashuTokenAmount());
  
     } finally {
+      checkpoint?.clear();
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
       setStreamingContent('');
       setThinkingContent('');
@@ -458,7 +635,34 @@ export const useChatActions = (): UseChatActionsReturn => {
         setThinkingContentByConversation(prev => ({ ...prev, [originConversationId]: '' }));
       }
     }
-  }, [usingNip60, balance, sendToken, receiveToken, cashuStore.activeMintUrl, transactionHistory, setPendingCashuAmountState]);
+  }, [buildWalletRequestParams]);
+
+  const continueGeneration = useCallback((
+    index: number,
+    messages: Message[],
+    setMessages: (messages: Message[]) => void,
+    selectedModel: any,
+    baseUrl: string,
+    mintUrl: string,
+    originConversationId: string | null,
+    saveConversationById: (conversationId: string, newMessages: Message[]) => void,
+    getActiveConversationId: () => string | null,
+    requestOptions?: ConversationRequestOptions
+  ) => {
+    // The instruction only goes to the provider; what comes back is appended to the partial answer
+    const { history, instruction } = buildContinuationHistory(messages, index);
+    performAIRequest(
+      history,
+      (newMessages) => setMessages(mergeContinuation(newMessages, index, instruction)),
+      selectedModel,
+      baseUrl,
+      mintUrl,
+      originConversationId,
+      (conversationId, newMessages) => saveConversationById(conversationId, mergeContinuation(newMessages, index, instruction)),
+      getActiveConversationId,
+      requestOptions
+    );
+  }, [performAIRequest]);
 
   return {
     inputMessage,
@@ -474,6 +678,8 @@ export const useChatActions = (): UseChatActionsReturn => {
     mintUnits,
     isBalanceLoading,
     uploadedImages,
+    attachments,
+    webSearchEnabled,
     transactionHistory,
     hotTokenBalance,
     usingNip60,
@@ -483,10 +689,16 @@ export const useChatActions = (): UseChatActionsReturn => {
     setStreamingContent,
     setBalance: setBalance,
     setUploadedImages,
+    setAttachments,
+    setWebSearchEnabled,
     setTransactionHistory,
     setUsingNip60,
     sendMessage,
     saveInlineEdit,
-    retryMessage
+    retryMessage,
+    continueGeneration,
+    stopGeneration,
+    retryRefund,
+    buildWalletRequestParams
   };
 };
\ No newline at end of file
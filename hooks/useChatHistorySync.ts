@@ -7,6 +7,7 @@ import { KINDS } from '@/lib/nostr-kinds';
 import {
   getConversationsUpdatedAt,
   loadConversationsFromStorage,
+  migrateLegacyErrorMessages,
   persistConversationsSnapshot
 } from '@/utils/conversationUtils';
 
@@ -340,7 +341,7 @@ export const useChatHistorySync = ({
           chunks
         } = parseChatHistoryEnvelope(decrypted, fallbackUpdatedAt);
 
-        let cloudConversations = directConversations;
+        let cloudConversations = directConversations ? migrateLegacyErrorMessages(directConversations) : directConversations;
 
         if ((!cloudConversations || cloudConversations.length === 0) && chunks && chunks.length > 0) {
           const sortedChunks = [...chunks].sort((a, b) => a.index - b.index);
@@ -387,7 +388,7 @@ export const useChatHistorySync = ({
             try {
               const combined = reconstructedParts.join('');
               const parsedConversations = JSON.parse(combined) as Conversation[];
-              cloudConversations = parsedConversations;
+              cloudConversations = migrateLegacyErrorMessages(parsedConversations);
             } catch (error) {
               console.error('Failed to parse reconstructed chat history snapshot:', error);
             }
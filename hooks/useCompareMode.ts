@@ -0,0 +1,228 @@
+import { useState, useCallback, useRef } from 'react';
+import { CompareTarget, ConversationRequestOptions, Message } from '@/types/chat';
+import { fetchAIResponse } from '@/utils/apiUtils';
+import { normalizeGenerationParameters } from '@/utils/conversationUtils';
+import { getAlternativeProviders, normalizeBaseUrl } from '@/utils/modelUtils';
+import { loadCompareTargets, saveCompareTargets } from '@/utils/storageUtils';
+import { WalletRequestParams } from './useChatActions';
+
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+export interface CompareColumn {
+  id: string;
+  modelId: string;
+  baseUrl: string;
+  status: 'queued' | 'streaming' | 'done' | 'error' | 'stopped';
+  content: string;
+  thinking: string;
+  /** Messages produced by this model (assistant answer, tool results) */
+  messages: Message[];
+  errors: string[];
+  satsSpent: number;
+  /** Milliseconds from sending the request to the first streamed token */
+  firstTokenMs?: number;
+  durationMs?: number;
+}
+
+export interface CompareRun {
+  conversationId: string;
+  columns: CompareColumn[];
+}
+
+export interface UseCompareModeReturn {
+  compareTargets: CompareTarget[];
+  setCompareTargets: (targets: CompareTarget[]) => void;
+  isCompareMode: boolean;
+  compareRun: CompareRun | null;
+  isComparing: boolean;
+  runCompare: (
+    messageHistory: Message[],
+    conversationId: string,
+    mintUrl: string,
+    requestOptions?: ConversationRequestOptions
+  ) => Promise<void>;
+  stopCompare: () => void;
+  promoteCompareAnswer: (columnId: string) => Message[] | null;
+  dismissCompare: () => void;
+}
+
+/**
+ * Custom hook for compare mode
+ * Sends one message history to several models in parallel and keeps their answers side by side
+ * until one of them is promoted into the conversation.
+ * Requests to the same provider run one after another because the provider's token is shared,
+ * and token minting is serialized so parallel requests never pick the same proofs.
+ */
+export const useCompareMode = (
+  buildWalletRequestParams: (mintUrl: string) => WalletRequestParams
+): UseCompareModeReturn => {
+  const [compareTargets, setCompareTargetsState] = useState<CompareTarget[]>(() => loadCompareTargets());
+  const [compareRun, setCompareRun] = useState<CompareRun | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const setCompareTargets = useCallback((targets: CompareTarget[]) => {
+    const limited = targets.slice(0, MAX_COMPARE_MODELS);
+    setCompareTargetsState(limited);
+    saveCompareTargets(limited);
+  }, []);
+
+  const updateColumn = useCallback((columnId: string, update: (column: CompareColumn) => Partial<CompareColumn>) => {
+    setCompareRun(prev => prev && {
+      ...prev,
+      columns: prev.columns.map(column => (column.id === columnId ? { ...column, ...update(column) } : column))
+    });
+  }, []);
+
+  const runCompare = useCallback(async (
+    messageHistory: Message[],
+    conversationId: string,
+    mintUrl: string,
+    requestOptions?: ConversationRequestOptions
+  ) => {
+    const columns: CompareColumn[] = compareTargets.map((target, index) => ({
+      id: `${index}-${target.modelId}`,
+      modelId: target.modelId,
+      baseUrl: normalizeBaseUrl(target.baseUrl) ?? target.baseUrl,
+      status: 'queued',
+      content: '',
+      thinking: '',
+      messages: [],
+      errors: [],
+      satsSpent: 0
+    }));
+    setCompareRun({ conversationId, columns });
+    setIsComparing(true);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Each column waits for the previous one to obtain its token before minting its own
+    let tokenGate: Promise<void> = Promise.resolve();
+
+    const runColumn = async (column: CompareColumn) => {
+      const previousGate = tokenGate;
+      let releaseGate: () => void = () => {};
+      tokenGate = new Promise<void>(resolve => { releaseGate = resolve; });
+      await previousGate;
+
+      const providerModel = getAlternativeProviders(column.modelId)
+        .find(provider => provider.baseUrl === column.baseUrl)?.model;
+      if (!providerModel) {
+        releaseGate();
+        updateColumn(column.id, () => ({ status: 'error', errors: [`${column.modelId} is not offered by ${column.baseUrl}`] }));
+        return;
+      }
+      if (abortController.signal.aborted) {
+        releaseGate();
+        updateColumn(column.id, () => ({ status: 'stopped' }));
+        return;
+      }
+
+      const startedAt = Date.now();
+      let firstTokenMs: number | undefined;
+      updateColumn(column.id, () => ({ status: 'streaming' }));
+      const walletParams = buildWalletRequestParams(mintUrl);
+
+      try {
+        await fetchAIResponse({
+          ...walletParams,
+          messageHistory,
+          selectedModel: providerModel,
+          baseUrl: column.baseUrl,
+          onStreamingUpdate: (content) => {
+            if (content && firstTokenMs === undefined) {
+              firstTokenMs = Date.now() - startedAt;
+            }
+            updateColumn(column.id, () => ({ content, ...(firstTokenMs !== undefined ? { firstTokenMs } : {}) }));
+          },
+          onThinkingUpdate: (thinking) => updateColumn(column.id, () => ({ thinking })),
+          onMessagesUpdate: (messages) => updateColumn(column.id, () => ({
+            // Error notices are shown from `errors` and never promoted into the conversation
+            messages: messages.slice(messageHistory.length).filter(m => m.role !== 'error')
+          })),
+          onMessageAppend: (message) => updateColumn(column.id, current => (
+            message.role === 'error'
+              ? { errors: [...current.errors, typeof message.content === 'string' ? message.content : 'Request failed'] }
+              : { messages: [...current.messages, message] }
+          )),
+          onTransactionUpdate: (transaction) => {
+            walletParams.onTransactionUpdate(transaction);
+            if (transaction.type === 'spent') {
+              updateColumn(column.id, current => ({ satsSpent: current.satsSpent + transaction.amount }));
+            }
+          },
+          onTokenCreated: (amount) => {
+            walletParams.onTokenCreated(amount);
+            releaseGate();
+          },
+          abortSignal: abortController.signal,
+          generationParameters: normalizeGenerationParameters(requestOptions?.parameters),
+          systemPrompt: requestOptions?.systemPrompt,
+          // A failed column stays on its provider: taking over another column's provider would make them share its token
+          allowFailover: false
+          // MCP tools are left out: their side effects would run once per compared model
+        });
+      } finally {
+        releaseGate();
+        const durationMs = Date.now() - startedAt;
+        updateColumn(column.id, current => ({
+          durationMs,
+          content: '',
+          thinking: '',
+          status: abortController.signal.aborted
+            ? 'stopped'
+            : current.messages.some(m => m.role === 'assistant') ? 'done' : 'error'
+        }));
+      }
+    };
+
+    // Group by provider: one provider token serves one request at a time
+    const columnsByProvider = new Map<string, CompareColumn[]>();
+    for (const column of columns) {
+      columnsByProvider.set(column.baseUrl, [...(columnsByProvider.get(column.baseUrl) ?? []), column]);
+    }
+
+    try {
+      await Promise.all(Array.from(columnsByProvider.values()).map(async providerColumns => {
+        for (const column of providerColumns) {
+          await runColumn(column);
+        }
+      }));
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setIsComparing(false);
+    }
+  }, [compareTargets, buildWalletRequestParams, updateColumn]);
+
+  const stopCompare = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const promoteCompareAnswer = useCallback((columnId: string): Message[] | null => {
+    const column = compareRun?.columns.find(c => c.id === columnId);
+    if (!column || column.messages.length === 0) return null;
+    setCompareRun(null);
+    return column.messages;
+  }, [compareRun]);
+
+  const dismissCompare = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setCompareRun(null);
+  }, []);
+
+  return {
+    compareTargets,
+    setCompareTargets,
+    isCompareMode: compareTargets.length >= MIN_COMPARE_MODELS,
+    compareRun,
+    isComparing,
+    runCompare,
+    stopCompare,
+    promoteCompareAnswer,
+    dismissCompare
+  };
+};
@@ -1,14 +1,19 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Conversation, Message } from '@/types/chat';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Conversation, ConversationRequestOptions, GenerationParameters, Message, Persona } from '@/types/chat';
 import {
   loadConversationsFromStorage,
   saveConversationToStorage,
   createNewConversation,
   deleteConversationFromStorage,
   findConversationById,
-  clearAllConversations
+  clearAllConversations,
+  updateConversation,
+  getPersonaFields
 } from '@/utils/conversationUtils';
 import { getTextFromContent } from '@/utils/messageUtils';
+import { BranchInfo, getBranchInfo, MessageBranch, switchMessageBranch } from '@/utils/messageTreeUtils';
+import { restoreInterruptedStreams } from '@/utils/streamCheckpointUtils';
+import { clearGalleries, deleteConversationGallery } from '@/utils/imageGalleryUtils';
 import { useChatHistorySync } from './useChatHistorySync';
 
 export interface UseConversationStateReturn {
@@ -18,6 +23,10 @@ export interface UseConversationStateReturn {
   messages: Message[];
   editingMessageIndex: number | null;
   editingContent: string;
+  activeConversationParameters: GenerationParameters | undefined;
+  activePersonaId: string | undefined;
+  activeConversationRequestOptions: ConversationRequestOptions;
+  branchInfo: (BranchInfo | null)[];
   setConversations: (conversations: Conversation[]) => void;
   setActiveConversationId: (id: string | null) => void;
   setMessages: (messages: Message[]) => void;
@@ -30,8 +39,14 @@ export interface UseConversationStateReturn {
   startEditingMessage: (index: number) => void;
   cancelEditing: () => void;
   saveCurrentConversation: () => void;
-  saveConversationById: (conversationId: string, newMessages: Message[]) => void;
+  /** Saves messages to a conversation; pass a branch when they regenerate or edit a message */
+  saveConversationById: (conversationId: string, newMessages: Message[], branch?: MessageBranch) => void;
+  /** Rewrites the messages of a conversation in place, also when it is the open one */
+  updateConversationMessages: (conversationId: string, update: (messages: Message[]) => Message[]) => void;
   getActiveConversationId: () => string | null;
+  setActiveConversationParameters: (parameters: GenerationParameters | undefined) => void;
+  selectPersona: (persona: Persona | null) => void;
+  switchBranch: (messageIndex: number, offset: number) => void;
 }
 
 /**
@@ -46,6 +61,29 @@ export const useConversationState = (): UseConversationStateReturn => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [editingMessageIndex, setEditingMessageIndex] = useState<number | null>(null);
   const [editingContent, setEditingContent] = useState('');
+  // Parameters chosen before the first message, applied when the conversation is created
+  const [draftParameters, setDraftParameters] = useState<GenerationParameters | undefined>(undefined);
+  const [draftPersona, setDraftPersona] = useState<Persona | null>(null);
+  // Read by updates that finish after the user may have switched conversations
+  const activeConversationIdRef = useRef(activeConversationId);
+  activeConversationIdRef.current = activeConversationId;
+
+  const activeConversation = activeConversationId
+    ? findConversationById(conversations, activeConversationId)
+    : undefined;
+  const activeConversationParameters = activeConversationId
+    ? activeConversation?.parameters
+    : draftParameters;
+  const activePersonaId = activeConversationId
+    ? activeConversation?.personaId
+    : draftPersona?.id;
+  const branchInfo = getBranchInfo(activeConversation?.messageTree, messages.length);
+  const activeConversationRequestOptions: ConversationRequestOptions = {
+    parameters: activeConversationParameters,
+    systemPrompt: activeConversationId
+      ? activeConversation?.systemPrompt
+      : getPersonaFields(draftPersona).systemPrompt
+  };
 
   useChatHistorySync({
     conversations,
@@ -57,7 +95,8 @@ export const useConversationState = (): UseConversationStateReturn => {
 
   // Load conversations from storage on mount
   useEffect(() => {
-    const loadedConversations = loadConversationsFromStorage();
+    // Answers that were still streaming when the page unloaded come back marked as interrupted
+    const loadedConversations = restoreInterruptedStreams(loadConversationsFromStorage());
     setConversations(loadedConversations);
     setConversationsLoaded(true);
   }, []);
@@ -93,15 +132,20 @@ export const useConversationState = (): UseConversationStateReturn => {
   const createNewConversationHandler = useCallback((initialMessages: Message[] = []) => {
     let createdId: string = '';
     setConversations(prevConversations => {
-      const { newConversation, updatedConversations } = createNewConversation(prevConversations, initialMessages);
+      const { newConversation, updatedConversations } = createNewConversation(prevConversations, initialMessages, {
+        parameters: draftParameters,
+        persona: draftPersona ?? undefined
+      });
       createdId = newConversation.id;
       setActiveConversationId(newConversation.id);
       // Set messages to the initial messages (empty array if none provided)
       setMessages(initialMessages);
       return updatedConversations;
     });
+    setDraftParameters(undefined);
+    setDraftPersona(null);
     return createdId;
-  }, []);
+  }, [draftParameters, draftPersona]);
 
   const loadConversation = useCallback((conversationId: string) => {
     setConversations(prevConversations => {
@@ -116,6 +160,7 @@ export const useConversationState = (): UseConversationStateReturn => {
 
   const deleteConversation = useCallback((conversationId: string, e: React.MouseEvent) => {
     e.stopPropagation();
+    deleteConversationGallery(conversationId).catch(error => console.error('Failed to delete the image gallery:', error));
 
     setConversations(prevConversations => {
       const updatedConversations = deleteConversationFromStorage(prevConversations, conversationId);
@@ -134,6 +179,7 @@ export const useConversationState = (): UseConversationStateReturn => {
     setActiveConversationId(null);
     setMessages([]);
     clearAllConversations();
+    clearGalleries().catch(error => console.error('Failed to clear the image galleries:', error));
   }, []);
 
   const startEditingMessage = useCallback((index: number) => {
@@ -142,6 +188,42 @@ export const useConversationState = (): UseConversationStateReturn => {
     setEditingContent(messageText);
   }, [messages]);
 
+  const setActiveConversationParameters = useCallback((parameters: GenerationParameters | undefined) => {
+    if (!activeConversationId) {
+      setDraftParameters(parameters);
+      return;
+    }
+    setConversations(prevConversations => updateConversation(prevConversations, activeConversationId, { parameters }));
+  }, [activeConversationId]);
+
+  // A persona brings its system prompt and, when it has them, its default parameters
+  const selectPersona = useCallback((persona: Persona | null) => {
+    if (!activeConversationId) {
+      setDraftPersona(persona);
+      if (persona?.defaultParameters) setDraftParameters(persona.defaultParameters);
+      return;
+    }
+    setConversations(prevConversations => updateConversation(prevConversations, activeConversationId, {
+      ...getPersonaFields(persona),
+      ...(persona?.defaultParameters ? { parameters: persona.defaultParameters } : {})
+    }));
+  }, [activeConversationId]);
+
+  const switchBranch = useCallback((messageIndex: number, offset: number) => {
+    if (!activeConversationId) return;
+    setConversations(prevConversations => {
+      const conversation = findConversationById(prevConversations, activeConversationId);
+      if (!conversation?.messageTree) return prevConversations;
+      const switched = switchMessageBranch(conversation.messageTree, messageIndex, offset);
+      if (!switched) return prevConversations;
+      setMessages(switched.messages);
+      return updateConversation(prevConversations, activeConversationId, {
+        messageTree: switched.tree,
+        messages: switched.messages
+      });
+    });
+  }, [activeConversationId]);
+
   const cancelEditing = useCallback(() => {
     setEditingMessageIndex(null);
     setEditingContent('');
@@ -153,6 +235,10 @@ export const useConversationState = (): UseConversationStateReturn => {
     messages,
     editingMessageIndex,
     editingContent,
+    activeConversationParameters,
+    activePersonaId,
+    activeConversationRequestOptions,
+    branchInfo,
     setConversations,
     setActiveConversationId,
     setMessages,
@@ -165,12 +251,24 @@ export const useConversationState = (): UseConversationStateReturn => {
     startEditingMessage,
     cancelEditing,
     saveCurrentConversation,
-    saveConversationById: (conversationId: string, newMessages: Message[]) => {
+    saveConversationById: (conversationId: string, newMessages: Message[], branch?: MessageBranch) => {
       setConversations(prevConversations => {
-        return saveConversationToStorage(prevConversations, conversationId, newMessages);
+        return saveConversationToStorage(prevConversations, conversationId, newMessages, branch);
       });
     },
+    updateConversationMessages: (conversationId: string, update: (messages: Message[]) => Message[]) => {
+      setConversations(prevConversations => {
+        const conversation = findConversationById(prevConversations, conversationId);
+        return conversation ? saveConversationToStorage(prevConversations, conversationId, update(conversation.messages)) : prevConversations;
+      });
+      if (activeConversationIdRef.current === conversationId) {
+        setMessages(update);
+      }
+    },
     getActiveConversationId: () => activeConversationId,
+    setActiveConversationParameters,
+    selectPersona,
+    switchBranch,
     conversationsLoaded
   };
 };
@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Message } from '@/types/chat';
+import { convertMessageForAPI, createMultimodalMessage, createTextMessage } from '@/utils/messageUtils';
+import { buildAttachmentParts, PendingAttachment } from '@/utils/attachmentUtils';
+import { getImageOutputMode, IMAGES_PER_REQUEST } from '@/utils/imageGenerationUtils';
+import { estimatePromptCost } from '@/utils/tokenUtils';
+import { loadTokenizer } from '@/utils/tokenizerUtils';
+
+export interface CostPreview {
+  /** Prompt tokens of the request the draft would send */
+  tokens: number;
+  /** Whether the tokens were counted with the model's own tokenizer */
+  exact: boolean;
+  /** Sats for the prompt, its images and searches; the answer is billed on top */
+  sats: number;
+}
+
+interface UseCostPreviewParams {
+  model: any;
+  messages: Message[];
+  systemPrompt?: string;
+  inputMessage: string;
+  uploadedImages: string[];
+  attachments: PendingAttachment[];
+  webSearch: boolean;
+}
+
+/**
+ * Live estimate of what sending the draft in the chat input will cost
+ * The history is counted once per change; only the draft is recounted while typing.
+ * @returns The estimate, or null while there is nothing to send
+ */
+export const useCostPreview = ({
+  model,
+  messages,
+  systemPrompt,
+  inputMessage,
+  uploadedImages,
+  attachments,
+  webSearch
+}: UseCostPreviewParams): CostPreview | null => {
+  // Bumped when a tokenizer table finishes loading, so counts switch from approximate to exact
+  const [tokenizerVersion, setTokenizerVersion] = useState(0);
+
+  useEffect(() => {
+    if (!model) return;
+    let cancelled = false;
+    loadTokenizer(model)
+      .then(() => {
+        if (!cancelled) setTokenizerVersion(version => version + 1);
+      })
+      .catch(error => console.warn('Could not load the tokenizer:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [model]);
+
+  const imageMode = getImageOutputMode(model);
+
+  const history = useMemo(() => {
+    // Image-only models get the draft as their whole prompt
+    if (!model || imageMode === 'endpoint') return null;
+    const apiMessages = [
+      ...(systemPrompt ? [convertMessageForAPI(createTextMessage('system', systemPrompt))] : []),
+      ...messages.filter(message => message.role !== 'error').map(convertMessageForAPI)
+    ];
+    return estimatePromptCost(model, apiMessages);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [model, imageMode, messages, systemPrompt, tokenizerVersion]);
+
+  return useMemo(() => {
+    if (!model || (!inputMessage.trim() && uploadedImages.length === 0 && attachments.length === 0)) return null;
+
+    let documentParts: ReturnType<typeof buildAttachmentParts>['parts'] = [];
+    try {
+      documentParts = buildAttachmentParts(attachments, model).parts;
+    } catch {
+      // Attachments the model cannot take are reported when sending
+    }
+    const draft = uploadedImages.length > 0 || documentParts.length > 0
+      ? createMultimodalMessage('user', inputMessage, uploadedImages, documentParts)
+      : createTextMessage('user', inputMessage);
+    const draftCost = estimatePromptCost(model, [convertMessageForAPI(draft)], webSearch, imageMode ? IMAGES_PER_REQUEST : 0);
+
+    return {
+      tokens: (history?.tokens ?? 0) + draftCost.tokens,
+      exact: draftCost.exact,
+      sats: (history?.sats ?? 0) + draftCost.sats
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [model, imageMode, history, inputMessage, uploadedImages, attachments, webSearch, tokenizerVersion]);
+};
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useChat } from '@/context/ChatProvider';
+import { fetchProviderTokenBalance, getHotTokens, HotToken } from '@/utils/cashuUtils';
+import { RoutstrError } from '@/utils/routstrErrors';
+import { isTokenInFlight } from '@/utils/tokenUtils';
+import { isTokenHeldByStream } from '@/utils/streamCheckpointUtils';
+
+export interface HotTokenReport {
+  baseUrl: string;
+  success: boolean;
+  /** Sats returned to the wallet */
+  refundedAmount?: number;
+  message: string;
+  /** The provider's x-routstr-request-id, for support requests */
+  requestId?: string;
+}
+
+export interface LiveTokenBalance {
+  /** Sats left on the token; undefined when the query failed */
+  balance?: number;
+  error?: string;
+  requestId?: string;
+}
+
+export interface UseHotTokensReturn {
+  hotTokens: HotToken[];
+  /** Live balances from v1/wallet/info, keyed by base URL */
+  liveBalances: Record<string, LiveTokenBalance>;
+  /** Outcome of the latest refund per provider, in the order they ran */
+  reports: HotTokenReport[];
+  /** Base URLs with a balance check or refund in flight */
+  busyBaseUrls: string[];
+  isReclaimingAll: boolean;
+  checkBalances: () => Promise<void>;
+  reclaim: (baseUrl: string) => Promise<HotTokenReport>;
+  reclaimAll: () => Promise<HotTokenReport[]>;
+}
+
+/**
+ * Tokens stranded at providers, with their live balances and refunds one by one or all at once
+ * Refunds run one after another, since each one stores the returned proofs in the same wallet.
+ */
+export const useHotTokens = (): UseHotTokensReturn => {
+  const { mintUrl, retryRefund, currentMintUnit } = useChat();
+  const [hotTokens, setHotTokens] = useState<HotToken[]>([]);
+  const [liveBalances, setLiveBalances] = useState<Record<string, LiveTokenBalance>>({});
+  const [reports, setReports] = useState<HotTokenReport[]>([]);
+  const [busyBaseUrls, setBusyBaseUrls] = useState<string[]>([]);
+  const [isReclaimingAll, setIsReclaimingAll] = useState(false);
+
+  const refreshTokens = useCallback(() => setHotTokens(getHotTokens()), []);
+
+  useEffect(() => {
+    refreshTokens();
+    window.addEventListener('storage', refreshTokens);
+    return () => window.removeEventListener('storage', refreshTokens);
+  }, [refreshTokens]);
+
+  const setBusy = (baseUrl: string, busy: boolean) => {
+    setBusyBaseUrls(prev => busy ? [...prev, baseUrl] : prev.filter(url => url !== baseUrl));
+  };
+
+  const checkBalances = useCallback(async () => {
+    for (const { baseUrl } of getHotTokens()) {
+      setBusy(baseUrl, true);
+      let result: LiveTokenBalance;
+      try {
+        result = { balance: await fetchProviderTokenBalance(mintUrl, baseUrl) };
+      } catch (error) {
+        result = {
+          error: error instanceof Error ? error.message : 'Balance check failed',
+          ...(error instanceof RoutstrError && error.requestId ? { requestId: error.requestId } : {})
+        };
+      }
+      setLiveBalances(prev => ({ ...prev, [baseUrl]: result }));
+      setBusy(baseUrl, false);
+    }
+    // Used-up tokens are forgotten by the balance check
+    refreshTokens();
+  }, [mintUrl, refreshTokens]);
+
+  const reclaim = useCallback(async (baseUrl: string): Promise<HotTokenReport> => {
+    // Refunding a token mid-request would leave the request without its balance; a token no request
+    // holds any more is the user's to refund, however recently it was used
+    if (isTokenInFlight(baseUrl) || isTokenHeldByStream(baseUrl)) {
+      const report: HotTokenReport = { baseUrl, success: false, message: 'A request is still using this token; try again once it finished' };
+      setReports(prev => [...prev.filter(entry => entry.baseUrl !== baseUrl), report]);
+      return report;
+    }
+
+    setBusy(baseUrl, true);
+    try {
+      const result = await retryRefund(mintUrl, baseUrl);
+      const refundedAmount = result.refundedAmount !== undefined
+        ? (currentMintUnit === 'msat' ? result.refundedAmount / 1000 : result.refundedAmount)
+        : undefined;
+      const requestId = result.requestId ?? result.error?.requestId;
+      const report: HotTokenReport = {
+        baseUrl,
+        success: result.success,
+        ...(refundedAmount !== undefined ? { refundedAmount } : {}),
+        message: result.message ?? (result.success ? 'Refund completed' : 'Refund failed'),
+        ...(requestId ? { requestId } : {})
+      };
+      setReports(prev => [...prev.filter(entry => entry.baseUrl !== baseUrl), report]);
+      if (result.success) {
+        setLiveBalances(prev => {
+          const { [baseUrl]: _refunded, ...rest } = prev;
+          return rest;
+        });
+      }
+      return report;
+    } finally {
+      setBusy(baseUrl, false);
+      refreshTokens();
+    }
+  }, [mintUrl, retryRefund, currentMintUnit, refreshTokens]);
+
+  const reclaimAll = useCallback(async (): Promise<HotTokenReport[]> => {
+    setIsReclaimingAll(true);
+    const results: HotTokenReport[] = [];
+    try {
+      for (const { baseUrl } of getHotTokens()) {
+        results.push(await reclaim(baseUrl));
+      }
+    } finally {
+      setIsReclaimingAll(false);
+    }
+    return results;
+  }, [reclaim]);
+
+  return { hotTokens, liveBalances, reports, busyBaseUrls, isReclaimingAll, checkBalances, reclaim, reclaimAll };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { GalleryImage } from '@/types/chat';
+import { deleteGalleryImage, GALLERY_UPDATED_EVENT, loadGalleryImages } from '@/utils/imageGalleryUtils';
+
+export interface UseImageGalleryReturn {
+  /** Images generated in the conversation, oldest first */
+  images: GalleryImage[];
+  removeImage: (image: GalleryImage) => Promise<void>;
+}
+
+/**
+ * Images generated in a conversation, kept in sync with the gallery store
+ * @param conversationId The conversation; no images without one
+ */
+export const useImageGallery = (conversationId: string | null): UseImageGalleryReturn => {
+  const [images, setImages] = useState<GalleryImage[]>([]);
+
+  useEffect(() => {
+    if (!conversationId) {
+      setImages([]);
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = () => {
+      loadGalleryImages(conversationId)
+        .then(loaded => {
+          if (!cancelled) setImages(loaded);
+        })
+        .catch(error => console.error('Failed to load the image gallery:', error));
+    };
+    const handleUpdate = (event: Event) => {
+      const updatedId = (event as CustomEvent<{ conversationId: string | null }>).detail?.conversationId;
+      if (updatedId === null || updatedId === conversationId) refresh();
+    };
+
+    refresh();
+    window.addEventListener(GALLERY_UPDATED_EVENT, handleUpdate);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(GALLERY_UPDATED_EVENT, handleUpdate);
+    };
+  }, [conversationId]);
+
+  const removeImage = useCallback(async (image: GalleryImage) => {
+    await deleteGalleryImage(image);
+  }, []);
+
+  return { images, removeImage };
+};
@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Model } from '@/data/models';
+import { LocalEndpointLogEntry, LocalEndpointSettings } from '@/types/chat';
+import { relayCompletionRequest } from '@/utils/apiUtils';
+import {
+  createLocalBridgeReplier,
+  createModelList,
+  createOpenAiError,
+  DEFAULT_LOCAL_BRIDGE_URL,
+  generateLocalApiKey,
+  LocalEndpointReply,
+  LocalEndpointRequest,
+  pollLocalBridge,
+  recordLocalEndpointRequest,
+  resolveLocalEndpointRoute
+} from '@/utils/localEndpointUtils';
+import { BudgetExceededError, InsufficientBalanceError, ProviderDownError } from '@/utils/routstrErrors';
+import { loadLocalEndpointLog, loadLocalEndpointSettings, loadModelProviderMap, saveLocalEndpointLog, saveLocalEndpointSettings } from '@/utils/storageUtils';
+import { WalletRequestParams } from './useChatActions';
+
+// Wait before asking a bridge that could not be reached again
+const BRIDGE_RETRY_MS = 5000;
+
+export interface UseLocalEndpointReturn {
+  localEndpoint: LocalEndpointSettings | null;
+  localEndpointLog: LocalEndpointLogEntry[];
+  /** Set while the bridge cannot be reached or rejects the local key */
+  localEndpointError: string | null;
+  setLocalEndpointEnabled: (enabled: boolean) => void;
+  /** Points the app at a bridge started on another port */
+  setLocalBridgeUrl: (bridgeUrl: string) => void;
+  regenerateLocalApiKey: () => void;
+  clearLocalEndpointLog: () => void;
+}
+
+/**
+ * Custom hook for the local OpenAI-compatible endpoint
+ * Polls the local bridge while the endpoint is on and answers the requests tools send it,
+ * paying providers from the app's wallet like a chat request.
+ */
+export const useLocalEndpoint = (
+  models: readonly Model[],
+  baseUrl: string,
+  mintUrl: string,
+  buildWalletRequestParams: (mintUrl: string) => WalletRequestParams
+): UseLocalEndpointReturn => {
+  const [localEndpoint, setLocalEndpoint] = useState<LocalEndpointSettings | null>(null);
+  const [localEndpointLog, setLocalEndpointLog] = useState<LocalEndpointLogEntry[]>([]);
+  const [localEndpointError, setLocalEndpointError] = useState<string | null>(null);
+
+  // Requests arrive through a listener registered once, so it reads the latest state from here
+  const latestRef = useRef({ localEndpoint, models, baseUrl, mintUrl, buildWalletRequestParams });
+  latestRef.current = { localEndpoint, models, baseUrl, mintUrl, buildWalletRequestParams };
+
+  useEffect(() => {
+    setLocalEndpoint(loadLocalEndpointSettings());
+    setLocalEndpointLog(loadLocalEndpointLog());
+  }, []);
+
+  const serveRequest = useCallback(async (
+    request: LocalEndpointRequest,
+    send: (reply: LocalEndpointReply) => void,
+    abortSignal: AbortSignal
+  ) => {
+    let headSent = false;
+    const reply = (message: LocalEndpointReply) => {
+      if (message.type === 'head') headSent = true;
+      send(message);
+    };
+
+    const startedAt = Date.now();
+    const { localEndpoint: settings, models: currentModels, baseUrl: currentBaseUrl, mintUrl: currentMintUrl } = latestRef.current;
+    let logEntry: Omit<LocalEndpointLogEntry, 'id' | 'timestamp' | 'durationMs'> = {
+      method: request.method,
+      path: request.path,
+      status: 200
+    };
+    const replyJson = (status: number, body: string) => {
+      logEntry = { ...logEntry, status };
+      reply({ type: 'head', status, contentType: 'application/json' });
+      reply({ type: 'chunk', chunk: body });
+    };
+
+    try {
+      if (!settings?.enabled || request.authorization !== `Bearer ${settings.apiKey}`) {
+        replyJson(401, createOpenAiError('Invalid local API key. Copy it from Settings → General → Local API.', 'invalid_api_key'));
+      } else if (request.path === '/v1/models' && request.method === 'GET') {
+        replyJson(200, createModelList(currentModels, loadModelProviderMap()));
+      } else if (request.path === '/v1/chat/completions' && request.method === 'POST') {
+        let body: Record<string, any> | null = null;
+        try {
+          body = JSON.parse(request.body);
+        } catch {}
+        const route = body && typeof body.model === 'string'
+          ? resolveLocalEndpointRoute(body.model, currentModels, loadModelProviderMap(), currentBaseUrl)
+          : null;
+        logEntry = { ...logEntry, model: body?.model, stream: !!body?.stream };
+
+        if (!body || !Array.isArray(body.messages)) {
+          replyJson(400, createOpenAiError('Expected a JSON body with model and messages.', 'invalid_body'));
+        } else if (!route) {
+          replyJson(404, createOpenAiError(`Model ${body.model} is not offered by any configured provider.`, 'model_not_found'));
+        } else {
+          logEntry = { ...logEntry, baseUrl: route.baseUrl };
+          const result = await relayCompletionRequest({
+            ...latestRef.current.buildWalletRequestParams(currentMintUrl),
+            body,
+            selectedModel: route.model,
+            baseUrl: route.baseUrl,
+            onResponse: (status, contentType) => reply({ type: 'head', status, contentType }),
+            onChunk: (chunk) => reply({ type: 'chunk', chunk }),
+            abortSignal
+          });
+          logEntry = {
+            ...logEntry,
+            status: result.status,
+            satsSpent: result.satsSpent,
+            ...(result.notices.length > 0 ? { error: result.notices.join(' ') } : {})
+          };
+        }
+      } else {
+        replyJson(405, createOpenAiError(`${request.method} ${request.path} is not supported.`, 'method_not_allowed'));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logEntry = { ...logEntry, error: message };
+      if (headSent) {
+        // The provider's answer is already on its way; the tool sees it end early
+        console.error('Local API request failed after the response started:', error);
+      } else if (error instanceof InsufficientBalanceError) {
+        replyJson(402, createOpenAiError(message, 'insufficient_balance'));
+      } else if (error instanceof BudgetExceededError) {
+        replyJson(402, createOpenAiError(message, 'budget_exceeded'));
+      } else if (error instanceof ProviderDownError) {
+        replyJson(502, createOpenAiError(message, 'provider_down', 'server_error'));
+      } else {
+        replyJson(500, createOpenAiError(message, 'internal_error', 'server_error'));
+      }
+    } finally {
+      reply({ type: 'end' });
+      setLocalEndpointLog(recordLocalEndpointRequest({ ...logEntry, durationMs: Date.now() - startedAt }));
+    }
+  }, []);
+
+  const isEnabled = !!localEndpoint?.enabled;
+  const apiKey = localEndpoint?.apiKey;
+  const bridgeUrl = localEndpoint?.bridgeUrl || DEFAULT_LOCAL_BRIDGE_URL;
+  useEffect(() => {
+    if (!isEnabled || !apiKey) return;
+
+    const pollController = new AbortController();
+    (async () => {
+      while (!pollController.signal.aborted) {
+        try {
+          const request = await pollLocalBridge(bridgeUrl, apiKey, pollController.signal);
+          setLocalEndpointError(null);
+          if (request) {
+            // Stops the provider request when the tool hangs up
+            const requestController = new AbortController();
+            const send = createLocalBridgeReplier(bridgeUrl, apiKey, request.id, () => requestController.abort());
+            void serveRequest(request, send, requestController.signal);
+          }
+        } catch (error) {
+          if (pollController.signal.aborted) return;
+          setLocalEndpointError(error instanceof Error ? error.message : 'Could not reach the bridge');
+          await new Promise(resolve => setTimeout(resolve, BRIDGE_RETRY_MS));
+        }
+      }
+    })();
+    return () => pollController.abort();
+  }, [isEnabled, apiKey, bridgeUrl, serveRequest]);
+
+  const setLocalEndpointEnabled = useCallback((enabled: boolean) => {
+    const updated = { ...localEndpoint, apiKey: localEndpoint?.apiKey || generateLocalApiKey(), enabled };
+    setLocalEndpoint(updated);
+    saveLocalEndpointSettings(updated);
+    if (!enabled) setLocalEndpointError(null);
+  }, [localEndpoint]);
+
+  const setLocalBridgeUrl = useCallback((url: string) => {
+    const updated = {
+      enabled: localEndpoint?.enabled ?? false,
+      apiKey: localEndpoint?.apiKey || generateLocalApiKey(),
+      bridgeUrl: url.trim().replace(/\/+$/, '') || undefined
+    };
+    setLocalEndpoint(updated);
+    saveLocalEndpointSettings(updated);
+  }, [localEndpoint]);
+
+  const regenerateLocalApiKey = useCallback(() => {
+    const updated = { ...localEndpoint, enabled: localEndpoint?.enabled ?? false, apiKey: generateLocalApiKey() };
+    setLocalEndpoint(updated);
+    saveLocalEndpointSettings(updated);
+  }, [localEndpoint]);
+
+  const clearLocalEndpointLog = useCallback(() => {
+    setLocalEndpointLog([]);
+    saveLocalEndpointLog([]);
+  }, []);
+
+  return {
+    localEndpoint,
+    localEndpointLog,
+    localEndpointError,
+    setLocalEndpointEnabled,
+    setLocalBridgeUrl,
+    regenerateLocalApiKey,
+    clearLocalEndpointLog
+  };
+};
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react';
+import { useCashuWallet } from '@/hooks/useCashuWallet';
+import { getBalanceFromStoredProofs } from '@/utils/cashuUtils';
+import { REFUND_SWEEP_INTERVAL_MS, sweepOrphanedTokens } from '@/utils/refundSweeperUtils';
+import { WalletRequestParams } from './useChatActions';
+
+/**
+ * Refunds tokens orphaned at providers by a closed tab, once the wallet is ready and then every few minutes
+ * @param isAuthenticated Whether a wallet is available at all
+ * @param mintUrl The Cashu mint URL
+ * @param buildWalletRequestParams Wallet parameters and bookkeeping callbacks of the chat
+ */
+export const useRefundSweeper = (
+  isAuthenticated: boolean,
+  mintUrl: string,
+  buildWalletRequestParams: (mintUrl: string) => WalletRequestParams
+): void => {
+  const { wallet, isLoading: isWalletLoading } = useCashuWallet();
+  // The interval reads the latest wallet state from here
+  const latestRef = useRef({ mintUrl, buildWalletRequestParams });
+  latestRef.current = { mintUrl, buildWalletRequestParams };
+  const isSweepingRef = useRef(false);
+
+  const usingNip60 = buildWalletRequestParams(mintUrl).usingNip60;
+  const isWalletReady = isAuthenticated && !!mintUrl && (!usingNip60 || (!isWalletLoading && !!wallet));
+
+  useEffect(() => {
+    if (!isWalletReady) return;
+
+    const sweep = async () => {
+      if (isSweepingRef.current) return;
+      isSweepingRef.current = true;
+      try {
+        const params = latestRef.current.buildWalletRequestParams(latestRef.current.mintUrl);
+        // Refunded tokens leave storage, which refreshes the chat's pending amount and balance
+        const results = await sweepOrphanedTokens({
+          mintUrl: params.mintUrl,
+          usingNip60: params.usingNip60,
+          unit: params.unit,
+          receiveToken: params.receiveToken,
+          // Called once the refund is received. The NIP-60 wallet's balance lives in its proofs, which other requests may be changing
+          onRefund: (transaction) => {
+            params.onTransactionUpdate({
+              ...transaction,
+              ...(params.usingNip60 ? {} : { balance: getBalanceFromStoredProofs() })
+            });
+          }
+        });
+        for (const result of results.filter(entry => !entry.success)) {
+          console.warn(`Background refund at ${result.baseUrl} failed, retrying later:`, result.message, result.requestId ?? '');
+        }
+      } catch (error) {
+        console.error('Refund sweep failed:', error);
+      } finally {
+        isSweepingRef.current = false;
+      }
+    };
+
+    sweep();
+    const intervalId = setInterval(sweep, REFUND_SWEEP_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isWalletReady]);
+};
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SpendingBudget } from '@/types/chat';
+import { BUDGET_UPDATED_EVENT, BudgetStatus, getBudgetStatuses, updateSpendingBudgets } from '@/utils/budgetUtils';
+import { STORAGE_KEYS } from '@/utils/storageUtils';
+
+export interface UseSpendingBudgetsReturn {
+  /** Every budget with what was spent against it in the current period */
+  statuses: BudgetStatus[];
+  saveBudgets: (budgets: SpendingBudget[]) => void;
+}
+
+/**
+ * Spending budgets and their progress, kept in sync with recorded spending and other tabs
+ */
+export const useSpendingBudgets = (): UseSpendingBudgetsReturn => {
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setStatuses(getBudgetStatuses());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEYS.SPENDING_BUDGETS || event.key === STORAGE_KEYS.SPENDING_LOG) refresh();
+    };
+
+    refresh();
+    window.addEventListener(BUDGET_UPDATED_EVENT, refresh);
+    window.addEventListener('storage', handleStorage);
+    // Periods roll over at midnight without any event
+    const interval = setInterval(refresh, 60 * 1000);
+    return () => {
+      window.removeEventListener(BUDGET_UPDATED_EVENT, refresh);
+      window.removeEventListener('storage', handleStorage);
+      clearInterval(interval);
+    };
+  }, []);
+
+  const saveBudgets = useCallback((budgets: SpendingBudget[]) => {
+    updateSpendingBudgets(budgets);
+  }, []);
+
+  return { statuses, saveBudgets };
+};
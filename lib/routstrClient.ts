@@ -0,0 +1,543 @@
+import type { Model } from '../data/models';
+import { createSseDecoder, getSseErrorMessage } from '../utils/sseParser';
+import { readReasoningDelta } from '../utils/thinkingParser';
+import { hasWebSearchPlugin } from '../utils/webSearchUtils';
+import { getImageCost, IMAGES_PER_REQUEST, readImageGenerationResponse } from '../utils/imageGenerationUtils';
+import { countPromptTokens, loadTokenizer } from '../utils/tokenizerUtils';
+import {
+  InsufficientBalanceError,
+  PayloadTooLargeError,
+  ProviderDownError,
+  ProviderUnauthorizedError,
+  RefundFailedError
+} from '../utils/routstrErrors';
+
+/*
+ * Pay-per-request client for a Routstr node, free of React and browser storage so scripts
+ * and tests can use it too. Imports are relative and side-effect free for the same reason.
+ */
+
+// Default token amount for models without max_cost defined
+export const DEFAULT_TOKEN_AMOUNT = 50;
+
+// How long a refund may take before it is reported as failed
+const REFUND_TIMEOUT_MS = 60_000;
+
+/**
+ * Keeps the Cashu token that pays a provider, one per base URL.
+ * The same token pays for every request to that provider until it is refunded.
+ */
+export interface RoutstrStorage {
+  getToken: (baseUrl: string) => string | null | Promise<string | null>;
+  setToken: (baseUrl: string, token: string) => void | Promise<void>;
+  removeToken: (baseUrl: string) => void | Promise<void>;
+}
+
+/**
+ * Ecash wallet requests are paid from and refunds go back into
+ */
+export interface RoutstrWallet {
+  /** Unit of the amounts passed to createToken; sats when omitted */
+  unit?: 'sat' | 'msat';
+  /**
+   * Creates a Cashu token worth `amount`
+   * @returns The encoded token, or null if the balance does not cover it
+   */
+  createToken: (amount: number) => Promise<string | null>;
+  /**
+   * Redeems a refunded token into the wallet
+   * @returns The amount received
+   */
+  receiveToken: (token: string) => Promise<number>;
+  /** Spendable balance in sats, for wallets that can tell */
+  getBalance?: () => Promise<number>;
+}
+
+export interface RoutstrClientOptions {
+  /** Provider base URL, e.g. https://api.routstr.com/ */
+  baseUrl: string;
+  wallet: RoutstrWallet;
+  /** Where the provider token is kept; in memory when omitted */
+  storage?: RoutstrStorage;
+  /** fetch implementation, for environments without a global one */
+  fetch?: typeof fetch;
+}
+
+export interface RoutstrChatRequest {
+  /** Model id, or the model itself to skip the /v1/models lookup used for pricing */
+  model: string | Model;
+  /** Messages in OpenAI chat format */
+  messages: unknown[];
+  stream?: boolean;
+  /** Other body fields such as temperature, max_tokens or tools */
+  parameters?: Record<string, unknown>;
+  /** Sats to put on a new token; estimated from the model's pricing when omitted */
+  amount?: number;
+  signal?: AbortSignal;
+}
+
+export interface RoutstrImageRequest {
+  /** Model id, or the model itself to skip the /v1/models lookup used for pricing */
+  model: string | Model;
+  prompt: string;
+  /** Number of images; one when omitted */
+  n?: number;
+  /** Other body fields such as size or quality */
+  parameters?: Record<string, unknown>;
+  /** Sats to put on a new token; estimated from the model's pricing when omitted */
+  amount?: number;
+  signal?: AbortSignal;
+}
+
+export interface RoutstrImageResult {
+  /** data: URLs for base64 results, otherwise the URLs the provider serves the images from */
+  images: { url: string; revisedPrompt?: string }[];
+  /** Model the provider reports having used */
+  model?: string;
+  requestId?: string;
+}
+
+export interface RoutstrUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export type RoutstrChatEvent =
+  | {
+      type: 'delta';
+      content?: string;
+      reasoning?: string;
+      toolCalls?: unknown[];
+      /** The parsed chunk (or whole response when not streaming) */
+      raw: unknown;
+    }
+  | {
+      type: 'done';
+      finishReason?: string;
+      usage?: RoutstrUsage;
+      model?: string;
+      requestId?: string;
+    };
+
+export interface RoutstrBalance {
+  /** Spendable wallet balance in sats, if the wallet reports one */
+  wallet?: number;
+  /** Balance left on the provider token, in msats */
+  provider: number;
+  /** API key the provider issued for the token */
+  apiKey?: string;
+}
+
+export interface RoutstrRefundResult {
+  /** 'no_token' when nothing was stored, 'no_balance' when the provider had nothing to return */
+  status: 'refunded' | 'no_token' | 'no_balance';
+  /** Amount received back into the wallet, in the refund token's unit */
+  refundedAmount: number;
+  requestId?: string;
+}
+
+/**
+ * Storage that only lives as long as the process
+ * @returns A RoutstrStorage backed by a Map
+ */
+export const createMemoryStorage = (): RoutstrStorage => {
+  const tokens = new Map<string, string>();
+  return {
+    getToken: (baseUrl) => tokens.get(baseUrl) ?? null,
+    setToken: (baseUrl, token) => { tokens.set(baseUrl, token); },
+    removeToken: (baseUrl) => { tokens.delete(baseUrl); }
+  };
+};
+
+/**
+ * Estimates what the prompt of a request costs before it is sent
+ * @param selectedModel The model of the request
+ * @param apiMessages Messages that will be sent with the request
+ * @param webSearch Whether the request searches the web, which the provider bills per search
+ * @param imageCount Images the request generates, billed per image
+ * @returns Prompt tokens, whether they were counted with the model's tokenizer, and the sats for the prompt
+ * with its images, searches and generated images; `fixedSats` is the per-image and per-search part. The answer is billed on top.
+ */
+export const estimatePromptCost = (
+  selectedModel: any,
+  apiMessages: any[],
+  webSearch: boolean = false,
+  imageCount: number = 0
+): { tokens: number; exact: boolean; sats: number; fixedSats: number } => {
+  const { tokens, images, exact } = countPromptTokens(selectedModel, apiMessages);
+  const fixedSats = getImageCost(selectedModel, images + imageCount)
+    + (webSearch ? (selectedModel?.sats_pricing?.web_search ?? 0) : 0);
+  return { tokens, exact, sats: (selectedModel?.sats_pricing?.prompt ?? 0) * tokens + fixedSats, fixedSats };
+};
+
+/**
+ * Gets the token amount to use for a model, with fallback to default
+ * @param selectedModel The currently selected model
+ * @param apiMessages Messages that will be sent with the request
+ * @param maxTokens Optional completion cap; when set it replaces max_completion_cost in the estimate
+ * @param webSearch Whether the request searches the web, which the provider bills per search
+ * @param imageCount Images the request generates, billed per image
+ * @returns The token amount in sats
+ */
+export const getTokenAmountForModel = (
+  selectedModel: any,
+  apiMessages: any[],
+  maxTokens?: number,
+  webSearch: boolean = false,
+  imageCount: number = 0
+): number => {
+  const prompt = estimatePromptCost(selectedModel, apiMessages, webSearch, imageCount);
+  const completionRate = selectedModel?.sats_pricing?.completion;
+  const cappedCompletionCosts = maxTokens && typeof completionRate === 'number'
+    ? completionRate * maxTokens
+    : undefined;
+  if (!selectedModel?.sats_pricing?.max_completion_cost && cappedCompletionCosts === undefined) {
+    return (selectedModel?.sats_pricing?.max_cost ?? DEFAULT_TOKEN_AMOUNT) + prompt.fixedSats;
+  }
+  const maxCompletionCost = selectedModel?.sats_pricing?.max_completion_cost;
+  const completionCosts = cappedCompletionCosts !== undefined
+    ? (maxCompletionCost ? Math.min(cappedCompletionCosts, maxCompletionCost) : cappedCompletionCosts)
+    : maxCompletionCost;
+  // Counts from the model's own BPE table need less headroom than approximated or length-based ones
+  const margin = prompt.exact ? 1.02 : 1.05;
+  return (prompt.sats + completionCosts) * margin;
+};
+
+const readErrorDetail = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json();
+    const detail = data?.detail ?? data?.error?.message ?? data?.error;
+    return typeof detail === 'string' ? detail : JSON.stringify(detail ?? data);
+  } catch {
+    return response.statusText;
+  }
+};
+
+/**
+ * Client for one Routstr provider. Creates a token from the wallet on first use,
+ * reuses it for every request and refunds what is left on demand.
+ */
+export class RoutstrClient {
+  readonly baseUrl: string;
+  private readonly wallet: RoutstrWallet;
+  private readonly storage: RoutstrStorage;
+  private readonly fetchFn: typeof fetch;
+  private models: Model[] | null = null;
+
+  constructor(options: RoutstrClientOptions) {
+    this.baseUrl = options.baseUrl.endsWith('/') ? options.baseUrl : `${options.baseUrl}/`;
+    this.wallet = options.wallet;
+    this.storage = options.storage ?? createMemoryStorage();
+    this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Lists the models the provider serves, with their sats pricing
+   * @returns The models from /v1/models
+   */
+  async listModels(): Promise<Model[]> {
+    const response = await this.send('v1/models');
+    if (!response.ok) await this.throwResponseError(response);
+    const json = await response.json();
+    this.models = Array.isArray(json?.data) ? json.data : [];
+    return this.models ?? [];
+  }
+
+  /**
+   * Returns the stored provider token, or creates one from the wallet
+   * @param amount Amount for a new token, in the wallet's unit
+   * @returns The token, or null if the wallet cannot cover the amount
+   */
+  async getOrCreateToken(amount: number): Promise<string | null> {
+    const storedToken = await this.storage.getToken(this.baseUrl);
+    if (storedToken) return storedToken;
+
+    const newToken = await this.wallet.createToken(amount);
+    if (newToken) {
+      await this.storage.setToken(this.baseUrl, newToken);
+    }
+    return newToken;
+  }
+
+  /**
+   * Sends a chat completion paid with the provider token
+   * @param request Model, messages and options
+   * @returns Content deltas as they arrive, then a final 'done' event with usage
+   * @throws RoutstrError subclasses for payment and provider failures
+   */
+  async *chat(request: RoutstrChatRequest): AsyncGenerator<RoutstrChatEvent> {
+    const model = typeof request.model === 'string' ? await this.findModel(request.model) : request.model;
+    const modelId = typeof request.model === 'string' ? request.model : request.model.id;
+    const parameters = request.parameters ?? {};
+    const maxTokens = typeof parameters.max_tokens === 'number' ? parameters.max_tokens : undefined;
+    if (request.amount === undefined) {
+      await loadTokenizer(model).catch(() => undefined);
+    }
+    const sats = request.amount ?? getTokenAmountForModel(model, request.messages, maxTokens, hasWebSearchPlugin(parameters));
+    const token = await this.requireToken(sats, modelId);
+
+    const response = await this.send('v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        ...parameters,
+        model: modelId,
+        messages: request.messages,
+        stream: request.stream ?? false
+      }),
+      signal: request.signal
+    });
+    const requestId = response.headers.get('x-routstr-request-id') || undefined;
+    if (!response.ok) await this.throwResponseError(response);
+
+    if (!request.stream) {
+      const data = await response.json();
+      const message = data?.choices?.[0]?.message;
+      yield {
+        type: 'delta',
+        content: message?.content ?? '',
+        reasoning: readReasoningDelta(message).text || undefined,
+        toolCalls: message?.tool_calls,
+        raw: data
+      };
+      yield { type: 'done', finishReason: data?.choices?.[0]?.finish_reason, usage: data?.usage, model: data?.model, requestId };
+      return;
+    }
+
+    if (!response.body) {
+      throw new ProviderDownError('Response body is not available', { baseUrl: this.baseUrl, requestId });
+    }
+
+    const reader = response.body.getReader();
+    const textDecoder = new TextDecoder();
+    const sseDecoder = createSseDecoder();
+    let usage: RoutstrUsage | undefined;
+    let finishReason: string | undefined;
+    let responseModel: string | undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      const events = done
+        ? sseDecoder.push(textDecoder.decode()).concat(sseDecoder.flush())
+        : sseDecoder.push(textDecoder.decode(value, { stream: true }));
+
+      for (const event of events) {
+        if (event.data === '[DONE]') continue;
+        let payload: any;
+        try {
+          payload = JSON.parse(event.data);
+        } catch {
+          // Error events may carry plain text; anything else unparseable is a malformed event
+          if (event.event !== 'error') continue;
+        }
+        const errorMessage = getSseErrorMessage(event, payload);
+        if (errorMessage) {
+          throw new ProviderDownError(`Provider error during streaming: ${errorMessage}`, { baseUrl: this.baseUrl, requestId });
+        }
+
+        if (payload?.usage) usage = payload.usage;
+        if (payload?.model) responseModel = payload.model;
+        const choice = payload?.choices?.[0];
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        const delta = choice?.delta;
+        const content = delta?.content || undefined;
+        const reasoning = readReasoningDelta(delta).text || undefined;
+        // Chunks carrying only annotations, images or redacted reasoning are passed on through `raw`
+        const hasPayload = !!choice?.message || Object.entries(delta ?? {}).some(([key, field]) => key !== 'role' && field !== null && field !== '');
+        if (hasPayload) {
+          yield { type: 'delta', content, reasoning, toolCalls: delta?.tool_calls, raw: payload };
+        }
+      }
+
+      if (done) break;
+    }
+
+    yield { type: 'done', finishReason, usage, model: responseModel, requestId };
+  }
+
+  /**
+   * Generates images from a prompt through /v1/images/generations, paid with the provider token
+   * @param request Model, prompt and options
+   * @returns The images and the provider's request id
+   * @throws RoutstrError subclasses for payment and provider failures
+   */
+  async generateImages(request: RoutstrImageRequest): Promise<RoutstrImageResult> {
+    const model = typeof request.model === 'string' ? await this.findModel(request.model) : request.model;
+    const modelId = typeof request.model === 'string' ? request.model : request.model.id;
+    const n = request.n ?? IMAGES_PER_REQUEST;
+    const sats = request.amount ?? getTokenAmountForModel(model, [{ role: 'user', content: request.prompt }], undefined, false, n);
+    const token = await this.requireToken(sats, modelId);
+
+    const response = await this.send('v1/images/generations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({
+        ...request.parameters,
+        model: modelId,
+        prompt: request.prompt,
+        n
+      }),
+      signal: request.signal
+    });
+    const requestId = response.headers.get('x-routstr-request-id') || undefined;
+    if (!response.ok) await this.throwResponseError(response);
+
+    const data = await response.json();
+    return { images: readImageGenerationResponse(data), model: data?.model, requestId };
+  }
+
+  /**
+   * Reads the wallet balance and what is left on the provider token
+   * @returns Both balances; the provider balance is 0 without a stored token
+   */
+  async balance(): Promise<RoutstrBalance> {
+    const walletBalance = this.wallet.getBalance ? await this.wallet.getBalance() : undefined;
+    const token = await this.storage.getToken(this.baseUrl);
+    if (!token) return { wallet: walletBalance, provider: 0 };
+
+    const response = await this.send('v1/wallet/info', {
+      headers: { 'Authorization': `Bearer ${token}` }
+    });
+    if (response.status === 402) {
+      // The token is used up
+      await this.storage.removeToken(this.baseUrl);
+      return { wallet: walletBalance, provider: 0 };
+    }
+    if (!response.ok) await this.throwResponseError(response);
+
+    const data = await response.json();
+    return { wallet: walletBalance, provider: data?.balance ?? 0, apiKey: data?.api_key };
+  }
+
+  /**
+   * Reclaims the unused balance of the provider token into the wallet
+   * @param options.apiKey Refund this key instead of the stored token; the stored token is kept
+   * @returns What was refunded
+   * @throws ProviderUnauthorizedError or RefundFailedError
+   */
+  async refund(options: { apiKey?: string } = {}): Promise<RoutstrRefundResult> {
+    const token = options.apiKey || await this.storage.getToken(this.baseUrl);
+    if (!token) return { status: 'no_token', refundedAmount: 0 };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REFUND_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await this.fetchFn(`${this.baseUrl}v1/wallet/refund`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        signal: controller.signal
+      });
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'AbortError'
+        ? 'Request timed out after 1 minute'
+        : (error instanceof Error ? error.message : 'Unknown error occurred during refund request');
+      throw new RefundFailedError(message, { baseUrl: this.baseUrl, cause: error });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const requestId = response.headers.get('x-routstr-request-id') || undefined;
+    const forgetToken = async () => {
+      if (!options.apiKey) await this.storage.removeToken(this.baseUrl);
+    };
+
+    if (!response.ok) {
+      const detail = await readErrorDetail(response);
+      if (response.status === 400 && detail === 'No balance to refund') {
+        await forgetToken();
+        return { status: 'no_balance', refundedAmount: 0, requestId };
+      }
+      const message = `Refund request failed with status ${response.status}: ${detail}`;
+      if (response.status === 401 || response.status === 403) {
+        throw new ProviderUnauthorizedError(message, { baseUrl: this.baseUrl, requestId });
+      }
+      throw new RefundFailedError(message, {
+        baseUrl: this.baseUrl,
+        requestId,
+        isDust: detail.includes('Balance too small to refund')
+      });
+    }
+
+    const data = await response.json();
+    if (!data?.token) {
+      throw new RefundFailedError('No token received from refund', { baseUrl: this.baseUrl, requestId });
+    }
+
+    let refundedAmount: number;
+    try {
+      refundedAmount = await this.wallet.receiveToken(data.token);
+    } catch (error) {
+      // The provider already let go of the balance, so the token is the only way to recover it
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new RefundFailedError(`Could not store the refunded token (${reason}). Save this token to recover it: ${data.token}`, {
+        baseUrl: this.baseUrl,
+        requestId,
+        cause: error
+      });
+    }
+    await forgetToken();
+    return { status: 'refunded', refundedAmount, requestId };
+  }
+
+  private async findModel(modelId: string): Promise<Model | undefined> {
+    const models = this.models ?? await this.listModels().catch(() => []);
+    return models.find(model => model.id === modelId);
+  }
+
+  private async requireToken(sats: number, modelId: string): Promise<string> {
+    const token = await this.getOrCreateToken(this.wallet.unit === 'msat' ? sats * 1000 : sats);
+    if (!token) {
+      throw new InsufficientBalanceError(
+        `Insufficient balance. You need at least ${Math.ceil(sats)} sats to use ${modelId}`,
+        { baseUrl: this.baseUrl, requiredAmount: Math.ceil(sats) }
+      );
+    }
+    return token;
+  }
+
+  private async send(path: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await this.fetchFn(`${this.baseUrl}${path}`, init);
+    } catch (error) {
+      if (init?.signal?.aborted) throw error;
+      throw new ProviderDownError(`network error: ${error instanceof Error ? error.message : 'fetch failed'}`, {
+        baseUrl: this.baseUrl,
+        cause: error
+      });
+    }
+  }
+
+  private async throwResponseError(response: Response): Promise<never> {
+    const requestId = response.headers.get('x-routstr-request-id') || undefined;
+    const detail = await readErrorDetail(response);
+    const message = `HTTP ${response.status}: ${detail}`;
+    const options = { baseUrl: this.baseUrl, requestId };
+
+    if (response.status === 401 || response.status === 403) {
+      await this.storage.removeToken(this.baseUrl);
+      throw new ProviderUnauthorizedError(message, options);
+    }
+    if (response.status === 402) {
+      await this.storage.removeToken(this.baseUrl);
+      throw new InsufficientBalanceError(message, options);
+    }
+    if (response.status === 413) {
+      throw new PayloadTooLargeError(message, options);
+    }
+    if (response.status >= 500) {
+      throw new ProviderDownError(message, options);
+    }
+    throw new Error(`API error: ${message}`);
+  }
+}
@@ -15,3 +15,7 @@ export const DEFAULT_BASE_URLS = [
 ];
 export const DEFAULT_BASE_URL = DEFAULT_BASE_URLS[0]; // For backward compatibility
 export const DEFAULT_MINT_URL = 'https://mint.minibits.cash/Bitcoin';
+
+// Local mock node started with `npm run mock:node`, and the fake mint it serves
+export const DEMO_BASE_URL = 'http://localhost:8787/';
+export const DEMO_MINT_URL = 'http://localhost:8787/mint';
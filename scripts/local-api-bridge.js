@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+
+/**
+ * Local bridge for the chat app's OpenAI-compatible API
+ *
+ * Editors and scripts on this machine send /v1/chat/completions and /v1/models to the bridge. A browser
+ * tab of the app with Settings → General → Local API switched on long-polls /bridge/requests, pays the
+ * provider from its wallet and posts the answer back to /bridge/requests/<id>, which the bridge streams
+ * to the tool. Tools and the app tab both authenticate with the local key shown in the app's settings,
+ * so other pages in the browser can neither read the requests nor answer them.
+ *
+ * Usage: npm run local-api -- --key <local key> [--port 8788]
+ * Listens on 127.0.0.1 only. Requests wait in memory until a tab picks them up.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const DEFAULT_PORT = 8788;
+// How long a tool request waits for an app tab to pick it up
+const PICKUP_TIMEOUT_MS = 10 * 1000;
+// How long a picked-up request may take before the app starts answering
+const REPLY_TIMEOUT_MS = 5 * 60 * 1000;
+// How long a poll from the app is held open when nothing is queued
+const POLL_TIMEOUT_MS = 25 * 1000;
+
+const API_PATHS = ['/v1/chat/completions', '/v1/models'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  // The app is served from a public origin; Chrome asks before letting it reach 127.0.0.1
+  'Access-Control-Allow-Private-Network': 'true'
+};
+
+class HttpError extends Error {
+  constructor(status, message, code) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+function sendOpenAiError(res, status, message, code, type = 'invalid_request_error') {
+  sendJson(res, status, { error: { message, type, code } });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => resolve(raw));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Creates the bridge server; call listen() on the result
+ * @param {{ apiKey: string, pickupTimeoutMs?: number, replyTimeoutMs?: number, pollTimeoutMs?: number }} options
+ */
+function createLocalApiBridge(options) {
+  if (!options.apiKey) throw new Error('The bridge needs the local key from the app settings');
+  const pickupTimeoutMs = options.pickupTimeoutMs ?? PICKUP_TIMEOUT_MS;
+  const replyTimeoutMs = options.replyTimeoutMs ?? REPLY_TIMEOUT_MS;
+  const pollTimeoutMs = options.pollTimeoutMs ?? POLL_TIMEOUT_MS;
+  const expectedAuthorization = `Bearer ${options.apiKey}`;
+
+  // Tool requests no tab has picked up yet, oldest first
+  const queue = [];
+  // Picked-up requests by id, until the app ends the response or the tool hangs up
+  const active = new Map();
+  // Polls from app tabs waiting for a request
+  const waitingPolls = [];
+
+  const dispatch = () => {
+    while (queue.length > 0 && waitingPolls.length > 0) {
+      const entry = queue.shift();
+      const poll = waitingPolls.shift();
+      clearTimeout(entry.timeoutId);
+      clearTimeout(poll.timeoutId);
+      active.set(entry.request.id, entry);
+      entry.timeoutId = setTimeout(() => {
+        active.delete(entry.request.id);
+        sendOpenAiError(entry.res, 504, 'The chat app did not answer the request in time.', 'app_timeout', 'server_error');
+      }, replyTimeoutMs);
+      sendJson(poll.res, 200, entry.request);
+    }
+  };
+
+  const handleToolRequest = async (req, res, path) => {
+    if (req.headers.authorization !== expectedAuthorization) {
+      throw new HttpError(401, 'Invalid local API key. Copy it from Settings → General → Local API.', 'invalid_api_key');
+    }
+    const entry = {
+      request: {
+        id: crypto.randomUUID(),
+        method: req.method,
+        path,
+        authorization: req.headers.authorization,
+        body: req.method === 'POST' ? await readBody(req) : ''
+      },
+      res,
+      headSent: false
+    };
+    entry.timeoutId = setTimeout(() => {
+      queue.splice(queue.indexOf(entry), 1);
+      sendOpenAiError(res, 503, 'Open the chat app with Local API switched on to use this endpoint.', 'app_not_open', 'server_error');
+    }, pickupTimeoutMs);
+    // A tool that hangs up is dropped; the app learns about it from its next reply
+    res.on('close', () => {
+      if (res.writableEnded) return;
+      clearTimeout(entry.timeoutId);
+      const queuedIndex = queue.indexOf(entry);
+      if (queuedIndex !== -1) queue.splice(queuedIndex, 1);
+      active.delete(entry.request.id);
+    });
+    queue.push(entry);
+    dispatch();
+  };
+
+  const handlePoll = (req, res) => {
+    const poll = { res };
+    poll.timeoutId = setTimeout(() => {
+      waitingPolls.splice(waitingPolls.indexOf(poll), 1);
+      res.writeHead(204, corsHeaders);
+      res.end();
+    }, pollTimeoutMs);
+    res.on('close', () => {
+      if (res.writableEnded) return;
+      clearTimeout(poll.timeoutId);
+      const index = waitingPolls.indexOf(poll);
+      if (index !== -1) waitingPolls.splice(index, 1);
+    });
+    waitingPolls.push(poll);
+    dispatch();
+  };
+
+  /**
+   * Applies replies from the app, in order: one 'head', any number of 'chunk's and 'end'
+   */
+  const handleReplies = async (req, res, id) => {
+    const entry = active.get(id);
+    if (!entry) throw new HttpError(410, 'The request was cancelled or already answered', 'request_gone');
+    let replies;
+    try {
+      replies = JSON.parse(await readBody(req));
+    } catch {
+      throw new HttpError(400, 'Invalid JSON body', 'invalid_body');
+    }
+    if (!Array.isArray(replies)) throw new HttpError(400, 'Expected an array of replies', 'invalid_body');
+
+    for (const reply of replies) {
+      if (reply.type === 'head' && !entry.headSent) {
+        clearTimeout(entry.timeoutId);
+        entry.headSent = true;
+        entry.res.writeHead(reply.status, { ...corsHeaders, 'Content-Type': reply.contentType });
+      } else if (reply.type === 'chunk' && entry.headSent) {
+        entry.res.write(reply.chunk);
+      } else if (reply.type === 'end') {
+        clearTimeout(entry.timeoutId);
+        active.delete(id);
+        if (entry.headSent) {
+          entry.res.end();
+        } else {
+          sendOpenAiError(entry.res, 502, 'The chat app ended the request without an answer.', 'empty_reply', 'server_error');
+        }
+        break;
+      }
+    }
+    res.writeHead(204, corsHeaders);
+    res.end();
+  };
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+
+    try {
+      const path = new URL(req.url, 'http://127.0.0.1').pathname.replace(/\/+$/, '');
+      if (API_PATHS.includes(path)) {
+        await handleToolRequest(req, res, path);
+        return;
+      }
+      if (path === '/bridge/requests' || path.startsWith('/bridge/requests/')) {
+        if (req.headers.authorization !== expectedAuthorization) {
+          throw new HttpError(401, 'The bridge was started with another local key', 'invalid_api_key');
+        }
+        if (req.method === 'GET' && path === '/bridge/requests') {
+          handlePoll(req, res);
+          return;
+        }
+        if (req.method === 'POST') {
+          await handleReplies(req, res, decodeURIComponent(path.slice('/bridge/requests/'.length)));
+          return;
+        }
+      }
+      throw new HttpError(404, `${req.method} ${path} is not supported.`, 'not_found');
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      sendOpenAiError(res, status, error instanceof Error ? error.message : String(error), error.code || 'internal_error');
+    }
+  });
+
+  return {
+    server,
+    /**
+     * Starts listening on 127.0.0.1; resolves with the bridge URL (without trailing slash)
+     */
+    listen(port = DEFAULT_PORT) {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${server.address().port}`);
+        });
+      });
+    },
+    close() {
+      return new Promise(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      });
+    }
+  };
+}
+
+module.exports = { createLocalApiBridge, DEFAULT_PORT };
+
+if (require.main === module) {
+  const getArg = (name) => {
+    const index = process.argv.indexOf(name);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+  };
+  const apiKey = getArg('--key') || process.env.ROUTSTR_LOCAL_API_KEY;
+  const port = Number(getArg('--port') || process.env.ROUTSTR_LOCAL_API_PORT) || DEFAULT_PORT;
+  if (!apiKey) {
+    console.error('Usage: npm run local-api -- --key <local key> [--port 8788]');
+    console.error('Copy the command with your key from Settings → General → Local API.');
+    process.exit(1);
+  }
+
+  createLocalApiBridge({ apiKey }).listen(port).then(bridgeUrl => {
+    console.log(`Local API bridge listening on ${bridgeUrl}`);
+    console.log(`Point tools at ${bridgeUrl}/v1 with the local key as their API key.`);
+    console.log('Requests are answered while a tab of the app has Local API switched on.');
+  }).catch(error => {
+    console.error('Failed to start the local API bridge:', error.message);
+    process.exit(1);
+  });
+}
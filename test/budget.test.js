@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for spending budgets: calendar periods, budget scopes and recovered sats (utils/budgetUtils.ts)
+ * The TypeScript modules are transpiled in memory by ts-loader.js and use an in-memory localStorage.
+ */
+
+const { loadTsModule, installBrowserGlobals } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+installBrowserGlobals();
+const {
+  getBudgetPeriodStart,
+  getBudgetStatuses,
+  findExceededBudget,
+  creditRecoveredSpending
+} = loadTsModule('utils/budgetUtils.ts');
+const { loadSpendingLog, saveSpendingLog } = loadTsModule('utils/storageUtils.ts');
+
+const PROVIDER = 'https://api.provider.test/';
+const OTHER_PROVIDER = 'https://other.provider.test/';
+// Thursday 22 October 2026, 15:30 local time
+const NOW = new Date(2026, 9, 22, 15, 30).getTime();
+const HOUR = 60 * 60 * 1000;
+
+const budget = (period, limit, scope = 'all', target) => ({ id: `${period}-${scope}`, period, limit, scope, ...(target ? { target } : {}) });
+const spent = (amount, hoursAgo, extra = {}) => ({ baseUrl: PROVIDER, modelId: 'openai/gpt-4o', amount, timestamp: NOW - hoursAgo * HOUR, ...extra });
+const exceededId = (request, budgets, log) => findExceededBudget(request, getBudgetStatuses(budgets, log, NOW))?.budget.id ?? null;
+
+const tests = [
+  ['Periods start at local midnight, on Monday and on the first of the month', () => {
+    assertEqual(getBudgetPeriodStart('daily', NOW), new Date(2026, 9, 22).getTime(), 'daily');
+    assertEqual(getBudgetPeriodStart('weekly', NOW), new Date(2026, 9, 19).getTime(), 'weekly');
+    assertEqual(getBudgetPeriodStart('monthly', NOW), new Date(2026, 9, 1).getTime(), 'monthly');
+  }],
+
+  ['A week seen from Sunday started six days before', () => {
+    const sunday = new Date(2026, 9, 25, 23, 59).getTime();
+    assertEqual(getBudgetPeriodStart('weekly', sunday), new Date(2026, 9, 19).getTime(), 'sunday');
+    assertEqual(getBudgetPeriodStart('weekly', new Date(2026, 9, 19).getTime()), new Date(2026, 9, 19).getTime(), 'monday midnight');
+  }],
+
+  ['Spending before the period start is not counted', () => {
+    const [daily, monthly] = getBudgetStatuses([budget('daily', 100), budget('monthly', 100)], [spent(30, 1), spent(50, 20)], NOW);
+    assertEqual([daily.spent, daily.remaining], [30, 70], 'daily');
+    assertEqual([monthly.spent, monthly.remaining, monthly.ratio], [80, 20, 0.8], 'monthly');
+  }],
+
+  ['A request may use up a budget but not go past it', () => {
+    const budgets = [budget('daily', 100)];
+    const log = [spent(90, 1)];
+    assertEqual(exceededId({ baseUrl: PROVIDER, sats: 10 }, budgets, log), null, 'exactly at the limit');
+    assertEqual(exceededId({ baseUrl: PROVIDER, sats: 11 }, budgets, log), 'daily-all', 'past the limit');
+  }],
+
+  ['Model and provider budgets only count their own requests', () => {
+    const budgets = [budget('daily', 50, 'model', 'openai/gpt-4o'), budget('weekly', 60, 'provider', 'https://api.provider.test')];
+    const log = [spent(40, 1), spent(40, 2, { baseUrl: OTHER_PROVIDER, modelId: 'openai/gpt-4o' })];
+    assertEqual(getBudgetStatuses(budgets, log, NOW).map(status => status.spent), [80, 40], 'spent per scope');
+    assertEqual(exceededId({ baseUrl: OTHER_PROVIDER, modelId: 'other/model', sats: 30 }, budgets, log), null, 'other model elsewhere');
+    assertEqual(exceededId({ baseUrl: OTHER_PROVIDER, modelId: 'openai/gpt-4o', sats: 1 }, budgets, log), 'daily-model', 'same model elsewhere');
+    assertEqual(exceededId({ baseUrl: PROVIDER, modelId: 'other/model', sats: 21 }, budgets, log), 'weekly-provider', 'provider URL normalized');
+  }],
+
+  ['Budgets without a limit never block', () => {
+    assertEqual(exceededId({ baseUrl: PROVIDER, sats: 1000 }, [budget('daily', 0)], [spent(500, 1)]), null, 'no limit');
+  }],
+
+  ['Recovered sats come off the requests counted in full, newest first', () => {
+    saveSpendingLog([
+      spent(10, 3, { refundPending: true }),
+      spent(20, 2),
+      spent(15, 1, { refundPending: true }),
+      spent(8, 1, { baseUrl: OTHER_PROVIDER, refundPending: true })
+    ]);
+    creditRecoveredSpending('https://api.provider.test', 18);
+    assertEqual(loadSpendingLog().map(entry => [entry.amount, !!entry.refundPending]), [[7, false], [20, false], [0, false], [8, true]], 'log');
+  }]
+];
+
+log('Spending budgets', 'blue');
+for (const [name, run] of tests) {
+  try {
+    run();
+    pass(name);
+  } catch (error) {
+    fail(name, error.message);
+  }
+}
+
+console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+process.exit(testsFailed > 0 ? 1 : 0);
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for image outputs: model modes, pricing and response parsing (utils/imageGenerationUtils.ts)
+ * The TypeScript module is transpiled in memory by ts-loader.js, so no build step or running services are needed.
+ */
+
+const { loadTsModule } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const {
+  getImageOutputMode,
+  getImageCost,
+  readImageOutputs,
+  readImageGenerationResponse,
+  createGeneratedImages
+} = loadTsModule('utils/imageGenerationUtils.ts');
+
+const withOutputs = (outputs) => ({ architecture: { output_modalities: outputs } });
+
+const tests = [
+  ['Image modes follow the output modalities', () => {
+    assertEqual(getImageOutputMode(withOutputs(['text', 'image'])), 'chat', 'text and image');
+    assertEqual(getImageOutputMode(withOutputs(['image'])), 'endpoint', 'image only');
+    assertEqual(getImageOutputMode(withOutputs(['text'])), null, 'text only');
+    assertEqual(getImageOutputMode(undefined), null, 'no model');
+  }],
+
+  ['Images are priced per image', () => {
+    assertEqual(getImageCost({ sats_pricing: { image: 12.5 } }, 2), 25, 'priced');
+    assertEqual(getImageCost({ sats_pricing: { image: 0 } }, 1), 0, 'free');
+    assertEqual(getImageCost({}, 1), 0, 'no pricing');
+  }],
+
+  ['Images in a chat completion delta', () => {
+    const delta = {
+      content: '',
+      images: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }, { type: 'image_url', image_url: {} }]
+    };
+    assertEqual(readImageOutputs(delta), ['data:image/png;base64,AAAA'], 'urls');
+    assertEqual(readImageOutputs({ content: 'text only' }), [], 'no images');
+    assertEqual(readImageOutputs(undefined), [], 'missing delta');
+  }],
+
+  ['Base64 and URL results of /v1/images/generations', () => {
+    const images = readImageGenerationResponse({
+      output_format: 'webp',
+      data: [{ b64_json: 'UklG', revised_prompt: 'A fox at dawn' }, { url: 'https://cdn.example/fox.png' }, {}]
+    });
+    assertEqual(images, [
+      { url: 'data:image/webp;base64,UklG', revisedPrompt: 'A fox at dawn' },
+      { url: 'https://cdn.example/fox.png' }
+    ], 'images');
+    assertEqual(readImageGenerationResponse({ error: 'bad' }), [], 'no data');
+  }],
+
+  ['Generated image records keep prompt and model', () => {
+    const [image] = createGeneratedImages([{ url: 'data:image/png;base64,AAAA' }], 'a fox', 'demo/pixel');
+    assertEqual([image.url, image.prompt, image.model, 'revisedPrompt' in image], ['data:image/png;base64,AAAA', 'a fox', 'demo/pixel', false], 'record');
+    if (!image.id || typeof image.createdAt !== 'number') throw new Error('id or timestamp missing');
+  }]
+];
+
+log('Image generation', 'blue');
+for (const [name, run] of tests) {
+  try {
+    run();
+    pass(name);
+  } catch (error) {
+    fail(name, error.message);
+  }
+}
+
+console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+process.exit(testsFailed > 0 ? 1 : 0);
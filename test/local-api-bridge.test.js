@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the local API bridge (scripts/local-api-bridge.js) and the app's relay of its requests (utils/apiUtils.ts)
+ * Starts the bridge in-process on a free port and plays the app tab with plain fetch calls;
+ * the relay runs against a stubbed provider fetch and an in-memory localStorage.
+ */
+
+const { getEncodedTokenV4 } = require('@cashu/cashu-ts');
+const { createLocalApiBridge } = require('../scripts/local-api-bridge');
+const { loadTsModule, installBrowserGlobals } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+async function test(testName, fn) {
+  try {
+    await fn();
+    pass(testName);
+  } catch (error) {
+    fail(testName, error instanceof Error ? error.message : error);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+const API_KEY = 'sk-routstr-local-test';
+const auth = (key = API_KEY) => ({ Authorization: `Bearer ${key}` });
+
+async function run() {
+  log('Starting local API bridge...', 'blue');
+  const bridge = createLocalApiBridge({ apiKey: API_KEY, pickupTimeoutMs: 300, pollTimeoutMs: 300 });
+  const bridgeUrl = await bridge.listen(0);
+
+  // Plays the app tab: waits for the next request, then posts replies to it
+  const poll = () => fetch(`${bridgeUrl}/bridge/requests`, { headers: auth() });
+  const postReplies = (id, replies) => fetch(`${bridgeUrl}/bridge/requests/${id}`, {
+    method: 'POST',
+    headers: { ...auth(), 'Content-Type': 'application/json' },
+    body: JSON.stringify(replies)
+  });
+
+  try {
+    await test('rejects tool requests without the local key', async () => {
+      const response = await fetch(`${bridgeUrl}/v1/models`, { headers: auth('sk-wrong') });
+      const body = await response.json();
+      assert(response.status === 401 && body.error.code === 'invalid_api_key', `unexpected ${response.status} ${JSON.stringify(body)}`);
+    });
+
+    await test('rejects polls with another key', async () => {
+      const response = await fetch(`${bridgeUrl}/bridge/requests`, { headers: auth('sk-wrong') });
+      assert(response.status === 401, `expected 401, got ${response.status}`);
+    });
+
+    await test('answers 503 while no app tab picks requests up', async () => {
+      const response = await fetch(`${bridgeUrl}/v1/models`, { headers: auth() });
+      const body = await response.json();
+      assert(response.status === 503 && body.error.code === 'app_not_open', `unexpected ${response.status} ${JSON.stringify(body)}`);
+    });
+
+    await test('ends an idle poll without a request', async () => {
+      const response = await poll();
+      assert(response.status === 204, `expected 204, got ${response.status}`);
+    });
+
+    await test('hands a request to the app and streams its replies back', async () => {
+      const pending = poll();
+      const toolResponse = fetch(`${bridgeUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers: { ...auth(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: 'demo/echo', stream: true, messages: [] })
+      });
+
+      const request = await (await pending).json();
+      assert(request.method === 'POST' && request.path === '/v1/chat/completions', `unexpected request ${JSON.stringify(request)}`);
+      assert(request.authorization === `Bearer ${API_KEY}`, 'authorization not forwarded');
+      assert(JSON.parse(request.body).model === 'demo/echo', 'body not forwarded');
+
+      const first = await postReplies(request.id, [
+        { type: 'head', status: 200, contentType: 'text/event-stream' },
+        { type: 'chunk', chunk: 'data: one\n\n' }
+      ]);
+      assert(first.status === 204, `first replies answered ${first.status}`);
+      await postReplies(request.id, [{ type: 'chunk', chunk: 'data: two\n\n' }, { type: 'end' }]);
+
+      const response = await toolResponse;
+      assert(response.status === 200, `tool got ${response.status}`);
+      assert(response.headers.get('content-type') === 'text/event-stream', 'content type not relayed');
+      const text = await response.text();
+      assert(text === 'data: one\n\ndata: two\n\n', `unexpected body ${JSON.stringify(text)}`);
+
+      const late = await postReplies(request.id, [{ type: 'chunk', chunk: 'late' }]);
+      assert(late.status === 410, `replies after the end should get 410, got ${late.status}`);
+    });
+
+    await test('tells the app when the tool hung up', async () => {
+      const pending = poll();
+      const controller = new AbortController();
+      const toolResponse = fetch(`${bridgeUrl}/v1/models`, { headers: auth(), signal: controller.signal }).catch(() => null);
+
+      const request = await (await pending).json();
+      controller.abort();
+      await toolResponse;
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const response = await postReplies(request.id, [{ type: 'head', status: 200, contentType: 'application/json' }]);
+      assert(response.status === 410, `expected 410, got ${response.status}`);
+    });
+  } finally {
+    await bridge.close();
+  }
+
+  log('Relaying requests to the provider...', 'blue');
+  installBrowserGlobals();
+  const { relayCompletionRequest } = loadTsModule('utils/apiUtils.ts');
+  const { getLocalCashuToken, setLocalCashuToken } = loadTsModule('utils/storageUtils.ts');
+
+  const PROVIDER = 'https://api.provider.test/';
+  const encodeToken = (secret) => getEncodedTokenV4({
+    mint: 'https://mint.test',
+    unit: 'sat',
+    proofs: [{ id: '009a1f293253e41e', amount: 8, secret, C: `02${'cd'.repeat(32)}` }]
+  });
+  const providerToken = encodeToken('aa'.repeat(32));
+  const refundedToken = encodeToken('bb'.repeat(32));
+
+  // The provider cannot be reached for completions but refunds the whole token
+  const providerPaths = [];
+  globalThis.fetch = async (url) => {
+    const path = String(url).slice(PROVIDER.length);
+    providerPaths.push(path);
+    if (path === 'v1/wallet/refund') {
+      return new Response(JSON.stringify({ token: refundedToken }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    throw new TypeError('fetch failed');
+  };
+
+  const relay = (overrides = {}) => {
+    const received = [];
+    const transactions = [];
+    const result = relayCompletionRequest({
+      mintUrl: 'https://mint.test',
+      usingNip60: true,
+      unit: 'sat',
+      activeMintUrl: 'https://mint.test',
+      sendToken: async () => { throw new Error('the stored token is used'); },
+      receiveToken: async (token) => {
+        received.push(token);
+        return [{ amount: 8 }];
+      },
+      onTransactionUpdate: (transaction) => transactions.push(transaction),
+      transactionHistory: [],
+      onTokenCreated: () => {},
+      body: { model: 'demo/echo', messages: [{ role: 'user', content: 'Hi' }] },
+      selectedModel: { id: 'demo/echo', sats_pricing: { prompt: 0, completion: 0, max_cost: 8 } },
+      baseUrl: PROVIDER,
+      onResponse: () => { throw new Error('no response was expected'); },
+      onChunk: () => {},
+      ...overrides
+    });
+    return { result, received, transactions };
+  };
+
+  await test('refunds the token when the provider cannot be reached', async () => {
+    setLocalCashuToken(PROVIDER, providerToken);
+    providerPaths.length = 0;
+    const { result, received, transactions } = relay();
+    const error = await result.then(() => null, (rejection) => rejection);
+    assert(error?.name === 'ProviderDownError', `expected ProviderDownError, got ${error}`);
+    assert(providerPaths.join() === 'v1/chat/completions,v1/wallet/refund', `unexpected calls ${providerPaths.join()}`);
+    assert(received.join() === refundedToken, 'refunded token not received');
+    assert(getLocalCashuToken(PROVIDER) === null, 'refunded token still stored');
+    assert(transactions.length === 1 && transactions[0].amount === 0, `unexpected transactions ${JSON.stringify(transactions)}`);
+  });
+
+  await test('refunds the token when the tool hangs up before the provider answers', async () => {
+    setLocalCashuToken(PROVIDER, providerToken);
+    providerPaths.length = 0;
+    const controller = new AbortController();
+    controller.abort();
+    const { result, received } = relay({ abortSignal: controller.signal });
+    const error = await result.then(() => null, (rejection) => rejection);
+    assert(error && error.name !== 'ProviderDownError', `expected the fetch error, got ${error}`);
+    assert(providerPaths.join() === 'v1/chat/completions,v1/wallet/refund', `unexpected calls ${providerPaths.join()}`);
+    assert(received.join() === refundedToken, 'refunded token not received');
+  });
+
+  console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
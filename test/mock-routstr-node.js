@@ -0,0 +1,536 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for a Routstr node, with a fake Cashu mint mounted at /mint
+ *
+ * Serves node info, /v1/models, streaming /v1/chat/completions, /v1/images/generations,
+ * /v1/wallet/info, /v1/wallet/topup and /v1/wallet/refund. Bearer tokens must be Cashu tokens issued by the
+ * built-in mint (or API keys created from them). The mint pays every mint quote instantly,
+ * so the app's top-up flow works without Lightning.
+ *
+ * Usage: npm run mock:node [-- --port 8787]
+ * State (balances, spent proofs) lives in memory and is lost on restart.
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+const { getDecodedToken, getEncodedTokenV4 } = require('@cashu/cashu-ts');
+const { createBlindSignature, createNewMintKeys, verifyProof } = require('@cashu/crypto/modules/mint');
+const { hashToCurve, pointFromHex, serializeMintKeys } = require('@cashu/crypto/modules/common');
+
+const DEFAULT_PORT = 8787;
+// Fixed seed so tokens issued before a restart still verify
+const MINT_SEED = crypto.createHash('sha256').update('routstr-demo-mint').digest();
+const KEYSET_HEIGHT = 24;
+
+const DEMO_MODELS = [
+  {
+    id: 'demo/echo',
+    name: 'Demo: Echo',
+    description: 'Repeats the last user message. Served by the local mock node.',
+    reply: (messages) => `You said: ${getLastUserText(messages) || '(nothing)'}`
+  },
+  {
+    id: 'demo/lorem',
+    name: 'Demo: Lorem',
+    description: 'Answers every prompt with the same canned paragraph. Served by the local mock node.',
+    reply: () => 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua. Ut enim ad minim veniam, quis nostrud exercitation ullamco laboris nisi ut aliquip ex ea commodo consequat.'
+  },
+  {
+    id: 'demo/pixel',
+    name: 'Demo: Pixel',
+    description: 'Paints a single pixel for any prompt, through /v1/images/generations. Served by the local mock node.',
+    outputModalities: ['image'],
+    satsPricing: { image: 1 }
+  }
+];
+
+// 1x1 transparent PNG returned for every image prompt
+const PIXEL_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// Sats per token; a request must cover its prompt plus max_completion_cost up front
+const SATS_PRICING = {
+  prompt: 0.001,
+  completion: 0.002,
+  request: 0,
+  image: 0,
+  web_search: 0,
+  internal_reasoning: 0,
+  max_prompt_cost: 8,
+  max_completion_cost: 8,
+  max_cost: 16
+};
+
+const CONTEXT_LENGTH = 8192;
+
+function getTextContent(content) {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.filter(part => part && part.type === 'text').map(part => part.text).join('\n');
+  }
+  return '';
+}
+
+function getLastUserText(messages) {
+  const lastUser = [...(messages || [])].reverse().find(message => message.role === 'user');
+  return lastUser ? getTextContent(lastUser.content).trim() : '';
+}
+
+// Rough count, close enough to what the app estimates client-side
+function countTokens(text) {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function toModel(model) {
+  const outputModalities = model.outputModalities || ['text'];
+  return {
+    id: model.id,
+    name: model.name,
+    created: 1700000000,
+    description: model.description,
+    context_length: CONTEXT_LENGTH,
+    architecture: {
+      modality: `text->${outputModalities.join('+')}`,
+      input_modalities: ['text'],
+      output_modalities: outputModalities,
+      tokenizer: 'Other',
+      instruct_type: null
+    },
+    pricing: {
+      prompt: 0,
+      completion: 0,
+      request: 0,
+      image: 0,
+      web_search: 0,
+      internal_reasoning: 0
+    },
+    sats_pricing: { ...SATS_PRICING, ...model.satsPricing },
+    per_request_limits: {}
+  };
+}
+
+class HttpError extends Error {
+  constructor(status, detail) {
+    super(detail);
+    this.status = status;
+  }
+}
+
+/**
+ * Fake Cashu mint (NUT-00 to NUT-07) with a single sat keyset and instantly paid quotes
+ */
+function createFakeMint(getMintUrl) {
+  const { pubKeys, privKeys, keysetId } = createNewMintKeys(KEYSET_HEIGHT, MINT_SEED);
+  const spentYs = new Set();
+  const quotes = new Map();
+
+  const signOutputs = (outputs) => {
+    if (!Array.isArray(outputs)) throw new HttpError(400, 'outputs missing');
+    return outputs.map(output => {
+      const privKey = privKeys[String(output.amount)];
+      if (!privKey) throw new HttpError(400, `Unsupported amount: ${output.amount}`);
+      const signature = createBlindSignature(pointFromHex(output.B_), privKey, output.amount, keysetId);
+      return { id: keysetId, amount: output.amount, C_: signature.C_.toHex(true) };
+    });
+  };
+
+  const getY = (secret) => hashToCurve(new TextEncoder().encode(secret)).toHex(true);
+
+  const verifyProofs = (proofs) => {
+    if (!Array.isArray(proofs) || proofs.length === 0) throw new HttpError(400, 'No proofs provided');
+    const ys = proofs.map(proof => getY(proof.secret));
+    if (new Set(ys).size !== ys.length) throw new HttpError(400, 'Duplicate proofs');
+    proofs.forEach((proof, index) => {
+      const privKey = proof.id === keysetId ? privKeys[String(proof.amount)] : undefined;
+      const valid = privKey && verifyProof({
+        C: pointFromHex(proof.C),
+        secret: new TextEncoder().encode(proof.secret),
+        amount: proof.amount,
+        id: proof.id
+      }, privKey);
+      if (!valid) throw new HttpError(400, 'Could not verify proofs');
+      if (spentYs.has(ys[index])) throw new HttpError(400, 'Token already spent');
+    });
+    return ys;
+  };
+
+  /**
+   * Marks proofs as spent and returns their total
+   */
+  const redeem = (proofs) => {
+    const ys = verifyProofs(proofs);
+    ys.forEach(y => spentYs.add(y));
+    return proofs.reduce((sum, proof) => sum + proof.amount, 0);
+  };
+
+  /**
+   * Issues unblinded proofs worth `amount` sats, used for refunds
+   */
+  const issueProofs = (amount) => {
+    const proofs = [];
+    for (let bit = 0; amount >> bit > 0; bit++) {
+      if (!((amount >> bit) & 1)) continue;
+      const value = 2 ** bit;
+      const secret = crypto.randomBytes(32).toString('hex');
+      const C = createBlindSignature(hashToCurve(new TextEncoder().encode(secret)), privKeys[String(value)], value, keysetId).C_;
+      proofs.push({ id: keysetId, amount: value, secret, C: C.toHex(true) });
+    }
+    return proofs;
+  };
+
+  const handle = async (method, path, body) => {
+    const keyset = { id: keysetId, unit: 'sat', keys: serializeMintKeys(pubKeys) };
+    if (method === 'GET' && path === '/v1/info') {
+      return {
+        name: 'Routstr Demo Mint',
+        version: 'mock/0.1.0',
+        description: 'Fake mint of the local mock Routstr node. Quotes are paid instantly.',
+        nuts: {
+          4: { methods: [{ method: 'bolt11', unit: 'sat' }], disabled: false },
+          5: { methods: [], disabled: true },
+          7: { supported: true }
+        }
+      };
+    }
+    if (method === 'GET' && path === '/v1/keys') return { keysets: [keyset] };
+    if (method === 'GET' && path === `/v1/keys/${keysetId}`) return { keysets: [keyset] };
+    if (method === 'GET' && path === '/v1/keysets') {
+      return { keysets: [{ id: keysetId, unit: 'sat', active: true, input_fee_ppk: 0 }] };
+    }
+    if (method === 'POST' && path === '/v1/mint/quote/bolt11') {
+      const amount = Number(body?.amount);
+      if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'Invalid amount');
+      const quote = {
+        quote: crypto.randomUUID(),
+        request: `lnbcrt${amount}demo${crypto.randomBytes(8).toString('hex')}`,
+        amount,
+        unit: 'sat',
+        state: 'PAID',
+        paid: true,
+        expiry: Math.floor(Date.now() / 1000) + 3600
+      };
+      quotes.set(quote.quote, quote);
+      return quote;
+    }
+    if (method === 'GET' && path.startsWith('/v1/mint/quote/bolt11/')) {
+      const quote = quotes.get(path.slice('/v1/mint/quote/bolt11/'.length));
+      if (!quote) throw new HttpError(404, 'Quote not found');
+      return quote;
+    }
+    if (method === 'POST' && path === '/v1/mint/bolt11') {
+      const quote = quotes.get(body?.quote);
+      if (!quote) throw new HttpError(404, 'Quote not found');
+      if (quote.state === 'ISSUED') throw new HttpError(400, 'Quote already issued');
+      const total = (body.outputs || []).reduce((sum, output) => sum + output.amount, 0);
+      if (total !== quote.amount) throw new HttpError(400, 'Outputs do not match the quote amount');
+      const signatures = signOutputs(body.outputs);
+      quote.state = 'ISSUED';
+      quote.paid = true;
+      return { signatures };
+    }
+    if (method === 'POST' && path === '/v1/swap') {
+      const inputTotal = (body?.inputs || []).reduce((sum, proof) => sum + proof.amount, 0);
+      const outputTotal = (body?.outputs || []).reduce((sum, output) => sum + output.amount, 0);
+      if (inputTotal !== outputTotal) throw new HttpError(400, 'Inputs and outputs are not balanced');
+      const ys = verifyProofs(body.inputs);
+      const signatures = signOutputs(body.outputs);
+      ys.forEach(y => spentYs.add(y));
+      return { signatures };
+    }
+    if (method === 'POST' && path === '/v1/checkstate') {
+      return {
+        states: (body?.Ys || []).map(Y => ({ Y, state: spentYs.has(Y) ? 'SPENT' : 'UNSPENT', witness: null }))
+      };
+    }
+    if (method === 'POST' && path.startsWith('/v1/melt/')) {
+      throw new HttpError(400, 'The demo mint cannot pay Lightning invoices');
+    }
+    throw new HttpError(404, 'Not found');
+  };
+
+  return {
+    keysetId,
+    handle,
+    redeem,
+    issueProofs,
+    getMintUrl
+  };
+}
+
+/**
+ * Creates the mock node server; call listen() on the result
+ * @param {{ streamDelayMs?: number }} options
+ */
+function createMockRoutstrNode(options = {}) {
+  const streamDelayMs = options.streamDelayMs ?? 30;
+  let origin = `http://localhost:${DEFAULT_PORT}`;
+  const mint = createFakeMint(() => `${origin}/mint`);
+
+  // API key -> { balance (msats), reserved (msats), unit }
+  const accounts = new Map();
+  // Cashu token used as bearer -> API key it was redeemed into
+  const tokenAccounts = new Map();
+
+  const normalizeMintUrl = (url) => (url || '').replace(/\/+$/, '');
+
+  /**
+   * Redeems a Cashu token into a new account, or finds the account of a known token or API key
+   */
+  const resolveAccount = (bearer) => {
+    if (!bearer) throw new HttpError(401, 'Missing bearer token');
+    if (accounts.has(bearer)) return bearer;
+    if (tokenAccounts.has(bearer)) return tokenAccounts.get(bearer);
+    if (!bearer.startsWith('cashu')) throw new HttpError(401, 'Invalid API key');
+
+    let token;
+    try {
+      token = getDecodedToken(bearer);
+    } catch {
+      throw new HttpError(401, 'Invalid Cashu token');
+    }
+    if (normalizeMintUrl(token.mint) !== normalizeMintUrl(mint.getMintUrl())) {
+      throw new HttpError(401, `Mint not accepted by the demo node: ${token.mint}`);
+    }
+    const unit = token.unit || 'sat';
+    const amount = mint.redeem(token.proofs);
+    const apiKey = `sk-${crypto.randomBytes(16).toString('hex')}`;
+    accounts.set(apiKey, { balance: unit === 'msat' ? amount : amount * 1000, reserved: 0, unit });
+    tokenAccounts.set(bearer, apiKey);
+    return apiKey;
+  };
+
+  const getBearer = (req) => {
+    const header = req.headers.authorization || '';
+    return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  };
+
+  const getCostMsats = (promptTokens, completionTokens) => {
+    return Math.ceil((promptTokens * SATS_PRICING.prompt + completionTokens * SATS_PRICING.completion + SATS_PRICING.request) * 1000);
+  };
+
+  const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const handleChatCompletion = async (req, res, body, requestId) => {
+    const apiKey = resolveAccount(getBearer(req));
+    const account = accounts.get(apiKey);
+    const model = DEMO_MODELS.find(entry => entry.id === body?.model);
+    if (!model) throw new HttpError(400, `Unknown model: ${body?.model}`);
+    if (!model.reply) throw new HttpError(400, `${model.id} only serves /v1/images/generations`);
+    const promptTokens = countTokens((body.messages || []).map(message => getTextContent(message.content)).join('\n'));
+    // Like Routstr, the token must cover this prompt plus the largest possible completion
+    if (account.balance < getCostMsats(promptTokens, 0) + SATS_PRICING.max_completion_cost * 1000) {
+      throw new HttpError(402, 'Insufficient balance');
+    }
+
+    const reply = model.reply(body.messages || []);
+    const completionTokens = countTokens(reply);
+    const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+    account.balance -= getCostMsats(promptTokens, completionTokens);
+
+    const id = `chatcmpl-${crypto.randomBytes(8).toString('hex')}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    if (!body.stream) {
+      sendJson(res, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model: model.id,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }],
+        usage
+      }, requestId);
+      return;
+    }
+
+    res.writeHead(200, {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'x-routstr-request-id': requestId
+    });
+    const writeChunk = (delta, finishReason, extra = {}) => {
+      res.write(`data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model: model.id,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...extra
+      })}\n\n`);
+    };
+
+    writeChunk({ role: 'assistant', content: '' }, null);
+    for (const piece of reply.match(/\S+\s*/g) || []) {
+      if (res.destroyed) return;
+      writeChunk({ content: piece }, null);
+      if (streamDelayMs > 0) await sleep(streamDelayMs);
+    }
+    writeChunk({}, 'stop', { usage });
+    res.end('data: [DONE]\n\n');
+  };
+
+  const handleImageGeneration = (req, body) => {
+    const apiKey = resolveAccount(getBearer(req));
+    const account = accounts.get(apiKey);
+    const model = DEMO_MODELS.find(entry => entry.id === body?.model);
+    if (!model) throw new HttpError(400, `Unknown model: ${body?.model}`);
+    if (!(model.outputModalities || []).includes('image')) throw new HttpError(400, `${model.id} does not generate images`);
+    if (typeof body.prompt !== 'string' || !body.prompt.trim()) throw new HttpError(400, 'prompt missing');
+
+    const count = Math.max(1, Math.min(4, Number(body.n) || 1));
+    const costMsats = Math.ceil(count * model.satsPricing.image * 1000);
+    if (account.balance < costMsats) throw new HttpError(402, 'Insufficient balance');
+    account.balance -= costMsats;
+
+    return {
+      created: Math.floor(Date.now() / 1000),
+      data: Array.from({ length: count }, () => ({
+        b64_json: PIXEL_PNG_BASE64,
+        revised_prompt: `A single pixel standing in for: ${body.prompt.trim()}`
+      }))
+    };
+  };
+
+  const handleWallet = (req, path, url) => {
+    if (path === '/v1/wallet/info' || path === '/v1/wallet' || path === '/v1/wallet/') {
+      const apiKey = resolveAccount(getBearer(req));
+      const account = accounts.get(apiKey);
+      return { api_key: apiKey, balance: account.balance, reserved: account.reserved };
+    }
+    if (path === '/v1/wallet/topup') {
+      const apiKey = resolveAccount(getBearer(req));
+      const cashuToken = url.searchParams.get('cashu_token');
+      if (!cashuToken) throw new HttpError(400, 'cashu_token missing');
+      const token = getDecodedToken(cashuToken);
+      const amount = mint.redeem(token.proofs);
+      const msats = (token.unit || 'sat') === 'msat' ? amount : amount * 1000;
+      accounts.get(apiKey).balance += msats;
+      return { msats };
+    }
+    if (path === '/v1/wallet/refund') {
+      const apiKey = resolveAccount(getBearer(req));
+      const account = accounts.get(apiKey);
+      if (account.balance <= 0) throw new HttpError(400, 'No balance to refund');
+      const sats = Math.floor(account.balance / 1000);
+      if (sats < 1) throw new HttpError(400, 'Balance too small to refund');
+      const token = getEncodedTokenV4({ mint: mint.getMintUrl(), proofs: mint.issueProofs(sats), unit: 'sat' });
+      // The key stays known with an empty balance, like on a real node
+      account.balance = 0;
+      return { token };
+    }
+    throw new HttpError(404, 'Not found');
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const requestId = crypto.randomUUID();
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+
+    try {
+      const url = new URL(req.url, origin);
+      const path = url.pathname;
+      const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+      if (path === '/mint' || path.startsWith('/mint/')) {
+        sendJson(res, 200, await mint.handle(req.method, path.slice('/mint'.length), body), requestId);
+      } else if (req.method === 'GET' && path === '/') {
+        sendJson(res, 200, {
+          name: 'Routstr Demo Node',
+          description: 'Local mock Routstr node for offline development',
+          version: 'mock/0.1.0',
+          npub: '',
+          mint: mint.getMintUrl(),
+          mints: [mint.getMintUrl()],
+          http_url: `${origin}/`,
+          onion_url: '',
+          models: DEMO_MODELS.map(toModel)
+        }, requestId);
+      } else if (req.method === 'GET' && (path === '/v1/models' || path === '/v1/models/')) {
+        sendJson(res, 200, { data: DEMO_MODELS.map(toModel) }, requestId);
+      } else if (req.method === 'POST' && path === '/v1/chat/completions') {
+        await handleChatCompletion(req, res, body, requestId);
+      } else if (req.method === 'POST' && path === '/v1/images/generations') {
+        sendJson(res, 200, handleImageGeneration(req, body), requestId);
+      } else if (path.startsWith('/v1/wallet')) {
+        sendJson(res, 200, handleWallet(req, path, url), requestId);
+      } else {
+        throw new HttpError(404, 'Not found');
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(res, status, { detail: error instanceof Error ? error.message : String(error) }, requestId);
+    }
+  });
+
+  return {
+    server,
+    mint,
+    /**
+     * Starts listening; resolves with the node's base URL (with trailing slash)
+     */
+    listen(port = DEFAULT_PORT) {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+          origin = `http://localhost:${server.address().port}`;
+          resolve(`${origin}/`);
+        });
+      });
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Expose-Headers': 'x-routstr-request-id'
+};
+
+function sendJson(res, status, data, requestId) {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json', 'x-routstr-request-id': requestId });
+  res.end(JSON.stringify(data));
+}
+
+function readJsonBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      if (!raw) return resolve(undefined);
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+module.exports = { createMockRoutstrNode, DEMO_MODELS, SATS_PRICING };
+
+if (require.main === module) {
+  const portArgIndex = process.argv.indexOf('--port');
+  const port = Number(portArgIndex !== -1 ? process.argv[portArgIndex + 1] : process.env.MOCK_ROUTSTR_PORT) || DEFAULT_PORT;
+  const node = createMockRoutstrNode();
+  node.listen(port).then(baseUrl => {
+    console.log(`Mock Routstr node listening on ${baseUrl}`);
+    console.log(`Fake mint: ${baseUrl}mint (mint quotes are paid instantly)`);
+    console.log(`Models: ${DEMO_MODELS.map(model => model.id).join(', ')}`);
+  }).catch(error => {
+    console.error('Failed to start mock Routstr node:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the local mock Routstr node (test/mock-routstr-node.js)
+ * Starts the node in-process on a free port, so no regtest mint or network access is needed.
+ */
+
+const { CashuMint, CashuWallet, getEncodedTokenV4 } = require('@cashu/cashu-ts');
+const { createMockRoutstrNode, SATS_PRICING } = require('./mock-routstr-node');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+async function test(testName, fn) {
+  try {
+    await fn();
+    pass(testName);
+  } catch (error) {
+    fail(testName, error instanceof Error ? error.message : error);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+async function mintProofs(wallet, amount) {
+  const quote = await wallet.createMintQuote(amount);
+  assert(quote.state === 'PAID', `expected an instantly paid quote, got ${quote.state}`);
+  return wallet.mintProofs(amount, quote.quote);
+}
+
+async function readStream(response) {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .map(event => event.replace(/^data: /, '').trim())
+    .filter(data => data && data !== '[DONE]')
+    .map(data => JSON.parse(data));
+}
+
+async function run() {
+  log('Starting mock Routstr node...', 'blue');
+  const node = createMockRoutstrNode({ streamDelayMs: 0 });
+  const baseUrl = await node.listen(0);
+  const mintUrl = `${baseUrl}mint`;
+  const wallet = new CashuWallet(new CashuMint(mintUrl), { unit: 'sat' });
+
+  try {
+    await wallet.loadMint();
+
+    await test('serves node info and models', async () => {
+      const info = await (await fetch(baseUrl)).json();
+      assert(info.mints[0] === mintUrl, `unexpected mint ${info.mints[0]}`);
+      const models = await (await fetch(`${baseUrl}v1/models`)).json();
+      assert(models.data.some(model => model.id === 'demo/echo'), 'demo/echo missing');
+      assert(models.data[0].sats_pricing.max_cost === SATS_PRICING.max_cost, 'sats_pricing missing');
+    });
+
+    await test('fake mint issues proofs for a paid quote', async () => {
+      const proofs = await mintProofs(wallet, 64);
+      assert(proofs.reduce((sum, proof) => sum + proof.amount, 0) === 64, 'wrong amount minted');
+    });
+
+    const sendToken = async (amount) => {
+      const proofs = await mintProofs(wallet, amount);
+      return getEncodedTokenV4({ mint: mintUrl, proofs, unit: 'sat' });
+    };
+
+    await test('streams an echo completion with usage', async () => {
+      const token = await sendToken(32);
+      const response = await fetch(`${baseUrl}v1/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ model: 'demo/echo', stream: true, messages: [{ role: 'user', content: 'hello node' }] })
+      });
+      assert(response.ok, `status ${response.status}`);
+      assert(response.headers.get('x-routstr-request-id'), 'request id header missing');
+      const chunks = await readStream(response);
+      const content = chunks.map(chunk => chunk.choices[0].delta.content || '').join('');
+      assert(content === 'You said: hello node', `unexpected content "${content}"`);
+      assert(chunks[chunks.length - 1].usage.total_tokens > 0, 'usage missing from the last chunk');
+    });
+
+    await test('charges the token and refunds the rest', async () => {
+      const token = await sendToken(32);
+      const request = () => fetch(`${baseUrl}v1/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ model: 'demo/lorem', stream: false, messages: [{ role: 'user', content: 'hi' }] })
+      });
+      assert((await request()).ok, 'first request failed');
+      assert((await request()).ok, 'the same token should pay for a second request');
+
+      const info = await (await fetch(`${baseUrl}v1/wallet/info`, { headers: { Authorization: `Bearer ${token}` } })).json();
+      assert(info.balance > 0 && info.balance < 32000, `unexpected balance ${info.balance}`);
+
+      const refund = await (await fetch(`${baseUrl}v1/wallet/refund`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } })).json();
+      const received = await wallet.receive(refund.token);
+      const refunded = received.reduce((sum, proof) => sum + proof.amount, 0);
+      assert(refunded === Math.floor(info.balance / 1000), `refunded ${refunded} sats for ${info.balance} msats`);
+
+      const second = await fetch(`${baseUrl}v1/wallet/refund`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } });
+      const secondBody = await second.json();
+      assert(second.status === 400 && secondBody.detail === 'No balance to refund', `unexpected ${second.status} ${secondBody.detail}`);
+    });
+
+    await test('rejects a token that cannot cover the largest completion', async () => {
+      const token = await sendToken(SATS_PRICING.max_completion_cost - 1);
+      const response = await fetch(`${baseUrl}v1/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ model: 'demo/echo', messages: [{ role: 'user', content: 'hi' }] })
+      });
+      assert(response.status === 402, `expected 402, got ${response.status}`);
+    });
+
+    await test('rejects spent proofs', async () => {
+      const proofs = await mintProofs(wallet, 8);
+      await wallet.swap(8, proofs);
+      const response = await fetch(`${baseUrl}v1/wallet/info`, {
+        headers: { Authorization: `Bearer ${getEncodedTokenV4({ mint: mintUrl, proofs, unit: 'sat' })}` }
+      });
+      const body = await response.json();
+      assert(response.status === 400 && /already spent/.test(body.detail), `unexpected ${response.status} ${body.detail}`);
+    });
+  } finally {
+    await node.close();
+  }
+
+  console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the reasoning adapters used by streamed chat completions (utils/thinkingParser.ts)
+ * The TypeScript module is transpiled in memory by ts-loader.js, so no build step or running services are needed.
+ */
+
+const { loadTsModule } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+function parseAll(createThinkTagParser, chunks) {
+  const parser = createThinkTagParser();
+  let content = '';
+  let thinking = '';
+  for (const chunk of [...chunks.map(parser.push), parser.flush()]) {
+    content += chunk.content;
+    thinking += chunk.thinking;
+  }
+  return { content, thinking };
+}
+
+const {
+  readReasoningDelta,
+  createThinkTagParser,
+  getReasoningRequestFields,
+  readReasoningTokens,
+  getProviderFromModel
+} = loadTsModule('utils/thinkingParser.ts');
+
+const tests = [
+  ['OpenRouter reasoning field', () => {
+    assertEqual(readReasoningDelta({ reasoning: 'Let me see' }), { text: 'Let me see', redacted: false }, 'delta');
+  }],
+
+  ['DeepSeek reasoning_content field', () => {
+    assertEqual(readReasoningDelta({ reasoning_content: 'Step 1', content: null }), { text: 'Step 1', redacted: false }, 'delta');
+  }],
+
+  ['reasoning_details take precedence over the repeated reasoning text', () => {
+    const delta = {
+      reasoning: 'Hmm',
+      reasoning_details: [{ type: 'reasoning.text', text: 'Hmm' }, { type: 'reasoning.summary', summary: ' ok' }]
+    };
+    assertEqual(readReasoningDelta(delta), { text: 'Hmm ok', redacted: false }, 'delta');
+  }],
+
+  ['Encrypted and redacted blocks are flagged, not shown', () => {
+    assertEqual(readReasoningDelta({ reasoning_details: [{ type: 'reasoning.encrypted', data: 'gAAA' }] }), { text: '', redacted: true }, 'encrypted');
+    assertEqual(readReasoningDelta({ reasoning_details: [{ type: 'redacted_thinking', data: 'x' }] }), { text: '', redacted: true }, 'redacted');
+  }],
+
+  ['Chunks without reasoning', () => {
+    assertEqual(readReasoningDelta({ content: 'Hi' }), { text: '', redacted: false }, 'content only');
+    assertEqual(readReasoningDelta(undefined), { text: '', redacted: false }, 'missing delta');
+  }],
+
+  ['<think> block at the start of the answer', () => {
+    assertEqual(parseAll(createThinkTagParser, ['<think>plan</think>\n\nAnswer']), { content: 'Answer', thinking: 'plan' }, 'parsed');
+  }],
+
+  ['Tags split across chunks', () => {
+    assertEqual(
+      parseAll(createThinkTagParser, ['\n<thi', 'nk>first ', 'idea</th', 'ink>', '\n', 'Done']),
+      { content: 'Done', thinking: 'first idea' },
+      'parsed'
+    );
+  }],
+
+  ['<thinking> tags are recognized too', () => {
+    assertEqual(parseAll(createThinkTagParser, ['<thinking>a</thinking>b']), { content: 'b', thinking: 'a' }, 'parsed');
+  }],
+
+  ['Tags later in the answer are left alone', () => {
+    assertEqual(
+      parseAll(createThinkTagParser, ['Use ', '<think> in prompts']),
+      { content: 'Use <think> in prompts', thinking: '' },
+      'parsed'
+    );
+  }],
+
+  ['Answers starting with other markup are not held back', () => {
+    const parser = createThinkTagParser();
+    assertEqual(parser.push('<b>bold'), { content: '<b>bold', thinking: '' }, 'first chunk');
+  }],
+
+  ['Unclosed <think> block ends as reasoning', () => {
+    assertEqual(parseAll(createThinkTagParser, ['<think>still going', ' </thi']), { content: '', thinking: 'still going </thi' }, 'parsed');
+  }],
+
+  ['Reasoning effort in the vendor format', () => {
+    assertEqual(getReasoningRequestFields('openai/o3-mini', 'high'), { reasoning_effort: 'high' }, 'openai');
+    assertEqual(getReasoningRequestFields('anthropic/claude-sonnet-4', 'low'), { reasoning: { effort: 'low' } }, 'anthropic');
+    assertEqual(getReasoningRequestFields('deepseek/deepseek-r1', undefined), {}, 'no effort');
+  }],
+
+  ['Model vendors', () => {
+    assertEqual(getProviderFromModel('qwen/qwen3-235b-a22b'), 'qwen', 'prefixed id');
+    assertEqual(getProviderFromModel('deepseek-r1'), 'deepseek', 'bare id');
+    assertEqual(getProviderFromModel('claude-3-opus'), 'anthropic', 'anthropic');
+    assertEqual(getProviderFromModel('some-model'), 'unknown', 'unknown');
+    assertEqual(getProviderFromModel('o3-mini'), 'openai', 'o-series');
+    assertEqual(getProviderFromModel('chatgpt-4o-latest'), 'openai', 'chatgpt');
+    assertEqual(getProviderFromModel('pro1-turbo'), 'unknown', 'o1 inside a name');
+    assertEqual(getProviderFromModel('gpt-4o'), 'openai', 'gpt');
+    assertEqual(getProviderFromModel('macro3'), 'unknown', 'o3 inside a name');
+  }],
+
+  ['Reasoning token counts from usage', () => {
+    assertEqual(readReasoningTokens({ completion_tokens: 90, completion_tokens_details: { reasoning_tokens: 64 } }), 64, 'details');
+    assertEqual(readReasoningTokens({ reasoning_tokens: 12 }), 12, 'flat');
+    assertEqual(readReasoningTokens({ completion_tokens: 5 }), undefined, 'missing');
+  }]
+];
+
+log('Reasoning adapters', 'blue');
+for (const [name, run] of tests) {
+  try {
+    run();
+    pass(name);
+  } catch (error) {
+    fail(name, error.message);
+  }
+}
+
+console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+process.exit(testsFailed > 0 ? 1 : 0);
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the background refund sweeper: orphaned tokens, retry backoff and interrupted streams (utils/refundSweeperUtils.ts)
+ * The TypeScript modules are transpiled in memory by ts-loader.js; storage is in memory and the provider is a stubbed fetch.
+ */
+
+const { getEncodedTokenV4 } = require('@cashu/cashu-ts');
+const { loadTsModule, installBrowserGlobals } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+async function test(testName, fn) {
+  try {
+    await fn();
+    pass(testName);
+  } catch (error) {
+    fail(testName, error instanceof Error ? error.message : error);
+  }
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+installBrowserGlobals();
+const { findOrphanedTokens, refundInterruptedStream, sweepOrphanedTokens } = loadTsModule('utils/refundSweeperUtils.ts');
+const {
+  getLocalCashuTokens,
+  loadRefundSweepBackoff,
+  loadSpendingLog,
+  loadStreamCheckpoints,
+  saveSpendingLog,
+  saveRefundSweepBackoff,
+  saveStreamCheckpoints,
+  setStorageItem,
+  STORAGE_KEYS
+} = loadTsModule('utils/storageUtils.ts');
+
+const MINUTE = 60 * 1000;
+const PROVIDER = 'https://api.provider.test/';
+
+const storeTokens = (entries) => setStorageItem(STORAGE_KEYS.LOCAL_CASHU_TOKENS, entries);
+const token = (baseUrl, minutesAgo) => ({ baseUrl, token: `cashuA-${baseUrl}`, ...(minutesAgo !== undefined ? { lastUsedAt: Date.now() - minutesAgo * MINUTE } : {}) });
+
+// The provider answers every refund with this status and detail, or with a refunded token
+let refundReply = { status: 500, detail: 'Internal error' };
+globalThis.fetch = async () => new Response(JSON.stringify(refundReply.token ? { token: refundReply.token } : { detail: refundReply.detail }), {
+  status: refundReply.status,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+// The app logs every failed refund with its stack; the results are checked instead
+const consoleError = console.error;
+console.error = (message, ...rest) => {
+  if (message !== 'Error refunding balance:') consoleError(message, ...rest);
+};
+
+const sweepParams = {
+  mintUrl: 'https://mint.test',
+  usingNip60: false,
+  receiveToken: async () => [],
+  onRefund: () => {}
+};
+
+const reset = () => {
+  storeTokens([]);
+  saveRefundSweepBackoff({});
+  saveStreamCheckpoints([]);
+  saveSpendingLog([]);
+};
+
+async function run() {
+  log('Refund sweeper', 'blue');
+
+  await test('Tokens no request took for a while are orphaned', async () => {
+    reset();
+    storeTokens([token('https://recent.test/', 2), token('https://old.test/', 20), token('https://untracked.test/')]);
+    assertEqual(findOrphanedTokens(), ['https://old.test/', 'https://untracked.test/'], 'orphaned');
+    assertEqual(findOrphanedTokens(Date.now() + 10 * MINUTE), ['https://recent.test/', 'https://old.test/', 'https://untracked.test/'], 'later');
+  });
+
+  await test('Tokens a stream refers to are not orphaned', async () => {
+    reset();
+    storeTokens([token(PROVIDER, 20)]);
+    saveStreamCheckpoints([{ conversationId: 'c1', tabId: 'other-tab', baseUrl: PROVIDER, mintUrl: 'https://mint.test', content: '', updatedAt: 0 }]);
+    assertEqual(findOrphanedTokens(), [], 'held by a stream');
+  });
+
+  await test('Tokens waiting for a retry are left alone until then', async () => {
+    reset();
+    storeTokens([token(PROVIDER, 20)]);
+    saveRefundSweepBackoff({ [PROVIDER]: { failures: 1, retryAt: Date.now() + 5 * MINUTE } });
+    assertEqual(findOrphanedTokens(), [], 'before the retry');
+    assertEqual(findOrphanedTokens(Date.now() + 6 * MINUTE), [PROVIDER], 'after the retry');
+  });
+
+  await test('Failed refunds back off exponentially up to the cap', async () => {
+    reset();
+    refundReply = { status: 500, detail: 'Internal error' };
+    storeTokens([token(PROVIDER, 20)]);
+
+    const delayAfterSweep = async () => {
+      const before = Date.now();
+      const results = await sweepOrphanedTokens(sweepParams);
+      assertEqual(results.map(result => result.success), [false], 'sweep results');
+      const { failures, retryAt } = loadRefundSweepBackoff()[PROVIDER];
+      return { failures, minutes: Math.round((retryAt - before) / MINUTE) };
+    };
+    const retryNow = () => {
+      const backoff = loadRefundSweepBackoff();
+      saveRefundSweepBackoff({ [PROVIDER]: { ...backoff[PROVIDER], retryAt: 0 } });
+    };
+
+    assertEqual(await delayAfterSweep(), { failures: 1, minutes: 5 }, 'first failure');
+    assertEqual(await sweepOrphanedTokens(sweepParams), [], 'no retry before retryAt');
+    retryNow();
+    assertEqual(await delayAfterSweep(), { failures: 2, minutes: 10 }, 'second failure');
+    saveRefundSweepBackoff({ [PROVIDER]: { failures: 9, retryAt: 0 } });
+    assertEqual(await delayAfterSweep(), { failures: 10, minutes: 360 }, 'capped at six hours');
+    assertEqual(getLocalCashuTokens().length, 1, 'token kept for the next retry');
+  });
+
+  await test('A refund that goes through clears the backoff and the token', async () => {
+    reset();
+    refundReply = { status: 400, detail: 'No balance to refund' };
+    storeTokens([token(PROVIDER, 20)]);
+    saveRefundSweepBackoff({ [PROVIDER]: { failures: 3, retryAt: 0 } });
+    const results = await sweepOrphanedTokens(sweepParams);
+    assertEqual(results.map(result => [result.success, result.refundedAmount]), [[true, 0]], 'sweep results');
+    assertEqual(loadRefundSweepBackoff(), {}, 'backoff');
+    assertEqual(getLocalCashuTokens(), [], 'tokens');
+  });
+
+  const encodeToken = (amount) => getEncodedTokenV4({
+    mint: 'https://mint.test',
+    unit: 'sat',
+    proofs: [{ id: '009a1f293253e41e', amount, secret: 'aa'.repeat(32), C: `02${'cd'.repeat(32)}` }]
+  });
+  const interrupted = { conversationId: 'c1', tabId: 'closed-tab', baseUrl: PROVIDER, mintUrl: 'https://mint.test', modelId: 'demo/echo', content: 'Partial', updatedAt: Date.now(), restored: true };
+  const interruptedParams = (transactions) => ({
+    usingNip60: true,
+    receiveToken: async () => [{ amount: 3 }],
+    onTransaction: (transaction) => transactions.push(transaction)
+  });
+
+  await test('An interrupted answer costs what did not come back from its token', async () => {
+    reset();
+    refundReply = { status: 200, token: encodeToken(3) };
+    storeTokens([{ baseUrl: PROVIDER, token: encodeToken(8), lastUsedAt: Date.now() - 20 * MINUTE }]);
+    saveStreamCheckpoints([interrupted]);
+    const transactions = [];
+    assertEqual(await refundInterruptedStream(interrupted, interruptedParams(transactions)), 5, 'sats spent');
+    assertEqual(transactions.map(entry => [entry.type, entry.amount, entry.model]), [['spent', 5, 'demo/echo']], 'transactions');
+    assertEqual(loadSpendingLog().map(entry => [entry.baseUrl, entry.amount, entry.refundPending]), [[PROVIDER, 5, undefined]], 'spending');
+    assertEqual([loadStreamCheckpoints(), getLocalCashuTokens()], [[], []], 'checkpoint and token');
+  });
+
+  await test('Interrupted refunds that keep failing leave the token to the sweep', async () => {
+    reset();
+    refundReply = { status: 500, detail: 'Internal error' };
+    storeTokens([{ baseUrl: PROVIDER, token: encodeToken(8), lastUsedAt: Date.now() - 20 * MINUTE }]);
+    saveStreamCheckpoints([interrupted]);
+    const transactions = [];
+    assertEqual(await refundInterruptedStream(interrupted, interruptedParams(transactions)), null, 'first attempt');
+    assertEqual(await refundInterruptedStream(interrupted, interruptedParams(transactions)), null, 'second attempt');
+    assertEqual([loadStreamCheckpoints()[0].refundAttempts, findOrphanedTokens()], [2, []], 'held while retried');
+
+    assertEqual(await refundInterruptedStream(interrupted, interruptedParams(transactions)), 8, 'counted in full');
+    assertEqual(transactions.map(entry => [entry.type, entry.amount]), [['spent', 8]], 'transactions');
+    assertEqual(loadSpendingLog().map(entry => [entry.amount, entry.refundPending]), [[8, true]], 'spending');
+    assertEqual([loadStreamCheckpoints(), findOrphanedTokens()], [[], [PROVIDER]], 'handed to the sweep');
+  });
+
+  await test('Dust is forgotten instead of retried', async () => {
+    reset();
+    refundReply = { status: 400, detail: 'Balance too small to refund' };
+    storeTokens([token(PROVIDER, 20)]);
+    await sweepOrphanedTokens(sweepParams);
+    assertEqual([getLocalCashuTokens(), loadRefundSweepBackoff()], [[], {}], 'tokens and backoff');
+  });
+
+  console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
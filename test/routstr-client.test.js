@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+
+/**
+ * Tests for the framework-agnostic Routstr client (lib/routstrClient.ts), driven against the mock node
+ * The TypeScript modules are transpiled in memory and the wallet is a plain cashu-ts wallet, so no browser is needed.
+ */
+
+const { CashuMint, CashuWallet, getEncodedTokenV4 } = require('@cashu/cashu-ts');
+const { createMockRoutstrNode } = require('./mock-routstr-node');
+const { loadTsModule } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+async function test(testName, fn) {
+  try {
+    await fn();
+    pass(testName);
+  } catch (error) {
+    fail(testName, error instanceof Error ? error.message : error);
+  }
+}
+
+function assert(condition, message) {
+  if (!condition) throw new Error(message);
+}
+
+// RoutstrWallet over in-memory proofs, as a script would use it
+function createTestWallet(mintUrl) {
+  const wallet = new CashuWallet(new CashuMint(mintUrl), { unit: 'sat' });
+  let proofs = [];
+  const sum = (list) => list.reduce((total, proof) => total + proof.amount, 0);
+  return {
+    async fund(amount) {
+      await wallet.loadMint();
+      const quote = await wallet.createMintQuote(amount);
+      proofs.push(...await wallet.mintProofs(amount, quote.quote));
+    },
+    async createToken(amount) {
+      if (sum(proofs) < Math.ceil(amount)) return null;
+      const { send, keep } = await wallet.send(Math.ceil(amount), proofs);
+      proofs = keep;
+      return getEncodedTokenV4({ mint: mintUrl, proofs: send, unit: 'sat' });
+    },
+    async receiveToken(token) {
+      const received = await wallet.receive(token);
+      proofs.push(...received);
+      return sum(received);
+    },
+    async getBalance() {
+      return sum(proofs);
+    }
+  };
+}
+
+async function collect(iterator) {
+  const events = [];
+  for await (const event of iterator) events.push(event);
+  return events;
+}
+
+async function run() {
+  log('Starting mock Routstr node...', 'blue');
+  const { RoutstrClient, createMemoryStorage } = loadTsModule('lib/routstrClient.ts');
+  const { InsufficientBalanceError } = loadTsModule('utils/routstrErrors.ts');
+  const node = createMockRoutstrNode({ streamDelayMs: 0 });
+  const baseUrl = await node.listen(0);
+  const mintUrl = `${baseUrl}mint`;
+
+  try {
+    await test('lists models with sats pricing', async () => {
+      const client = new RoutstrClient({ baseUrl, wallet: createTestWallet(mintUrl) });
+      const models = await client.listModels();
+      assert(models.some(model => model.id === 'demo/echo'), 'demo/echo missing');
+      assert(models[0].sats_pricing.max_cost > 0, 'sats_pricing missing');
+    });
+
+    await test('refuses to chat when the wallet cannot pay', async () => {
+      const client = new RoutstrClient({ baseUrl, wallet: createTestWallet(mintUrl) });
+      try {
+        await collect(client.chat({ model: 'demo/echo', messages: [{ role: 'user', content: 'hi' }] }));
+      } catch (error) {
+        assert(error instanceof InsufficientBalanceError, `unexpected ${error}`);
+        return;
+      }
+      throw new Error('chat should have failed');
+    });
+
+    const wallet = createTestWallet(mintUrl);
+    await wallet.fund(100);
+    const storage = createMemoryStorage();
+    const client = new RoutstrClient({ baseUrl, wallet, storage });
+
+    await test('streams a completion paid from the wallet', async () => {
+      const events = await collect(client.chat({
+        model: 'demo/echo',
+        stream: true,
+        messages: [{ role: 'user', content: 'hello client' }]
+      }));
+      const content = events.filter(event => event.type === 'delta').map(event => event.content || '').join('');
+      assert(content === 'You said: hello client', `unexpected content "${content}"`);
+      const done = events[events.length - 1];
+      assert(done.type === 'done' && done.usage.total_tokens > 0, 'usage missing from the done event');
+      assert(done.requestId, 'request id missing');
+      assert(storage.getToken(client.baseUrl), 'token should be kept for the next request');
+    });
+
+    await test('reuses the token for a non-streamed completion', async () => {
+      const token = storage.getToken(client.baseUrl);
+      const events = await collect(client.chat({ model: 'demo/lorem', messages: [{ role: 'user', content: 'hi' }] }));
+      assert(events[0].type === 'delta' && events[0].content.length > 0, 'content missing');
+      assert(storage.getToken(client.baseUrl) === token, 'a new token was created');
+    });
+
+    await test('generates images paid from the same token', async () => {
+      const token = storage.getToken(client.baseUrl);
+      const result = await client.generateImages({ model: 'demo/pixel', prompt: 'a red fox' });
+      assert(result.images.length === 1, `unexpected ${result.images.length} images`);
+      assert(result.images[0].url.startsWith('data:image/png;base64,'), 'image should be a data URL');
+      assert(result.images[0].revisedPrompt.includes('a red fox'), 'revised prompt missing');
+      assert(result.requestId, 'request id missing');
+      assert(storage.getToken(client.baseUrl) === token, 'a new token was created');
+    });
+
+    await test('reports wallet and provider balances', async () => {
+      const balance = await client.balance();
+      assert(balance.provider > 0, `unexpected provider balance ${balance.provider}`);
+      assert(typeof balance.wallet === 'number', 'wallet balance missing');
+    });
+
+    await test('refunds the provider balance into the wallet', async () => {
+      const before = await wallet.getBalance();
+      const result = await client.refund();
+      assert(result.status === 'refunded' && result.refundedAmount > 0, `unexpected ${JSON.stringify(result)}`);
+      assert(await wallet.getBalance() === before + result.refundedAmount, 'refund did not reach the wallet');
+      assert(!storage.getToken(client.baseUrl), 'token should be forgotten after the refund');
+      const again = await client.refund();
+      assert(again.status === 'no_token', `unexpected second refund ${again.status}`);
+    });
+  } finally {
+    await node.close();
+  }
+
+  console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+  process.exit(testsFailed > 0 ? 1 : 0);
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
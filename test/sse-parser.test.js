@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the SSE decoder used by streamed chat completions (utils/sseParser.ts)
+ * The TypeScript module is transpiled in memory by ts-loader.js, so no build step or running services are needed.
+ */
+
+const { loadTsModule } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+function decodeAll(createSseDecoder, chunks, onComment) {
+  const decoder = createSseDecoder(onComment);
+  const events = [];
+  for (const chunk of chunks) {
+    events.push(...decoder.push(chunk));
+  }
+  events.push(...decoder.flush());
+  return events;
+}
+
+const { createSseDecoder, getSseErrorMessage } = loadTsModule('utils/sseParser.ts');
+
+const tests = [
+  ['JSON event split across two reads', () => {
+    const events = decodeAll(createSseDecoder, [
+      'data: {"choices":[{"delta":{"con',
+      'tent":"Hello"}}]}\n\n'
+    ]);
+    assertEqual(events.length, 1, 'event count');
+    assertEqual(JSON.parse(events[0].data).choices[0].delta.content, 'Hello', 'content');
+  }],
+
+  ['Several events in one read', () => {
+    const events = decodeAll(createSseDecoder, ['data: 1\n\ndata: 2\n\ndata: [DONE]\n\n']);
+    assertEqual(events.map(e => e.data), ['1', '2', '[DONE]'], 'data');
+  }],
+
+  ['Multi-line data fields are joined with newlines', () => {
+    const events = decodeAll(createSseDecoder, ['data: first\ndata: second\ndata:third\n\n']);
+    assertEqual(events.map(e => e.data), ['first\nsecond\nthird'], 'data');
+  }],
+
+  ['event: and id: fields', () => {
+    const events = decodeAll(createSseDecoder, ['event: error\nid: 42\ndata: boom\n\ndata: next\n\n']);
+    assertEqual(events, [
+      { event: 'error', data: 'boom', id: '42' },
+      { event: 'message', data: 'next', id: '42' }
+    ], 'events');
+  }],
+
+  ['Comment keep-alives are reported and not dispatched', () => {
+    const comments = [];
+    const events = decodeAll(createSseDecoder, [': OPENROUTER PROCESSING\n\n', 'data: x\n\n'], c => comments.push(c));
+    assertEqual(comments, ['OPENROUTER PROCESSING'], 'comments');
+    assertEqual(events.map(e => e.data), ['x'], 'data');
+  }],
+
+  ['CRLF line endings split between reads', () => {
+    const events = decodeAll(createSseDecoder, ['data: a\r', '\n\r\n', 'data: b\r\r']);
+    assertEqual(events.map(e => e.data), ['a', 'b'], 'data');
+  }],
+
+  ['Final event without trailing blank line is flushed', () => {
+    const events = decodeAll(createSseDecoder, ['data: {"usage":{"total_tokens":3}}']);
+    assertEqual(events.length, 1, 'event count');
+    assertEqual(JSON.parse(events[0].data).usage.total_tokens, 3, 'usage');
+  }],
+
+  ['Leading BOM and unknown fields are ignored', () => {
+    const events = decodeAll(createSseDecoder, ['\uFEFFfoo: bar\ndata: ok\n\n']);
+    assertEqual(events.map(e => e.data), ['ok'], 'data');
+  }],
+
+  ['retry: only accepts digits', () => {
+    const events = decodeAll(createSseDecoder, ['retry: 1500\ndata: a\n\nretry: soon\ndata: b\n\n']);
+    assertEqual(events.map(e => e.retry), [1500, 1500], 'retry');
+  }],
+
+  ['Mid-stream error objects are surfaced', () => {
+    const [event] = decodeAll(createSseDecoder, ['data: {"error":{"message":"Upstream overloaded","code":502}}\n\n']);
+    assertEqual(getSseErrorMessage(event, JSON.parse(event.data)), 'Upstream overloaded (502)', 'message');
+  }],
+
+  ['error events with plain text data are surfaced', () => {
+    const [event] = decodeAll(createSseDecoder, ['event: error\ndata: stream reset\n\n']);
+    assertEqual(getSseErrorMessage(event, undefined), 'stream reset', 'message');
+  }],
+
+  ['Normal completion chunks are not errors', () => {
+    const [event] = decodeAll(createSseDecoder, ['data: {"choices":[{"delta":{"content":"hi"}}]}\n\n']);
+    assertEqual(getSseErrorMessage(event, JSON.parse(event.data)), null, 'message');
+  }]
+];
+
+log('SSE decoder', 'blue');
+for (const [name, run] of tests) {
+  try {
+    run();
+    pass(name);
+  } catch (error) {
+    fail(name, error.message);
+  }
+}
+
+console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+process.exit(testsFailed > 0 ? 1 : 0);
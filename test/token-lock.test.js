@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for NUT-11 locks on provider tokens: send options, lock detection and refused tokens (utils/tokenLockUtils.ts)
+ * The TypeScript modules are transpiled in memory by ts-loader.js and use an in-memory localStorage.
+ */
+
+const { getEncodedTokenV4 } = require('@cashu/cashu-ts');
+const { getPublicKey } = require('nostr-tools');
+const { loadTsModule, installBrowserGlobals } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+installBrowserGlobals();
+const {
+  getTokenLockOptions,
+  isLockedToken,
+  isLockRejection,
+  isLockUnsupported,
+  setAsideRejectedToken,
+  removeRejectedToken
+} = loadTsModule('utils/tokenLockUtils.ts');
+const { loadRejectedLockedTokens } = loadTsModule('utils/storageUtils.ts');
+
+const PROVIDER_KEY = `02${'ab'.repeat(32)}`;
+const WALLET_PRIVKEY = '11'.repeat(32);
+const HOUR = 60 * 60 * 1000;
+
+const encodeToken = (secret) => getEncodedTokenV4({
+  mint: 'https://mint.test',
+  unit: 'sat',
+  proofs: [{ id: '009a1f293253e41e', amount: 8, secret, C: `02${'cd'.repeat(32)}` }]
+});
+const lockedSecret = JSON.stringify(['P2PK', { nonce: '00'.repeat(16), data: PROVIDER_KEY, tags: [] }]);
+
+const tests = [
+  ['Plain tokens get no lock options', () => {
+    assertEqual(getTokenLockOptions(undefined, WALLET_PRIVKEY), {}, 'no provider key');
+  }],
+
+  ['Without a wallet key the lock has no refund path', () => {
+    assertEqual(getTokenLockOptions(PROVIDER_KEY, undefined), { pubkey: PROVIDER_KEY }, 'no refund key');
+  }],
+
+  ['Locks carry a one hour locktime and the wallet key as refund key', () => {
+    const before = Math.floor(Date.now() / 1000);
+    const { p2pk } = getTokenLockOptions(PROVIDER_KEY, WALLET_PRIVKEY);
+    assertEqual([p2pk.pubkey, p2pk.refundKeys], [PROVIDER_KEY, [`02${getPublicKey(Buffer.from(WALLET_PRIVKEY, 'hex'))}`]], 'keys');
+    const lockSeconds = p2pk.locktime - before;
+    if (lockSeconds < 3599 || lockSeconds > 3601) throw new Error(`locktime ${lockSeconds}s from now`);
+  }],
+
+  ['Locked tokens are told apart from plain and broken ones', () => {
+    assertEqual(isLockedToken(encodeToken(lockedSecret)), true, 'locked');
+    assertEqual(isLockedToken(encodeToken('ff'.repeat(32))), false, 'plain');
+    assertEqual(isLockedToken('cashuBnotatoken'), false, 'undecodable');
+  }],
+
+  ['Only errors about the lock count as refusing it', () => {
+    assertEqual(
+      ['Token verification failed: P2PK signature missing', 'NUT-11 not supported', 'no valid witness', 'Spending condition not met'].map(isLockRejection),
+      [true, true, true, true],
+      'lock errors'
+    );
+    assertEqual(['Token already spent', 'Invalid API key'].map(isLockRejection), [false, false], 'other errors');
+  }],
+
+  ['Refused tokens wait for the locktime; only a refused lock switches the provider to plain tokens', () => {
+    const before = Date.now();
+    setAsideRejectedToken('https://spent.test/', 'cashuA-spent', false);
+    setAsideRejectedToken('https://nolock.test/', 'cashuA-nolock', true);
+    assertEqual([isLockUnsupported('https://spent.test/'), isLockUnsupported('https://nolock.test/')], [false, true], 'unsupported');
+
+    const rejected = loadRejectedLockedTokens();
+    assertEqual(rejected.map(entry => entry.token), ['cashuA-spent', 'cashuA-nolock'], 'set aside');
+    if (rejected.some(entry => entry.reclaimAt < before + HOUR)) throw new Error('reclaimed before the locktime');
+
+    removeRejectedToken('cashuA-spent');
+    assertEqual(loadRejectedLockedTokens().map(entry => entry.token), ['cashuA-nolock'], 'after removal');
+  }]
+];
+
+log('Token locking', 'blue');
+for (const [name, run] of tests) {
+  try {
+    run();
+    pass(name);
+  } catch (error) {
+    fail(name, error.message);
+  }
+}
+
+console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+process.exit(testsFailed > 0 ? 1 : 0);
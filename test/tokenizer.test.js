@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for prompt token counting per tokenizer family (utils/tokenizerUtils.ts)
+ * The TypeScript module is transpiled in memory by ts-loader.js; BPE tables are loaded from gpt-tokenizer.
+ */
+
+const { loadTsModule } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const {
+  loadTokenizer,
+  isTokenizerLoaded,
+  countTextTokens,
+  countPromptTokens,
+  FALLBACK_CHARS_PER_TOKEN
+} = loadTsModule('utils/tokenizerUtils.ts');
+
+const withTokenizer = (tokenizer, id = 'test/model') => ({ id, architecture: { tokenizer } });
+
+const tests = [
+  ['Unknown tokenizers use the fallback ratio', async () => {
+    const model = withTokenizer('Router');
+    await loadTokenizer(model);
+    assertEqual(isTokenizerLoaded(model), false, 'no table');
+    assertEqual(countTextTokens(model, 'x'.repeat(284)), Math.ceil(284 / FALLBACK_CHARS_PER_TOKEN), 'tokens');
+    assertEqual(countTextTokens(model, ''), 0, 'empty');
+  }],
+
+  ['Families with a table count exactly once it is loaded', async () => {
+    const model = withTokenizer('GPT', 'openai/gpt-4o');
+    assertEqual(isTokenizerLoaded(model), false, 'before loading');
+    await loadTokenizer(model);
+    assertEqual(isTokenizerLoaded(model), true, 'after loading');
+    assertEqual(countTextTokens(model, 'hello world'), 2, 'tokens');
+  }],
+
+  ['Family scales apply to the table count', async () => {
+    const model = withTokenizer('Claude');
+    await loadTokenizer(model);
+    const text = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+    const base = countTextTokens(withTokenizer('Qwen'), text);
+    assertEqual(countTextTokens(model, text), Math.ceil(base * 1.15), 'scaled');
+  }],
+
+  ['Only a family\'s own table counts as exact', async () => {
+    const messages = [{ role: 'user', content: 'hello world' }];
+    const gpt = withTokenizer('GPT', 'openai/gpt-4o');
+    const claude = withTokenizer('Claude');
+    await loadTokenizer(gpt);
+    await loadTokenizer(claude);
+    assertEqual(countPromptTokens(gpt, messages).exact, true, 'gpt');
+    assertEqual(countPromptTokens(claude, messages).exact, false, 'claude');
+  }],
+
+  ['Special token text is counted as plain text', async () => {
+    const model = withTokenizer('GPT', 'openai/gpt-4o');
+    await loadTokenizer(model);
+    if (!(countTextTokens(model, '<|endoftext|>') > 1)) throw new Error('special token not counted as text');
+  }],
+
+  ['Prompts add message overhead and return images apart', async () => {
+    const model = withTokenizer('Router');
+    const prompt = countPromptTokens(model, [
+      { role: 'system', content: 'abc' },
+      { role: 'user', content: [{ type: 'text', text: 'abc' }, { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] }
+    ]);
+    const text = ['system', 'abc', 'user', 'abc'].reduce((total, part) => total + countTextTokens(model, part), 0);
+    assertEqual(prompt, { tokens: 3 + 2 * 4 + text, images: 1, exact: false }, 'prompt');
+    assertEqual(countPromptTokens(model, []), { tokens: 0, images: 0, exact: false }, 'empty prompt');
+  }]
+];
+
+(async () => {
+  log('Tokenizer', 'blue');
+  for (const [name, run] of tests) {
+    try {
+      await run();
+      pass(name);
+    } catch (error) {
+      fail(name, error.message);
+    }
+  }
+
+  console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+  process.exit(testsFailed > 0 ? 1 : 0);
+})();
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+
+/**
+ * Unit tests for the web search helpers: url_citation parsing and footnote markers (utils/webSearchUtils.ts)
+ * The TypeScript module is transpiled in memory by ts-loader.js, so no build step or running services are needed.
+ */
+
+const { loadTsModule } = require('./ts-loader');
+
+let testsPassed = 0;
+let testsFailed = 0;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  blue: '\x1b[36m'
+};
+
+function log(message, color = 'reset') {
+  console.log(`${colors[color]}[TEST] ${message}${colors.reset}`);
+}
+
+function pass(testName) {
+  console.log(`${colors.green}✓ ${testName}${colors.reset}`);
+  testsPassed++;
+}
+
+function fail(testName, error) {
+  console.error(`${colors.red}✗ ${testName}: ${error}${colors.reset}`);
+  testsFailed++;
+}
+
+function assertEqual(actual, expected, label) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) {
+    throw new Error(`${label}: expected ${e}, got ${a}`);
+  }
+}
+
+const {
+  isWebSearchRequested,
+  hasWebSearchPlugin,
+  readUrlCitations,
+  mergeUrlCitations,
+  insertCitationMarkers
+} = loadTsModule('utils/webSearchUtils.ts');
+
+const citation = (url, extra = {}) => ({ type: 'url_citation', url_citation: { url, ...extra } });
+
+const tests = [
+  ['Web search follows the latest user message', () => {
+    assertEqual(isWebSearchRequested([{ role: 'user', content: 'a', webSearch: true }, { role: 'assistant', content: 'b' }]), true, 'searched');
+    assertEqual(isWebSearchRequested([{ role: 'user', content: 'a', webSearch: true }, { role: 'user', content: 'c' }]), false, 'later message');
+    assertEqual(isWebSearchRequested([]), false, 'empty');
+  }],
+
+  ['Web plugin in relayed request bodies', () => {
+    assertEqual(hasWebSearchPlugin({ plugins: [{ id: 'web' }] }), true, 'plugin');
+    assertEqual(hasWebSearchPlugin({ plugins: [{ id: 'file-parser' }] }), false, 'other plugin');
+    assertEqual(hasWebSearchPlugin({}), false, 'none');
+  }],
+
+  ['url_citation annotations', () => {
+    const citations = readUrlCitations([
+      citation('https://a.example/x', { title: 'A', content: 'excerpt', start_index: 0, end_index: 5 }),
+      { type: 'file_citation', file_citation: {} },
+      citation('https://b.example/')
+    ]);
+    assertEqual(citations, [
+      { url: 'https://a.example/x', title: 'A', content: 'excerpt', startIndex: 0, endIndex: 5 },
+      { url: 'https://b.example/' }
+    ], 'citations');
+    assertEqual(readUrlCitations(undefined), [], 'missing');
+  }],
+
+  ['Repeated sources keep their first number', () => {
+    const merged = mergeUrlCitations([{ url: 'https://a.example' }], [{ url: 'https://b.example' }, { url: 'https://a.example', title: 'again' }]);
+    assertEqual(merged.map(entry => entry.url), ['https://a.example', 'https://b.example'], 'urls');
+  }],
+
+  ['Footnote markers at the end of each cited range', () => {
+    const content = 'Sky is blue. Grass is green.';
+    const markers = insertCitationMarkers(content, [
+      { url: 'https://sky.example', endIndex: 12 },
+      { url: 'https://grass.example', endIndex: 28 }
+    ]);
+    assertEqual(markers, 'Sky is blue. [1](https://sky.example) Grass is green. [2](https://grass.example)', 'content');
+  }],
+
+  ['Sources ending at the same place stay in order', () => {
+    const markers = insertCitationMarkers('Fact.', [{ url: 'https://a.example', endIndex: 5 }, { url: 'https://b.example', endIndex: 5 }]);
+    assertEqual(markers, 'Fact. [1](https://a.example) [2](https://b.example)', 'content');
+  }],
+
+  ['Inline-linked sources and bad indices get no marker', () => {
+    const content = 'See [a.example](https://a.example).';
+    const markers = insertCitationMarkers(content, [
+      { url: 'https://a.example', endIndex: 3 },
+      { url: 'https://b.example', endIndex: 500 },
+      { url: 'https://c.example' }
+    ]);
+    assertEqual(markers, content, 'content');
+  }]
+];
+
+log('Web search helpers', 'blue');
+for (const [name, run] of tests) {
+  try {
+    run();
+    pass(name);
+  } catch (error) {
+    fail(name, error.message);
+  }
+}
+
+console.log(`\n${testsPassed} passed, ${testsFailed} failed`);
+process.exit(testsFailed > 0 ? 1 : 0);
@@ -1,21 +1,239 @@
 export interface MessageContent {
-  type: 'text' | 'image_url';
+  type: 'text' | 'image_url' | 'file';
   text?: string;
   image_url?: {
     url: string;
   };
+  /** A document for models that read files natively */
+  file?: {
+    filename: string;
+    /** data: URL of the file */
+    file_data: string;
+  };
+}
+
+/**
+ * A document attached to a user message, shown as a chip; its content is in the message's content parts
+ */
+export interface MessageAttachment {
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Extracted text part, or a native file part for models with file input */
+  sentAs: 'text' | 'file';
+}
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * A source the model cited from a web search (an OpenAI-style url_citation annotation)
+ */
+export interface UrlCitation {
+  url: string;
+  title?: string;
+  /** Excerpt of the source */
+  content?: string;
+  /** Range of the answer text the source supports */
+  startIndex?: number;
+  endIndex?: number;
+}
+
+/**
+ * An image made by an image generation model
+ */
+export interface GeneratedImage {
+  id: string;
+  /** data: or https URL; data: URLs are left out of stored conversations and read back from the gallery */
+  url?: string;
+  /** The prompt the image was generated from */
+  prompt: string;
+  model: string;
+  /** The prompt as rewritten by the provider, if it reports one */
+  revisedPrompt?: string;
+  createdAt: number;
+}
+
+/**
+ * A generated image kept in the gallery of its conversation
+ */
+export interface GalleryImage extends GeneratedImage {
+  url: string;
+  conversationId: string;
 }
 
 export interface Message {
   role: string;
   content: string | MessageContent[];
   thinking?: string;
+  /** Set when the provider encrypted or redacted part of the reasoning, so it is not in `thinking` */
+  thinkingRedacted?: boolean;
+  /** On user messages: documents attached to the message */
+  attachments?: MessageAttachment[];
+  /** On user messages: the answer to this message may search the web */
+  webSearch?: boolean;
+  /** On answers: sources cited from a web search */
+  citations?: UrlCitation[];
+  /** On answers: images generated by the model */
+  images?: GeneratedImage[];
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+  /** Set when the selected provider failed and another provider answered */
+  failover?: {
+    provider: string;
+    failedProviders: string[];
+  };
+  /** Set when older messages were left out of (or summarized for) the request that produced this answer */
+  context?: MessageContextInfo;
+  /** Usage, cost and timing of the request that produced this answer */
+  metadata?: MessageMetadata;
+  /** Kind of failure an error notice reports, with the action offered to the user */
+  error?: MessageErrorDetails;
+  /** Set on a partial answer restored after the page was closed mid-stream */
+  interrupted?: boolean;
+}
+
+export type RoutstrErrorCode =
+  | 'insufficient_balance'
+  | 'provider_unauthorized'
+  | 'token_spent'
+  | 'refund_failed'
+  | 'provider_down'
+  | 'payload_too_large'
+  | 'budget_exceeded';
+
+export type ErrorAction = 'top_up' | 'switch_provider' | 'retry_refund' | 'retry' | 'trim_context' | 'override_budget';
+
+export interface MessageErrorDetails {
+  code: RoutstrErrorCode;
+  action: ErrorAction;
+  /** Provider the failure happened at */
+  baseUrl?: string;
+  /** The provider's x-routstr-request-id, for support requests */
+  requestId?: string;
+}
+
+export interface MessageMetadata {
+  /** Model id reported by the provider, falling back to the requested one */
+  model?: string;
+  /** Provider base URL that answered */
+  baseUrl?: string;
+  /** The provider's x-routstr-request-id header, needed for support and refund disputes */
+  requestId?: string;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+    /** Part of completion_tokens spent on reasoning, when the provider reports it */
+    reasoning_tokens?: number;
+  };
+  finishReason?: string;
+  /** Sats actually charged after the refund */
+  satsSpent?: number;
+  /** Sats the reported usage costs at the model's listed prices */
+  estimatedCost?: number;
+  /** Milliseconds from sending the request to the first streamed token */
+  firstTokenMs?: number;
+  /** Milliseconds from sending the request to the end of the stream */
+  durationMs?: number;
+}
+
+export interface MessageContextInfo {
+  /** Number of leading conversation messages that were not sent as-is */
+  excludedCount: number;
+  /** Summary sent in place of the excluded messages, when the summarize strategy is used */
+  summary?: string;
+}
+
+export interface ContextSettings {
+  /** What to do with the oldest turns once a conversation no longer fits */
+  strategy: 'truncate' | 'summarize';
+  /** Optional cap on prompt tokens per request, below the model's context length */
+  maxContextTokens?: number;
+}
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+/** Cap on the sats spent per calendar day, week or month */
+export interface SpendingBudget {
+  id: string;
+  period: BudgetPeriod;
+  /** Sats that may be spent per period */
+  limit: number;
+  /** Spending the budget counts: everything, one model, or one provider */
+  scope: 'all' | 'model' | 'provider';
+  /** Model id or provider base URL, for model and provider budgets */
+  target?: string;
+}
+
+/** Sats kept by a provider for one request, after its refund */
+export interface SpendingEntry {
+  baseUrl: string;
+  modelId?: string;
+  amount: number;
+  timestamp: number;
+  /** The refund failed and the whole token was counted; sats recovered from it later are taken off again */
+  refundPending?: boolean;
+}
+
+export interface GenerationParameters {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stop?: string[];
+  reasoning_effort?: 'low' | 'medium' | 'high';
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  defaultModel?: string;
+  defaultParameters?: GenerationParameters;
+}
+
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  message: Message;
+  childIds: string[];
+  /** Child shown when this branch is switched to; the most recently created or visited one */
+  activeChildId?: string;
+}
+
+/**
+ * All message variants of a conversation. `Conversation.messages` is the path from the root to `activeLeafId`.
+ */
+export interface MessageTree {
+  nodes: Record<string, MessageTreeNode>;
+  rootIds: string[];
+  activeLeafId: string | null;
 }
 
 export interface Conversation {
   id: string;
   title: string;
   messages: Message[];
+  /** Only present once the conversation has been branched by a retry or an edit */
+  messageTree?: MessageTree;
+  parameters?: GenerationParameters;
+  personaId?: string;
+  systemPrompt?: string;
+}
+
+/**
+ * Per-conversation settings applied to every request in the conversation
+ */
+export interface ConversationRequestOptions {
+  parameters?: GenerationParameters;
+  systemPrompt?: string;
 }
 
 export interface Model {
@@ -28,6 +246,100 @@ export interface Model {
   };
 } 
 
+/**
+ * A model on a specific provider taking part in compare mode
+ */
+export interface CompareTarget {
+  modelId: string;
+  baseUrl: string;
+}
+
+export interface McpServerConfig {
+  id: string;
+  name: string;
+  url: string;
+  transport: 'streamable-http' | 'sse';
+  enabled: boolean;
+}
+
+export interface ProviderChargeEntry {
+  baseUrl: string;
+  modelId?: string;
+  /** Sats the reported usage costs at the model's listed prices */
+  estimatedCost: number;
+  /** Sats actually kept by the provider after the refund */
+  actualCost: number;
+  /** Whether the difference exceeded the overcharge notice threshold */
+  overcharged: boolean;
+  timestamp: number;
+}
+
+/** Provider and mint that were active before the demo provider was switched on */
+export interface DemoProviderState {
+  previousBaseUrl: string;
+  previousMintUrl: string;
+}
+
+/**
+ * Progress of a streaming answer, saved while it streams so it survives a reload
+ */
+export interface StreamCheckpoint {
+  conversationId: string;
+  /** Browser tab that runs the stream; kept across reloads of that tab */
+  tabId: string;
+  baseUrl: string;
+  mintUrl: string;
+  modelId?: string;
+  content: string;
+  thinking?: string;
+  /** Refreshed while the stream runs, so other tabs can tell a live stream from an orphaned one */
+  updatedAt: number;
+  /** Set once the partial answer was put back into its conversation; the token refund is still pending */
+  restored?: boolean;
+  /** Failed refunds of the interrupted stream's token, one per page load */
+  refundAttempts?: number;
+}
+
+/** Retry schedule of a token whose background refund failed */
+export interface RefundSweepBackoff {
+  /** Failed attempts in a row */
+  failures: number;
+  /** No new attempt before this time */
+  retryAt: number;
+}
+
+/** A P2PK-locked token its provider refused, waiting for its locktime to pass */
+export interface RejectedLockedToken {
+  baseUrl: string;
+  token: string;
+  /** The refund key can spend the token from this time on */
+  reclaimAt: number;
+}
+
+/** OpenAI-compatible endpoint the app serves to local tools through the bridge in scripts/local-api-bridge.js */
+export interface LocalEndpointSettings {
+  enabled: boolean;
+  /** Bearer key local tools must send; generated by the app */
+  apiKey: string;
+  /** Where the bridge listens; DEFAULT_LOCAL_BRIDGE_URL when unset */
+  bridgeUrl?: string;
+}
+
+export interface LocalEndpointLogEntry {
+  id: string;
+  timestamp: number;
+  method: string;
+  path: string;
+  status: number;
+  model?: string;
+  /** Provider the request was routed to */
+  baseUrl?: string;
+  stream?: boolean;
+  satsSpent?: number;
+  durationMs: number;
+  error?: string;
+}
+
 export interface TransactionHistory {
   type: 'spent' | 'mint' | 'send' | 'import' | 'refund';
   amount: number;
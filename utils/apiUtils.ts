@@ -1,10 +1,54 @@
-import { Message, TransactionHistory } from '@/types/chat';
-import { convertMessageForAPI, createTextMessage } from './messageUtils';
-import { getTokenForRequest, getTokenAmountForModel, clearCurrentApiToken } from './tokenUtils';
-import { fetchBalances, getBalanceFromStoredProofs, refundRemainingBalance, unifiedRefund } from '@/utils/cashuUtils';
-import { getLocalCashuToken } from './storageUtils';
-import { extractThinkingFromStream, isThinkingCapableModel } from './thinkingParser';
+import { GeneratedImage, GenerationParameters, McpServerConfig, Message, MessageContextInfo, ToolCall, TransactionHistory, UrlCitation } from '@/types/chat';
+import { convertMessageForAPI, createErrorMessage, createTextMessage, createToolMessage, getTextFromContent } from './messageUtils';
+import { getTokenForRequest, getTokenAmountForModel, clearCurrentApiToken, releaseTokenForRequest } from './tokenUtils';
+import { createBrowserRoutstrClient, getBalanceFromStoredProofs, getTokenAmountInSats, unifiedRefund, UnifiedRefundResult } from '@/utils/cashuUtils';
+import { RoutstrChatEvent, RoutstrImageResult } from '@/lib/routstrClient';
+import { getLocalCashuToken, loadContextSettings, loadRejectedLockedTokens } from './storageUtils';
+import { getWebSearchRequestFields, hasWebSearchPlugin, isWebSearchRequested, mergeUrlCitations, readUrlCitations } from './webSearchUtils';
+import { createThinkTagParser, getReasoningRequestFields, readReasoningDelta, readReasoningTokens } from './thinkingParser';
+import {
+  createGeneratedImages,
+  getImageCost,
+  getImageModalitiesRequestFields,
+  getImageOutputMode,
+  IMAGES_PER_REQUEST,
+  readImageOutputs
+} from './imageGenerationUtils';
+import { loadTokenizer } from './tokenizerUtils';
 import { getDecodedToken } from '@cashu/cashu-ts';
+import { executeMcpToolCall, getMcpToolSet } from './mcpUtils';
+import { getAlternativeProviders, getCheapestProviderModel } from './modelUtils';
+import { recordProviderCharge } from './providerReputationUtils';
+import { recordSpending } from './budgetUtils';
+import { isLockedToken, isLockRejection, setAsideRejectedToken } from './tokenLockUtils';
+import { createSseDecoder, SseEvent } from './sseParser';
+import {
+  CONTEXT_SUMMARY_MAX_TOKENS,
+  estimateMessageTokens,
+  getLatestContextSummary,
+  getPromptTokenLimit,
+  planContextWindow
+} from './contextUtils';
+import {
+  BudgetExceededError,
+  InsufficientBalanceError,
+  isNetworkError,
+  isTokenSpentError,
+  PayloadTooLargeError,
+  ProviderDownError,
+  ProviderUnauthorizedError,
+  RefundFailedError,
+  RoutstrError
+} from './routstrErrors';
+
+// Upper bound on model -> tool -> model round-trips for a single user message
+const MAX_TOOL_ROUNDS = 5;
+
+// How long a provider may take to start answering before the next provider is tried
+const PROVIDER_RESPONSE_TIMEOUT_MS = 60_000;
+
+// Longest excerpt of a single message passed to the summarizer
+const SUMMARY_MESSAGE_CHARS = 4000;
 
 export interface FetchAIResponseParams {
   messageHistory: Message[];
@@ -12,19 +56,27 @@ export interface FetchAIResponseParams {
   baseUrl: string;
   mintUrl: string;
   usingNip60: boolean;
-  balance: number;
   unit: string;
-  sendToken?: (mintUrl: string, amount: number) => Promise<{ proofs: any[], unit: string }>;
+  sendToken?: (mintUrl: string, amount: number, p2pkPubkey?: string) => Promise<{ proofs: any[], unit: string }>;
   receiveToken: (token: string) => Promise<any[]>;
   activeMintUrl?: string | null;
   onStreamingUpdate: (content: string) => void;
   onThinkingUpdate: (content: string) => void;
   onMessagesUpdate: (messages: Message[]) => void;
   onMessageAppend: (message: Message) => void;
-  onBalanceUpdate: (balance: number) => void;
   onTransactionUpdate: (transaction: TransactionHistory) => void;
   transactionHistory: TransactionHistory[];
   onTokenCreated: (amount: number) => void;
+  /** Called with the images of an answer before the answer is added, e.g. to keep them in the gallery */
+  onImagesGenerated?: (images: GeneratedImage[]) => void;
+  abortSignal?: AbortSignal;
+  mcpServers?: McpServerConfig[];
+  generationParameters?: GenerationParameters;
+  systemPrompt?: string;
+  /** Whether another provider of the model may take over when this one fails; on by default */
+  allowFailover?: boolean;
+  /** The user chose to send this despite a spending budget; covers its tool round-trips and context summary too */
+  overrideBudget?: boolean;
 }
 
 /**
@@ -40,7 +92,6 @@ export const fetchAIResponse = async (params: FetchAIResponseParams): Promise<vo
     baseUrl,
     mintUrl,
     usingNip60,
-    balance,
     unit,
     sendToken,
     receiveToken,
@@ -48,40 +99,172 @@ export const fetchAIResponse = async (params: FetchAIResponseParams): Promise<vo
     onStreamingUpdate,
     onThinkingUpdate,
     onMessagesUpdate,
-    onMessageAppend,
-    onBalanceUpdate,
+    onMessageAppend: appendToChat,
     onTransactionUpdate,
     transactionHistory,
-    onTokenCreated
+    onTokenCreated,
+    onImagesGenerated,
+    abortSignal,
+    mcpServers,
+    generationParameters,
+    systemPrompt,
+    allowFailover = true,
+    overrideBudget
   } = params;
 
-  const initialBalance = usingNip60 ? balance : getBalanceFromStoredProofs();
+  // The reasoning effort is sent in the form the model's vendor expects, see getReasoningRequestFields
+  const { reasoning_effort: _reasoningEffort, ...samplingParameters } = generationParameters ?? {};
+  const webSearch = isWebSearchRequested(messageHistory);
+  // Image-only models are asked through /v1/images/generations with the latest user message as the prompt
+  const imageMode = getImageOutputMode(selectedModel);
+  const lastUserMessage = [...messageHistory].reverse().find(message => message.role === 'user');
+  const imagePrompt = lastUserMessage ? getTextFromContent(lastUserMessage.content) : '';
+  // Provider and its model entry can change when the selected provider fails and another one takes over
+  let activeBaseUrl = baseUrl;
+  let activeModel = selectedModel;
+  const failedProviders: string[] = [];
+  let currentHistory = messageHistory;
+  // Notices appended to the chat are kept in the history too, so later history updates do not drop them
+  const onMessageAppend = (message: Message) => {
+    currentHistory = [...currentHistory, message];
+    appendToChat(message);
+  };
+  let currentTransactionHistory = transactionHistory;
+  // Token of the request in flight, until it is refunded or handed back; the cost of a request is worked out from it alone
+  let requestToken: string | null = null;
+  // Called once the token was refunded or handed back, so a manual refund may take over what is left of it
+  const releaseRequestToken = () => {
+    if (requestToken) releaseTokenForRequest(activeBaseUrl);
+    requestToken = null;
+  };
+
+  const fitHistoryToContext = async (): Promise<MessageContextInfo | undefined> => {
+    const contextSettings = loadContextSettings();
+    const summarize = contextSettings.strategy === 'summarize';
+    const tokenLimit = getPromptTokenLimit(activeModel, generationParameters?.max_tokens, contextSettings.maxContextTokens);
+    if (tokenLimit === null) return undefined;
+
+    const systemPromptTokens = systemPrompt ? estimateMessageTokens(createTextMessage('system', systemPrompt)) : 0;
+    const excludedCount = planContextWindow(
+      currentHistory,
+      tokenLimit,
+      systemPromptTokens + (summarize ? CONTEXT_SUMMARY_MAX_TOKENS : 0)
+    );
+    if (excludedCount === 0) return undefined;
+    if (!summarize) return { excludedCount };
+
+    // Summaries build on the previous one, so only newly excluded messages are summarized again
+    const previous = getLatestContextSummary(currentHistory);
+    if (previous && previous.excludedCount === excludedCount) return previous;
+    const canExtend = previous !== null && previous.excludedCount < excludedCount;
+    const summary = await requestContextSummary({
+      messages: currentHistory.slice(canExtend ? previous.excludedCount : 0, excludedCount),
+      previousSummary: canExtend ? previous.summary : undefined,
+      baseUrl: activeBaseUrl,
+      mintUrl,
+      usingNip60,
+      unit,
+      sendToken,
+      activeMintUrl,
+      receiveToken,
+      onTransactionUpdate: (transaction) => {
+        currentTransactionHistory = [...currentTransactionHistory, transaction];
+        onTransactionUpdate(transaction);
+      },
+      transactionHistory: currentTransactionHistory,
+      onMessageAppend,
+      abortSignal,
+      overrideBudget
+    });
+    // Without a summary the excluded turns are simply dropped
+    return summary ? { excludedCount, summary } : { excludedCount };
+  };
+
+  // Tools from registered MCP servers are advertised with every round-trip
+  const toolSet = imageMode !== 'endpoint' && mcpServers && mcpServers.some(server => server.enabled)
+    ? await getMcpToolSet(mcpServers)
+    : null;
+
+  // Older turns that no longer fit the model's context (or the user's cap) are dropped or summarized
+  // A prompt for an image-only model carries no history
+  const contextInfo = imageMode === 'endpoint' ? undefined : await fitHistoryToContext();
 
   // Convert messages to API format
-  // Filter out system messages (error messages) before sending to API
-  const apiMessages = messageHistory
-    .filter(message => message.role !== 'system')
-    .map(convertMessageForAPI);
+  // Error notices stay local; the conversation's system prompt always leads the request
+  const buildApiMessages = () => [
+    ...(systemPrompt ? [convertMessageForAPI(createTextMessage('system', systemPrompt))] : []),
+    ...(contextInfo?.summary
+      ? [convertMessageForAPI(createTextMessage('system', `Summary of the earlier conversation:\n${contextInfo.summary}`))]
+      : []),
+    ...currentHistory
+      .slice(contextInfo?.excludedCount ?? 0)
+      .filter(message => message.role !== 'error')
+      .map(convertMessageForAPI)
+  ];
+
+  let apiMessages = buildApiMessages();
+  // The model's BPE table makes the estimate exact; without it the length-based fallback is used
+  await loadTokenizer(activeModel).catch(error => console.warn('Could not load the tokenizer:', error));
+  const estimateTokenAmount = (): number => imageMode === 'endpoint'
+    ? getTokenAmountForModel(activeModel, [{ role: 'user', content: imagePrompt }], undefined, false, IMAGES_PER_REQUEST)
+    : getTokenAmountForModel(activeModel, apiMessages, generationParameters?.max_tokens, webSearch, imageMode ? IMAGES_PER_REQUEST : 0);
+  let tokenAmount = estimateTokenAmount();
 
-  let tokenAmount = getTokenAmountForModel(selectedModel, apiMessages);
+  // Body fields besides model, messages and stream, which RoutstrClient sets
+  const buildRequestParameters = (): Record<string, unknown> => ({
+    ...samplingParameters,
+    ...getReasoningRequestFields(activeModel?.id, generationParameters?.reasoning_effort),
+    ...(webSearch ? getWebSearchRequestFields() : {}),
+    ...(imageMode === 'chat' ? getImageModalitiesRequestFields() : {}),
+    ...(toolSet && toolSet.tools.length > 0 ? { tools: toolSet.tools } : {})
+  });
+
+  /**
+   * Returns a token the provider refused to the wallet: received back directly when the provider never redeemed it,
+   * refunded otherwise. Locked tokens only come back after their locktime; if the provider refused the lock itself,
+   * the request sent next carries a plain token.
+   */
+  const reclaimRefusedToken = async (token: string, error: ProviderUnauthorizedError): Promise<void> => {
+    if (isLockedToken(token)) {
+      setAsideRejectedToken(activeBaseUrl, token, isLockRejection(error.message));
+      return;
+    }
+    try {
+      await receiveToken(token);
+      return;
+    } catch (receiveError) {
+      if (!isTokenSpentError(receiveError)) {
+        console.error("Error receiving token:", receiveError);
+      }
+    }
+    const refundStatus = await unifiedRefund(mintUrl, activeBaseUrl, usingNip60, receiveToken, token);
+    if (!refundStatus.success) {
+      reportRefundFailure(refundStatus, activeBaseUrl, onMessageAppend);
+    }
+  };
 
-  const makeRequest = async (retryOnInsufficientBalance: boolean = true): Promise<Response> => {
+  // Sends one paid request through RoutstrClient; a refused (401/403) or used-up (402) token is reclaimed
+  // and the request sent once more with a new token
+  const makeRequest = async (resendWithNewToken: boolean = true): Promise<ProviderAnswer> => {
+    // Stopped between rounds or retries: no new token is minted
+    abortSignal?.throwIfAborted();
     const token = await getTokenForRequest(
       usingNip60,
       mintUrl,
       usingNip60 && unit == 'msat'? tokenAmount*1000 : tokenAmount,
-      baseUrl, // Add baseUrl here
+      activeBaseUrl, // Add baseUrl here
       sendToken,
-      activeMintUrl
+      activeMintUrl,
+      { modelId: activeModel?.id, sats: tokenAmount, overrideBudget }
     );
     
     if (!token) {
-      throw new Error(`Insufficient balance. Please add more funds to continue. You need at least ${Number(tokenAmount).toFixed(0)} sats to use ${selectedModel?.id}`);
-    }
-
-    if (typeof token === 'object' && 'hasTokens' in token && !token.hasTokens) {
-      throw new Error(`Insufficient balance. Please add more funds to continue. You need at least ${Number(tokenAmount).toFixed(0)} sats to use ${selectedModel?.id} ${typeof token} ${token}`);
+      throw new InsufficientBalanceError(
+        `Insufficient balance. Please add more funds to continue. You need at least ${Number(tokenAmount).toFixed(0)} sats to use ${activeModel?.id}`,
+        { baseUrl: activeBaseUrl, requiredAmount: Math.ceil(tokenAmount) }
+      );
     }
+    requestToken = token;
 
     if (token && typeof token === 'string') {
       const decodedToken = getDecodedToken(token)
@@ -98,376 +281,675 @@ export const fetchAIResponse = async (params: FetchAIResponseParams): Promise<vo
     }
 
 
-    const response = await fetch(`${baseUrl}v1/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`
-      },
-      body: JSON.stringify({
-        model: selectedModel?.id,
-        messages: apiMessages,
-        stream: true
-      })
+    // The request gets its own controller so a provider that never answers can be timed out
+    // without aborting the whole generation; a user stop still propagates to it
+    const requestController = new AbortController();
+    const abortRequest = () => requestController.abort();
+    if (abortSignal?.aborted) {
+      // Stopped while the token was minted; fetch rejects an aborted signal without sending anything
+      abortRequest();
+    } else {
+      abortSignal?.addEventListener('abort', abortRequest, { once: true });
+    }
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      requestController.abort();
+    }, PROVIDER_RESPONSE_TIMEOUT_MS);
+
+    // Errors after a successful status belong to the answer; only those before it let another provider take over
+    let response: Response | undefined;
+    const hasAnswered = () => response?.ok === true;
+    const client = createBrowserRoutstrClient(activeBaseUrl, {
+      mintUrl,
+      usingNip60,
+      sendToken,
+      receiveToken,
+      activeMintUrl,
+      unit,
+      fetch: async (input, init) => {
+        try {
+          response = await fetch(input, init);
+          return response;
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      }
     });
 
-    if (!response.ok) {
-      await handleApiError(response, {
+    try {
+      const result = imageMode === 'endpoint'
+        ? await readImageAnswer(
+            client.generateImages({ model: activeModel, prompt: imagePrompt, n: IMAGES_PER_REQUEST, amount: tokenAmount, signal: requestController.signal }),
+            hasAnswered,
+            abortSignal
+          )
+        : await readChatAnswer(
+            client.chat({ model: activeModel, messages: apiMessages, stream: true, parameters: buildRequestParameters(), amount: tokenAmount, signal: requestController.signal }),
+            hasAnswered,
+            onStreamingUpdate,
+            onThinkingUpdate,
+            abortSignal
+          );
+      return { result, requestId: response?.headers.get('x-routstr-request-id') ?? undefined };
+    } catch (error) {
+      if (abortSignal?.aborted) throw error;
+      if (timedOut) {
+        throw new ProviderDownError(`no response within ${PROVIDER_RESPONSE_TIMEOUT_MS / 1000}s`, { baseUrl: activeBaseUrl, cause: error });
+      }
+      // The client already dropped the stored token; ours is reclaimed before a new one is minted
+      if (error instanceof ProviderUnauthorizedError || error instanceof InsufficientBalanceError) {
+        if (error instanceof ProviderUnauthorizedError) {
+          await reclaimRefusedToken(token, error);
+        } else {
+          const refundStatus = await unifiedRefund(mintUrl, activeBaseUrl, usingNip60, receiveToken, token);
+          if (!refundStatus.success && !(refundStatus.error instanceof RefundFailedError && refundStatus.error.isDust)) {
+            reportRefundFailure(refundStatus, activeBaseUrl, onMessageAppend);
+          }
+        }
+        releaseRequestToken();
+        if (resendWithNewToken) return makeRequest(false);
+        throw error;
+      }
+      if (error instanceof PayloadTooLargeError) {
+        // Retrying the same payload cannot succeed
+        const refundStatus = await unifiedRefund(mintUrl, activeBaseUrl, usingNip60, receiveToken, token);
+        releaseRequestToken();
+        if (!refundStatus.success) {
+          reportRefundFailure(refundStatus, activeBaseUrl, onMessageAppend);
+        }
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      abortSignal?.removeEventListener('abort', abortRequest);
+    }
+  };
+
+  // On provider failure, reclaim the token sent there and retry on the next-cheapest provider of the same model
+  const requestWithFailover = async (): Promise<ProviderAnswer> => {
+    while (true) {
+      try {
+        return await makeRequest();
+      } catch (error) {
+        if (!(error instanceof ProviderDownError) || abortSignal?.aborted) {
+          throw error;
+        }
+
+        const failedBaseUrl = activeBaseUrl;
+        failedProviders.push(failedBaseUrl);
+        console.error(`Provider ${failedBaseUrl} failed: ${error.message}`);
+
+        if (requestToken) {
+          const refundStatus = await unifiedRefund(mintUrl, failedBaseUrl, usingNip60, receiveToken, requestToken);
+          releaseRequestToken();
+          if (!refundStatus.success) {
+            reportRefundFailure(refundStatus, failedBaseUrl, onMessageAppend);
+          }
+        }
+
+        const nextProvider = allowFailover ? getAlternativeProviders(activeModel?.id, failedProviders)[0] : undefined;
+        if (!nextProvider) {
+          throw new ProviderDownError(failedProviders.length > 1
+            ? `All providers for ${activeModel?.id} failed (last: ${failedBaseUrl}, ${error.message}). Please try again later.`
+            : `Your provider is down (${error.message}). Please switch the provider in settings.`,
+            { baseUrl: failedBaseUrl, requestId: error.requestId, cause: error });
+        }
+
+        activeBaseUrl = nextProvider.baseUrl;
+        activeModel = nextProvider.model;
+        tokenAmount = estimateTokenAmount();
+      }
+    }
+  };
+
+  const refundAfterResponse = async (estimatedCosts: number, stopped: boolean): Promise<number> => {
+    // Stopped before a token was minted
+    if (!requestToken) return 0;
+    const token = requestToken;
+    try {
+      return await handlePostResponseRefund({
         mintUrl,
-        baseUrl,
+        baseUrl: activeBaseUrl,
         usingNip60,
         receiveToken,
-        tokenAmount,
-        selectedModel,
-        sendToken,
-        activeMintUrl,
-        retryOnInsufficientBalance,
-        messageHistory,
+        token,
+        selectedModel: activeModel,
+        onTransactionUpdate: (transaction) => {
+          currentTransactionHistory = [...currentTransactionHistory, transaction];
+          onTransactionUpdate(transaction);
+        },
+        transactionHistory: currentTransactionHistory,
+        messageHistory: currentHistory,
         onMessagesUpdate,
-        onMessageAppend
+        onMessageAppend,
+        estimatedCosts, // Pass estimatedCosts here
+        unit, // Pass unit here
+        stopped
       });
+    } finally {
+      releaseRequestToken();
     }
-
-    return response;
   };
 
   try {
-    const response = await makeRequest();
-    // const response = new Response();
+    // Each tool round-trip is a separate paid request with its own token and refund
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      if (round > 0) {
+        apiMessages = buildApiMessages();
+        tokenAmount = estimateTokenAmount();
+      }
 
-    if (!response.body) {
-      throw new Error('Response body is not available');
-    }
+      const roundStartedAt = Date.now();
+      const { result: streamingResult, requestId } = await requestWithFailover();
+      const toolCalls = streamingResult.tool_calls ?? [];
 
-    const streamingResult = await processStreamingResponse(response, onStreamingUpdate, onThinkingUpdate, selectedModel?.id);
+      let assistantMessage: Message | null = null;
+      if (streamingResult.content || toolCalls.length > 0 || streamingResult.images.length > 0) {
+        assistantMessage = createTextMessage('assistant', streamingResult.content);
+        if (streamingResult.images.length > 0) {
+          assistantMessage.images = createGeneratedImages(streamingResult.images, imagePrompt, streamingResult.model ?? activeModel?.id);
+          onImagesGenerated?.(assistantMessage.images);
+        }
+        if (streamingResult.thinking) {
+          assistantMessage.thinking = streamingResult.thinking;
+        }
+        if (streamingResult.thinkingRedacted) {
+          assistantMessage.thinkingRedacted = true;
+        }
+        if (streamingResult.citations.length > 0) {
+          assistantMessage.citations = streamingResult.citations;
+        }
+        if (toolCalls.length > 0) {
+          assistantMessage.tool_calls = toolCalls;
+        }
+        if (failedProviders.length > 0) {
+          assistantMessage.failover = { provider: activeBaseUrl, failedProviders: [...failedProviders] };
+        }
+        if (contextInfo) {
+          assistantMessage.context = contextInfo;
+        }
+        currentHistory = [...currentHistory, assistantMessage];
+        onMessagesUpdate(currentHistory);
+      }
 
-    if (streamingResult.content) {
-      const assistantMessage = createTextMessage('assistant', streamingResult.content);
-      if (streamingResult.thinking) {
-        assistantMessage.thinking = streamingResult.thinking;
+      // Generated images are billed per image, on top of any tokens
+      let estimatedCosts = getImageCost(activeModel, streamingResult.images.length);
+      // Log usage statistics if available
+      if (streamingResult.usage) {
+        if ( streamingResult.usage.completion_tokens !== undefined && streamingResult.usage.prompt_tokens !== undefined) {
+          estimatedCosts += activeModel?.sats_pricing.completion * streamingResult.usage.completion_tokens + activeModel?.sats_pricing.prompt * streamingResult.usage.prompt_tokens
+            + (webSearch ? activeModel?.sats_pricing.web_search ?? 0 : 0)
+          console.log("Estimated costs: ", estimatedCosts);
+        }
       }
-      onMessagesUpdate([...messageHistory, assistantMessage]);
-    }
 
-    let estimatedCosts = 0; // Initialize to 0
-    // Log usage statistics if available
-    if (streamingResult.usage) {
-      if ( streamingResult.usage.completion_tokens !== undefined && streamingResult.usage.prompt_tokens !== undefined) {
-        estimatedCosts = selectedModel?.sats_pricing.completion * streamingResult.usage.completion_tokens + selectedModel?.sats_pricing.prompt * streamingResult.usage.prompt_tokens
-        console.log("Estimated costs: ", estimatedCosts);
+      onStreamingUpdate('');
+      onThinkingUpdate('');
+
+      // Handle refund and balance update
+      // An errored stream, like a stopped one, ends before the usage chunk that the overcharge check needs
+      const satsSpent = await refundAfterResponse(estimatedCosts, streamingResult.aborted || !!streamingResult.error);
+
+      if (assistantMessage) {
+        const answer = assistantMessage;
+        const answerWithMetadata: Message = {
+          ...answer,
+          metadata: {
+            model: streamingResult.model ?? activeModel?.id,
+            baseUrl: activeBaseUrl,
+            ...(requestId ? { requestId } : {}),
+            ...(streamingResult.usage ? { usage: streamingResult.usage } : {}),
+            ...(streamingResult.finish_reason ? { finishReason: streamingResult.finish_reason } : {}),
+            satsSpent,
+            ...(streamingResult.usage || streamingResult.images.length > 0 ? { estimatedCost: estimatedCosts } : {}),
+            ...(streamingResult.firstTokenAt !== undefined ? { firstTokenMs: streamingResult.firstTokenAt - roundStartedAt } : {}),
+            durationMs: streamingResult.endedAt - roundStartedAt
+          }
+        };
+        currentHistory = currentHistory.map(message => (message === answer ? answerWithMetadata : message));
+        onMessagesUpdate(currentHistory);
       }
-    }
 
-    onStreamingUpdate('');
-    onThinkingUpdate('');
+      if (streamingResult.error) {
+        handleApiResponseError(streamingResult.error, onMessageAppend);
+        break;
+      }
 
-    // Handle refund and balance update
-    await handlePostResponseRefund({
-      mintUrl,
-      baseUrl,
-      usingNip60,
-      receiveToken,
-      tokenAmount,
-      initialBalance,
-      selectedModel,
-      onBalanceUpdate,
-      onTransactionUpdate,
-      transactionHistory,
-      messageHistory,
-      onMessagesUpdate,
-      onMessageAppend,
-      estimatedCosts, // Pass estimatedCosts here
-      unit // Pass unit here
-    });
-    console.log("rdlogs:rdlogs: respon 23242342", response)
+      if (streamingResult.aborted || toolCalls.length === 0 || !toolSet || !mcpServers) {
+        break;
+      }
+
+      if (round === MAX_TOOL_ROUNDS) {
+        handleApiResponseError(`Stopped after ${MAX_TOOL_ROUNDS} tool call rounds without a final answer.`, onMessageAppend);
+        break;
+      }
+
+      for (const toolCall of toolCalls) {
+        const output = await executeMcpToolCall(toolCall, toolSet, mcpServers);
+        currentHistory = [...currentHistory, createToolMessage(toolCall.id, toolCall.function.name, output)];
+      }
+      onMessagesUpdate(currentHistory);
+
+      if (abortSignal?.aborted) {
+        break;
+      }
+    }
 
   } catch (error) {
+    if (abortSignal?.aborted) {
+      // Stopped before any content arrived; still reclaim the token sent to the provider
+      onStreamingUpdate('');
+      onThinkingUpdate('');
+      await refundAfterResponse(0, true);
+      return;
+    }
     console.log('API Error: ', error);
     handleApiResponseError(error, onMessageAppend);
+  } finally {
+    // A token an error left unrefunded goes to the manual refund and the refund sweeper
+    releaseRequestToken();
   }
 };
 
+export type RelayWalletParams = Pick<
+  FetchAIResponseParams,
+  'mintUrl' | 'usingNip60' | 'unit' | 'sendToken' | 'receiveToken' | 'activeMintUrl' |
+  'onTransactionUpdate' | 'transactionHistory' | 'onTokenCreated'
+>;
+
+export interface RelayCompletionResult {
+  status: number;
+  satsSpent: number;
+  /** Refund or overcharge notices that would have been shown in a chat */
+  notices: string[];
+}
+
 /**
- * Handles API errors and retry logic
+ * Forwards an OpenAI-style completion request to a provider, paid from the app's wallet like a chat request.
+ * The provider's response is passed on unchanged; its usage is read to check the charge.
+ * @param params Wallet parameters, the request body and callbacks receiving the provider's response
+ * @returns The provider's status and what the request cost
+ * @throws InsufficientBalanceError if no token could be created, ProviderDownError if the provider is unreachable (after refunding the token)
  */
-async function handleApiError(
-  response: Response,
-  params: {
-    mintUrl: string;
-    baseUrl: string;
-    usingNip60: boolean;
-    receiveToken: (token: string) => Promise<any[]>;
-    tokenAmount: number;
-    selectedModel: any;
-    sendToken?: (mintUrl: string, amount: number) => Promise<{ proofs: any[], unit: string }>;
-    activeMintUrl?: string | null;
-    retryOnInsufficientBalance: boolean;
-    messageHistory: Message[];
-    onMessagesUpdate: (messages: Message[]) => void;
-    onMessageAppend: (message: Message) => void;
-  }
-): Promise<void> {
-  const {
+export const relayCompletionRequest = async (params: RelayWalletParams & {
+  body: Record<string, any>;
+  selectedModel: any;
+  baseUrl: string;
+  onResponse: (status: number, contentType: string) => void;
+  onChunk: (chunk: string) => void;
+  abortSignal?: AbortSignal;
+}): Promise<RelayCompletionResult> => {
+  const { body, selectedModel, baseUrl, mintUrl, usingNip60, unit, sendToken, activeMintUrl } = params;
+  const messages = Array.isArray(body.messages) ? body.messages : [];
+  const webSearch = hasWebSearchPlugin(body);
+  await loadTokenizer(selectedModel).catch(error => console.warn('Could not load the tokenizer:', error));
+  const tokenAmount = getTokenAmountForModel(selectedModel, messages, body.max_tokens, webSearch);
+
+  const token = await getTokenForRequest(
+    usingNip60,
     mintUrl,
+    usingNip60 && unit == 'msat' ? tokenAmount * 1000 : tokenAmount,
     baseUrl,
-    usingNip60,
-    receiveToken,
-    tokenAmount,
-    selectedModel,
     sendToken,
     activeMintUrl,
-    retryOnInsufficientBalance,
-    messageHistory,
-    onMessagesUpdate,
-    onMessageAppend
-  } = params;
+    { modelId: selectedModel?.id, sats: tokenAmount }
+  );
+  if (!token) {
+    throw new InsufficientBalanceError(
+      `Insufficient balance. You need at least ${Number(tokenAmount).toFixed(0)} sats to use ${selectedModel?.id}`,
+      { baseUrl, requiredAmount: Math.ceil(tokenAmount) }
+    );
+  }
+  params.onTokenCreated(unit === 'msat' ? tokenAmount : Math.ceil(tokenAmount));
 
-  if (response.status === 401 || response.status === 403) {
-    console.log('rdlogs: ,',response.body)
-    const requestId = response.headers.get('x-routstr-request-id');
-    const mainMessage = response.statusText + ". Trying to get a refund.";
-    const requestIdText = requestId ? `Request ID: ${requestId}` : '';
-    const providerText = `Provider: ${baseUrl}`;
-    const fullMessage = requestId
-      ? `${mainMessage}\n${requestIdText}\n${providerText}`
-      : `${mainMessage} | ${providerText}`;
-    handleApiResponseError(fullMessage, onMessageAppend);
-    const storedToken = getLocalCashuToken(baseUrl);
-    let shouldAttemptUnifiedRefund = true;
-
-    if (storedToken) {
-      try {
-        await receiveToken(storedToken);
-        shouldAttemptUnifiedRefund = false;
-      } catch (receiveError) {
-        if (receiveError instanceof Error && receiveError.message.includes('Token already spent')) {
-          shouldAttemptUnifiedRefund = true;
+  // Usage arrives in the last streamed chunk, or in the body of a non-streamed answer
+  let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+  let response: Response | undefined;
+  let stopped = false;
+  let satsSpent = 0;
+  const notices: string[] = [];
+  // However the request ends, including an unreachable provider or a tool that hung up, the token is refunded
+  try {
+    response = await fetch(`${baseUrl}v1/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ ...body, model: selectedModel.id }),
+      signal: params.abortSignal
+    }).catch((error: unknown) => {
+      if (params.abortSignal?.aborted) throw error;
+      throw new ProviderDownError(`network error: ${error instanceof Error ? error.message : 'fetch failed'}`, { baseUrl, cause: error });
+    });
+    params.onResponse(response.status, response.headers.get('content-type') || 'application/json');
+
+    let bodyText = '';
+    const sseDecoder = createSseDecoder();
+    const readUsage = (events: SseEvent[]) => {
+      for (const event of events) {
+        try {
+          const payload = JSON.parse(event.data);
+          if (payload?.usage) usage = payload.usage;
+        } catch {}
+      }
+    };
+    try {
+      const reader = response.body?.getReader();
+      const textDecoder = new TextDecoder();
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const chunk = textDecoder.decode(value, { stream: true });
+        params.onChunk(chunk);
+        if (body.stream) {
+          readUsage(sseDecoder.push(chunk));
         } else {
-          console.error("Error receiving token:", receiveError);
-          shouldAttemptUnifiedRefund = true;
+          bodyText += chunk;
         }
       }
-    }
-
-    if (shouldAttemptUnifiedRefund) {
-      const refundStatus = await unifiedRefund(mintUrl, baseUrl, usingNip60, receiveToken);
-      if (!refundStatus.success){
-        const mainMessage = `Refund failed: ${refundStatus.message}.`;
-        const requestIdText = refundStatus.requestId ? `Request ID: ${refundStatus.requestId}` : '';
-        const providerText = `Provider: ${baseUrl}`;
-        const fullMessage = refundStatus.requestId
-          ? `${mainMessage}\n${requestIdText}\n${providerText}`
-          : `${mainMessage} | ${providerText}`;
-        handleApiResponseError(fullMessage, onMessageAppend);
+      if (body.stream) {
+        readUsage(sseDecoder.flush());
+      } else {
+        usage = JSON.parse(bodyText)?.usage;
       }
+    } catch (error) {
+      // A stopped relay or an unparseable body still gets the unused token refunded
+      stopped = params.abortSignal?.aborted ?? false;
+      if (!stopped) console.warn('Could not read the relayed response:', error);
     }
-    
-    clearCurrentApiToken(baseUrl); // Pass baseUrl here
-    
-    if (retryOnInsufficientBalance) {
-      const newToken = await getTokenForRequest(
-        usingNip60,
+  } finally {
+    const pricing = selectedModel?.sats_pricing;
+    const estimatedCosts = usage?.prompt_tokens !== undefined && usage?.completion_tokens !== undefined && pricing
+      ? pricing.prompt * usage.prompt_tokens + pricing.completion * usage.completion_tokens + (webSearch ? pricing.web_search ?? 0 : 0)
+      : 0;
+    try {
+      satsSpent = await handlePostResponseRefund({
         mintUrl,
-        tokenAmount,
-        baseUrl, // Add baseUrl here
-        sendToken,
-        activeMintUrl
-      );
-
-      if (!newToken || (typeof newToken === 'object' && 'hasTokens' in newToken && !newToken.hasTokens)) {
-        throw new Error(`Insufficient balance (retryOnInsurrifientBal). Please add more funds to continue. You need at least ${Number(tokenAmount).toFixed(0)} sats to use ${selectedModel?.id}`);
-      }
-    }
-  } 
-  else if (response.status === 402) {
-    clearCurrentApiToken(baseUrl); // Pass baseUrl here
-  } 
-  else if (response.status === 413) {
-    const refundStatus = await unifiedRefund(mintUrl, baseUrl, usingNip60, receiveToken);
-    if (!refundStatus.success){
-      const mainMessage = `Refund failed: ${refundStatus.message}.`;
-      const requestIdText = refundStatus.requestId ? `Request ID: ${refundStatus.requestId}` : '';
-      const providerText = `Provider: ${baseUrl}`;
-      const fullMessage = refundStatus.requestId
-        ? `${mainMessage}\n${requestIdText}\n${providerText}`
-        : `${mainMessage} | ${providerText}`;
-      handleApiResponseError(fullMessage, onMessageAppend);
+        baseUrl,
+        usingNip60,
+        receiveToken: params.receiveToken,
+        token,
+        selectedModel,
+        onTransactionUpdate: params.onTransactionUpdate,
+        transactionHistory: params.transactionHistory,
+        messageHistory: [],
+        onMessagesUpdate: () => {},
+        onMessageAppend: (message) => notices.push(getTextFromContent(message.content)),
+        estimatedCosts,
+        unit,
+        stopped: stopped || !response?.ok,
+        transactionMessage: 'Tokens spent (local API)'
+      });
+    } finally {
+      releaseTokenForRequest(baseUrl);
     }
   }
-  else if (response.status === 500) {
-    console.error("rdlogs:rdlogs:internal errror finassld");
-  }
-  else {
-    console.error("rdlogs:rdlogs:smh else else ", response);
-  }
 
-  if (!retryOnInsufficientBalance) {
-    throw new Error(`API error: ${response.status}`);
-  }
-}
+  return { status: response.status, satsSpent, notices };
+};
 
 /**
- * Processes streaming response from the API
+ * An answer read from a provider, streamed or not
  */
 interface StreamingResult {
   content: string;
   thinking?: string;
+  /** Part of the reasoning was encrypted or redacted by the provider */
+  thinkingRedacted: boolean;
+  citations: UrlCitation[];
+  /** Generated images, with the provider's revised prompt where it reports one */
+  images: { url: string; revisedPrompt?: string }[];
   usage?: {
     total_tokens?: number;
     prompt_tokens?: number;
     completion_tokens?: number;
+    reasoning_tokens?: number;
   };
   model?: string;
   finish_reason?: string;
+  tool_calls?: ToolCall[];
+  aborted: boolean;
+  /** Message describing why the provider stopped early */
+  error?: string;
+  /** Timestamp of the first content, reasoning or tool call delta */
+  firstTokenAt?: number;
+  /** Timestamp at which the stream ended */
+  endedAt: number;
+}
+
+/**
+ * An answer read from one provider, with the request id it reported
+ */
+interface ProviderAnswer {
+  result: StreamingResult;
+  requestId?: string;
 }
 
-async function processStreamingResponse(
-  response: Response,
+/**
+ * Reads the usage of a completion, with the reasoning tokens where the provider reports them
+ */
+const readCompletionUsage = (rawUsage: any): StreamingResult['usage'] => {
+  const reasoningTokens = readReasoningTokens(rawUsage);
+  return {
+    total_tokens: rawUsage.total_tokens,
+    prompt_tokens: rawUsage.prompt_tokens,
+    completion_tokens: rawUsage.completion_tokens,
+    ...(reasoningTokens !== undefined ? { reasoning_tokens: reasoningTokens } : {})
+  };
+};
+
+/**
+ * Reads the events of RoutstrClient.chat into a streamed result
+ * @param events The chat events
+ * @param hasAnswered Whether the provider answered with a success status; failures after that keep the partial answer
+ * @throws Failures before the provider answered, so another provider can be tried
+ */
+async function readChatAnswer(
+  events: AsyncGenerator<RoutstrChatEvent>,
+  hasAnswered: () => boolean,
   onStreamingUpdate: (content: string) => void,
   onThinkingUpdate: (content: string) => void,
-  modelId?: string
+  abortSignal?: AbortSignal
 ): Promise<StreamingResult> {
-  const reader = response.body!.getReader();
-  const decoder = new TextDecoder('utf-8');
   let accumulatedContent = '';
   let accumulatedThinking = '';
-  let isInThinking = false;
-  let isInContent = false;
+  let thinkingRedacted = false;
+  let citations: UrlCitation[] = [];
+  const images: StreamingResult['images'] = [];
+  // Reasoning written as <think> tags into the answer by open-weight models
+  const thinkTags = createThinkTagParser();
   let usage: StreamingResult['usage'];
   let model: string | undefined;
   let finish_reason: string | undefined;
+  let aborted = false;
+  let streamError: string | undefined;
+  let firstTokenAt: number | undefined;
+  // Tool call deltas arrive in fragments keyed by index; arguments are concatenated
+  const toolCallsByIndex: Record<number, ToolCall> = {};
 
-  while (true) {
-    const { done, value } = await reader.read();
+  const appendThinking = (text: string) => {
+    if (!text) return;
+    accumulatedThinking += text;
+    onThinkingUpdate(accumulatedThinking);
+  };
+  const appendContent = (text: string) => {
+    if (!text) return;
+    accumulatedContent += text;
+    onStreamingUpdate(accumulatedContent);
+  };
 
-    if (done) {
-      break;
+  const handleCompletionChunk = (parsedData: any) => {
+    const delta = parsedData.choices?.[0]?.delta;
+    const reasoning = readReasoningDelta(delta);
+    // Image models send images in the delta, some only in the final message
+    const imageUrls = [...readImageOutputs(delta), ...readImageOutputs(parsedData.choices?.[0]?.message)];
+    if (firstTokenAt === undefined && (delta?.content || reasoning.text || reasoning.redacted || delta?.tool_calls || imageUrls.length > 0)) {
+      firstTokenAt = Date.now();
+    }
+    for (const url of imageUrls) {
+      if (!images.some(image => image.url === url)) images.push({ url });
     }
 
-    const chunk = decoder.decode(value, { stream: true });
+    if (reasoning.redacted) {
+      thinkingRedacted = true;
+    }
+    appendThinking(reasoning.text);
 
-    try {
-      const lines = chunk.split('\n');
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-
-        if (line.startsWith('data: ')) {
-          const jsonData = line.slice(6);
-
-          if (jsonData === '[DONE]') continue;
-
-          try {
-            const parsedData = JSON.parse(jsonData);
-
-            // Handle reasoning delta. OpenRouter does this. 
-            if (parsedData.choices &&
-              parsedData.choices[0] &&
-              parsedData.choices[0].delta &&
-              parsedData.choices[0].delta.reasoning) {
-              
-                let newContent;
-                if (!isInThinking) {
-                  newContent = "<thinking> " + parsedData.choices[0].delta.reasoning;
-                  isInThinking = true;
-                }
-                else {
-                  newContent = parsedData.choices[0].delta.reasoning;
-                }
-                const thinkingResult = extractThinkingFromStream(newContent, accumulatedThinking);
-                accumulatedThinking = thinkingResult.thinking;
-                onThinkingUpdate(accumulatedThinking)
-              }
-
-            // Handle content delta
-            else if (parsedData.choices &&
-              parsedData.choices[0] &&
-              parsedData.choices[0].delta &&
-              parsedData.choices[0].delta.content) {
-
-              if (isInThinking && !isInContent) {
-                const newContent = "</thinking>";
-                const thinkingResult = extractThinkingFromStream(newContent, accumulatedThinking);
-                accumulatedThinking = thinkingResult.thinking;
-                onThinkingUpdate(accumulatedThinking);
-                
-                if (thinkingResult.content) {
-                  accumulatedContent += thinkingResult.content;
-                  onStreamingUpdate(accumulatedContent);
-                }
-                isInThinking = false;
-                isInContent = true;
-              }
-
-              const newContent = parsedData.choices[0].delta.content;
-              
-              if (modelId && isThinkingCapableModel(modelId)) {
-                const thinkingResult = extractThinkingFromStream(newContent, accumulatedThinking);
-                accumulatedThinking = thinkingResult.thinking;
-                isInThinking = thinkingResult.isInThinking;
-                onThinkingUpdate(accumulatedThinking);
-                
-                if (thinkingResult.content) {
-                  accumulatedContent += thinkingResult.content;
-                  onStreamingUpdate(accumulatedContent);
-                }
-              } else {
-                accumulatedContent += newContent;
-                onStreamingUpdate(accumulatedContent);
-              }
-            }
-
-            // Handle usage statistics (usually in the final chunk)
-            if (parsedData.usage) {
-              usage = {
-                total_tokens: parsedData.usage.total_tokens,
-                prompt_tokens: parsedData.usage.prompt_tokens,
-                completion_tokens: parsedData.usage.completion_tokens
-              };
-            }
-
-            // Handle model information
-            if (parsedData.model) {
-              model = parsedData.model;
-            }
-
-            // Handle finish reason
-            if (parsedData.choices &&
-              parsedData.choices[0] &&
-              parsedData.choices[0].finish_reason) {
-              finish_reason = parsedData.choices[0].finish_reason;
-            }
-          } catch {
-            // Swallow parse errors for streaming chunks
-          }
-        }
+    if (typeof delta?.content === 'string' && delta.content) {
+      const parsed = thinkTags.push(delta.content);
+      appendThinking(parsed.thinking);
+      appendContent(parsed.content);
+    }
+
+    // Sources of a web search; providers send them with the text or in the final chunk
+    const annotations = delta?.annotations ?? parsedData.choices?.[0]?.message?.annotations;
+    if (annotations) {
+      citations = mergeUrlCitations(citations, readUrlCitations(annotations));
+    }
+
+    // Handle tool call deltas
+    if (parsedData.choices &&
+      parsedData.choices[0] &&
+      parsedData.choices[0].delta &&
+      Array.isArray(parsedData.choices[0].delta.tool_calls)) {
+      for (const toolCallDelta of parsedData.choices[0].delta.tool_calls) {
+        const index = typeof toolCallDelta.index === 'number' ? toolCallDelta.index : 0;
+        const existing = toolCallsByIndex[index] ?? {
+          id: '',
+          type: 'function' as const,
+          function: { name: '', arguments: '' }
+        };
+        if (toolCallDelta.id) existing.id = toolCallDelta.id;
+        if (toolCallDelta.function?.name) existing.function.name += toolCallDelta.function.name;
+        if (toolCallDelta.function?.arguments) existing.function.arguments += toolCallDelta.function.arguments;
+        toolCallsByIndex[index] = existing;
+      }
+    }
+
+    // Handle usage statistics (usually in the final chunk)
+    if (parsedData.usage) {
+      usage = readCompletionUsage(parsedData.usage);
+    }
+
+    // Handle model information
+    if (parsedData.model) {
+      model = parsedData.model;
+    }
+
+    // Handle finish reason
+    if (parsedData.choices &&
+      parsedData.choices[0] &&
+      parsedData.choices[0].finish_reason) {
+      finish_reason = parsedData.choices[0].finish_reason;
+    }
+  };
+
+  try {
+    for await (const event of events) {
+      if (event.type === 'delta') {
+        handleCompletionChunk(event.raw);
+        continue;
       }
-    } catch {
-      // Swallow chunk processing errors
+      // Usage-only and finish chunks are not passed on as deltas
+      if (event.usage) usage = readCompletionUsage(event.usage);
+      model = model ?? event.model;
+      finish_reason = finish_reason ?? event.finishReason;
+    }
+  } catch (error) {
+    // Aborting the fetch errors the body stream; keep whatever was streamed so far
+    if (abortSignal?.aborted) {
+      aborted = true;
+    } else if (hasAnswered()) {
+      // The provider gave up mid-stream; keep the partial answer
+      const message = error instanceof Error ? error.message : String(error);
+      streamError = error instanceof ProviderDownError ? message : `Provider error during streaming: ${message}`;
+    } else {
+      throw error;
     }
   }
 
+  const rest = thinkTags.flush();
+  appendThinking(rest.thinking);
+  appendContent(rest.content);
+
   return {
     content: accumulatedContent,
-    thinking: (modelId && accumulatedThinking) ? accumulatedThinking : undefined,
+    thinking: accumulatedThinking.trim() || undefined,
+    thinkingRedacted,
+    citations,
+    images,
     usage,
     model,
-    finish_reason
+    finish_reason,
+    tool_calls: Object.keys(toolCallsByIndex)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(index => ({
+        ...toolCallsByIndex[index],
+        id: toolCallsByIndex[index].id || `call_${index}`
+      })),
+    aborted,
+    error: streamError,
+    firstTokenAt,
+    endedAt: Date.now()
   };
 }
 
 /**
- * Handles refund and balance updates after successful response
+ * Reads the answer of /v1/images/generations into the shape of a streamed result
+ * @param request The pending RoutstrClient.generateImages call
+ * @param hasAnswered Whether the provider answered with a success status; failures after that become the result's error
+ * @throws Failures before the provider answered, so another provider can be tried
+ */
+async function readImageAnswer(
+  request: Promise<RoutstrImageResult>,
+  hasAnswered: () => boolean,
+  abortSignal?: AbortSignal
+): Promise<StreamingResult> {
+  let answer: RoutstrImageResult;
+  try {
+    answer = await request;
+  } catch (error) {
+    if (abortSignal?.aborted || !hasAnswered()) throw error;
+    return {
+      content: '',
+      thinkingRedacted: false,
+      citations: [],
+      images: [],
+      aborted: false,
+      error: `Provider error during streaming: invalid image generation response (${error instanceof Error ? error.message : 'unreadable body'})`,
+      endedAt: Date.now()
+    };
+  }
+  const endedAt = Date.now();
+  return {
+    content: '',
+    thinkingRedacted: false,
+    citations: [],
+    images: answer.images,
+    model: answer.model,
+    aborted: false,
+    ...(answer.images.length === 0 ? { error: 'Provider error during streaming: the provider returned no images' } : { firstTokenAt: endedAt }),
+    endedAt
+  };
+}
+
+/**
+ * Refunds what is left on a request's token and records what the request cost.
+ * The cost is the token's amount minus what came back for it, so requests running side by side
+ * in the same wallet do not count each other's tokens and refunds.
+ * @returns The sats spent on the request
  */
 async function handlePostResponseRefund(params: {
   mintUrl: string;
   baseUrl: string;
   usingNip60: boolean;
   receiveToken: (token: string) => Promise<any[]>;
-  tokenAmount: number;
-  initialBalance: number;
+  /** The token the request was paid with */
+  token: string;
   selectedModel: any;
-  onBalanceUpdate: (balance: number) => void;
   onTransactionUpdate: (transaction: TransactionHistory) => void;
   transactionHistory: TransactionHistory[];
   messageHistory: Message[];
@@ -475,72 +957,70 @@ async function handlePostResponseRefund(params: {
   onMessageAppend: (message: Message) => void;
   estimatedCosts: number; // Add estimatedCosts here
   unit: string; // Add unit here
-}): Promise<void> {
+  stopped?: boolean;
+  transactionMessage?: string;
+}): Promise<number> {
   const {
     mintUrl,
     baseUrl,
     usingNip60,
     receiveToken,
-    tokenAmount,
-    initialBalance,
+    token,
     selectedModel,
-    onBalanceUpdate,
     onTransactionUpdate,
     transactionHistory,
     messageHistory,
     onMessagesUpdate,
     onMessageAppend,
     estimatedCosts, // Destructure estimatedCosts here
-    unit // Destructure unit here
+    unit, // Destructure unit here
+    stopped,
+    transactionMessage
   } = params;
 
+  const tokenSats = getTokenAmountInSats(token);
+  // Refunds come back in the unit of the token
+  const msatOrSat = getDecodedToken(token).unit === 'msat' ? 1000 : 1;
   let satsSpent: number;
+  // A token still held, or set aside until its locktime, can be recovered later by the sweeper or a retried refund
+  let refundPending = false;
 
-
-  const refundStatus = await unifiedRefund(mintUrl, baseUrl, usingNip60, receiveToken);
+  const refundStatus = await unifiedRefund(mintUrl, baseUrl, usingNip60, receiveToken, token);
   if (refundStatus.success) {
-    if (usingNip60 && refundStatus.refundedAmount !== undefined) {
-      // For msats, keep decimal precision; for sats, use Math.ceil
-      satsSpent = (unit === 'msat' ? tokenAmount : Math.ceil(tokenAmount)) - refundStatus.refundedAmount;
-      onBalanceUpdate(initialBalance - satsSpent);
-    } else {
-      const { apiBalance, proofsBalance } = await fetchBalances(mintUrl, baseUrl);
-      onBalanceUpdate(Math.floor(apiBalance / 1000) + Math.floor(proofsBalance / 1000));
-      satsSpent = initialBalance - getBalanceFromStoredProofs();
-    }
+    satsSpent = tokenSats - (refundStatus.refundedAmount ?? 0) / msatOrSat;
   } else {
-    console.error("Refund failed:", refundStatus.message, refundStatus, refundStatus, refundStatus, refundStatus, refundStatus);
-    if (refundStatus.message && refundStatus.message.includes("Balance too small to refund")) {
-      clearCurrentApiToken(baseUrl); // Pass baseUrl here
+    console.error("Refund failed:", refundStatus.message, refundStatus);
+    const isOurToken = getLocalCashuToken(baseUrl) === token;
+    if (refundStatus.error instanceof RefundFailedError && refundStatus.error.isDust) {
+      if (isOurToken) clearCurrentApiToken(baseUrl); // Pass baseUrl here
     }
-    else if (refundStatus.message && refundStatus.message.includes("Refund request failed with status 401")) {
-      const mainMessage = `Refund failed: ${refundStatus.message}. Clearing token. Pls retry.`;
-      const requestIdText = refundStatus.requestId ? `Request ID: ${refundStatus.requestId}` : '';
-      const providerText = `Provider: ${baseUrl}`;
-      const fullMessage = refundStatus.requestId
-        ? `${mainMessage}\n${requestIdText}\n${providerText}`
-        : `${mainMessage} | ${providerText}`;
-      handleApiResponseError(fullMessage, onMessageAppend);
-      clearCurrentApiToken(baseUrl); // Pass baseUrl here
+    else if (refundStatus.error instanceof ProviderUnauthorizedError) {
+      reportRefundFailure(refundStatus, baseUrl, onMessageAppend, ' Clearing token. Pls retry.');
+      if (isOurToken) clearCurrentApiToken(baseUrl); // Pass baseUrl here
     }
     else {
-      const mainMessage = `Refund failed: ${refundStatus.message}.`;
-      const requestIdText = refundStatus.requestId ? `Request ID: ${refundStatus.requestId}` : '';
-      const providerText = `Provider: ${baseUrl}`;
-      const fullMessage = refundStatus.requestId
-        ? `${mainMessage}\n${requestIdText}\n${providerText}`
-        : `${mainMessage} | ${providerText}`;
-      handleApiResponseError(fullMessage, onMessageAppend);
+      reportRefundFailure(refundStatus, baseUrl, onMessageAppend);
     }
-    // For msats, keep decimal precision; for sats, use Math.ceil
-    satsSpent = unit === 'msat' ? tokenAmount : Math.ceil(tokenAmount);
+    satsSpent = tokenSats;
+    refundPending = getLocalCashuToken(baseUrl) === token || loadRejectedLockedTokens().some(entry => entry.token === token);
   }
   console.log("spent: ", satsSpent)
+  recordSpending({ baseUrl, modelId: selectedModel?.id, amount: satsSpent, ...(refundPending ? { refundPending } : {}) });
   const netCosts = satsSpent - estimatedCosts;
   
   // Use different thresholds based on unit
   const overchargeThreshold = unit === 'msat' ? 0.05 : 1;
-  if (netCosts > overchargeThreshold){
+  // A stopped stream never delivers its final usage chunk, so there is no estimate to compare against
+  if (!stopped && estimatedCosts > 0) {
+    recordProviderCharge({
+      baseUrl,
+      modelId: selectedModel?.id,
+      estimatedCost: estimatedCosts,
+      actualCost: satsSpent,
+      overcharged: netCosts > overchargeThreshold
+    });
+  }
+  if (!stopped && netCosts > overchargeThreshold){
     const estimatedDisplay = unit === 'msat' ? estimatedCosts.toFixed(3) : Math.ceil(estimatedCosts).toString();
     const actualDisplay = unit === 'msat' ? satsSpent.toFixed(3) : satsSpent.toString();
     handleApiResponseError("ATTENTION: Looks like this provider is overcharging you for your query. Estimated Costs: " + estimatedDisplay +". Actual Costs: " + actualDisplay, onMessageAppend);
@@ -552,12 +1032,154 @@ async function handlePostResponseRefund(params: {
     timestamp: Date.now(),
     status: 'success',
     model: selectedModel?.id,
-    message: 'Tokens spent',
-    balance: initialBalance - satsSpent
+    message: transactionMessage ?? (stopped ? 'Tokens spent (generation stopped)' : 'Tokens spent'),
+    // The NIP-60 wallet's balance lives in its proofs, which other requests may be changing
+    ...(usingNip60 ? {} : { balance: getBalanceFromStoredProofs() })
   };
 
   localStorage.setItem('transaction_history', JSON.stringify([...transactionHistory, newTransaction]));
   onTransactionUpdate(newTransaction);
+  return satsSpent;
+}
+
+/**
+ * Summarizes messages that no longer fit the context window with the provider's cheapest model.
+ * The summary is paid like any other request: a token is sent and the unused part refunded.
+ * @returns The summary, or null if it could not be produced
+ */
+async function requestContextSummary(params: {
+  messages: Message[];
+  previousSummary?: string;
+  baseUrl: string;
+  mintUrl: string;
+  usingNip60: boolean;
+  unit: string;
+  sendToken?: (mintUrl: string, amount: number, p2pkPubkey?: string) => Promise<{ proofs: any[], unit: string }>;
+  activeMintUrl?: string | null;
+  receiveToken: (token: string) => Promise<any[]>;
+  onTransactionUpdate: (transaction: TransactionHistory) => void;
+  transactionHistory: TransactionHistory[];
+  onMessageAppend: (message: Message) => void;
+  abortSignal?: AbortSignal;
+  overrideBudget?: boolean;
+}): Promise<string | null> {
+  const { messages, previousSummary, baseUrl, mintUrl, usingNip60, unit, sendToken, activeMintUrl } = params;
+
+  const summaryModel = getCheapestProviderModel(baseUrl);
+  if (!summaryModel) return null;
+
+  const transcript = messages
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .map(message => `${message.role}: ${getTextFromContent(message.content).slice(0, SUMMARY_MESSAGE_CHARS)}`)
+    .join('\n\n');
+  const requestMessages = [
+    {
+      role: 'system',
+      content: 'Summarize the conversation below for an assistant that will continue it. Keep facts, decisions, names, numbers and open questions. Reply with the summary only.'
+    },
+    {
+      role: 'user',
+      content: previousSummary
+        ? `Summary so far:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+        : transcript
+    }
+  ];
+
+  const tokenAmount = getTokenAmountForModel(summaryModel, requestMessages, CONTEXT_SUMMARY_MAX_TOKENS);
+  const token = await getTokenForRequest(
+    usingNip60,
+    mintUrl,
+    usingNip60 && unit == 'msat' ? tokenAmount * 1000 : tokenAmount,
+    baseUrl,
+    sendToken,
+    activeMintUrl,
+    { modelId: summaryModel.id, sats: tokenAmount, overrideBudget: params.overrideBudget }
+  ).catch(error => {
+    // Without the summary the old turns are dropped; the request itself still meets the budget check
+    if (error instanceof BudgetExceededError) return null;
+    throw error;
+  });
+  if (!token) return null;
+
+  let summary: string | null = null;
+  let estimatedCosts = 0;
+  try {
+    const client = createBrowserRoutstrClient(baseUrl, {
+      mintUrl,
+      usingNip60,
+      sendToken,
+      receiveToken: params.receiveToken,
+      activeMintUrl,
+      unit
+    });
+    const events = client.chat({
+      model: summaryModel,
+      messages: requestMessages,
+      parameters: { max_tokens: CONTEXT_SUMMARY_MAX_TOKENS },
+      amount: tokenAmount,
+      signal: params.abortSignal
+    });
+    for await (const event of events) {
+      if (event.type === 'delta') {
+        if (event.content?.trim()) summary = event.content.trim();
+      } else if (event.usage?.prompt_tokens !== undefined && event.usage?.completion_tokens !== undefined) {
+        estimatedCosts = summaryModel.sats_pricing.prompt * event.usage.prompt_tokens + summaryModel.sats_pricing.completion * event.usage.completion_tokens;
+      }
+    }
+  } catch (error) {
+    console.warn('Context summary request failed:', error);
+  }
+
+  try {
+    await handlePostResponseRefund({
+      mintUrl,
+      baseUrl,
+      usingNip60,
+      receiveToken: params.receiveToken,
+      token,
+      selectedModel: summaryModel,
+      onTransactionUpdate: params.onTransactionUpdate,
+      transactionHistory: params.transactionHistory,
+      messageHistory: messages,
+      onMessagesUpdate: () => {},
+      onMessageAppend: params.onMessageAppend,
+      estimatedCosts,
+      unit,
+      stopped: summary === null,
+      transactionMessage: 'Tokens spent (context summary)'
+    });
+  } finally {
+    releaseTokenForRequest(baseUrl);
+  }
+
+  return summary;
+}
+
+/**
+ * Adds a "Refund failed" notice offering to retry the refund
+ * @param refundStatus The failed refund
+ * @param baseUrl Provider that holds the unrefunded balance
+ * @param onMessageAppend Callback appending the notice to the chat
+ * @param note Extra text appended to the first line
+ */
+function reportRefundFailure(
+  refundStatus: UnifiedRefundResult,
+  baseUrl: string,
+  onMessageAppend: (message: Message) => void,
+  note: string = ''
+): void {
+  const mainMessage = `Refund failed: ${refundStatus.message}.${note}`;
+  const requestIdText = refundStatus.requestId ? `Request ID: ${refundStatus.requestId}` : '';
+  const providerText = `Provider: ${baseUrl}`;
+  const fullMessage = refundStatus.requestId
+    ? `${mainMessage}\n${requestIdText}\n${providerText}`
+    : `${mainMessage} | ${providerText}`;
+  const details = (refundStatus.error ?? new RefundFailedError(fullMessage)).toDetails();
+  onMessageAppend(createErrorMessage(fullMessage, {
+    ...details,
+    baseUrl,
+    ...(refundStatus.requestId ? { requestId: refundStatus.requestId } : {})
+  }));
 }
 
 /**
@@ -567,13 +1189,19 @@ function handleApiResponseError(
   error: unknown,
   onMessageAppend: (message: Message) => void
 ): void {
-  let errorMessage = 'Failed to process your request';
-  
-  if (error instanceof TypeError && error.message.includes('NetworkError when attempting to fetch resource.')) {
-    errorMessage = 'Your provider is down. Please switch the provider in settings.';
-  } else {
-    errorMessage = error instanceof Error ? error.message : (typeof error === 'string' ? error : 'Failed to process your request');
+  if (error instanceof RoutstrError) {
+    onMessageAppend(createErrorMessage(error.message, error.toDetails()));
+    return;
+  }
+
+  if (isNetworkError(error)) {
+    onMessageAppend(createErrorMessage(
+      'Your provider is down. Please switch the provider in settings.',
+      new ProviderDownError('network error', { cause: error }).toDetails()
+    ));
+    return;
   }
 
-  onMessageAppend(createTextMessage('system', errorMessage));
+  const errorMessage = error instanceof Error ? error.message : (typeof error === 'string' ? error : 'Failed to process your request');
+  onMessageAppend(createErrorMessage(errorMessage));
 }
\ No newline at end of file
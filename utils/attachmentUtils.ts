@@ -0,0 +1,178 @@
+import { Model } from '@/data/models';
+import { MessageAttachment, MessageContent } from '@/types/chat';
+
+/*
+ * Documents attached to a message. Their text is extracted in the browser and sent as a labeled text part;
+ * PDFs go to models that read files natively (input_modalities includes 'file') as file parts instead.
+ */
+
+// File picker filter for documents; images are handled separately as image_url parts
+export const DOCUMENT_ACCEPT = [
+  'application/pdf', 'text/*', '.pdf', '.md', '.markdown', '.txt', '.csv', '.tsv', '.json', '.yaml', '.yml', '.xml',
+  '.html', '.css', '.scss', '.js', '.jsx', '.mjs', '.ts', '.tsx', '.py', '.rb', '.go', '.rs', '.java', '.kt', '.c',
+  '.h', '.cpp', '.hpp', '.cs', '.php', '.swift', '.sh', '.sql', '.toml', '.ini', '.env', '.log', '.lua', '.r', '.vue', '.svelte'
+].join(',');
+
+// Larger files are refused before reading
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Extracted text beyond this is cut off, so one file cannot fill the context window
+const MAX_ATTACHMENT_CHARS = 200_000;
+
+const TEXT_EXTENSIONS = new Set(DOCUMENT_ACCEPT.split(',').filter(entry => entry.startsWith('.') && entry !== '.pdf'));
+
+// Opening of the labeled text part; isAttachmentTextPart relies on it
+const ATTACHMENT_TAG = '<attachment ';
+
+/**
+ * A document picked in the chat input, read but not sent yet
+ */
+export interface PendingAttachment extends Omit<MessageAttachment, 'sentAs'> {
+  id: string;
+  /** Extracted text; missing for PDFs without a text layer, e.g. scans */
+  text?: string;
+  /** data: URL of the file, kept for PDFs so models with file input can read them natively */
+  dataUrl?: string;
+}
+
+const getExtension = (name: string): string => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex === -1 ? '' : name.slice(dotIndex).toLowerCase();
+};
+
+const isPdf = (file: File): boolean => file.type === 'application/pdf' || getExtension(file.name) === '.pdf';
+
+/**
+ * Checks whether a file can be attached as a document
+ * @param file The picked file
+ * @returns True for PDFs, text files and source code
+ */
+export const isDocumentFile = (file: File): boolean => {
+  return isPdf(file) || file.type.startsWith('text/') || TEXT_EXTENSIONS.has(getExtension(file.name));
+};
+
+/**
+ * Checks whether a model reads file parts itself
+ * @param model The model of the request
+ * @returns True if the model lists 'file' among its input modalities
+ */
+export const modelSupportsFileInput = (model: Model | null | undefined): boolean => {
+  return !!model?.architecture?.input_modalities?.includes('file');
+};
+
+const readAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Extracts the text layer of a PDF with pdf.js, page by page
+ * @param file The PDF
+ * @returns The text, empty for scanned PDFs
+ */
+const extractPdfText = async (file: File): Promise<string> => {
+  // Loaded on first use; pdf.js is large and only needed for PDFs
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+    }
+    return pages.join('\n\n').trim();
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Reads a picked document: extracts its text and, for PDFs, keeps the file for native file input
+ * @param file The picked file
+ * @returns The attachment, ready to be added to a message
+ * @throws Error if the file is too large or its text cannot be read
+ */
+export const readDocumentAttachment = async (file: File): Promise<PendingAttachment> => {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+  }
+  const base = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    name: file.name,
+    mimeType: file.type || (isPdf(file) ? 'application/pdf' : 'text/plain'),
+    size: file.size
+  };
+
+  if (isPdf(file)) {
+    const [text, dataUrl] = await Promise.all([
+      extractPdfText(file).catch(error => {
+        console.warn(`Could not extract text from ${file.name}:`, error);
+        return '';
+      }),
+      readAsDataUrl(file)
+    ]);
+    return { ...base, dataUrl, ...(text ? { text } : {}) };
+  }
+
+  return { ...base, text: await file.text() };
+};
+
+/**
+ * Wraps extracted text in a labeled block the model can tell apart from the message
+ * @param name File name
+ * @param mimeType File type
+ * @param text Extracted text
+ * @returns The labeled text
+ */
+export const formatAttachmentText = (name: string, mimeType: string, text: string): string => {
+  const truncated = text.length > MAX_ATTACHMENT_CHARS;
+  const body = truncated ? `${text.slice(0, MAX_ATTACHMENT_CHARS)}\n[… truncated, ${text.length - MAX_ATTACHMENT_CHARS} more characters]` : text;
+  return `${ATTACHMENT_TAG}name="${name.replace(/"/g, "'")}" type="${mimeType}">\n${body}\n</attachment>`;
+};
+
+/**
+ * Checks whether a content part holds the text of an attached document rather than typed text
+ * @param part A message content part
+ * @returns True for parts made by formatAttachmentText
+ */
+export const isAttachmentTextPart = (part: MessageContent): boolean => {
+  return part.type === 'text' && !!part.text?.startsWith(ATTACHMENT_TAG);
+};
+
+/**
+ * Turns pending attachments into message content parts for the model of the request
+ * @param attachments Attachments picked in the chat input
+ * @param model The model the message is sent to
+ * @returns Content parts and the attachment records for the message
+ * @throws Error if a PDF has no text and the model cannot read files
+ */
+export const buildAttachmentParts = (
+  attachments: PendingAttachment[],
+  model: Model | null | undefined
+): { parts: MessageContent[]; records: MessageAttachment[] } => {
+  const nativeFiles = modelSupportsFileInput(model);
+  const parts: MessageContent[] = [];
+  const records: MessageAttachment[] = [];
+
+  for (const attachment of attachments) {
+    const { name, mimeType, size } = attachment;
+    if (attachment.dataUrl && nativeFiles) {
+      parts.push({ type: 'file', file: { filename: name, file_data: attachment.dataUrl } });
+      records.push({ name, mimeType, size, sentAs: 'file' });
+    } else if (attachment.text) {
+      parts.push({ type: 'text', text: formatAttachmentText(name, mimeType, attachment.text) });
+      records.push({ name, mimeType, size, sentAs: 'text' });
+    } else {
+      throw new Error(`${name} has no text layer and ${model?.name ?? 'this model'} cannot read PDFs directly. Pick a model with file input.`);
+    }
+  }
+
+  return { parts, records };
+};
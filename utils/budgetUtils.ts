@@ -0,0 +1,177 @@
+import { BudgetPeriod, SpendingBudget, SpendingEntry } from '@/types/chat';
+import { loadSpendingBudgets, loadSpendingLog, saveSpendingBudgets, saveSpendingLog } from './storageUtils';
+import { getProviderHost, normalizeBaseUrl } from './modelUtils';
+import { BudgetExceededError } from './routstrErrors';
+
+/** Dispatched on window whenever spending is recorded or the budgets change */
+export const BUDGET_UPDATED_EVENT = 'routstr:budget-updated';
+
+// Entries older than the longest period are never counted again
+const SPENDING_LOG_RETENTION_MS = 32 * 24 * 60 * 60 * 1000;
+
+export interface BudgetStatus {
+  budget: SpendingBudget;
+  /** Sats spent in the current period */
+  spent: number;
+  /** Sats left in the current period, never below 0 */
+  remaining: number;
+  /** Share of the limit spent, 0-1 (above 1 after an override) */
+  ratio: number;
+}
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: 'today',
+  weekly: 'this week',
+  monthly: 'this month'
+};
+
+const notifyBudgetUpdate = (): void => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(BUDGET_UPDATED_EVENT));
+  }
+};
+
+/**
+ * Start of the calendar period a budget is counted over, in local time; weeks start on Monday
+ * @param period The budget period
+ * @param now Reference time
+ * @returns Timestamp of the period start
+ */
+export const getBudgetPeriodStart = (period: BudgetPeriod, now: number = Date.now()): number => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'weekly') {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  } else if (period === 'monthly') {
+    date.setDate(1);
+  }
+  return date.getTime();
+};
+
+/**
+ * Checks whether a request counts against a budget
+ * @param budget The budget
+ * @param request Provider and model of the request
+ * @returns True if the budget covers the request
+ */
+const isInBudgetScope = (budget: SpendingBudget, request: { baseUrl: string; modelId?: string }): boolean => {
+  if (budget.scope === 'model') return !!budget.target && request.modelId === budget.target;
+  if (budget.scope === 'provider') return !!budget.target && normalizeBaseUrl(request.baseUrl) === normalizeBaseUrl(budget.target);
+  return true;
+};
+
+/**
+ * Records what a request cost after its refund
+ * @param entry Provider, model and sats spent, without timestamp
+ */
+export const recordSpending = (entry: Omit<SpendingEntry, 'timestamp'>): void => {
+  if (!(entry.amount > 0)) return;
+  const now = Date.now();
+  const log = loadSpendingLog().filter(existing => existing.timestamp > now - SPENDING_LOG_RETENTION_MS);
+  log.push({ ...entry, baseUrl: normalizeBaseUrl(entry.baseUrl) ?? entry.baseUrl, timestamp: now });
+  saveSpendingLog(log);
+  notifyBudgetUpdate();
+};
+
+/**
+ * Takes sats recovered from a provider off the requests there that were counted in full after a failed refund
+ * @param baseUrl Provider the sats came back from
+ * @param sats Sats recovered
+ */
+export const creditRecoveredSpending = (baseUrl: string, sats: number): void => {
+  const normalized = normalizeBaseUrl(baseUrl) ?? baseUrl;
+  const log = loadSpendingLog();
+  const pending = log.filter(entry => entry.refundPending && entry.baseUrl === normalized);
+  if (pending.length === 0) return;
+
+  // Newest first; every pending entry is settled, since the provider held only the one token
+  let remaining = Math.max(0, sats);
+  for (const entry of pending.reverse()) {
+    const credit = Math.min(remaining, entry.amount);
+    entry.amount -= credit;
+    remaining -= credit;
+    delete entry.refundPending;
+  }
+  saveSpendingLog(log);
+  notifyBudgetUpdate();
+};
+
+/**
+ * Saves the budgets and tells open views about the change
+ * @param budgets The new budgets
+ */
+export const updateSpendingBudgets = (budgets: SpendingBudget[]): void => {
+  saveSpendingBudgets(budgets);
+  notifyBudgetUpdate();
+};
+
+/**
+ * Sums the spending of the current period for each budget
+ * @param budgets Budgets; read from storage when omitted
+ * @param log Spending log; read from storage when omitted
+ * @param now Reference time
+ * @returns One status per budget, in budget order
+ */
+export const getBudgetStatuses = (
+  budgets: SpendingBudget[] = loadSpendingBudgets(),
+  log: SpendingEntry[] = loadSpendingLog(),
+  now: number = Date.now()
+): BudgetStatus[] => {
+  return budgets.map(budget => {
+    const periodStart = getBudgetPeriodStart(budget.period, now);
+    const spent = log
+      .filter(entry => entry.timestamp >= periodStart && isInBudgetScope(budget, entry))
+      .reduce((total, entry) => total + entry.amount, 0);
+    return {
+      budget,
+      spent,
+      remaining: Math.max(0, budget.limit - spent),
+      ratio: budget.limit > 0 ? spent / budget.limit : 0
+    };
+  });
+};
+
+/**
+ * Finds the first budget a request would take past its limit, counting the full amount the request locks
+ * @param request Provider and model of the request, and the sats its token carries
+ * @param statuses Budget statuses from getBudgetStatuses
+ * @returns The exceeded budget's status, or null if the request fits every budget
+ */
+export const findExceededBudget = (
+  request: { baseUrl: string; modelId?: string; sats: number },
+  statuses: BudgetStatus[] = getBudgetStatuses()
+): BudgetStatus | null => {
+  return statuses.find(status =>
+    status.budget.limit > 0 &&
+    isInBudgetScope(status.budget, request) &&
+    status.spent + request.sats > status.budget.limit
+  ) ?? null;
+};
+
+/**
+ * Short name of a budget for labels and messages
+ * @param budget The budget
+ * @returns e.g. "Daily budget for openai/gpt-4o"
+ */
+export const describeBudget = (budget: SpendingBudget): string => {
+  const period = `${budget.period.charAt(0).toUpperCase()}${budget.period.slice(1)} budget`;
+  if (budget.scope === 'model' && budget.target) return `${period} for ${budget.target}`;
+  if (budget.scope === 'provider' && budget.target) return `${period} for ${getProviderHost(budget.target)}`;
+  return period;
+};
+
+/**
+ * Blocks a request that would exceed a spending budget; called before its token is created
+ * @param request Provider and model of the request, and the sats its token carries
+ * @throws BudgetExceededError naming the budget
+ */
+export const assertWithinBudgets = (request: { baseUrl: string; modelId?: string; sats: number }): void => {
+  const exceeded = findExceededBudget(request);
+  if (!exceeded) return;
+
+  const { budget, spent } = exceeded;
+  throw new BudgetExceededError(
+    `${describeBudget(budget)} reached: ${Math.ceil(spent)} of ${budget.limit} sats spent ${BUDGET_PERIOD_LABELS[budget.period]}, and this request locks up to ${Math.ceil(request.sats)} sats.`,
+    { baseUrl: request.baseUrl, budgetId: budget.id }
+  );
+};
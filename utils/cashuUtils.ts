@@ -1,7 +1,10 @@
 import { Event } from "nostr-tools";
 import { GiftWrap, wrapCashuToken, unwrapCashuToken } from "./nip60Utils";
 import { CashuMint, CashuWallet, getEncodedTokenV4, getDecodedToken } from "@cashu/cashu-ts";
-import { getLocalCashuToken, setLocalCashuToken, removeLocalCashuToken, getLocalCashuTokens, CashuTokenEntry } from '@/utils/storageUtils';
+import { removeLocalCashuToken, getLocalCashuToken, getLocalCashuTokens, CashuTokenEntry, localCashuTokenStorage } from '@/utils/storageUtils';
+import { isNetworkError, ProviderUnauthorizedError, RefundFailedError, RoutstrError } from '@/utils/routstrErrors';
+import { RoutstrClient, RoutstrWallet } from '@/lib/routstrClient';
+import { isLockedToken, isLockRejection, resolveProviderLockKey, setAsideRejectedToken } from '@/utils/tokenLockUtils';
 
 
 /**
@@ -15,35 +18,14 @@ export const MSATS_PER_SAT = 1000;
 
 export const fetchBalances = async (mintUrl: string, baseUrl: string): Promise<{apiBalance:number, proofsBalance:number}> => {
   let apiBalance = 0;
-  let proofsBalance = 0;
 
   try {
-    const token = getLocalCashuToken(baseUrl); // Use getLocalCashuToken
-
-    if (token) {
-      const response = await fetch(`${baseUrl}v1/wallet/info`, {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        if (response.status === 402) {
-          // Invalidate current token since it's out of balance
-          invalidateApiToken(baseUrl); // Pass baseUrl
-          console.warn('rdlogs: API token invalidated due to insufficient balance.');
-        } else {
-          console.error(`Failed to fetch wallet balance: ${response.status} ${response.statusText}`);
-        }
-      } else {
-        const data = await response.json();
-        apiBalance = data.balance;
-        if (apiBalance > 0) {
-          // Refund remaining balance, but still report the balance that was found
-          await refundRemainingBalance(mintUrl, baseUrl);
-          apiBalance = 0;
-        }
-      }
+    const client = createBrowserRoutstrClient(baseUrl, { mintUrl, usingNip60: false });
+    apiBalance = (await client.balance()).provider;
+    if (apiBalance > 0) {
+      // Refund remaining balance, but still report the balance that was found
+      await refundWithClient(client);
+      apiBalance = 0;
     }
   } catch (error) {
     console.error("Error fetching API balance:", error);
@@ -51,11 +33,10 @@ export const fetchBalances = async (mintUrl: string, baseUrl: string): Promise<{
   }
 
   // Always get proofs balance, regardless of API call success
-  proofsBalance = getBalanceFromStoredProofs() * MSATS_PER_SAT;
+  const proofsBalance = getBalanceFromStoredProofs() * MSATS_PER_SAT;
 
   return {apiBalance, proofsBalance};
 };
-
 /**
  * Gets the current balance from stored proofs
  * @returns The total balance in sats
@@ -170,124 +151,12 @@ export const generateApiToken = async (
 };
 
 /**
- * Manages token lifecycle - reuses existing token or generates new one
+ * Receives a token into the locally stored proofs
  * @param mintUrl The Cashu mint URL
- * @param amount Amount in sats for new token if needed
- * @returns Token string, null if failed, or object with hasTokens: false if no tokens available
+ * @param token The encoded token to receive
+ * @returns The amount received, in the mint's preferred unit
  */
-export const getOrCreateApiToken = async (
-  mintUrl: string,
-  amount: number,
-  baseUrl: string // Add baseUrl parameter
-): Promise<string | null | { hasTokens: false }> => {
-  try {
-    // Try to get existing token for the given baseUrl
-    const storedToken = getLocalCashuToken(baseUrl);
-    if (storedToken) {
-      return storedToken;
-    }
-
-    // Check if any tokens are available
-    const storedProofs = localStorage.getItem("cashu_proofs");
-    if (!storedProofs) {
-      return { hasTokens: false };
-    }
-
-    // Generate new token if none exists
-    const newToken = await generateApiToken(mintUrl, amount);
-    if (newToken) {
-      setLocalCashuToken(baseUrl, newToken); // Use setLocalCashuToken
-      return newToken;
-    }
-
-    return null;
-  } catch (error) {
-    console.error("Error in token management:", error);
-    return null;
-  }
-};
-
-export const fetchRefundToken = async (baseUrl: string, storedToken: string): Promise<{
-  success: boolean;
-  token?: string;
-  requestId?: string;
-  error?: string;
-}> => {
-  if (!baseUrl) {
-    return {
-      success: false,
-      error: 'No base URL configured'
-    };
-  }
-
-  const normalizedBaseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
-
-  // Create an AbortController for timeout handling
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-  }, 60000); // 1 minute timeout
-
-  try {
-    const response = await fetch(`${normalizedBaseUrl}v1/wallet/refund`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${storedToken}`,
-        'Content-Type': 'application/json'
-      },
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-    const requestId = response.headers.get('x-routstr-request-id') || undefined;
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      if (response.status === 400 && errorData?.detail === "No balance to refund") {
-        invalidateApiToken(baseUrl);
-        return {
-          success: false,
-          requestId,
-          error: 'No balance to refund'
-        };
-      }
-      return {
-        success: false,
-        requestId,
-        error: `Refund request failed with status ${response.status}: ${errorData?.detail || response.statusText}`
-      };
-    }
-    
-    const data = await response.json();
-    return {
-      success: true,
-      token: data.token,
-      requestId
-    };
-  } catch (error) {
-    clearTimeout(timeoutId);
-    
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return {
-          success: false,
-          error: 'Request timed out after 1 minute'
-        };
-      }
-      return {
-        success: false,
-        error: error.message
-      };
-    }
-    
-    return {
-      success: false,
-      error: 'Unknown error occurred during refund request'
-    };
-  }
-};
-
-export const storeCashuToken = async (mintUrl: string, token: string): Promise<void> => {
+export const storeCashuToken = async (mintUrl: string, token: string): Promise<number> => {
   const mint = new CashuMint(mintUrl);
   const keysets = await mint.getKeySets();
   
@@ -307,36 +176,11 @@ export const storeCashuToken = async (mintUrl: string, token: string): Promise<v
     const existingProofs = storedProofs ? JSON.parse(storedProofs) : [];
     localStorage.setItem('cashu_proofs', JSON.stringify([...existingProofs, ...proofs]));
   }
+  return proofs.reduce((sum: number, proof: any) => sum + proof.amount, 0);
 };
 
-export const refundRemainingBalance = async (mintUrl: string, baseUrl: string, apiKey?: string): Promise<{ success: boolean; message?: string }> => {
-  try {
-    const storedToken = apiKey || getLocalCashuToken(baseUrl); // Use getLocalCashuToken
-    if (!storedToken) {
-      return { success: true, message: 'No apiKey to refund' };
-    }
-
-    try {
-      const refundResult = await fetchRefundToken(baseUrl, storedToken);
-      if (refundResult.success && refundResult.token) {
-        await storeCashuToken(mintUrl, refundResult.token);
-        invalidateApiToken(baseUrl); // Pass baseUrl
-        return { success: true, message: 'Refund completed successfully' };
-      } else if (refundResult.error === 'No balance to refund') {
-        return { success: true, message: 'No balance to refund' };
-      } else {
-        return { success: false, message: refundResult.error || 'Refund failed' };
-      }
-    } catch (error) {
-      throw error; // Re-throw other errors
-    }
-  } catch (error) {
-    console.error("Error refunding balance:", error);
-    return {
-      success: false,
-      message: error instanceof Error ? error.message : 'Unknown error occurred during refund'
-    };
-  }
+export const refundRemainingBalance = async (mintUrl: string, baseUrl: string, apiKey?: string): Promise<UnifiedRefundResult> => {
+  return refundWithClient(createBrowserRoutstrClient(baseUrl, { mintUrl, usingNip60: false }), apiKey);
 };
 
 /**
@@ -349,8 +193,9 @@ export const invalidateApiToken = (baseUrl: string) => { // Add baseUrl paramete
 
 export const create60CashuToken = async (
   activeMintUrl: string,
-  sendToken: (mintUrl: string, amount: number) => Promise<{ proofs: any[], unit: string }>,
-  amount: number
+  sendToken: (mintUrl: string, amount: number, p2pkPubkey?: string) => Promise<{ proofs: any[], unit: string }>,
+  amount: number,
+  p2pkPubkey?: string
 ): Promise<string | undefined> => {
   // Check if amount is a decimal and round up if necessary
   if (amount % 1 !== 0) {
@@ -370,7 +215,7 @@ export const create60CashuToken = async (
   }
 
   try {
-    const result = await sendToken(activeMintUrl, amount);
+    const result = await sendToken(activeMintUrl, amount, p2pkPubkey);
     const proofs = result.proofs;
     const token = getEncodedTokenV4({
       mint: activeMintUrl,
@@ -395,11 +240,78 @@ export const create60CashuToken = async (
   }
 };
 
+/**
+ * Wallet adapter for RoutstrClient over the proofs kept in localStorage
+ * @param mintUrl The Cashu mint URL
+ * @returns A RoutstrWallet paying from and refunding into the stored proofs
+ */
+export const createLegacyWallet = (mintUrl: string): RoutstrWallet => ({
+  createToken: (amount) => generateApiToken(mintUrl, amount),
+  receiveToken: (token) => storeCashuToken(mintUrl, token),
+  getBalance: async () => getBalanceFromStoredProofs()
+});
+
+/**
+ * Wallet adapter for RoutstrClient over the NIP-60 wallet
+ * @param activeMintUrl The mint tokens are sent from
+ * @param sendToken Function to send tokens from the NIP-60 wallet
+ * @param receiveToken Function to receive tokens into the NIP-60 wallet
+ * @param baseUrl Provider the tokens are for; they are locked to its key when token locking is on
+ * @returns A RoutstrWallet backed by the NIP-60 wallet
+ */
+export const createNip60Wallet = (
+  activeMintUrl: string,
+  sendToken?: (mintUrl: string, amount: number, p2pkPubkey?: string) => Promise<{ proofs: any[], unit: string }>,
+  receiveToken?: (token: string) => Promise<any[]>,
+  baseUrl?: string
+): RoutstrWallet => ({
+  createToken: async (amount) => {
+    if (!sendToken) throw new Error('No NIP-60 send function available');
+    const lockKey = baseUrl ? await resolveProviderLockKey(baseUrl) : undefined;
+    return (await create60CashuToken(activeMintUrl, sendToken, amount, lockKey)) ?? null;
+  },
+  receiveToken: async (token) => {
+    if (!receiveToken) throw new Error('No NIP-60 receive function available');
+    const proofs = await receiveToken(token);
+    return proofs.reduce((sum: number, proof: any) => sum + proof.amount, 0);
+  }
+});
+
+/**
+ * Creates a RoutstrClient for the app's wallet and localStorage
+ * @param baseUrl The API base URL
+ * @param options.mintUrl Mint of the legacy wallet
+ * @param options.usingNip60 Whether the NIP-60 wallet pays instead of the legacy one
+ * @param options.activeMintUrl Mint the NIP-60 wallet sends from; falls back to mintUrl
+ * @param options.unit Unit of the NIP-60 mint; new tokens are sized in msats on msat mints
+ * @param options.fetch fetch implementation for the provider requests, e.g. one with a response timeout
+ * @returns The client
+ */
+export const createBrowserRoutstrClient = (
+  baseUrl: string,
+  options: {
+    mintUrl: string;
+    usingNip60: boolean;
+    sendToken?: (mintUrl: string, amount: number, p2pkPubkey?: string) => Promise<{ proofs: any[], unit: string }>;
+    receiveToken?: (token: string) => Promise<any[]>;
+    activeMintUrl?: string | null;
+    unit?: string;
+    fetch?: typeof fetch;
+  }
+): RoutstrClient => {
+  const wallet = options.usingNip60
+    ? { ...createNip60Wallet(options.activeMintUrl || options.mintUrl, options.sendToken, options.receiveToken, baseUrl), ...(options.unit === 'msat' ? { unit: 'msat' as const } : {}) }
+    : createLegacyWallet(options.mintUrl);
+  return new RoutstrClient({ baseUrl, wallet, storage: localCashuTokenStorage, fetch: options.fetch });
+};
+
 export type UnifiedRefundResult = {
   success: boolean;
   refundedAmount?: number;
   message?: string;
   requestId?: string;
+  /** Why the refund failed, when it did */
+  error?: RoutstrError;
 };
 
 export const unifiedRefund = async (
@@ -409,65 +321,74 @@ export const unifiedRefund = async (
   receiveTokenFn: (token: string) => Promise<any[]>,
   apiKey?: string
 ): Promise<UnifiedRefundResult> => {
-  if (usingNip60) {
-    const storedToken = apiKey || getLocalCashuToken(baseUrl); // Use getLocalCashuToken
-    if (!storedToken) {
+  const client = createBrowserRoutstrClient(baseUrl, { mintUrl, usingNip60, receiveToken: receiveTokenFn });
+  const token = apiKey ?? getLocalCashuToken(baseUrl);
+  const result = await refundWithClient(client, apiKey);
+  // A token refunded by key is forgotten like the stored one, unless another request has replaced it since
+  const forgetToken = () => {
+    if (token && getLocalCashuToken(baseUrl) === token) removeLocalCashuToken(baseUrl);
+  };
+  if (result.success && apiKey) {
+    forgetToken();
+  }
+  // A provider that refused a locked token has no balance for it; the refund key reclaims it later
+  if (!result.success && result.error instanceof ProviderUnauthorizedError && token && isLockedToken(token)) {
+    setAsideRejectedToken(baseUrl, token, isLockRejection(result.error.message));
+    forgetToken();
+  }
+  return result;
+};
+
+/**
+ * Runs a client refund and reports the outcome the way the UI expects it
+ */
+const refundWithClient = async (client: RoutstrClient, apiKey?: string): Promise<UnifiedRefundResult> => {
+  try {
+    const result = await client.refund({ apiKey });
+    if (result.status === 'no_token') {
       return { success: true, message: 'No API key to refund' };
     }
-    
-    try {
-
-      const refundResult = await fetchRefundToken(baseUrl, storedToken);
-      
-      if (!refundResult.success) {
-        return {
-          success: false,
-          message: refundResult.error || 'Refund failed',
-          requestId: refundResult.requestId
-        };
-      }
-      
-      if (!refundResult.token) {
-        return {
-          success: false,
-          message: 'No token received from refund',
-          requestId: refundResult.requestId
-        };
-      }
-      
-      const proofs = await receiveTokenFn(refundResult.token);
-      const totalAmount = proofs.reduce((sum: number, p: any) => sum + p.amount, 0);
-      if (!apiKey) {
-        invalidateApiToken(baseUrl); // Pass baseUrl
-      }
-      
-      return {
-        success: true,
-        refundedAmount: totalAmount,
-        requestId: refundResult.requestId
-      };
-    } catch (error) {
-      if (usingNip60) {
-        if (error instanceof Error && error.message.includes("NetworkError when attempting to fetch resource.")) {
-          return {
-            success: false,
-            message: "Failed to connect to the mint: " + ((error as any).mintUrl || mintUrl)
-          }
-        }
-        else if (error instanceof Error && error.message.includes("Wallet not found")) {
-          return {
-            success: false,
-            message: "Wallet couldn't be loaded. Pls save this refunded cashu token: " + ((error as any).token)
-          }
-        }
-      }
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : 'Refund failed'
-      };
+    if (result.status === 'no_balance') {
+      return { success: true, refundedAmount: 0, message: 'No balance to refund', requestId: result.requestId };
     }
-  } else {
-    return await refundRemainingBalance(mintUrl, baseUrl, apiKey);
+    return {
+      success: true,
+      refundedAmount: result.refundedAmount,
+      message: 'Refund completed successfully',
+      requestId: result.requestId
+    };
+  } catch (error) {
+    console.error("Error refunding balance:", error);
+    const cause = error instanceof RoutstrError ? error.cause : error;
+    if (isNetworkError(cause) && (cause as any).mintUrl) {
+      const message = "Failed to connect to the mint: " + (cause as any).mintUrl;
+      return { success: false, message, error: new RefundFailedError(message, { baseUrl: client.baseUrl, cause }) };
+    }
+    if (cause instanceof Error && cause.message.includes("Wallet not found")) {
+      const message = "Wallet couldn't be loaded. Pls save this refunded cashu token: " + ((cause as any).token);
+      return { success: false, message, error: new RefundFailedError(message, { baseUrl: client.baseUrl, cause }) };
+    }
+    if (error instanceof RoutstrError) {
+      return { success: false, message: error.message, requestId: error.requestId, error };
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error occurred during refund';
+    return { success: false, message, error: new RefundFailedError(message, { baseUrl: client.baseUrl, cause: error }) };
+  }
+};
+
+/**
+ * Sats carried by an encoded token
+ * @param token The encoded token
+ * @returns The sum of its proofs in sats, 0 for an undecodable token
+ */
+export const getTokenAmountInSats = (token: string): number => {
+  try {
+    const decodedToken = getDecodedToken(token);
+    const msatOrSat = decodedToken.unit === 'msat' ? 1000 : 1;
+    return decodedToken.proofs.reduce((sum, proof) => sum + proof.amount, 0) / msatOrSat;
+  } catch (error) {
+    console.error('Error decoding cashu token:', error);
+    return 0;
   }
 };
 
@@ -491,3 +412,47 @@ export const getPendingCashuTokenAmount = (): number => {
   });
   return totalPendingAmount;
 };
+
+/** A token the app holds for a provider, whose unused balance can be refunded */
+export interface HotToken {
+  baseUrl: string;
+  /** Sats the token carried when it was sent, before anything was spent from it */
+  lockedAmount: number;
+}
+
+/**
+ * Lists the providers holding one of our tokens
+ * @returns One entry per provider with a non-empty token, largest first
+ */
+export const getHotTokens = (): HotToken[] => {
+  const amounts: Record<string, number> = {};
+  getLocalCashuTokens().forEach((entry: CashuTokenEntry) => {
+    try {
+      const decoded = getDecodedToken(entry.token);
+      const unitDivisor = decoded.unit === 'msat' ? 1000 : 1;
+      const sum = decoded.proofs.reduce((total: number, proof: { amount: number }) => total + proof.amount / unitDivisor, 0);
+      if (sum > 0) {
+        amounts[entry.baseUrl] = (amounts[entry.baseUrl] || 0) + sum;
+      }
+    } catch {
+      // Malformed tokens cannot be refunded either
+    }
+  });
+  return Object.entries(amounts)
+    .map(([baseUrl, amount]) => ({ baseUrl, lockedAmount: Math.round(amount) }))
+    .sort((a, b) => b.lockedAmount - a.lockedAmount);
+};
+
+/**
+ * Reads what is left on our token at a provider through v1/wallet/info, without refunding it
+ * @param mintUrl The Cashu mint URL
+ * @param baseUrl The provider holding the token
+ * @returns The balance in sats; 0 once the token is used up, which also forgets it
+ * @throws RoutstrError carrying the provider's request id when the provider rejects the query
+ */
+export const fetchProviderTokenBalance = async (mintUrl: string, baseUrl: string): Promise<number> => {
+  const client = createBrowserRoutstrClient(baseUrl, { mintUrl, usingNip60: false });
+  const { provider } = await client.balance();
+  return provider / MSATS_PER_SAT;
+};
+
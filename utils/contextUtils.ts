@@ -0,0 +1,136 @@
+import { Model } from '@/data/models';
+import { Message, MessageContextInfo } from '@/types/chat';
+import { estimateFileTokens, FALLBACK_CHARS_PER_TOKEN } from './tokenizerUtils';
+
+// Context planning runs before the model's tokenizer may have loaded, so it sticks to the conservative ratio
+const CHARS_PER_TOKEN = FALLBACK_CHARS_PER_TOKEN;
+// Images are billed per tile by most providers; their base64 payload says nothing about tokens
+const IMAGE_TOKENS = 1000;
+// Role and separator tokens every message adds on top of its content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Completion room kept free when neither max_tokens nor a provider limit is known
+const DEFAULT_COMPLETION_RESERVE = 4096;
+
+/** Tokens kept free in the prompt for the summary of excluded messages */
+export const CONTEXT_SUMMARY_MAX_TOKENS = 512;
+
+/**
+ * Approximate prompt tokens of a single message
+ * @param message The message as stored in the conversation
+ * @returns Estimated token count
+ */
+export const estimateMessageTokens = (message: Message): number => {
+  let chars = 0;
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof message.content === 'string') {
+    chars += message.content.length;
+  } else {
+    for (const part of message.content) {
+      if (part.type === 'image_url') {
+        tokens += IMAGE_TOKENS;
+      } else if (part.type === 'file') {
+        tokens += estimateFileTokens(part.file?.file_data ?? '');
+      } else {
+        chars += part.text?.length ?? 0;
+      }
+    }
+  }
+  if (message.tool_calls) {
+    chars += JSON.stringify(message.tool_calls).length;
+  }
+  return tokens + Math.ceil(chars / CHARS_PER_TOKEN);
+};
+
+/**
+ * Approximate prompt tokens of a list of messages
+ * @param messages Messages in conversation order
+ * @returns Estimated token count
+ */
+export const estimateMessagesTokens = (messages: Message[]): number => {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+};
+
+/**
+ * How many prompt tokens a request to this model may use
+ * @param model The model the request goes to
+ * @param maxTokens The conversation's completion cap, if set
+ * @param maxContextTokens The user's own cap on prompt tokens, if set
+ * @returns The prompt token limit, or null when nothing limits the prompt
+ */
+export const getPromptTokenLimit = (
+  model: Model | undefined | null,
+  maxTokens?: number,
+  maxContextTokens?: number
+): number | null => {
+  const limits: number[] = [];
+  const contextLength = model?.context_length;
+  if (typeof contextLength === 'number' && contextLength > 0) {
+    const completionReserve = maxTokens
+      ?? model?.per_request_limits?.completion_tokens
+      ?? Math.min(DEFAULT_COMPLETION_RESERVE, Math.floor(contextLength / 4));
+    limits.push(contextLength - completionReserve);
+  }
+  const promptLimit = model?.per_request_limits?.prompt_tokens;
+  if (typeof promptLimit === 'number' && promptLimit > 0) {
+    limits.push(promptLimit);
+  }
+  if (maxContextTokens && maxContextTokens > 0) {
+    limits.push(maxContextTokens);
+  }
+  return limits.length > 0 ? Math.max(0, Math.min(...limits)) : null;
+};
+
+/**
+ * Decides how many of the oldest messages have to be left out for the rest to fit.
+ * Only whole turns are dropped, so a turn always starts at a user message and tool results
+ * never lose the assistant message that requested them. The latest turn is always kept.
+ * @param messages The conversation's messages (error notices are ignored)
+ * @param tokenLimit Prompt token limit for the request
+ * @param reservedTokens Tokens already taken by the system prompt and summary
+ * @returns Number of leading messages to exclude; 0 when everything fits
+ */
+export const planContextWindow = (messages: Message[], tokenLimit: number, reservedTokens: number = 0): number => {
+  const tokens = messages.map(message => (message.role === 'error' ? 0 : estimateMessageTokens(message)));
+  let remaining = tokens.reduce((total, count) => total + count, 0);
+  if (remaining + reservedTokens <= tokenLimit) return 0;
+
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  let excludedCount = 0;
+  for (let index = 0; index < messages.length; index++) {
+    if (index > 0 && messages[index].role === 'user') {
+      excludedCount = index;
+      if (remaining + reservedTokens <= tokenLimit || index >= lastUserIndex) break;
+    }
+    remaining -= tokens[index];
+  }
+  return Math.min(excludedCount, Math.max(lastUserIndex, 0));
+};
+
+/**
+ * Finds the summary produced for the most recent request that summarized older messages
+ * @param messages The conversation's messages
+ * @returns That request's context info, or null if nothing was summarized yet
+ */
+export const getLatestContextSummary = (messages: Message[]): Required<MessageContextInfo> | null => {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const context = messages[index].context;
+    if (context?.summary) {
+      return { excludedCount: context.excludedCount, summary: context.summary };
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds the context info of the last answer that was produced without the full conversation
+ * @param messages The conversation's messages
+ * @returns The latest context info, or null if every answer saw the whole conversation
+ */
+export const getLatestContextInfo = (messages: Message[]): MessageContextInfo | null => {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].role === 'assistant') {
+      return messages[index].context ?? null;
+    }
+  }
+  return null;
+};
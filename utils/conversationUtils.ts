@@ -1,5 +1,6 @@
-import { Conversation, Message } from '@/types/chat';
+import { Conversation, GenerationParameters, Message, Persona } from '@/types/chat';
 import { getTextFromContent, stripImageDataFromMessages } from './messageUtils';
+import { MessageBranch, updateMessageTree } from './messageTreeUtils';
 
 const CONVERSATIONS_STORAGE_KEY = 'saved_conversations';
 const CONVERSATIONS_UPDATED_AT_KEY = 'saved_conversations_updated_at';
@@ -64,12 +65,14 @@ export const generateConversationTitle = (messages: Message[], fallbackTitle: st
  * @param conversations Current conversations array
  * @param activeConversationId ID of the conversation to save
  * @param messages Current messages in the conversation
+ * @param branch Set when the messages regenerate or edit a message, to keep what they replaced as a sibling branch
  * @returns Updated conversations array
  */
 export const saveConversationToStorage = (
   conversations: Conversation[],
   activeConversationId: string,
-  messages: Message[]
+  messages: Message[],
+  branch?: MessageBranch
 ): Conversation[] => {
   if (!activeConversationId) return conversations;
 
@@ -83,11 +86,13 @@ export const saveConversationToStorage = (
 
       // Strip image data from messages before saving
       const messagesToSave = stripImageDataFromMessages(messages);
+      const messageTree = updateMessageTree(conversation.messageTree, conversation.messages, messagesToSave, branch);
 
       return {
         ...conversation,
         title: title || conversation.title,
-        messages: messagesToSave
+        messages: messagesToSave,
+        ...(messageTree ? { messageTree } : {})
       };
     }
     return conversation;
@@ -97,6 +102,24 @@ export const saveConversationToStorage = (
   return updatedConversations;
 };
 
+/**
+ * Converts error notices saved by older versions, which used the 'system' role, to the 'error' role.
+ * Messages never carried real system prompts before personas, so every stored 'system' message is a notice.
+ * @param conversations Conversations as stored locally or synced from Nostr
+ * @returns Conversations with legacy error notices migrated
+ */
+export const migrateLegacyErrorMessages = (conversations: Conversation[]): Conversation[] => {
+  return conversations.map(conversation => {
+    if (!Array.isArray(conversation.messages) || !conversation.messages.some(m => m.role === 'system')) {
+      return conversation;
+    }
+    return {
+      ...conversation,
+      messages: conversation.messages.map(m => (m.role === 'system' ? { ...m, role: 'error' } : m))
+    };
+  });
+};
+
 /**
  * Loads conversations from localStorage
  * @returns Array of conversations or empty array if none found
@@ -110,7 +133,7 @@ export const loadConversationsFromStorage = (): Conversation[] => {
     const parsedConversations = JSON.parse(savedConversationsData);
     if (Array.isArray(parsedConversations)) {
       ensureUpdatedAtExists();
-      return parsedConversations;
+      return migrateLegacyErrorMessages(parsedConversations);
     }
   } catch (error) {
     console.error('Error loading conversations from storage:', error);
@@ -118,25 +141,45 @@ export const loadConversationsFromStorage = (): Conversation[] => {
   return [];
 };
 
+/**
+ * Conversation fields set by a persona; clears them when no persona is given
+ * @param persona The selected persona, if any
+ * @returns The persona id and a copy of its system prompt
+ */
+export const getPersonaFields = (persona?: Persona | null): Pick<Conversation, 'personaId' | 'systemPrompt'> => {
+  if (!persona) return { personaId: undefined, systemPrompt: undefined };
+  return {
+    personaId: persona.id,
+    systemPrompt: persona.systemPrompt.trim() || undefined
+  };
+};
+
 /**
  * Creates a new conversation
  * @param existingConversations Current conversations array
  * @param initialMessages Optional initial messages for the conversation
+ * @param options Optional generation parameters and persona for the conversation.
+ * The persona's system prompt is copied onto the conversation and its default parameters
+ * apply unless explicit parameters are given.
  * @returns Object with new conversation and updated conversations array
  */
 export const createNewConversation = (
   existingConversations: Conversation[],
-  initialMessages: Message[] = []
+  initialMessages: Message[] = [],
+  options: { parameters?: GenerationParameters; persona?: Persona } = {}
 ): {
   newConversation: Conversation;
   updatedConversations: Conversation[];
 } => {
   const newId = Date.now().toString();
   const messagesToStore = stripImageDataFromMessages(initialMessages);
+  const parameters = options.parameters ?? options.persona?.defaultParameters;
   const newConversation: Conversation = {
     id: newId,
     title: `Conversation ${existingConversations.length + 1}`,
-    messages: messagesToStore
+    messages: messagesToStore,
+    ...(parameters ? { parameters } : {}),
+    ...getPersonaFields(options.persona)
   };
 
   const updatedConversations = [...existingConversations, newConversation];
@@ -207,3 +250,33 @@ export const updateConversation = (
   persistConversationsSnapshot(updatedConversations);
   return updatedConversations;
 };
+
+
+/**
+ * Removes unset values so only parameters the user chose are sent to the provider
+ * @param parameters Generation parameters as edited in the UI
+ * @returns Parameters with empty values dropped, or undefined if none remain
+ */
+export const normalizeGenerationParameters = (
+  parameters?: GenerationParameters
+): GenerationParameters | undefined => {
+  if (!parameters) return undefined;
+  const normalized: GenerationParameters = {};
+  if (typeof parameters.temperature === 'number' && Number.isFinite(parameters.temperature)) {
+    normalized.temperature = parameters.temperature;
+  }
+  if (typeof parameters.max_tokens === 'number' && Number.isFinite(parameters.max_tokens) && parameters.max_tokens > 0) {
+    normalized.max_tokens = Math.floor(parameters.max_tokens);
+  }
+  if (typeof parameters.top_p === 'number' && Number.isFinite(parameters.top_p)) {
+    normalized.top_p = parameters.top_p;
+  }
+  const stop = (parameters.stop ?? []).filter(sequence => sequence.length > 0);
+  if (stop.length > 0) {
+    normalized.stop = stop;
+  }
+  if (parameters.reasoning_effort) {
+    normalized.reasoning_effort = parameters.reasoning_effort;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
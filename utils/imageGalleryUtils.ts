@@ -0,0 +1,114 @@
+import { GalleryImage, GeneratedImage } from '@/types/chat';
+
+/*
+ * Per-conversation gallery of generated images. Images are too large for localStorage, where
+ * conversations live, so they are kept in IndexedDB and stored conversations only reference them.
+ */
+
+const DB_NAME = 'routstr_image_gallery';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+const CONVERSATION_INDEX = 'conversationId';
+
+// Dispatched on window after the gallery changed; detail.conversationId names the affected conversation
+export const GALLERY_UPDATED_EVENT = 'routstr:gallery-updated';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openGallery = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(CONVERSATION_INDEX, CONVERSATION_INDEX);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openGallery();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyGalleryUpdated = (conversationId: string | null): void => {
+  window.dispatchEvent(new CustomEvent(GALLERY_UPDATED_EVENT, { detail: { conversationId } }));
+};
+
+/**
+ * Adds generated images to the gallery of a conversation
+ * @param conversationId Conversation the images were generated in
+ * @param images The images; ones without a URL are skipped
+ */
+export const saveGalleryImages = async (conversationId: string, images: GeneratedImage[]): Promise<void> => {
+  const entries = images.filter((image): image is GeneratedImage & { url: string } => !!image.url);
+  if (entries.length === 0) return;
+  await runTransaction('readwrite', store => {
+    for (const image of entries) {
+      store.put({ ...image, conversationId } satisfies GalleryImage);
+    }
+  });
+  notifyGalleryUpdated(conversationId);
+};
+
+/**
+ * Loads the gallery of a conversation
+ * @param conversationId The conversation
+ * @returns Its images, oldest first
+ */
+export const loadGalleryImages = async (conversationId: string): Promise<GalleryImage[]> => {
+  const images = await runTransaction<GalleryImage[]>('readonly', store =>
+    store.index(CONVERSATION_INDEX).getAll(IDBKeyRange.only(conversationId))
+  );
+  return (images ?? []).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Removes one image from its gallery
+ * @param image The image to remove
+ */
+export const deleteGalleryImage = async (image: GalleryImage): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(image.id));
+  notifyGalleryUpdated(image.conversationId);
+};
+
+/**
+ * Removes the gallery of a deleted conversation
+ * @param conversationId The conversation
+ */
+export const deleteConversationGallery = async (conversationId: string): Promise<void> => {
+  await runTransaction('readwrite', store => {
+    const cursorRequest = store.index(CONVERSATION_INDEX).openKeyCursor(IDBKeyRange.only(conversationId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+  notifyGalleryUpdated(conversationId);
+};
+
+/**
+ * Removes the galleries of all conversations
+ */
+export const clearGalleries = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+  notifyGalleryUpdated(null);
+};
@@ -0,0 +1,98 @@
+import type { GeneratedImage } from '@/types/chat';
+
+/*
+ * Image outputs. Models that answer with text and images are asked through chat completions with
+ * `modalities`; models that only output images go through /v1/images/generations.
+ */
+
+export type ImageOutputMode = 'chat' | 'endpoint';
+
+// Images requested per prompt from /v1/images/generations
+export const IMAGES_PER_REQUEST = 1;
+
+/**
+ * Tells how a model returns images
+ * @param model The model of the request
+ * @returns 'chat' for text and image models, 'endpoint' for image-only models, null for models without image output
+ */
+export const getImageOutputMode = (model: any): ImageOutputMode | null => {
+  const outputs: string[] = (model?.architecture?.output_modalities ?? []).map((value: unknown) => String(value).toLowerCase());
+  if (!outputs.includes('image')) return null;
+  return outputs.includes('text') ? 'chat' : 'endpoint';
+};
+
+/**
+ * Request fields that ask a chat completion for images next to the text
+ * @returns Fields to merge into the request body
+ */
+export const getImageModalitiesRequestFields = (): Record<string, unknown> => {
+  return { modalities: ['image', 'text'] };
+};
+
+/**
+ * Sats a request pays for images at the model's sats_pricing.image, for image inputs and generated images alike
+ * @param model The model of the request
+ * @param count Number of images
+ * @returns The image cost in sats
+ */
+export const getImageCost = (model: any, count: number): number => {
+  const price = model?.sats_pricing?.image;
+  return typeof price === 'number' && price > 0 ? price * count : 0;
+};
+
+/**
+ * Reads the images of a streamed delta or a complete chat message
+ * @param source The delta or message; images are in its `images` array as image_url parts
+ * @returns The image URLs, in order
+ */
+export const readImageOutputs = (source: unknown): string[] => {
+  const images = (source as { images?: unknown } | null | undefined)?.images;
+  if (!Array.isArray(images)) return [];
+  return images
+    .map(image => image?.image_url?.url ?? image?.url)
+    .filter((url): url is string => typeof url === 'string' && url.length > 0);
+};
+
+/**
+ * Reads a /v1/images/generations response
+ * @param data The parsed response body
+ * @returns URLs of the images (base64 results become data: URLs) with the provider's revised prompts
+ */
+export const readImageGenerationResponse = (data: any): { url: string; revisedPrompt?: string }[] => {
+  if (!Array.isArray(data?.data)) return [];
+  const mimeType = `image/${typeof data.output_format === 'string' ? data.output_format : 'png'}`;
+  return data.data
+    .map((entry: any) => {
+      const url = typeof entry?.b64_json === 'string' && entry.b64_json
+        ? `data:${mimeType};base64,${entry.b64_json}`
+        : typeof entry?.url === 'string' ? entry.url : '';
+      return {
+        url,
+        ...(typeof entry?.revised_prompt === 'string' && entry.revised_prompt ? { revisedPrompt: entry.revised_prompt } : {})
+      };
+    })
+    .filter((image: { url: string }) => image.url);
+};
+
+/**
+ * Wraps image URLs returned for a prompt into generated image records
+ * @param images URLs and revised prompts, as read from the response
+ * @param prompt The prompt the images were generated from
+ * @param model Id of the model that generated them
+ * @returns The records, ready to be attached to the answer
+ */
+export const createGeneratedImages = (
+  images: { url: string; revisedPrompt?: string }[],
+  prompt: string,
+  model: string
+): GeneratedImage[] => {
+  const createdAt = Date.now();
+  return images.map(({ url, revisedPrompt }) => ({
+    id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    url,
+    prompt,
+    model,
+    ...(revisedPrompt ? { revisedPrompt } : {}),
+    createdAt
+  }));
+};
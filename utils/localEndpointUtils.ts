@@ -0,0 +1,200 @@
+import { Model } from '@/data/models';
+import { LocalEndpointLogEntry } from '@/types/chat';
+import { loadLocalEndpointLog, saveLocalEndpointLog } from './storageUtils';
+import { getAlternativeProviders, getProviderHost, normalizeBaseUrl, parseModelKey } from './modelUtils';
+
+/*
+ * Tools on this machine reach the app's OpenAI-compatible API through the bridge in
+ * scripts/local-api-bridge.js, since a web page cannot listen on a port. While the endpoint is on,
+ * the app long-polls the bridge for /v1/chat/completions and /v1/models requests, answers them with
+ * its wallet and posts the response back in order. Both sides authenticate with the local key.
+ */
+
+/** Where `npm run local-api` listens unless started with --port */
+export const DEFAULT_LOCAL_BRIDGE_URL = 'http://127.0.0.1:8788';
+
+// Oldest entries are dropped beyond this
+const MAX_LOG_ENTRIES = 200;
+
+export interface LocalEndpointRequest {
+  /** Id the bridge expects the replies under */
+  id: string;
+  method: string;
+  path: string;
+  /** The Authorization header the tool sent */
+  authorization: string | null;
+  body: string;
+}
+
+/**
+ * Replies posted back to the bridge: 'head', any number of 'chunk's and 'end'
+ */
+export type LocalEndpointReply =
+  | { type: 'head'; status: number; contentType: string }
+  | { type: 'chunk'; chunk: string }
+  | { type: 'end' };
+
+/**
+ * Generates a key local tools send as their OpenAI API key
+ * @returns A random key prefixed with sk-routstr-local-
+ */
+export const generateLocalApiKey = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `sk-routstr-local-${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * Command that starts the bridge for a key, with the port when it differs from the default
+ * @param apiKey The local key
+ * @param bridgeUrl Where the app expects the bridge
+ * @returns The shell command to run in the app's checkout
+ */
+export const getLocalBridgeCommand = (apiKey: string, bridgeUrl: string): string => {
+  const port = new URL(bridgeUrl).port;
+  const defaultPort = new URL(DEFAULT_LOCAL_BRIDGE_URL).port;
+  return `npm run local-api -- --key ${apiKey}${port && port !== defaultPort ? ` --port ${port}` : ''}`;
+};
+
+/**
+ * Waits for the next tool request queued at the bridge
+ * @param bridgeUrl Bridge URL
+ * @param apiKey The local key the bridge was started with
+ * @param signal Aborts the poll
+ * @returns The request, or null if none arrived while the poll was held open
+ * @throws If the bridge is not running or was started with another key
+ */
+export const pollLocalBridge = async (bridgeUrl: string, apiKey: string, signal: AbortSignal): Promise<LocalEndpointRequest | null> => {
+  let response: Response;
+  try {
+    response = await fetch(`${bridgeUrl}/bridge/requests`, { headers: { Authorization: `Bearer ${apiKey}` }, signal });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new Error(`No bridge is running at ${bridgeUrl}. Start it with the command below.`);
+  }
+  if (response.status === 204) return null;
+  if (response.status === 401) {
+    throw new Error('The bridge was started with another key. Restart it with the command below.');
+  }
+  if (!response.ok) {
+    throw new Error(`The bridge answered ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Sends replies for one request to the bridge, in order, batching those that pile up while a post is in flight
+ * @param bridgeUrl Bridge URL
+ * @param apiKey The local key
+ * @param requestId Id of the request being answered
+ * @param onCancel Called once if the tool hung up, so the provider request can be stopped
+ * @returns Function queueing a reply
+ */
+export const createLocalBridgeReplier = (
+  bridgeUrl: string,
+  apiKey: string,
+  requestId: string,
+  onCancel: () => void
+): ((reply: LocalEndpointReply) => void) => {
+  let queued: LocalEndpointReply[] = [];
+  let sending = false;
+  let cancelled = false;
+
+  const flush = async () => {
+    sending = true;
+    while (queued.length > 0 && !cancelled) {
+      const batch = queued;
+      queued = [];
+      try {
+        const response = await fetch(`${bridgeUrl}/bridge/requests/${encodeURIComponent(requestId)}`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+          body: JSON.stringify(batch)
+        });
+        if (response.status === 410) {
+          cancelled = true;
+          onCancel();
+        }
+      } catch (error) {
+        console.error('Could not send a local API reply to the bridge:', error);
+        cancelled = true;
+        onCancel();
+      }
+    }
+    sending = false;
+  };
+
+  return (reply) => {
+    if (cancelled) return;
+    queued.push(reply);
+    if (!sending) void flush();
+  };
+};
+
+/**
+ * Builds an OpenAI-style error body
+ * @param message Human readable message
+ * @param code Machine readable code, e.g. invalid_api_key
+ * @param type OpenAI error type
+ * @returns The JSON body
+ */
+export const createOpenAiError = (message: string, code: string, type: string = 'invalid_request_error'): string => {
+  return JSON.stringify({ error: { message, type, code } });
+};
+
+/**
+ * Lists the app's models in the OpenAI /v1/models format
+ * @param models Models the app offers, one per id
+ * @param modelProviderMap Provider pinned per model id
+ * @returns The JSON body
+ */
+export const createModelList = (models: readonly Model[], modelProviderMap: Record<string, string>): string => {
+  return JSON.stringify({
+    object: 'list',
+    data: models.map(model => ({
+      id: model.id,
+      object: 'model',
+      created: model.created,
+      owned_by: modelProviderMap[model.id] ? getProviderHost(modelProviderMap[model.id]) : 'routstr'
+    }))
+  });
+};
+
+/**
+ * Picks the provider and its model entry for a requested model.
+ * `id@@baseUrl` selects a provider explicitly; otherwise the provider pinned in modelProviderMap is used,
+ * then the cheapest one serving the model, then the app's current one.
+ * @param modelKey Model id from the request
+ * @param models Models the app offers, one per id
+ * @param modelProviderMap Provider pinned per model id
+ * @param fallbackBaseUrl The app's current provider
+ * @returns Model and provider, or null if the model is unknown
+ */
+export const resolveLocalEndpointRoute = (
+  modelKey: string,
+  models: readonly Model[],
+  modelProviderMap: Record<string, string>,
+  fallbackBaseUrl: string
+): { model: Model; baseUrl: string } | null => {
+  const { id, base } = parseModelKey(modelKey);
+  // Prices differ per provider, so the chosen provider's own entry is used for the token estimate
+  const providers = getAlternativeProviders(id);
+  const pinnedBaseUrl = normalizeBaseUrl(base) || normalizeBaseUrl(modelProviderMap[id]);
+  const pinned = pinnedBaseUrl ? providers.find(provider => provider.baseUrl === pinnedBaseUrl) : undefined;
+  if (pinned) return pinned;
+  if (providers.length > 0) return providers[0];
+
+  const model = models.find(entry => entry.id === id);
+  const baseUrl = pinnedBaseUrl || normalizeBaseUrl(fallbackBaseUrl);
+  return model && baseUrl ? { model, baseUrl } : null;
+};
+
+/**
+ * Appends a served request to the usage log
+ * @param entry The request, without id and timestamp
+ * @returns The updated log, oldest first
+ */
+export const recordLocalEndpointRequest = (entry: Omit<LocalEndpointLogEntry, 'id' | 'timestamp'>): LocalEndpointLogEntry[] => {
+  const log = [...loadLocalEndpointLog(), { ...entry, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`, timestamp: Date.now() }].slice(-MAX_LOG_ENTRIES);
+  saveLocalEndpointLog(log);
+  return log;
+};
@@ -0,0 +1,178 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { McpServerConfig, ToolCall } from '@/types/chat';
+
+/**
+ * Tool definition in the OpenAI-compatible `tools` request format
+ */
+export interface ChatCompletionTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/**
+ * Tools advertised to the model, with a lookup from function name back to the MCP server
+ */
+export interface McpToolSet {
+  tools: ChatCompletionTool[];
+  toolIndex: Record<string, { serverId: string; toolName: string }>;
+}
+
+// Function names must match ^[a-zA-Z0-9_-]{1,64}$ for OpenAI-compatible providers
+const MAX_FUNCTION_NAME_LENGTH = 64;
+
+const clients = new Map<string, Promise<Client>>();
+
+const getClientKey = (server: McpServerConfig): string => `${server.id}|${server.transport}|${server.url}`;
+
+const sanitizeName = (name: string): string => name.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+/**
+ * Builds the function name advertised to the model for an MCP tool.
+ * Tools are prefixed with the server name so two servers can expose the same tool.
+ */
+export const buildFunctionName = (serverName: string, toolName: string): string => {
+  return `${sanitizeName(serverName)}__${sanitizeName(toolName)}`.slice(0, MAX_FUNCTION_NAME_LENGTH);
+};
+
+/**
+ * Connects to an MCP server, reusing an existing connection when possible
+ * @param server The MCP server configuration
+ * @returns A connected MCP client
+ */
+export const getMcpClient = async (server: McpServerConfig): Promise<Client> => {
+  const key = getClientKey(server);
+  const existing = clients.get(key);
+  if (existing) return existing;
+
+  const connecting = (async () => {
+    const client = new Client({ name: 'routstr-chat', version: '0.1.0' });
+    const url = new URL(server.url);
+    const transport = server.transport === 'sse'
+      ? new SSEClientTransport(url)
+      : new StreamableHTTPClientTransport(url);
+    await client.connect(transport);
+    return client;
+  })();
+
+  clients.set(key, connecting);
+  try {
+    return await connecting;
+  } catch (error) {
+    clients.delete(key);
+    throw error;
+  }
+};
+
+/**
+ * Closes and forgets the connection to an MCP server
+ * @param server The MCP server configuration
+ */
+export const disconnectMcpServer = async (server: McpServerConfig): Promise<void> => {
+  const key = getClientKey(server);
+  const existing = clients.get(key);
+  clients.delete(key);
+  if (!existing) return;
+  try {
+    const client = await existing;
+    await client.close();
+  } catch (error) {
+    console.error(`Error closing MCP server ${server.name}:`, error);
+  }
+};
+
+/**
+ * Lists the tools exposed by one MCP server
+ * @param server The MCP server configuration
+ * @returns The server's tools with name, description and input schema
+ */
+export const listMcpServerTools = async (server: McpServerConfig): Promise<{ name: string; description?: string; inputSchema: Record<string, unknown> }[]> => {
+  const client = await getMcpClient(server);
+  const { tools } = await client.listTools();
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema as Record<string, unknown>
+  }));
+};
+
+/**
+ * Collects tools from all enabled MCP servers in the completion request format.
+ * Servers that fail to connect are skipped so one broken server does not block the chat.
+ * @param servers Registered MCP servers
+ * @returns Tools to advertise and the index to route tool calls back to their server
+ */
+export const getMcpToolSet = async (servers: McpServerConfig[]): Promise<McpToolSet> => {
+  const toolSet: McpToolSet = { tools: [], toolIndex: {} };
+  const enabledServers = servers.filter(server => server.enabled);
+
+  const results = await Promise.allSettled(
+    enabledServers.map(async server => ({ server, tools: await listMcpServerTools(server) }))
+  );
+
+  for (const result of results) {
+    if (result.status !== 'fulfilled') {
+      console.error('Failed to list MCP tools:', result.reason);
+      continue;
+    }
+    const { server, tools } = result.value;
+    for (const tool of tools) {
+      const functionName = buildFunctionName(server.name, tool.name);
+      if (toolSet.toolIndex[functionName]) continue;
+      toolSet.toolIndex[functionName] = { serverId: server.id, toolName: tool.name };
+      toolSet.tools.push({
+        type: 'function',
+        function: {
+          name: functionName,
+          description: tool.description,
+          parameters: tool.inputSchema ?? { type: 'object', properties: {} }
+        }
+      });
+    }
+  }
+
+  return toolSet;
+};
+
+/**
+ * Runs a tool call requested by the model through the MCP client that owns the tool
+ * @param toolCall The tool call from the assistant message
+ * @param toolSet The tool set that was advertised in the request
+ * @param servers Registered MCP servers
+ * @returns The tool output as text; failures are returned as text so the model can react to them
+ */
+export const executeMcpToolCall = async (
+  toolCall: ToolCall,
+  toolSet: McpToolSet,
+  servers: McpServerConfig[]
+): Promise<string> => {
+  const target = toolSet.toolIndex[toolCall.function.name];
+  const server = target ? servers.find(s => s.id === target.serverId) : undefined;
+  if (!target || !server) {
+    return `Error: unknown tool "${toolCall.function.name}"`;
+  }
+
+  let args: Record<string, unknown> = {};
+  try {
+    args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+  } catch {
+    return `Error: invalid JSON arguments for tool "${toolCall.function.name}"`;
+  }
+
+  try {
+    const client = await getMcpClient(server);
+    const result = await client.callTool({ name: target.toolName, arguments: args });
+    const parts = Array.isArray(result.content) ? result.content : [];
+    const text = parts
+      .map((part: any) => (part?.type === 'text' ? part.text : JSON.stringify(part)))
+      .join('\n');
+    return result.isError ? `Error: ${text}` : text;
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : 'Tool call failed'}`;
+  }
+};
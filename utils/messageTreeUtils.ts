@@ -0,0 +1,203 @@
+import { Message, MessageTree, MessageTreeNode } from '@/types/chat';
+
+export interface BranchInfo {
+  /** 1-based position of the message among its siblings */
+  current: number;
+  total: number;
+}
+
+/** Why a message list was rewritten from some index on; only these updates start a new branch */
+export interface MessageBranch {
+  /** A retried answer or an edited message */
+  kind: 'regenerate' | 'edit';
+  /** Index of the first message of the new branch */
+  index: number;
+}
+
+const isSameMessage = (a: Message, b: Message): boolean => {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Nodes are never deleted, only detached, so the node count is a unique id within the tree
+const nextNodeId = (tree: MessageTree): string => `m${Object.keys(tree.nodes).length}`;
+
+/**
+ * Appends a chain of messages below a parent node (or at the root level) and makes it the active branch.
+ * Mutates the given tree, which callers create as a copy.
+ */
+const appendChain = (tree: MessageTree, parentId: string | null, messages: Message[]): void => {
+  let currentParentId = parentId;
+  for (const message of messages) {
+    const id = nextNodeId(tree);
+    tree.nodes[id] = { id, parentId: currentParentId, message, childIds: [] };
+    if (currentParentId === null) {
+      tree.rootIds = [...tree.rootIds, id];
+    } else {
+      const parent = tree.nodes[currentParentId];
+      tree.nodes[currentParentId] = { ...parent, childIds: [...parent.childIds, id], activeChildId: id };
+    }
+    currentParentId = id;
+  }
+  tree.activeLeafId = currentParentId;
+};
+
+/**
+ * Builds a single-branch tree from a linear message list
+ * @param messages Messages in conversation order
+ * @returns A tree whose active path is the given messages
+ */
+export const buildMessageTree = (messages: Message[]): MessageTree => {
+  const tree: MessageTree = { nodes: {}, rootIds: [], activeLeafId: null };
+  appendChain(tree, null, messages);
+  return tree;
+};
+
+/**
+ * Node ids on the active path, root first
+ * @param tree The message tree
+ * @returns Ids from the root to the active leaf
+ */
+export const getActivePathIds = (tree: MessageTree): string[] => {
+  const ids: string[] = [];
+  let currentId = tree.activeLeafId;
+  while (currentId !== null && tree.nodes[currentId]) {
+    ids.unshift(currentId);
+    currentId = tree.nodes[currentId].parentId;
+  }
+  return ids;
+};
+
+/**
+ * Records a new linear message list against the tree.
+ * Without a branch, the list replaces the active path in place: changed messages (merged continuations,
+ * citations, images, metadata) are updated where they are, new ones are appended and dropped ones are detached.
+ * A branch keeps the path before its index and starts a sibling there; a shortened list (retry/edit before the
+ * new answer arrives) moves the active leaf back so the next answer becomes that sibling.
+ * A tree is only created once a conversation actually branches.
+ * @param tree The existing tree, if the conversation has branched before
+ * @param previousMessages The conversation's messages before this update
+ * @param nextMessages The conversation's new messages
+ * @param branch Set when the update regenerates or edits a message
+ * @returns The updated tree, or undefined while the conversation is still linear
+ */
+export const updateMessageTree = (
+  tree: MessageTree | undefined,
+  previousMessages: Message[],
+  nextMessages: Message[],
+  branch?: MessageBranch
+): MessageTree | undefined => {
+  if (!tree) {
+    if (!branch) return undefined;
+    tree = buildMessageTree(previousMessages);
+  }
+
+  const pathIds = getActivePathIds(tree);
+  const keptCount = Math.min(branch?.index ?? Infinity, pathIds.length, nextMessages.length);
+  const updatedTree: MessageTree = { ...tree, nodes: { ...tree.nodes }, rootIds: [...tree.rootIds] };
+  let changed = false;
+  for (let index = 0; index < keptCount; index++) {
+    const node = updatedTree.nodes[pathIds[index]];
+    if (!isSameMessage(node.message, nextMessages[index])) {
+      updatedTree.nodes[node.id] = { ...node, message: nextMessages[index] };
+      changed = true;
+    }
+  }
+
+  if (branch) {
+    const parentId = keptCount > 0 ? pathIds[keptCount - 1] : null;
+    if (nextMessages.length > keptCount) {
+      appendChain(updatedTree, parentId, nextMessages.slice(keptCount));
+    } else {
+      updatedTree.activeLeafId = parentId;
+    }
+    return updatedTree;
+  }
+
+  if (nextMessages.length > pathIds.length) {
+    appendChain(updatedTree, pathIds[pathIds.length - 1] ?? null, nextMessages.slice(pathIds.length));
+    return updatedTree;
+  }
+
+  if (nextMessages.length < pathIds.length) {
+    // Detached nodes stay in the map but are no longer reachable, so they never show up as variants
+    const detachedId = pathIds[nextMessages.length];
+    const parentId = updatedTree.nodes[detachedId].parentId;
+    if (parentId === null) {
+      updatedTree.rootIds = updatedTree.rootIds.filter(id => id !== detachedId);
+    } else {
+      const parent = updatedTree.nodes[parentId];
+      updatedTree.nodes[parentId] = {
+        ...parent,
+        childIds: parent.childIds.filter(id => id !== detachedId),
+        activeChildId: undefined
+      };
+    }
+    updatedTree.activeLeafId = parentId;
+    return updatedTree;
+  }
+
+  return changed ? updatedTree : tree;
+};
+
+// Error notices replaced by a retry are kept in the tree but are not offered as variants
+const getSiblingIds = (tree: MessageTree, node: MessageTreeNode): string[] => {
+  const siblingIds = node.parentId === null ? tree.rootIds : tree.nodes[node.parentId]?.childIds ?? [];
+  return siblingIds.filter(id => id === node.id || tree.nodes[id]?.message.role !== 'error');
+};
+
+/**
+ * Sibling position of every message on the active path
+ * @param tree The message tree, if any
+ * @param messageCount Number of messages on the active path
+ * @returns Branch info per message index, null where a message has no alternatives
+ */
+export const getBranchInfo = (tree: MessageTree | undefined, messageCount: number): (BranchInfo | null)[] => {
+  const info: (BranchInfo | null)[] = new Array(messageCount).fill(null);
+  if (!tree) return info;
+  getActivePathIds(tree).slice(0, messageCount).forEach((id, index) => {
+    const siblings = getSiblingIds(tree, tree.nodes[id]);
+    if (siblings.length > 1) {
+      info[index] = { current: siblings.indexOf(id) + 1, total: siblings.length };
+    }
+  });
+  return info;
+};
+
+/**
+ * Switches the message at a path index to one of its siblings, following that branch to its last visited leaf
+ * @param tree The message tree
+ * @param messageIndex Index of the message on the active path
+ * @param offset -1 for the previous variant, 1 for the next
+ * @returns The updated tree and the new active path messages, or null if there is nothing to switch to
+ */
+export const switchMessageBranch = (
+  tree: MessageTree,
+  messageIndex: number,
+  offset: number
+): { tree: MessageTree; messages: Message[] } | null => {
+  const nodeId = getActivePathIds(tree)[messageIndex];
+  if (!nodeId) return null;
+  const node = tree.nodes[nodeId];
+  const siblings = getSiblingIds(tree, node);
+  const targetId = siblings[siblings.indexOf(nodeId) + offset];
+  if (!targetId) return null;
+
+  const updatedTree: MessageTree = { ...tree, nodes: { ...tree.nodes } };
+  if (node.parentId !== null) {
+    updatedTree.nodes[node.parentId] = { ...tree.nodes[node.parentId], activeChildId: targetId };
+  }
+
+  let leafId = targetId;
+  while (true) {
+    const leaf = updatedTree.nodes[leafId];
+    const nextId = leaf.activeChildId ?? leaf.childIds[leaf.childIds.length - 1];
+    if (!nextId) break;
+    leafId = nextId;
+  }
+  updatedTree.activeLeafId = leafId;
+
+  return {
+    tree: updatedTree,
+    messages: getActivePathIds(updatedTree).map(id => updatedTree.nodes[id].message)
+  };
+};
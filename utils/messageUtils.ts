@@ -1,4 +1,4 @@
-import { Message, MessageContent } from '@/types/chat';
+import { Message, MessageContent, MessageErrorDetails, ToolCall } from '@/types/chat';
 
 /**
  * Extracts text content from a message that can be either string or multimodal content
@@ -16,10 +16,17 @@ export const getTextFromContent = (content: string | MessageContent[]): string =
  * @param message The message to convert
  * @returns Object with role and content for API consumption
  */
-export const convertMessageForAPI = (message: Message): { role: string; content: string | MessageContent[] } => {
+export const convertMessageForAPI = (message: Message): {
+  role: string;
+  content: string | MessageContent[];
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+} => {
   return {
     role: message.role,
-    content: message.content
+    content: message.content,
+    ...(message.tool_calls && message.tool_calls.length > 0 ? { tool_calls: message.tool_calls } : {}),
+    ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {})
   };
 };
 
@@ -37,13 +44,45 @@ export const createTextMessage = (role: string, text: string): Message => {
 };
 
 /**
- * Creates a multimodal message with text and images
+ * Creates an error notice shown in the chat.
+ * Notices use their own role so they are never sent to the provider or mistaken for a system prompt.
+ * @param text The error text
+ * @param details Kind of failure and the action offered to the user, when known
+ * @returns A Message object with the error role
+ */
+export const createErrorMessage = (text: string, details?: MessageErrorDetails): Message => {
+  return {
+    role: 'error',
+    content: text,
+    ...(details ? { error: details } : {})
+  };
+};
+
+/**
+ * Creates a tool result message answering one of the assistant's tool calls
+ * @param toolCallId The id of the tool call being answered
+ * @param name The name of the tool that was called
+ * @param text The tool output as text
+ * @returns A Message object with the tool role
+ */
+export const createToolMessage = (toolCallId: string, name: string, text: string): Message => {
+  return {
+    role: 'tool',
+    content: text,
+    tool_call_id: toolCallId,
+    name
+  };
+};
+
+/**
+ * Creates a multimodal message with text, images and attached documents
  * @param role The message role (user, assistant, system)
  * @param text The text content
  * @param images Array of image URLs
+ * @param documentParts Content parts of attached documents
  * @returns A Message object with multimodal content
  */
-export const createMultimodalMessage = (role: string, text: string, images: string[]): Message => {
+export const createMultimodalMessage = (role: string, text: string, images: string[], documentParts: MessageContent[] = []): Message => {
   const content: MessageContent[] = [
     { type: 'text', text }
   ];
@@ -54,6 +93,7 @@ export const createMultimodalMessage = (role: string, text: string, images: stri
       image_url: { url: imageUrl }
     });
   });
+  content.push(...documentParts);
 
   return {
     role,
@@ -67,7 +107,11 @@ export const createMultimodalMessage = (role: string, text: string, images: stri
  * @returns Array of messages with image data removed
  */
 export const stripImageDataFromMessages = (messages: Message[]): Message[] => {
-  return messages.map(msg => {
+  return messages.map(message => {
+    // Generated images stay referenced; their data lives in the conversation's gallery
+    const msg = message.images
+      ? { ...message, images: message.images.map(({ url, ...image }) => (url && !url.startsWith('data:') ? { ...image, url } : image)) }
+      : message;
     if (Array.isArray(msg.content)) {
       const textContent = msg.content.filter(item => item.type === 'text');
       if (textContent.length === 0 && msg.content.some(item => item.type === 'image_url')) {
@@ -1,3 +1,7 @@
+import { Model } from '@/data/models';
+import { getStorageItem } from './storageUtils';
+import { getProviderReputation, getProviderReputations, ProviderReputation } from './providerReputationUtils';
+
 export function parseModelKey(key: string): { id: string; base: string | null } {
   const separatorIndex = key.indexOf('@@');
   if (separatorIndex === -1) {
@@ -11,3 +15,99 @@ export function normalizeBaseUrl(base?: string | null): string | null {
   const withProto = base.startsWith('http') ? base : `https://${base}`;
   return withProto.endsWith('/') ? withProto : `${withProto}/`;
 }
+
+/**
+ * Host part of a provider base URL, for display
+ * @param baseUrl Provider base URL
+ * @returns The host, or the input unchanged if it is not a valid URL
+ */
+export function getProviderHost(baseUrl: string): string {
+  try {
+    return new URL(baseUrl).host;
+  } catch {
+    return baseUrl;
+  }
+}
+
+/**
+ * Rough lower bound on what a request to this model costs, used to rank providers.
+ * Assumes a ~2000 token prompt plus the provider's maximum completion charge.
+ */
+export function estimateMinCost(m: Model): number {
+  try {
+    const sp: any = m?.sats_pricing || {};
+    const maxCompletion = typeof sp?.max_completion_cost === 'number' ? sp.max_completion_cost : undefined;
+    const maxCost = typeof sp?.max_cost === 'number' ? sp.max_cost : undefined;
+    if (typeof maxCompletion === 'number') {
+      const promptRate = typeof sp?.prompt === 'number' ? sp.prompt : 0;
+      const approxTokens = 2000;
+      const promptCosts = promptRate * approxTokens;
+      return promptCosts + maxCompletion;
+    }
+    if (typeof maxCost === 'number') return maxCost;
+    return 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Orders two providers' offers of the same model: providers de-prioritized for overcharging
+ * come last, otherwise the cheaper offer wins
+ * @param a First offer
+ * @param b Second offer
+ * @param reputations Provider reputations from the overcharge ledger
+ * @returns Negative if a should be preferred, positive if b should
+ */
+export function compareProviderOffers(
+  a: { baseUrl: string; model: Model },
+  b: { baseUrl: string; model: Model },
+  reputations: Record<string, ProviderReputation>
+): number {
+  const aPenalty = getProviderReputation(reputations, a.baseUrl)?.isDeprioritized ? 1 : 0;
+  const bPenalty = getProviderReputation(reputations, b.baseUrl)?.isDeprioritized ? 1 : 0;
+  return aPenalty - bPenalty || estimateMinCost(a.model) - estimateMinCost(b.model);
+}
+
+/**
+ * Lists the other providers that serve a model, cheapest first, from the last models fetch.
+ * Providers de-prioritized for overcharging are listed after all others.
+ * @param modelId The model id to look up
+ * @param excludeBaseUrls Providers that must not be returned (e.g. ones that already failed)
+ * @returns Provider base URLs with that provider's model entry
+ */
+export function getAlternativeProviders(
+  modelId: string,
+  excludeBaseUrls: Iterable<string> = []
+): { baseUrl: string; model: Model }[] {
+  const excluded = new Set(Array.from(excludeBaseUrls, url => normalizeBaseUrl(url)));
+  const allByProvider = getStorageItem<Record<string, Model[]>>('modelsFromAllProviders', {});
+  const candidates: { baseUrl: string; model: Model }[] = [];
+  for (const [base, list] of Object.entries(allByProvider || {})) {
+    const baseUrl = normalizeBaseUrl(base);
+    if (!baseUrl || excluded.has(baseUrl) || !Array.isArray(list)) continue;
+    const model = list.find(m => m?.id === modelId);
+    if (model) candidates.push({ baseUrl, model });
+  }
+  const reputations = getProviderReputations();
+  return candidates.sort((a, b) => compareProviderOffers(a, b, reputations));
+}
+
+/**
+ * Picks the cheapest text model a provider serves, e.g. for housekeeping requests like summaries
+ * @param baseUrl Provider base URL
+ * @param minContextLength Smallest context length the model must support
+ * @returns The cheapest matching model, or null if the provider's models are unknown
+ */
+export function getCheapestProviderModel(baseUrl: string, minContextLength: number = 0): Model | null {
+  const normalized = normalizeBaseUrl(baseUrl);
+  const allByProvider = getStorageItem<Record<string, Model[]>>('modelsFromAllProviders', {});
+  const entry = Object.entries(allByProvider || {}).find(([base]) => normalizeBaseUrl(base) === normalized);
+  const list = entry && Array.isArray(entry[1]) ? entry[1] : [];
+  const candidates = list.filter(m =>
+    m?.id &&
+    (m.context_length ?? 0) >= minContextLength &&
+    (m.architecture?.output_modalities ?? ['text']).includes('text')
+  );
+  return candidates.sort((a, b) => estimateMinCost(a) - estimateMinCost(b))[0] ?? null;
+}
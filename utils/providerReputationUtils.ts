@@ -0,0 +1,110 @@
+import { ProviderChargeEntry } from '@/types/chat';
+import { loadProviderDeviationThreshold, loadProviderLedger, saveProviderLedger } from './storageUtils';
+
+// Oldest entries are dropped beyond this, so the score follows a provider's recent behaviour
+const MAX_LEDGER_ENTRIES = 1000;
+
+/** Requests needed before a provider can be de-prioritized; a single odd charge says little */
+export const MIN_REQUESTS_FOR_REPUTATION = 5;
+
+export interface ProviderReputation {
+  baseUrl: string;
+  requestCount: number;
+  overchargeCount: number;
+  /** Share of requests that triggered an overcharge notice, 0-1 */
+  overchargeRate: number;
+  /** Mean of actual minus estimated cost, in sats */
+  averageDeviation: number;
+  /** Mean of actual minus estimated cost relative to the estimate, in percent */
+  averageDeviationPercent: number;
+  /** Whether the cheapest-provider selection skips this provider while others are available */
+  isDeprioritized: boolean;
+}
+
+const normalizeLedgerUrl = (baseUrl: string): string => {
+  const withProto = baseUrl.startsWith('http') ? baseUrl : `https://${baseUrl}`;
+  return withProto.endsWith('/') ? withProto : `${withProto}/`;
+};
+
+/**
+ * Records the estimated and actual cost of a completed request
+ * @param entry The charge, without timestamp
+ */
+export const recordProviderCharge = (entry: Omit<ProviderChargeEntry, 'timestamp'>): void => {
+  const ledger = loadProviderLedger();
+  ledger.push({ ...entry, baseUrl: normalizeLedgerUrl(entry.baseUrl), timestamp: Date.now() });
+  saveProviderLedger(ledger.slice(-MAX_LEDGER_ENTRIES));
+};
+
+/**
+ * Aggregates the ledger into a reputation per provider
+ * @param ledger Ledger entries; read from storage when omitted
+ * @param deviationThreshold Average overcharge in percent above which a provider is de-prioritized
+ * @returns Reputation keyed by normalized base URL
+ */
+export const getProviderReputations = (
+  ledger: ProviderChargeEntry[] = loadProviderLedger(),
+  deviationThreshold: number = loadProviderDeviationThreshold()
+): Record<string, ProviderReputation> => {
+  const totals: Record<string, { count: number; overcharged: number; deviation: number; ratio: number }> = {};
+  for (const entry of ledger) {
+    const total = totals[entry.baseUrl] ?? { count: 0, overcharged: 0, deviation: 0, ratio: 0 };
+    const deviation = entry.actualCost - entry.estimatedCost;
+    total.count++;
+    total.overcharged += entry.overcharged ? 1 : 0;
+    total.deviation += deviation;
+    total.ratio += entry.estimatedCost > 0 ? deviation / entry.estimatedCost : 0;
+    totals[entry.baseUrl] = total;
+  }
+
+  const reputations: Record<string, ProviderReputation> = {};
+  for (const [baseUrl, total] of Object.entries(totals)) {
+    const averageDeviationPercent = (total.ratio / total.count) * 100;
+    reputations[baseUrl] = {
+      baseUrl,
+      requestCount: total.count,
+      overchargeCount: total.overcharged,
+      overchargeRate: total.overcharged / total.count,
+      averageDeviation: total.deviation / total.count,
+      averageDeviationPercent,
+      isDeprioritized: total.count >= MIN_REQUESTS_FOR_REPUTATION && averageDeviationPercent > deviationThreshold
+    };
+  }
+  return reputations;
+};
+
+/**
+ * Looks up a provider's reputation
+ * @param reputations Reputations from getProviderReputations
+ * @param baseUrl Provider base URL in any form
+ * @returns The reputation, or undefined if the provider has no recorded requests
+ */
+export const getProviderReputation = (
+  reputations: Record<string, ProviderReputation>,
+  baseUrl: string | null | undefined
+): ProviderReputation | undefined => {
+  return baseUrl ? reputations[normalizeLedgerUrl(baseUrl)] : undefined;
+};
+
+/**
+ * Clears the recorded charges of one provider, or of all providers
+ * @param baseUrl Provider to forget; all providers when omitted
+ */
+export const clearProviderLedger = (baseUrl?: string): void => {
+  if (!baseUrl) {
+    saveProviderLedger([]);
+    return;
+  }
+  const normalized = normalizeLedgerUrl(baseUrl);
+  saveProviderLedger(loadProviderLedger().filter(entry => entry.baseUrl !== normalized));
+};
+
+/**
+ * Short description of a provider's track record for tooltips
+ * @param reputation The provider's reputation
+ * @returns e.g. "3 of 20 requests overcharged, +12.5% on average"
+ */
+export const describeProviderReputation = (reputation: ProviderReputation): string => {
+  const sign = reputation.averageDeviationPercent >= 0 ? '+' : '';
+  return `${reputation.overchargeCount} of ${reputation.requestCount} requests overcharged, ${sign}${reputation.averageDeviationPercent.toFixed(1)}% on average`;
+};
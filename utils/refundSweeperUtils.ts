@@ -0,0 +1,315 @@
+import { getDecodedToken } from '@cashu/cashu-ts';
+import { RefundSweepBackoff, RejectedLockedToken, StreamCheckpoint, TransactionHistory } from '@/types/chat';
+import { getLocalCashuToken, getLocalCashuTokens, loadRefundSweepBackoff, loadRejectedLockedTokens, removeLocalCashuToken, saveRefundSweepBackoff } from './storageUtils';
+import { getTabId, isTokenHeldByStream, recordInterruptedRefundFailure, resolveInterruptedStream } from './streamCheckpointUtils';
+import { getBalanceFromStoredProofs, getTokenAmountInSats, unifiedRefund } from './cashuUtils';
+import { getProviderHost } from './modelUtils';
+import { isTokenSpentError, ProviderUnauthorizedError, RefundFailedError } from './routstrErrors';
+import { removeRejectedToken } from './tokenLockUtils';
+import { creditRecoveredSpending, recordSpending } from './budgetUtils';
+import { isTokenInFlight } from './tokenUtils';
+
+/*
+ * Background refunds of tokens left at providers when a tab closed between creating a token and
+ * refunding it. Tokens count as orphaned once no request took them for a while and no stream refers
+ * to them; each is swept under a cross-tab lock, and failed refunds back off exponentially. Locked
+ * tokens a provider refused are received back with the wallet's refund key once their locktime passed.
+ * Streams cut off mid-answer are refunded by refundInterruptedStream first, and left to the sweep once it gives up.
+ */
+
+/** How often open tabs look for orphaned tokens */
+export const REFUND_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+// A token no request took for this long is no longer in flight; longer than any non-streaming request runs
+const ORPHANED_TOKEN_AGE_MS = 10 * 60 * 1000;
+
+// First retry after a failed refund; doubled with each further failure up to the cap
+const BACKOFF_BASE_MS = 5 * 60 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+
+// Lease used where the Web Locks API is missing; longer than a refund may take (1 minute timeout)
+const SWEEP_LEASE_MS = 90 * 1000;
+const SWEEP_LEASE_KEY_PREFIX = 'refund_sweep_lease:';
+const SWEEP_LOCK_PREFIX = 'routstr-refund-sweep:';
+
+export interface RefundSweepParams {
+  mintUrl: string;
+  usingNip60: boolean;
+  /** Unit of the refunded amounts; msat amounts are recorded in sats */
+  unit?: string;
+  receiveToken: (token: string) => Promise<any[]>;
+  /** Called with a 'refund' entry for every token that returned sats */
+  onRefund: (transaction: TransactionHistory) => void;
+}
+
+export interface RefundSweepResult {
+  baseUrl: string;
+  success: boolean;
+  /** Sats returned to the wallet */
+  refundedAmount: number;
+  message?: string;
+  requestId?: string;
+}
+
+/**
+ * Whether a request may still be using a provider's token. Non-streaming requests of other tabs only show
+ * through the token's last use, so the sweeper also waits for the token to age.
+ * @param baseUrl Provider of the token
+ * @param now Reference time
+ * @returns True if a request of this tab holds the token, a request took it recently or a stream refers to it
+ */
+const isTokenInUse = (baseUrl: string, now: number = Date.now()): boolean => {
+  const entry = getLocalCashuTokens().find(existing => existing.baseUrl === baseUrl);
+  return isTokenInFlight(baseUrl) || (entry?.lastUsedAt ?? 0) > now - ORPHANED_TOKEN_AGE_MS || isTokenHeldByStream(baseUrl);
+};
+
+/**
+ * Lists the providers whose token looks orphaned
+ * @param now Reference time
+ * @returns Base URLs whose token is not in use and not waiting for a retry
+ */
+export const findOrphanedTokens = (now: number = Date.now()): string[] => {
+  const backoff = loadRefundSweepBackoff();
+  return getLocalCashuTokens()
+    .filter(entry => (backoff[entry.baseUrl]?.retryAt ?? 0) <= now)
+    .filter(entry => !isTokenInUse(entry.baseUrl, now))
+    .map(entry => entry.baseUrl);
+};
+
+/**
+ * Schedules the next attempt after a failed refund
+ * @param baseUrl Provider of the token
+ */
+const recordFailure = (baseUrl: string): void => {
+  const backoff = loadRefundSweepBackoff();
+  const failures = (backoff[baseUrl]?.failures ?? 0) + 1;
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS);
+  const next: RefundSweepBackoff = { failures, retryAt: Date.now() + delay };
+  saveRefundSweepBackoff({ ...backoff, [baseUrl]: next });
+};
+
+const clearFailures = (baseUrl: string): void => {
+  const { [baseUrl]: _cleared, ...rest } = loadRefundSweepBackoff();
+  saveRefundSweepBackoff(rest);
+};
+
+/**
+ * Runs a task while holding the sweep lock of a provider's token, so two tabs never refund the same token
+ * @param baseUrl Provider of the token
+ * @param task The refund
+ * @returns The task's result, or null if another tab holds the lock
+ */
+const withSweepLock = async <T>(baseUrl: string, task: () => Promise<T>): Promise<T | null> => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(`${SWEEP_LOCK_PREFIX}${baseUrl}`, { ifAvailable: true }, lock => lock ? task() : null);
+  }
+
+  // Without Web Locks: a lease in localStorage, confirmed by reading it back after a short wait
+  const key = `${SWEEP_LEASE_KEY_PREFIX}${baseUrl}`;
+  const tabId = getTabId();
+  const current = JSON.parse(localStorage.getItem(key) ?? 'null') as { tabId: string; expiresAt: number } | null;
+  if (current && current.tabId !== tabId && current.expiresAt > Date.now()) return null;
+  localStorage.setItem(key, JSON.stringify({ tabId, expiresAt: Date.now() + SWEEP_LEASE_MS }));
+  await new Promise(resolve => setTimeout(resolve, 50));
+  if ((JSON.parse(localStorage.getItem(key) ?? 'null') as { tabId: string } | null)?.tabId !== tabId) return null;
+  try {
+    return await task();
+  } finally {
+    localStorage.removeItem(key);
+  }
+};
+
+/**
+ * Refunds one orphaned token and records what came back
+ * @param baseUrl Provider of the token
+ * @param params Wallet and bookkeeping callbacks
+ * @returns The outcome
+ */
+const sweepToken = async (baseUrl: string, params: RefundSweepParams): Promise<RefundSweepResult | null> => {
+  // Another tab may have used or refunded the token while this one waited
+  if (!findOrphanedTokens().includes(baseUrl)) return null;
+
+  const token = getLocalCashuToken(baseUrl);
+  const result = await unifiedRefund(params.mintUrl, baseUrl, params.usingNip60, params.receiveToken);
+  if (!result.success) {
+    if (result.error instanceof RefundFailedError && result.error.isDust) {
+      // Dust can never be refunded; keeping it would only retry forever
+      removeLocalCashuToken(baseUrl);
+      clearFailures(baseUrl);
+      // Nothing more will come back for the requests counted in full
+      creditRecoveredSpending(baseUrl, 0);
+    } else if (result.error instanceof ProviderUnauthorizedError) {
+      // A refused locked token was set aside by the refund and comes back after its locktime
+      if (token && getLocalCashuToken(baseUrl) === token) {
+        return receiveRefusedToken(baseUrl, token, params);
+      }
+      clearFailures(baseUrl);
+    } else {
+      recordFailure(baseUrl);
+    }
+    return { baseUrl, success: false, refundedAmount: 0, message: result.message, requestId: result.requestId ?? result.error?.requestId };
+  }
+
+  clearFailures(baseUrl);
+  const refundedAmount = params.unit === 'msat' ? (result.refundedAmount ?? 0) / 1000 : (result.refundedAmount ?? 0);
+  creditRecoveredSpending(baseUrl, refundedAmount);
+  if (refundedAmount > 0) {
+    params.onRefund({
+      type: 'refund',
+      amount: refundedAmount,
+      timestamp: Date.now(),
+      status: 'success',
+      message: `Recovered from an unfinished request at ${getProviderHost(baseUrl)}`
+    });
+  }
+  return { baseUrl, success: true, refundedAmount, message: result.message, requestId: result.requestId };
+};
+
+/**
+ * Receives a plain token the provider refused back into the wallet; the provider may never have redeemed it
+ * @param baseUrl Provider of the token
+ * @param token The refused token
+ * @param params Wallet and bookkeeping callbacks
+ * @returns The outcome; the token is only forgotten once received or reported spent by the mint
+ */
+const receiveRefusedToken = async (baseUrl: string, token: string, params: RefundSweepParams): Promise<RefundSweepResult> => {
+  try {
+    const proofs = await params.receiveToken(token);
+    removeLocalCashuToken(baseUrl);
+    clearFailures(baseUrl);
+    const amount = proofs.reduce((sum: number, proof: any) => sum + proof.amount, 0);
+    const refundedAmount = params.unit === 'msat' ? amount / 1000 : amount;
+    creditRecoveredSpending(baseUrl, refundedAmount);
+    if (refundedAmount > 0) {
+      params.onRefund({
+        type: 'refund',
+        amount: refundedAmount,
+        timestamp: Date.now(),
+        status: 'success',
+        message: `Received back a token ${getProviderHost(baseUrl)} refused`
+      });
+    }
+    return { baseUrl, success: true, refundedAmount };
+  } catch (error) {
+    if (isTokenSpentError(error)) {
+      // The provider redeemed it before refusing it, so nothing is left to recover
+      removeLocalCashuToken(baseUrl);
+      clearFailures(baseUrl);
+      creditRecoveredSpending(baseUrl, 0);
+      return { baseUrl, success: false, refundedAmount: 0, message: 'The provider refused the token and the mint reports it spent' };
+    }
+    recordFailure(baseUrl);
+    return { baseUrl, success: false, refundedAmount: 0, message: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Receives a locked token a provider refused back into the wallet
+ * @param entry The refused token
+ * @param params Wallet and bookkeeping callbacks
+ * @returns The outcome
+ */
+const reclaimRejectedToken = async (entry: RejectedLockedToken, params: RefundSweepParams): Promise<RefundSweepResult | null> => {
+  // Another tab may have reclaimed it while this one waited
+  if (!loadRejectedLockedTokens().some(rejected => rejected.token === entry.token)) return null;
+
+  try {
+    const proofs = await params.receiveToken(entry.token);
+    removeRejectedToken(entry.token);
+    const amount = proofs.reduce((sum: number, proof: any) => sum + proof.amount, 0);
+    const refundedAmount = params.unit === 'msat' ? amount / 1000 : amount;
+    creditRecoveredSpending(entry.baseUrl, refundedAmount);
+    if (refundedAmount > 0) {
+      params.onRefund({
+        type: 'refund',
+        amount: refundedAmount,
+        timestamp: Date.now(),
+        status: 'success',
+        message: `Reclaimed a locked token ${getProviderHost(entry.baseUrl)} refused`
+      });
+    }
+    return { baseUrl: entry.baseUrl, success: true, refundedAmount };
+  } catch (error) {
+    // The provider redeemed it after all, so the sats are on its side as a balance
+    if (isTokenSpentError(error)) {
+      removeRejectedToken(entry.token);
+      creditRecoveredSpending(entry.baseUrl, 0);
+      return { baseUrl: entry.baseUrl, success: true, refundedAmount: 0, message: 'The provider redeemed the token' };
+    }
+    return { baseUrl: entry.baseUrl, success: false, refundedAmount: 0, message: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * Refunds every orphaned token and reclaims refused locked tokens, one at a time
+ * @param params Wallet and bookkeeping callbacks
+ * @returns One result per token this tab swept; tokens locked by another tab are skipped
+ */
+export const sweepOrphanedTokens = async (params: RefundSweepParams): Promise<RefundSweepResult[]> => {
+  const results: RefundSweepResult[] = [];
+  for (const baseUrl of findOrphanedTokens()) {
+    const result = await withSweepLock(baseUrl, () => sweepToken(baseUrl, params));
+    if (result) results.push(result);
+  }
+  // Only the NIP-60 wallet locks tokens and holds the refund key
+  if (params.usingNip60) {
+    const now = Date.now();
+    for (const entry of loadRejectedLockedTokens().filter(rejected => rejected.reclaimAt <= now)) {
+      const result = await withSweepLock(`locked:${entry.baseUrl}`, () => reclaimRejectedToken(entry, params));
+      if (result) results.push(result);
+    }
+  }
+  return results;
+};
+
+/**
+ * Refunds the token of a stream cut off by a reload or a closed tab and records what the answer cost,
+ * like the refund after a finished answer. A failed refund is retried on the next page loads; once the
+ * stream gives up, the answer is counted in full and the token left to the sweep, which credits what it recovers.
+ * @param checkpoint The interrupted stream
+ * @param params Wallet and a callback receiving the 'spent' entry
+ * @returns The sats the answer cost, or null if nothing was recorded: the refund is retried later, or another
+ *   request at the provider already refunded the token and counted what was on it
+ */
+export const refundInterruptedStream = async (
+  checkpoint: StreamCheckpoint,
+  params: Pick<RefundSweepParams, 'usingNip60' | 'receiveToken'> & { onTransaction: (transaction: TransactionHistory) => void }
+): Promise<number | null> => {
+  const { baseUrl, mintUrl, modelId, conversationId } = checkpoint;
+  const token = getLocalCashuToken(baseUrl);
+  if (!token) {
+    resolveInterruptedStream(conversationId);
+    return null;
+  }
+
+  const tokenSats = getTokenAmountInSats(token);
+  let satsSpent = tokenSats;
+  let refundPending = false;
+  const result = await unifiedRefund(mintUrl, baseUrl, params.usingNip60, params.receiveToken, token);
+  if (result.success) {
+    // Refunds come back in the unit of the token
+    satsSpent = tokenSats - (result.refundedAmount ?? 0) / (getDecodedToken(token).unit === 'msat' ? 1000 : 1);
+  } else {
+    const isDust = result.error instanceof RefundFailedError && result.error.isDust;
+    // Dust and refused tokens cannot come back through a refund; other failures are retried
+    if (!isDust && !(result.error instanceof ProviderUnauthorizedError) && !recordInterruptedRefundFailure(conversationId)) {
+      return null;
+    }
+    if (isDust && getLocalCashuToken(baseUrl) === token) removeLocalCashuToken(baseUrl);
+    refundPending = getLocalCashuToken(baseUrl) === token || loadRejectedLockedTokens().some(entry => entry.token === token);
+  }
+  resolveInterruptedStream(conversationId);
+
+  recordSpending({ baseUrl, modelId, amount: satsSpent, ...(refundPending ? { refundPending } : {}) });
+  params.onTransaction({
+    type: 'spent',
+    amount: satsSpent,
+    timestamp: Date.now(),
+    status: 'success',
+    model: modelId,
+    message: refundPending ? 'Tokens spent (interrupted answer, refund pending)' : 'Tokens spent (interrupted answer)',
+    // The NIP-60 wallet's balance lives in its proofs, which other requests may be changing
+    ...(params.usingNip60 ? {} : { balance: getBalanceFromStoredProofs() })
+  });
+  return satsSpent;
+};
@@ -0,0 +1,144 @@
+import { ErrorAction, MessageErrorDetails, RoutstrErrorCode } from '@/types/chat';
+
+interface RoutstrErrorOptions {
+  /** Provider the failure happened at */
+  baseUrl?: string;
+  /** The provider's x-routstr-request-id */
+  requestId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failures of the payment and completion pipeline.
+ * Each subclass fixes the error code and the action suggested to the user,
+ * so callers decide with instanceof instead of matching message text.
+ */
+export abstract class RoutstrError extends Error {
+  abstract readonly code: RoutstrErrorCode;
+  abstract readonly action: ErrorAction;
+  readonly baseUrl?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, options: RoutstrErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.baseUrl = options.baseUrl;
+    this.requestId = options.requestId;
+  }
+
+  /**
+   * Serializable form stored on the error notice in the conversation
+   * @returns The error details
+   */
+  toDetails(): MessageErrorDetails {
+    return {
+      code: this.code,
+      action: this.action,
+      ...(this.baseUrl ? { baseUrl: this.baseUrl } : {}),
+      ...(this.requestId ? { requestId: this.requestId } : {})
+    };
+  }
+}
+
+/** The wallet cannot cover the token a request needs */
+export class InsufficientBalanceError extends RoutstrError {
+  readonly code = 'insufficient_balance' as const;
+  readonly action = 'top_up' as const;
+  /** Sats the request needed, when known */
+  readonly requiredAmount?: number;
+
+  constructor(message: string, options: RoutstrErrorOptions & { requiredAmount?: number } = {}) {
+    super(message, options);
+    this.requiredAmount = options.requiredAmount;
+  }
+}
+
+/** The provider rejected the token (401/403); a fresh token usually works */
+export class ProviderUnauthorizedError extends RoutstrError {
+  readonly code = 'provider_unauthorized' as const;
+  readonly action = 'retry' as const;
+}
+
+/** The mint reports the token's proofs as already spent */
+export class TokenSpentError extends RoutstrError {
+  readonly code = 'token_spent' as const;
+  readonly action = 'retry' as const;
+}
+
+/** Unused sats could not be reclaimed from the provider */
+export class RefundFailedError extends RoutstrError {
+  readonly code = 'refund_failed' as const;
+  readonly action = 'retry_refund' as const;
+  /** The balance left at the provider is below what it can refund */
+  readonly isDust: boolean;
+
+  constructor(message: string, options: RoutstrErrorOptions & { isDust?: boolean } = {}) {
+    super(message, options);
+    this.isDust = options.isDust ?? false;
+  }
+}
+
+/** The provider failed with a 5xx, a network error or no answer in time */
+export class ProviderDownError extends RoutstrError {
+  readonly code = 'provider_down' as const;
+  readonly action = 'switch_provider' as const;
+}
+
+/** The request exceeds what the provider accepts (413) */
+export class PayloadTooLargeError extends RoutstrError {
+  readonly code = 'payload_too_large' as const;
+  readonly action = 'trim_context' as const;
+}
+
+/** A spending budget would be exceeded by the sats the request locks */
+export class BudgetExceededError extends RoutstrError {
+  readonly code = 'budget_exceeded' as const;
+  readonly action = 'override_budget' as const;
+  /** Id of the budget that blocked the request */
+  readonly budgetId?: string;
+
+  constructor(message: string, options: RoutstrErrorOptions & { budgetId?: string } = {}) {
+    super(message, options);
+    this.budgetId = options.budgetId;
+  }
+}
+
+/**
+ * Recognizes the mint's "already spent" rejection, which cashu-ts only reports as message text
+ * @param error Any thrown value
+ * @returns True if the proofs were already spent
+ */
+export const isTokenSpentError = (error: unknown): boolean => {
+  if (error instanceof TokenSpentError) return true;
+  return error instanceof Error && /already spent/i.test(error.message);
+};
+
+/**
+ * Recognizes a fetch that failed before reaching the server
+ * @param error Any thrown value
+ * @returns True for browser network errors
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  return error instanceof TypeError && /NetworkError|Failed to fetch|Load failed/i.test(error.message);
+};
+
+/** Label of the button offered for each suggested action */
+export const ERROR_ACTION_LABELS: Record<ErrorAction, string> = {
+  top_up: 'Top up',
+  switch_provider: 'Switch provider',
+  retry_refund: 'Retry refund',
+  retry: 'Retry',
+  trim_context: 'Trim context',
+  override_budget: 'Send anyway'
+};
+
+/** One-line explanation of what the user can do about each kind of error */
+export const ERROR_ACTION_HINTS: Record<RoutstrErrorCode, string> = {
+  insufficient_balance: 'Add funds to your wallet, or pick a cheaper model.',
+  provider_unauthorized: 'The provider rejected your token. It has been cleared, so retrying uses a fresh one.',
+  token_spent: 'This token was already used. Retrying creates a new one from your balance.',
+  refund_failed: 'Your unused sats are still held by the provider. You can try the refund again.',
+  provider_down: 'Switch to another provider for this model, or try again later.',
+  payload_too_large: 'The conversation is too long for this provider. Limit the context size or start a new chat.',
+  budget_exceeded: 'A spending budget blocks this request. Send it anyway, or raise the budget in settings.'
+};
@@ -0,0 +1,150 @@
+/**
+ * Incremental decoder for Server-Sent Events (text/event-stream) following the WHATWG spec.
+ * Kept free of imports so it can be unit-tested from plain Node scripts.
+ */
+
+export interface SseEvent {
+  /** Event type from the `event:` field, 'message' when not set */
+  event: string;
+  /** Joined `data:` fields; multiple data lines are separated by '\n' */
+  data: string;
+  /** Last event id seen on the stream (`id:` field), if any */
+  id?: string;
+  /** Reconnection time in ms from the `retry:` field, if any */
+  retry?: number;
+}
+
+export interface SseDecoder {
+  /**
+   * Feeds decoded text into the parser
+   * @param chunk Text from one network read; may end in the middle of a line
+   * @returns Events completed by this chunk
+   */
+  push: (chunk: string) => SseEvent[];
+  /**
+   * Processes whatever is left once the stream has ended
+   * @returns The final event if the stream ended without a trailing blank line
+   */
+  flush: () => SseEvent[];
+}
+
+/**
+ * Creates a stateful SSE decoder that carries partial lines across reads
+ * @param onComment Optional callback for `: comment` lines (keep-alives)
+ * @returns Decoder with push/flush
+ */
+export const createSseDecoder = (onComment?: (comment: string) => void): SseDecoder => {
+  let buffer = '';
+  let isFirstChunk = true;
+  let eventType = '';
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (events: SseEvent[]) => {
+    if (dataLines.length > 0) {
+      events.push({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        ...(lastEventId !== undefined ? { id: lastEventId } : {}),
+        ...(retry !== undefined ? { retry } : {})
+      });
+    }
+    eventType = '';
+    dataLines = [];
+  };
+
+  const processLine = (line: string, events: SseEvent[]) => {
+    if (line === '') {
+      dispatch(events);
+      return;
+    }
+    if (line.startsWith(':')) {
+      onComment?.(line.slice(1).replace(/^ /, ''));
+      return;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    const value = colonIndex === -1 ? '' : line.slice(colonIndex + 1).replace(/^ /, '');
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+      default:
+        // Unknown fields are ignored per spec
+        break;
+    }
+  };
+
+  const push = (chunk: string): SseEvent[] => {
+    const events: SseEvent[] = [];
+    if (isFirstChunk && chunk.length > 0) {
+      chunk = chunk.replace(/^\uFEFF/, '');
+      isFirstChunk = false;
+    }
+    buffer += chunk;
+
+    // Lines end in \r\n, \n or \r. A trailing \r is held back since its \n may arrive in the next read.
+    let start = 0;
+    for (let i = 0; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+      if (char === '\r' && i === buffer.length - 1) break;
+      processLine(buffer.slice(start, i), events);
+      if (char === '\r' && buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+    buffer = buffer.slice(start);
+    return events;
+  };
+
+  const flush = (): SseEvent[] => {
+    const events: SseEvent[] = [];
+    const remaining = buffer.replace(/\r$/, '');
+    buffer = '';
+    if (remaining) processLine(remaining, events);
+    // The spec discards an unterminated event at EOF, but some providers omit the final blank
+    // line and that event usually carries the usage block, so it is dispatched instead
+    dispatch(events);
+    return events;
+  };
+
+  return { push, flush };
+};
+
+/**
+ * Extracts a provider error from a streamed completion event.
+ * Providers report failures after the stream has started either as an `event: error`
+ * or as a data payload with an `error` object instead of `choices`.
+ * @param event The decoded SSE event
+ * @param payload The parsed JSON data of the event, if it was JSON
+ * @returns The error message, or null if the event is not an error
+ */
+export const getSseErrorMessage = (event: SseEvent, payload: unknown): string | null => {
+  const errorField = payload && typeof payload === 'object' ? (payload as { error?: unknown }).error : undefined;
+  if (errorField) {
+    if (typeof errorField === 'string') return errorField;
+    if (typeof errorField === 'object') {
+      const { message, code } = errorField as { message?: unknown; code?: unknown };
+      if (typeof message === 'string' && message) {
+        return code !== undefined ? `${message} (${code})` : message;
+      }
+    }
+    return JSON.stringify(errorField);
+  }
+  if (event.event === 'error') {
+    return event.data || 'Provider reported an error during streaming';
+  }
+  return null;
+};
@@ -1,5 +1,6 @@
-import { TransactionHistory } from '@/types/chat';
+import { CompareTarget, ContextSettings, DemoProviderState, LocalEndpointLogEntry, LocalEndpointSettings, McpServerConfig, Persona, ProviderChargeEntry, RefundSweepBackoff, RejectedLockedToken, SpendingBudget, SpendingEntry, StreamCheckpoint, TransactionHistory } from '@/types/chat';
 import { DEFAULT_BASE_URLS } from '../lib/utils';
+import type { RoutstrStorage } from '../lib/routstrClient';
 import { useCashuStore } from '../stores/cashuStore';
 
 /**
@@ -32,6 +33,8 @@ const NON_CRITICAL_STORAGE_KEYS = new Set<string>([
 export interface CashuTokenEntry {
   token: string;
   baseUrl: string;
+  /** When a request last took the token; missing on entries stored before this was tracked */
+  lastUsedAt?: number;
 }
 
 /**
@@ -260,6 +263,282 @@ export const saveModelProviderMap = (map: Record<string, string>): void => {
   setStorageItem('model_provider_map', map);
 };
 
+/**
+ * Load registered MCP servers from localStorage
+ * @returns Array of MCP server configurations
+ */
+export const loadMcpServers = (): McpServerConfig[] => {
+  return getStorageItem<McpServerConfig[]>(STORAGE_KEYS.MCP_SERVERS, []);
+};
+
+/**
+ * Save registered MCP servers to localStorage
+ * @param servers Array of MCP server configurations
+ */
+export const saveMcpServers = (servers: McpServerConfig[]): void => {
+  setStorageItem(STORAGE_KEYS.MCP_SERVERS, servers);
+};
+
+/**
+ * Load the persona library from localStorage
+ * @returns Array of saved personas
+ */
+export const loadPersonas = (): Persona[] => {
+  return getStorageItem<Persona[]>(STORAGE_KEYS.PERSONAS, []);
+};
+
+/**
+ * Save the persona library to localStorage
+ * @param personas Array of personas
+ */
+export const savePersonas = (personas: Persona[]): void => {
+  setStorageItem(STORAGE_KEYS.PERSONAS, personas);
+};
+
+/**
+ * Load the context window settings from localStorage
+ * @returns The saved settings, dropping the oldest turns by default
+ */
+export const loadContextSettings = (): ContextSettings => {
+  return getStorageItem<ContextSettings>(STORAGE_KEYS.CONTEXT_SETTINGS, { strategy: 'truncate' });
+};
+
+/**
+ * Save the context window settings to localStorage
+ * @param settings Context window settings
+ */
+export const saveContextSettings = (settings: ContextSettings): void => {
+  setStorageItem(STORAGE_KEYS.CONTEXT_SETTINGS, settings);
+};
+
+/**
+ * Load the per-provider ledger of estimated vs. actual request costs
+ * @returns Ledger entries, oldest first
+ */
+export const loadProviderLedger = (): ProviderChargeEntry[] => {
+  return getStorageItem<ProviderChargeEntry[]>(STORAGE_KEYS.PROVIDER_LEDGER, []);
+};
+
+/**
+ * Save the per-provider cost ledger to localStorage
+ * @param entries Ledger entries, oldest first
+ */
+export const saveProviderLedger = (entries: ProviderChargeEntry[]): void => {
+  setStorageItem(STORAGE_KEYS.PROVIDER_LEDGER, entries);
+};
+
+/**
+ * Load the average overcharge (in percent of the estimate) above which providers are de-prioritized
+ * @returns The threshold in percent
+ */
+export const loadProviderDeviationThreshold = (): number => {
+  return getStorageItem<number>(STORAGE_KEYS.PROVIDER_DEVIATION_THRESHOLD, 25);
+};
+
+/**
+ * Save the provider de-prioritization threshold
+ * @param threshold The threshold in percent
+ */
+export const saveProviderDeviationThreshold = (threshold: number): void => {
+  setStorageItem(STORAGE_KEYS.PROVIDER_DEVIATION_THRESHOLD, threshold);
+};
+
+/**
+ * Load the demo provider state; null while the demo provider is off
+ * @returns The URLs to restore when it is switched off, or null
+ */
+export const loadDemoProviderState = (): DemoProviderState | null => {
+  return getStorageItem<DemoProviderState | null>(STORAGE_KEYS.DEMO_PROVIDER, null);
+};
+
+/**
+ * Save the demo provider state
+ * @param state The URLs to restore later, or null when the demo provider is switched off
+ */
+export const saveDemoProviderState = (state: DemoProviderState | null): void => {
+  if (state) {
+    setStorageItem(STORAGE_KEYS.DEMO_PROVIDER, state);
+  } else {
+    removeStorageItem(STORAGE_KEYS.DEMO_PROVIDER);
+  }
+};
+
+/**
+ * Load the local OpenAI-compatible endpoint settings
+ * @returns The settings, or null if no local key was generated yet
+ */
+export const loadLocalEndpointSettings = (): LocalEndpointSettings | null => {
+  return getStorageItem<LocalEndpointSettings | null>(STORAGE_KEYS.LOCAL_ENDPOINT, null);
+};
+
+/**
+ * Save the local OpenAI-compatible endpoint settings
+ * @param settings The settings to save
+ */
+export const saveLocalEndpointSettings = (settings: LocalEndpointSettings): void => {
+  setStorageItem(STORAGE_KEYS.LOCAL_ENDPOINT, settings);
+};
+
+/**
+ * Load the requests served by the local endpoint
+ * @returns Log entries, oldest first
+ */
+export const loadLocalEndpointLog = (): LocalEndpointLogEntry[] => {
+  return getStorageItem<LocalEndpointLogEntry[]>(STORAGE_KEYS.LOCAL_ENDPOINT_LOG, []);
+};
+
+/**
+ * Save the local endpoint usage log
+ * @param entries Log entries, oldest first
+ */
+export const saveLocalEndpointLog = (entries: LocalEndpointLogEntry[]): void => {
+  setStorageItem(STORAGE_KEYS.LOCAL_ENDPOINT_LOG, entries);
+};
+
+/**
+ * Load the checkpoints of answers that are streaming or were interrupted
+ * @returns Checkpoints, at most one per conversation
+ */
+export const loadStreamCheckpoints = (): StreamCheckpoint[] => {
+  return getStorageItem<StreamCheckpoint[]>(STORAGE_KEYS.STREAM_CHECKPOINTS, []);
+};
+
+/**
+ * Save the streaming checkpoints
+ * @param checkpoints Checkpoints, at most one per conversation
+ */
+export const saveStreamCheckpoints = (checkpoints: StreamCheckpoint[]): void => {
+  if (checkpoints.length > 0) {
+    setStorageItem(STORAGE_KEYS.STREAM_CHECKPOINTS, checkpoints);
+  } else {
+    removeStorageItem(STORAGE_KEYS.STREAM_CHECKPOINTS);
+  }
+};
+
+/**
+ * Load the spending budgets
+ * @returns Budgets in the order they were added
+ */
+export const loadSpendingBudgets = (): SpendingBudget[] => {
+  return getStorageItem<SpendingBudget[]>(STORAGE_KEYS.SPENDING_BUDGETS, []);
+};
+
+/**
+ * Save the spending budgets
+ * @param budgets Budgets in the order they were added
+ */
+export const saveSpendingBudgets = (budgets: SpendingBudget[]): void => {
+  setStorageItem(STORAGE_KEYS.SPENDING_BUDGETS, budgets);
+};
+
+/**
+ * Load the log of what requests cost, which the budgets are checked against
+ * @returns Entries, oldest first
+ */
+export const loadSpendingLog = (): SpendingEntry[] => {
+  return getStorageItem<SpendingEntry[]>(STORAGE_KEYS.SPENDING_LOG, []);
+};
+
+/**
+ * Save the spending log
+ * @param entries Entries, oldest first
+ */
+export const saveSpendingLog = (entries: SpendingEntry[]): void => {
+  setStorageItem(STORAGE_KEYS.SPENDING_LOG, entries);
+};
+
+/**
+ * Load the retry schedule of tokens whose background refund failed
+ * @returns Backoff state keyed by provider base URL
+ */
+export const loadRefundSweepBackoff = (): Record<string, RefundSweepBackoff> => {
+  return getStorageItem<Record<string, RefundSweepBackoff>>(STORAGE_KEYS.REFUND_SWEEP_BACKOFF, {});
+};
+
+/**
+ * Save the retry schedule of failed background refunds
+ * @param backoff Backoff state keyed by provider base URL
+ */
+export const saveRefundSweepBackoff = (backoff: Record<string, RefundSweepBackoff>): void => {
+  if (Object.keys(backoff).length > 0) {
+    setStorageItem(STORAGE_KEYS.REFUND_SWEEP_BACKOFF, backoff);
+  } else {
+    removeStorageItem(STORAGE_KEYS.REFUND_SWEEP_BACKOFF);
+  }
+};
+
+/**
+ * Load whether tokens sent to providers are locked to the provider's key
+ * @returns True if locking is on; off by default
+ */
+export const loadLockProviderTokens = (): boolean => {
+  return getStorageItem<boolean>(STORAGE_KEYS.LOCK_PROVIDER_TOKENS, false);
+};
+
+/**
+ * Save whether tokens sent to providers are locked to the provider's key
+ * @param enabled Whether locking is on
+ */
+export const saveLockProviderTokens = (enabled: boolean): void => {
+  setStorageItem(STORAGE_KEYS.LOCK_PROVIDER_TOKENS, enabled);
+};
+
+/**
+ * Load the providers that refused locked tokens and get plain ones instead
+ * @returns Their base URLs
+ */
+export const loadLockUnsupportedProviders = (): string[] => {
+  return getStorageItem<string[]>(STORAGE_KEYS.LOCK_UNSUPPORTED_PROVIDERS, []);
+};
+
+/**
+ * Save the providers that refused locked tokens
+ * @param baseUrls Their base URLs
+ */
+export const saveLockUnsupportedProviders = (baseUrls: string[]): void => {
+  if (baseUrls.length > 0) {
+    setStorageItem(STORAGE_KEYS.LOCK_UNSUPPORTED_PROVIDERS, baseUrls);
+  } else {
+    removeStorageItem(STORAGE_KEYS.LOCK_UNSUPPORTED_PROVIDERS);
+  }
+};
+
+/**
+ * Load the locked tokens providers refused, which are reclaimed once their locktime passes
+ * @returns The tokens, oldest first
+ */
+export const loadRejectedLockedTokens = (): RejectedLockedToken[] => {
+  return getStorageItem<RejectedLockedToken[]>(STORAGE_KEYS.REJECTED_LOCKED_TOKENS, []);
+};
+
+/**
+ * Save the locked tokens waiting to be reclaimed
+ * @param tokens The tokens, oldest first
+ */
+export const saveRejectedLockedTokens = (tokens: RejectedLockedToken[]): void => {
+  if (tokens.length > 0) {
+    setStorageItem(STORAGE_KEYS.REJECTED_LOCKED_TOKENS, tokens);
+  } else {
+    removeStorageItem(STORAGE_KEYS.REJECTED_LOCKED_TOKENS);
+  }
+};
+
+/**
+ * Load the models selected for compare mode from localStorage
+ * @returns Array of compare targets
+ */
+export const loadCompareTargets = (): CompareTarget[] => {
+  return getStorageItem<CompareTarget[]>(STORAGE_KEYS.COMPARE_TARGETS, []);
+};
+
+/**
+ * Save the models selected for compare mode to localStorage
+ * @param targets Array of compare targets
+ */
+export const saveCompareTargets = (targets: CompareTarget[]): void => {
+  setStorageItem(STORAGE_KEYS.COMPARE_TARGETS, targets);
+};
+
 /**
  * Load last used model ID from localStorage
  * @returns Last used model ID or null
@@ -481,9 +760,34 @@ export const STORAGE_KEYS = {
   LOCAL_CASHU_TOKENS: 'local_cashu_tokens',
   CASHU_PROOFS: 'cashu_proofs',
   WRAPPED_CASHU_TOKENS: 'wrapped_cashu_tokens',
-  RELAYS: 'nostr_relays'
+  RELAYS: 'nostr_relays',
+  MCP_SERVERS: 'mcp_servers',
+  PERSONAS: 'personas',
+  COMPARE_TARGETS: 'compare_targets',
+  CONTEXT_SETTINGS: 'context_settings',
+  PROVIDER_LEDGER: 'provider_ledger',
+  PROVIDER_DEVIATION_THRESHOLD: 'provider_deviation_threshold',
+  DEMO_PROVIDER: 'demo_provider',
+  LOCAL_ENDPOINT: 'local_endpoint',
+  LOCAL_ENDPOINT_LOG: 'local_endpoint_log',
+  STREAM_CHECKPOINTS: 'stream_checkpoints',
+  SPENDING_BUDGETS: 'spending_budgets',
+  SPENDING_LOG: 'spending_log',
+  REFUND_SWEEP_BACKOFF: 'refund_sweep_backoff',
+  LOCK_PROVIDER_TOKENS: 'lock_provider_tokens',
+  LOCK_UNSUPPORTED_PROVIDERS: 'lock_unsupported_providers',
+  REJECTED_LOCKED_TOKENS: 'rejected_locked_tokens'
 } as const;
 
+/** Dispatched on window whenever a provider token is stored or removed */
+export const PROVIDER_TOKENS_UPDATED_EVENT = 'routstr:provider-tokens-updated';
+
+const notifyProviderTokensUpdate = (): void => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(PROVIDER_TOKENS_UPDATED_EVENT));
+  }
+};
+
 /**
  * Retrieves all stored Cashu tokens.
  * @returns An array of CashuTokenEntry objects.
@@ -504,11 +808,24 @@ export const setLocalCashuToken = (baseUrl: string, token: string): void => {
   const existingIndex = tokens.findIndex(entry => entry.baseUrl === baseUrl);
 
   if (existingIndex !== -1) {
-    tokens[existingIndex] = { baseUrl, token };
+    tokens[existingIndex] = { baseUrl, token, lastUsedAt: Date.now() };
   } else {
-    tokens.push({ baseUrl, token });
+    tokens.push({ baseUrl, token, lastUsedAt: Date.now() });
   }
   setStorageItem(STORAGE_KEYS.LOCAL_CASHU_TOKENS, tokens);
+  notifyProviderTokensUpdate();
+};
+
+/**
+ * Marks the token of a base URL as taken by a request, so the refund sweeper leaves it alone for a while
+ * @param baseUrl The base URL of the token
+ */
+export const touchLocalCashuToken = (baseUrl: string): void => {
+  const tokens = getLocalCashuTokens();
+  const entry = tokens.find(existing => existing.baseUrl === baseUrl);
+  if (!entry) return;
+  entry.lastUsedAt = Date.now();
+  setStorageItem(STORAGE_KEYS.LOCAL_CASHU_TOKENS, tokens);
 };
 
 /**
@@ -530,6 +847,16 @@ export const removeLocalCashuToken = (baseUrl: string): void => {
   const tokens = getLocalCashuTokens();
   const updatedTokens = tokens.filter(entry => entry.baseUrl !== baseUrl);
   setStorageItem(STORAGE_KEYS.LOCAL_CASHU_TOKENS, updatedTokens);
+  notifyProviderTokensUpdate();
+};
+
+/**
+ * Provider token storage for RoutstrClient, backed by the local cashu tokens above
+ */
+export const localCashuTokenStorage: RoutstrStorage = {
+  getToken: getLocalCashuToken,
+  setToken: setLocalCashuToken,
+  removeToken: removeLocalCashuToken
 };
 
 /**
@@ -0,0 +1,206 @@
+import { Conversation, Message, StreamCheckpoint } from '@/types/chat';
+import { createTextMessage, getTextFromContent } from './messageUtils';
+import { saveConversationToStorage } from './conversationUtils';
+import { loadStreamCheckpoints, saveStreamCheckpoints } from './storageUtils';
+
+// How often a running stream writes its progress (and proves it is still alive)
+const CHECKPOINT_INTERVAL_MS = 1000;
+
+// A checkpoint from another tab that was not refreshed for this long belongs to a closed tab
+const STALE_CHECKPOINT_MS = 10_000;
+
+// An interrupted stream gives its token to the refund sweeper after this many failed refunds, or this long after it stopped
+const MAX_INTERRUPTED_REFUND_ATTEMPTS = 3;
+const INTERRUPTED_REFUND_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+const TAB_ID_KEY = 'routstr_tab_id';
+
+// Sent after the partial answer when the user asks to continue it; never stored in the conversation
+export const CONTINUE_GENERATION_PROMPT =
+  'Your previous answer was cut off. Continue it exactly where it stopped, without repeating any of it or commenting on the interruption.';
+
+/**
+ * Identifies this browser tab. Kept in sessionStorage, so a reloaded tab keeps its id
+ * and can tell its own interrupted streams from those of other open tabs.
+ */
+export const getTabId = (): string => {
+  let tabId = sessionStorage.getItem(TAB_ID_KEY);
+  if (!tabId) {
+    tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    sessionStorage.setItem(TAB_ID_KEY, tabId);
+  }
+  return tabId;
+};
+
+const writeCheckpoint = (checkpoint: StreamCheckpoint): void => {
+  const others = loadStreamCheckpoints().filter(entry => entry.conversationId !== checkpoint.conversationId);
+  saveStreamCheckpoints([...others, checkpoint]);
+};
+
+const removeCheckpoint = (conversationId: string): void => {
+  saveStreamCheckpoints(loadStreamCheckpoints().filter(entry => entry.conversationId !== conversationId));
+};
+
+/**
+ * Saves the progress of a streaming answer every second until it is cleared
+ * @param target Conversation, provider and mint of the request
+ * @returns update() to pass the text streamed so far, clear() once the answer is complete
+ */
+export const startStreamCheckpoint = (
+  target: Pick<StreamCheckpoint, 'conversationId' | 'baseUrl' | 'mintUrl' | 'modelId'>
+): { update: (progress: Partial<Pick<StreamCheckpoint, 'content' | 'thinking'>>) => void; clear: () => void } => {
+  const checkpoint: StreamCheckpoint = { ...target, tabId: getTabId(), content: '', updatedAt: Date.now() };
+  writeCheckpoint(checkpoint);
+  // Also refreshes updatedAt while the model is silent, e.g. during tool calls
+  const intervalId = setInterval(() => writeCheckpoint({ ...checkpoint, updatedAt: Date.now() }), CHECKPOINT_INTERVAL_MS);
+
+  return {
+    update: (progress) => {
+      Object.assign(checkpoint, progress);
+    },
+    clear: () => {
+      clearInterval(intervalId);
+      removeCheckpoint(target.conversationId);
+    }
+  };
+};
+
+const isOrphaned = (checkpoint: StreamCheckpoint, now: number): boolean =>
+  checkpoint.tabId === getTabId() || now - checkpoint.updatedAt > STALE_CHECKPOINT_MS;
+
+/**
+ * Puts the partial answers of streams cut off by a reload or a closed tab back into their conversations,
+ * marked as interrupted. Their checkpoints stay until the unused token is refunded.
+ * @param conversations Conversations as loaded from storage
+ * @returns The conversations with the partial answers appended
+ */
+export const restoreInterruptedStreams = (conversations: Conversation[]): Conversation[] => {
+  const now = Date.now();
+  const checkpoints = loadStreamCheckpoints();
+  let updated = conversations;
+  let changed = false;
+
+  const marked = checkpoints.map(checkpoint => {
+    if (checkpoint.restored || !isOrphaned(checkpoint, now)) return checkpoint;
+    changed = true;
+    const conversation = updated.find(entry => entry.id === checkpoint.conversationId);
+    if (conversation && (checkpoint.content || checkpoint.thinking)) {
+      const partial: Message = {
+        ...createTextMessage('assistant', checkpoint.content),
+        ...(checkpoint.thinking ? { thinking: checkpoint.thinking } : {}),
+        interrupted: true,
+        metadata: { model: checkpoint.modelId, baseUrl: checkpoint.baseUrl }
+      };
+      updated = saveConversationToStorage(updated, conversation.id, [...conversation.messages, partial]);
+    }
+    return { ...checkpoint, restored: true };
+  });
+
+  if (changed) saveStreamCheckpoints(marked);
+  return updated;
+};
+
+/**
+ * Checkpoints of interrupted streams whose partial answer was restored but whose token was not refunded yet
+ * @returns The checkpoints, with the provider and mint to refund from
+ */
+export const getUnrefundedCheckpoints = (): StreamCheckpoint[] => {
+  return loadStreamCheckpoints().filter(checkpoint => checkpoint.restored);
+};
+
+/**
+ * Tells whether a stream still owns the token of a provider: it is running, or it was interrupted
+ * and its refund is left to the interrupted-stream recovery
+ * @param baseUrl The provider of the token
+ * @returns True if a checkpoint refers to the provider
+ */
+export const isTokenHeldByStream = (baseUrl: string): boolean => {
+  return loadStreamCheckpoints().some(checkpoint => checkpoint.baseUrl === baseUrl);
+};
+
+/**
+ * Forgets an interrupted stream once its token was refunded
+ * @param conversationId Conversation the stream belonged to
+ */
+export const resolveInterruptedStream = (conversationId: string): void => {
+  removeCheckpoint(conversationId);
+};
+
+/**
+ * Counts a failed refund of an interrupted stream's token
+ * @param conversationId Conversation the stream belonged to
+ * @returns True if the stream gave up: its checkpoint is gone, so the refund sweeper and manual refunds may take the token
+ */
+export const recordInterruptedRefundFailure = (conversationId: string): boolean => {
+  const checkpoint = loadStreamCheckpoints().find(entry => entry.conversationId === conversationId);
+  if (!checkpoint) return true;
+  const refundAttempts = (checkpoint.refundAttempts ?? 0) + 1;
+  if (refundAttempts >= MAX_INTERRUPTED_REFUND_ATTEMPTS || Date.now() - checkpoint.updatedAt > INTERRUPTED_REFUND_EXPIRY_MS) {
+    removeCheckpoint(conversationId);
+    return true;
+  }
+  writeCheckpoint({ ...checkpoint, refundAttempts });
+  return false;
+};
+
+/**
+ * Stores what an interrupted answer cost on the partial answer restored for it
+ * @param messages Messages of the conversation the stream belonged to
+ * @param checkpoint The interrupted stream
+ * @param satsSpent Sats the answer cost
+ * @returns The messages with the cost in the partial answer's metadata; unchanged once the answer was continued
+ */
+export const setInterruptedAnswerCost = (messages: Message[], checkpoint: StreamCheckpoint, satsSpent: number): Message[] => {
+  let index = messages.length - 1;
+  while (index >= 0 && !(messages[index].interrupted && messages[index].metadata?.baseUrl === checkpoint.baseUrl)) {
+    index--;
+  }
+  if (index === -1) return messages;
+  return messages.map((message, position) => (
+    position === index ? { ...message, metadata: { ...message.metadata, satsSpent } } : message
+  ));
+};
+
+/**
+ * Builds the request history that asks the model to continue an interrupted answer
+ * @param messages Conversation messages
+ * @param index Index of the interrupted answer
+ * @returns The history up to the partial answer, followed by the continue instruction
+ */
+export const buildContinuationHistory = (messages: Message[], index: number): { history: Message[]; instruction: Message } => {
+  const instruction = createTextMessage('user', CONTINUE_GENERATION_PROMPT);
+  return { history: [...messages.slice(0, index + 1), instruction], instruction };
+};
+
+/**
+ * Folds a continuation answer into the interrupted answer it continues and drops the instruction
+ * @param messages Messages produced by the continuation request
+ * @param index Index of the interrupted answer
+ * @param instruction The instruction from buildContinuationHistory
+ * @returns Conversation messages with the answer completed
+ */
+export const mergeContinuation = (messages: Message[], index: number, instruction: Message): Message[] => {
+  const partial = messages[index];
+  const produced = messages.slice(index + 1).filter(message => message !== instruction);
+  const continuationIndex = produced.findIndex(message => message.role === 'assistant' && !message.tool_calls);
+  if (!partial || continuationIndex === -1) {
+    return [...messages.slice(0, index + 1), ...produced];
+  }
+
+  const continuation = produced[continuationIndex];
+  const { interrupted: _interrupted, ...rest } = partial;
+  const merged: Message = {
+    ...rest,
+    content: getTextFromContent(partial.content) + getTextFromContent(continuation.content),
+    ...(partial.thinking || continuation.thinking
+      ? { thinking: [partial.thinking, continuation.thinking].filter(Boolean).join('\n\n') }
+      : {}),
+    ...(continuation.metadata ? { metadata: continuation.metadata } : {})
+  };
+  return [
+    ...messages.slice(0, index),
+    merged,
+    ...produced.slice(0, continuationIndex),
+    ...produced.slice(continuationIndex + 1)
+  ];
+};
@@ -1,7 +1,11 @@
-interface ThinkingContent {
-  thinking: string;
-  content: string;
-}
+import type { GenerationParameters } from '@/types/chat';
+
+/*
+ * Providers stream reasoning in different shapes: `reasoning` (OpenRouter), `reasoning_content` (DeepSeek and
+ * most OpenAI-compatible servers), `reasoning_details` arrays that may hold encrypted or redacted blocks, and
+ * open-weight models that write <think> tags into the answer itself. The adapters below turn all of them into
+ * plain reasoning text plus a flag for reasoning the provider kept hidden.
+ */
 
 interface ParsedThinking {
   hasThinking: boolean;
@@ -35,64 +39,6 @@ export const parseThinkingContent = (rawContent: string, modelId?: string): Pars
   };
 };
 
-export const extractThinkingFromStream = (chunk: string, accumulatedThinking: string = ''): {
-  thinking: string;
-  content: string;
-  isInThinking: boolean;
-} => {
-  const thinkingStart = /<(?:antml:)?thinking>/;
-  const thinkingEnd = /<\/(?:antml:)?thinking>/;
-  
-  let thinking = accumulatedThinking;
-  let content = '';
-  let isInThinking = accumulatedThinking.length > 0 && !accumulatedThinking.includes('</thinking>');
-  
-  if (isInThinking) {
-    const endMatch = chunk.match(thinkingEnd);
-    if (endMatch) {
-      const endIndex = chunk.indexOf(endMatch[0]);
-      thinking += chunk.slice(0, endIndex);
-      content = chunk.slice(endIndex + endMatch[0].length);
-      isInThinking = false;
-    } else {
-      thinking += chunk;
-    }
-  } else {
-    const startMatch = chunk.match(thinkingStart);
-    if (startMatch) {
-      const startIndex = chunk.indexOf(startMatch[0]);
-      content = chunk.slice(0, startIndex);
-      
-      const remainingChunk = chunk.slice(startIndex + startMatch[0].length);
-      const endMatch = remainingChunk.match(thinkingEnd);
-      
-      if (endMatch) {
-        const endIndex = remainingChunk.indexOf(endMatch[0]);
-        thinking = remainingChunk.slice(0, endIndex);
-        content += remainingChunk.slice(endIndex + endMatch[0].length);
-        isInThinking = false;
-      } else {
-        thinking = remainingChunk;
-        isInThinking = true;
-      }
-    } else {
-      content = chunk;
-    }
-  }
-  
-  return { thinking, content, isInThinking };
-};
-
-const THINKING_CAPABLE_PATTERNS = [
-  /claude-3(\.[5-9])?-sonnet/i,
-  /claude-3-opus/i,
-  /claude-3-haiku/i,
-  /sonnet-4/i,
-  /opus-4/i,
-  /o1(-preview|-mini)?/i,
-  /gpt-4o.*thinking/i
-];
-
 const PROVIDER_THINKING_FORMATS = {
   anthropic: [
     /<(?:antml:)?thinking>([\s\S]*?)<\/(?:antml:)?thinking>/,
@@ -104,17 +50,184 @@ const PROVIDER_THINKING_FORMATS = {
   ]
 };
 
-export const isThinkingCapableModel = (modelId: string): boolean => {
-  return THINKING_CAPABLE_PATTERNS.some(pattern => pattern.test(modelId));
-};
+// Names only count at the start of an id segment, so e.g. "pro1" is not taken for OpenAI's o1
+const SEGMENT_BOUNDARY = '[-_.:/\\s]';
+const modelNamePattern = (names: string, end: string = ''): RegExp => new RegExp(`(?:^|${SEGMENT_BOUNDARY})(?:${names})${end}`, 'i');
+
+// Vendors named in model ids without a vendor/ prefix
+const MODEL_VENDOR_PATTERNS: [RegExp, string][] = [
+  [modelNamePattern('claude|sonnet|opus|haiku'), 'anthropic'],
+  [modelNamePattern('deepseek'), 'deepseek'],
+  [modelNamePattern('qwen|qwq'), 'qwen'],
+  [modelNamePattern('gemini|(?:code)?gemma'), 'google'],
+  [modelNamePattern('grok'), 'x-ai'],
+  [modelNamePattern('mistral|mixtral|magistral'), 'mistral'],
+  [modelNamePattern('(?:code)?llama'), 'meta-llama'],
+  // The o-series names are short enough that they must end the segment too: o3-mini, but not o1x
+  [modelNamePattern('o1|o3|o4', `(?=$|${SEGMENT_BOUNDARY})`), 'openai'],
+  [modelNamePattern('(?:chat)?gpt'), 'openai']
+];
 
+/**
+ * Finds the vendor of a model, from the vendor/ prefix of OpenRouter-style ids or from its name
+ * @param modelId Model id, e.g. deepseek/deepseek-r1
+ * @returns Vendor such as anthropic, openai or deepseek, or 'unknown'
+ */
 export const getProviderFromModel = (modelId: string): string => {
-  if (/claude|sonnet|opus|haiku/i.test(modelId)) return 'anthropic';
-  if (/o1|gpt/i.test(modelId)) return 'openai';
-  return 'unknown';
+  const slashIndex = modelId.indexOf('/');
+  if (slashIndex > 0) return modelId.slice(0, slashIndex).toLowerCase();
+  return MODEL_VENDOR_PATTERNS.find(([pattern]) => pattern.test(modelId))?.[1] ?? 'unknown';
 };
 
 export const getThinkingPatternsForProvider = (provider: string): RegExp[] => {
   return PROVIDER_THINKING_FORMATS[provider as keyof typeof PROVIDER_THINKING_FORMATS] || 
          PROVIDER_THINKING_FORMATS.anthropic;
-};
\ No newline at end of file
+};
+
+export interface ReasoningDelta {
+  /** Readable reasoning text in this chunk */
+  text: string;
+  /** The chunk carried reasoning that the provider encrypted or redacted */
+  redacted: boolean;
+}
+
+/**
+ * Reads the reasoning from a streamed delta or a complete message, whichever field the provider uses
+ * @param delta choices[0].delta of a chunk, or choices[0].message of a complete response
+ * @returns The readable reasoning text and whether hidden reasoning was present
+ */
+export const readReasoningDelta = (delta: any): ReasoningDelta => {
+  let text = '';
+  let redacted = false;
+
+  // OpenRouter repeats the text of reasoning_details in `reasoning`, so the details take precedence
+  if (Array.isArray(delta?.reasoning_details)) {
+    for (const detail of delta.reasoning_details) {
+      if (detail?.type === 'reasoning.encrypted' || detail?.type === 'redacted_thinking') {
+        redacted = true;
+      } else if (typeof detail?.text === 'string') {
+        text += detail.text;
+      } else if (typeof detail?.summary === 'string') {
+        text += detail.summary;
+      } else if (typeof detail?.thinking === 'string') {
+        text += detail.thinking;
+      }
+    }
+  }
+  if (!text) {
+    if (typeof delta?.reasoning_content === 'string') text = delta.reasoning_content;
+    else if (typeof delta?.reasoning === 'string') text = delta.reasoning;
+  }
+
+  return { text, redacted };
+};
+
+// Opening tags open-weight models put before their answer, with the matching closing tag
+const THINK_TAGS: [string, string][] = [
+  ['<think>', '</think>'],
+  ['<thinking>', '</thinking>']
+];
+
+/**
+ * Separates <think>...</think> reasoning written into the answer text. Only a tag at the very start of the
+ * answer counts, so answers that merely mention the tag are left alone. Tags may be split across chunks.
+ * @returns push() for each content chunk and flush() at the end of the stream, each giving the new
+ * answer text and reasoning text
+ */
+export const createThinkTagParser = () => {
+  let state: 'start' | 'thinking' | 'content' = 'start';
+  let buffer = '';
+  let closeTag = '';
+  let trimAnswerStart = false;
+
+  const emitContent = (text: string) => {
+    if (!trimAnswerStart) return text;
+    const trimmed = text.replace(/^\s+/, '');
+    if (trimmed) trimAnswerStart = false;
+    return trimmed;
+  };
+
+  const push = (chunk: string): { content: string; thinking: string } => {
+    buffer += chunk;
+
+    if (state === 'start') {
+      const leading = buffer.trimStart();
+      const match = THINK_TAGS.find(([open]) => leading.startsWith(open));
+      if (match) {
+        state = 'thinking';
+        closeTag = match[1];
+        buffer = leading.slice(match[0].length);
+      } else if (!leading || THINK_TAGS.some(([open]) => open.startsWith(leading))) {
+        // Could still become an opening tag
+        return { content: '', thinking: '' };
+      } else {
+        state = 'content';
+      }
+    }
+
+    if (state === 'thinking') {
+      const closeIndex = buffer.indexOf(closeTag);
+      if (closeIndex === -1) {
+        // Hold back a trailing part that could be the start of the closing tag
+        let keep = 0;
+        for (let length = Math.min(closeTag.length - 1, buffer.length); length > 0; length--) {
+          if (closeTag.startsWith(buffer.slice(-length))) {
+            keep = length;
+            break;
+          }
+        }
+        const thinking = buffer.slice(0, buffer.length - keep);
+        buffer = buffer.slice(buffer.length - keep);
+        return { content: '', thinking };
+      }
+      const thinking = buffer.slice(0, closeIndex);
+      const rest = buffer.slice(closeIndex + closeTag.length);
+      state = 'content';
+      trimAnswerStart = true;
+      buffer = '';
+      return { content: emitContent(rest), thinking };
+    }
+
+    const content = emitContent(buffer);
+    buffer = '';
+    return { content, thinking: '' };
+  };
+
+  const flush = (): { content: string; thinking: string } => {
+    const rest = buffer;
+    buffer = '';
+    if (state === 'thinking') return { content: '', thinking: rest };
+    return { content: rest, thinking: '' };
+  };
+
+  return { push, flush };
+};
+
+// Vendors whose OpenAI-compatible APIs take the OpenAI-style top-level reasoning_effort
+const REASONING_EFFORT_VENDORS = ['openai', 'x-ai'];
+
+/**
+ * Request fields that set the reasoning effort in the form the model's vendor understands:
+ * OpenAI-style `reasoning_effort`, otherwise OpenRouter's unified `reasoning: { effort }`
+ * @param modelId Model id of the request
+ * @param effort Effort chosen for the conversation
+ * @returns Fields to merge into the request body, empty without an effort
+ */
+export const getReasoningRequestFields = (
+  modelId: string | undefined,
+  effort: GenerationParameters['reasoning_effort']
+): Record<string, unknown> => {
+  if (!effort) return {};
+  const vendor = modelId ? getProviderFromModel(modelId) : 'unknown';
+  return REASONING_EFFORT_VENDORS.includes(vendor) ? { reasoning_effort: effort } : { reasoning: { effort } };
+};
+
+/**
+ * Reads the number of reasoning tokens from a usage object
+ * @param usage The usage of a completion
+ * @returns Reasoning tokens, or undefined when the provider does not report them
+ */
+export const readReasoningTokens = (usage: any): number | undefined => {
+  const tokens = usage?.completion_tokens_details?.reasoning_tokens ?? usage?.reasoning_tokens;
+  return typeof tokens === 'number' ? tokens : undefined;
+};
@@ -0,0 +1,172 @@
+import { getDecodedToken, SendOptions } from '@cashu/cashu-ts';
+import { getPublicKey } from 'nostr-tools';
+import { hexToBytes } from '@noble/hashes/utils';
+import { RoutstrNodeInfo } from '@/data/models';
+import { decodePublicKey } from '@/lib/nostr';
+import {
+  loadLockProviderTokens,
+  loadLockUnsupportedProviders,
+  loadRejectedLockedTokens,
+  saveLockUnsupportedProviders,
+  saveRejectedLockedTokens
+} from './storageUtils';
+import { normalizeBaseUrl } from './modelUtils';
+
+/*
+ * NUT-11 locks on the tokens sent to providers. A locked token can only be spent with the key the
+ * provider publishes in its node info, so a leaked Authorization header is worthless to anyone else.
+ * Providers whose errors show they refuse the lock get plain ones from then on; a refused token carries
+ * a refund key of our own and comes back to the wallet once its locktime passes.
+ */
+
+/** Dispatched on window whenever a provider falls back to plain tokens or a refused token is reclaimed */
+export const TOKEN_LOCK_UPDATED_EVENT = 'routstr:token-lock-updated';
+
+// Until then only the provider can spend the token; afterwards our refund key can too
+const LOCKTIME_MS = 60 * 60 * 1000;
+
+const NODE_INFO_TIMEOUT_MS = 10 * 1000;
+
+// Verified keys per normalized base URL; failed lookups are not cached so a flaky node is asked again
+const verifiedKeys = new Map<string, string | null>();
+
+const notifyTokenLockUpdate = (): void => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(TOKEN_LOCK_UPDATED_EVENT));
+  }
+};
+
+/**
+ * Fetches a provider's node info and checks that it describes this provider
+ * @param baseUrl Provider base URL
+ * @returns The provider's x-only public key in hex, or null if the node info names another URL or no valid npub
+ * @throws If the node info cannot be fetched
+ */
+export const verifyProviderNodeInfo = async (baseUrl: string): Promise<string | null> => {
+  const normalized = normalizeBaseUrl(baseUrl);
+  if (!normalized) return null;
+  const cached = verifiedKeys.get(normalized);
+  if (cached !== undefined) return cached;
+
+  const response = await fetch(normalized, { signal: AbortSignal.timeout(NODE_INFO_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Node info request failed: ${response.status}`);
+  }
+  const info: Partial<RoutstrNodeInfo> = await response.json();
+
+  // A node info copied from another provider would lock our tokens to a key this provider does not hold
+  const advertisedUrls = [info.http_url, info.onion_url].map(url => normalizeBaseUrl(url));
+  const pubkey = info.npub ? decodePublicKey(info.npub) : null;
+  const key = advertisedUrls.includes(normalized) && pubkey && /^[0-9a-f]{64}$/.test(pubkey) ? pubkey : null;
+  verifiedKeys.set(normalized, key);
+  return key;
+};
+
+/**
+ * Key to lock a new token for a provider to, if locking is on and the provider supports it
+ * @param baseUrl Provider base URL
+ * @returns The compressed public key from the verified node info, or undefined for a plain token
+ */
+export const resolveProviderLockKey = async (baseUrl: string): Promise<string | undefined> => {
+  if (!loadLockProviderTokens() || isLockUnsupported(baseUrl)) return undefined;
+  try {
+    const pubkey = await verifyProviderNodeInfo(baseUrl);
+    return pubkey ? `02${pubkey}` : undefined;
+  } catch (error) {
+    console.warn(`Could not verify the node info of ${baseUrl}, sending a plain token:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Send options locking proofs to a key, refundable by the wallet's own key after the locktime
+ * @param pubkey Compressed public key to lock to; no lock when omitted
+ * @param privkey The wallet's P2PK private key, used as refund key
+ * @returns Options to spread into CashuWallet.send
+ */
+export const getTokenLockOptions = (pubkey: string | undefined, privkey: string | undefined): Pick<SendOptions, 'pubkey' | 'p2pk'> => {
+  if (!pubkey) return {};
+  if (!privkey) return { pubkey };
+  return {
+    p2pk: {
+      pubkey,
+      locktime: Math.floor((Date.now() + LOCKTIME_MS) / 1000),
+      refundKeys: [`02${getPublicKey(hexToBytes(privkey))}`]
+    }
+  };
+};
+
+/**
+ * Whether any of the proofs is locked with a NUT-11 P2PK secret
+ * @param proofs Proofs to check
+ * @returns True if at least one proof needs a signature to be spent
+ */
+export const hasLockedProofs = (proofs: { secret: string }[]): boolean => {
+  return proofs.some(proof => proof.secret.startsWith('["P2PK"'));
+};
+
+/**
+ * Whether an encoded token carries locked proofs
+ * @param token The encoded token
+ * @returns True if the token is locked; false for plain or undecodable tokens
+ */
+export const isLockedToken = (token: string): boolean => {
+  try {
+    return hasLockedProofs(getDecodedToken(token).proofs);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a provider refused a locked token before
+ * @param baseUrl Provider base URL
+ * @returns True if the provider gets plain tokens
+ */
+export const isLockUnsupported = (baseUrl: string): boolean => {
+  return loadLockUnsupportedProviders().includes(baseUrl);
+};
+
+/**
+ * Lets a provider get locked tokens again
+ * @param baseUrl Provider base URL
+ */
+export const clearLockUnsupported = (baseUrl: string): void => {
+  saveLockUnsupportedProviders(loadLockUnsupportedProviders().filter(url => url !== baseUrl));
+  notifyTokenLockUpdate();
+};
+
+/**
+ * Whether a provider's error says it refused a token because of its NUT-11 lock
+ * A provider rejecting a locked token for any other reason, such as an unknown token, keeps getting locked ones.
+ * @param message The error the provider answered with
+ * @returns True if the error is about the P2PK lock or its signature
+ */
+export const isLockRejection = (message: string): boolean => {
+  return /p2pk|nut-?11|witness|spending condition/i.test(message);
+};
+
+/**
+ * Keeps a locked token a provider refused, to reclaim it once its locktime passed
+ * The token cannot be refunded or received before then, since only the provider's key can spend it.
+ * @param baseUrl Provider base URL
+ * @param token The refused token
+ * @param lockRefused Whether the provider refused the lock itself; it gets plain tokens from then on
+ */
+export const setAsideRejectedToken = (baseUrl: string, token: string, lockRefused: boolean): void => {
+  if (lockRefused && !isLockUnsupported(baseUrl)) {
+    saveLockUnsupportedProviders([...loadLockUnsupportedProviders(), baseUrl]);
+  }
+  const rejected = loadRejectedLockedTokens().filter(entry => entry.token !== token);
+  saveRejectedLockedTokens([...rejected, { baseUrl, token, reclaimAt: Date.now() + LOCKTIME_MS }]);
+  notifyTokenLockUpdate();
+};
+
+/**
+ * Forgets a refused token after it was reclaimed or turned out to be spent
+ * @param token The refused token
+ */
+export const removeRejectedToken = (token: string): void => {
+  saveRejectedLockedTokens(loadRejectedLockedTokens().filter(entry => entry.token !== token));
+  notifyTokenLockUpdate();
+};
@@ -1,47 +1,31 @@
-import { create60CashuToken, getOrCreateApiToken } from '@/utils/cashuUtils';
-import { getLocalCashuToken, setLocalCashuToken, removeLocalCashuToken } from '@/utils/storageUtils';
+import { createBrowserRoutstrClient } from '@/utils/cashuUtils';
+import { removeLocalCashuToken, touchLocalCashuToken } from '@/utils/storageUtils';
+import { assertWithinBudgets } from '@/utils/budgetUtils';
 
-// Default token amount for models without max_cost defined
-export const DEFAULT_TOKEN_AMOUNT = 50;
+export { DEFAULT_TOKEN_AMOUNT, estimatePromptCost, getTokenAmountForModel } from '@/lib/routstrClient';
+
+// Requests of this tab holding a provider's token, by base URL, from minting until their refund finished
+const requestsInFlight = new Map<string, number>();
 
 /**
- * Manages token lifecycle for NIP-60 - reuses existing token or generates new one
- * @param mintUrl The Cashu mint URL
- * @param amount Amount in sats for new token if needed
- * @param sendToken Function to send tokens from the wallet
- * @param activeMintUrl The currently active mint URL
- * @returns Token string, null if failed, or object with hasTokens: false if no tokens available
+ * Tells whether a request of this tab is using a provider's token
+ * @param baseUrl The provider of the token
+ * @returns True between getTokenForRequest and releaseTokenForRequest
  */
-export const getOrCreate60ApiToken = async (
-  mintUrl: string,
-  amount: number,
-  sendToken: (mintUrl: string, amount: number) => Promise<{ proofs: any[], unit: string }>,
-  activeMintUrl: string | null,
-  baseUrl: string // Add baseUrl parameter
-): Promise<string | null | { hasTokens: false }> => {
-  try {
-    // Try to get existing token for the given baseUrl
-    const storedToken = getLocalCashuToken(baseUrl);
-    if (storedToken) {
-      return storedToken;
-    }
-
-    // Generate new token if none exists
-    if (!activeMintUrl) {
-      console.error("No active mint selected");
-      return null;
-    }
-    
-    const newToken = await create60CashuToken(activeMintUrl, sendToken, amount);
-    if (newToken) {
-      setLocalCashuToken(baseUrl, newToken); // Use baseUrl here
-      return newToken;
-    }
+export const isTokenInFlight = (baseUrl: string): boolean => {
+  return (requestsInFlight.get(baseUrl) ?? 0) > 0;
+};
 
-    return null;
-  } catch (error) {
-    console.error("Error in token management:", error);
-    return null;
+/**
+ * Marks the end of a request that got its token from getTokenForRequest; call once its refund finished or failed
+ * @param baseUrl The provider of the token
+ */
+export const releaseTokenForRequest = (baseUrl: string): void => {
+  const count = (requestsInFlight.get(baseUrl) ?? 0) - 1;
+  if (count > 0) {
+    requestsInFlight.set(baseUrl, count);
+  } else {
+    requestsInFlight.delete(baseUrl);
   }
 };
 
@@ -52,24 +36,41 @@ export const getOrCreate60ApiToken = async (
  * @param amount Amount in sats for new token if needed
  * @param sendToken Function to send tokens from NIP-60 wallet
  * @param activeMintUrl The currently active mint URL for NIP-60
- * @returns Token string, null if failed, or object with hasTokens: false if no tokens available
+ * @param request Model of the request and the sats the token carries, for the spending budgets; sats default to amount.
+ *   overrideBudget lets the request through after the user chose to send it anyway.
+ * @returns Token string, or null if it could not be created. A returned token counts as in flight until
+ *   releaseTokenForRequest is called for it.
+ * @throws BudgetExceededError if the request would take a spending budget past its limit
  */
 export const getTokenForRequest = async (
   usingNip60: boolean,
   mintUrl: string,
   amount: number,
   baseUrl: string, // Move baseUrl to be a required parameter before optional ones
-  sendToken?: (mintUrl: string, amount: number) => Promise<{ proofs: any[], unit: string }>,
-  activeMintUrl?: string | null
-): Promise<string | null | { hasTokens: false }> => {
-  if (usingNip60) {
-    if (!sendToken || !activeMintUrl) {
-      console.error("Missing required parameters for NIP-60 token creation");
-      return null;
+  sendToken?: (mintUrl: string, amount: number, p2pkPubkey?: string) => Promise<{ proofs: any[], unit: string }>,
+  activeMintUrl?: string | null,
+  request: { modelId?: string; sats?: number; overrideBudget?: boolean } = {}
+): Promise<string | null> => {
+  if (usingNip60 && (!sendToken || !activeMintUrl)) {
+    console.error("Missing required parameters for NIP-60 token creation");
+    return null;
+  }
+  // Checked before any token is minted, so a blocked request never moves funds
+  if (!request.overrideBudget) {
+    assertWithinBudgets({ baseUrl, modelId: request.modelId, sats: request.sats ?? amount });
+  }
+  try {
+    const client = createBrowserRoutstrClient(baseUrl, { mintUrl, usingNip60, sendToken, activeMintUrl });
+    const token = await client.getOrCreateToken(amount);
+    // A reused token is in flight again; the refund sweeper judges tokens by their last use
+    if (token) {
+      touchLocalCashuToken(baseUrl);
+      requestsInFlight.set(baseUrl, (requestsInFlight.get(baseUrl) ?? 0) + 1);
     }
-    return await getOrCreate60ApiToken(activeMintUrl, amount, sendToken, activeMintUrl, baseUrl); // Pass baseUrl
-  } else {
-    return await getOrCreateApiToken(mintUrl, amount, baseUrl); // Pass baseUrl
+    return token;
+  } catch (error) {
+    console.error("Error in token management:", error);
+    return null;
   }
 };
 
@@ -80,21 +81,3 @@ export const getTokenForRequest = async (
 export const clearCurrentApiToken = (baseUrl: string): void => {
   removeLocalCashuToken(baseUrl);
 };
-
-/**
- * Gets the token amount to use for a model, with fallback to default
- * @param selectedModel The currently selected model
- * @returns The token amount in sats
- */
-export const getTokenAmountForModel = (selectedModel: any, apiMessages: any[]): number => {
-  const approximateTokens = Math.ceil(JSON.stringify(apiMessages, null, 2).length / 2.84);
-  if (!selectedModel?.sats_pricing?.max_completion_cost) {
-    return selectedModel?.sats_pricing?.max_cost ?? DEFAULT_TOKEN_AMOUNT;
-  }
-  console.log("rdlogs: dwaw: selectedModel", selectedModel)
-  const promptCosts = selectedModel?.sats_pricing?.prompt * approximateTokens;
-  const totalEstimatedCosts = promptCosts + selectedModel?.sats_pricing?.max_completion_cost;
-  console.log("rdlogs: dwaw: promptCosts", selectedModel?.sats_pricing?.max_cost)
-  console.log("rdlogs: totalEstimatedCosts", promptCosts, totalEstimatedCosts)
-  return (totalEstimatedCosts * 1.05); // Added a 5% margin
-};
\ No newline at end of file
@@ -0,0 +1,182 @@
+/*
+ * Prompt token counts per tokenizer family, keyed by Model.architecture.tokenizer. Only the gpt family
+ * is counted with its own BPE table; other families are approximated with the closest OpenAI table,
+ * scaled towards their own vocabulary. Families without a table (and every family until its table
+ * has loaded) fall back to a conservative characters-per-token ratio.
+ */
+
+type EncodingName = 'cl100k_base' | 'o200k_base';
+
+interface TokenizerEntry {
+  /** BPE table the count is taken from */
+  encoding?: EncodingName;
+  /** The table is the family's own tokenizer, so its counts are exact */
+  ownTable?: boolean;
+  /** Correction from the table's count to the family's own tokenizer, rounded so it errs high */
+  scale: number;
+}
+
+// Conservative ratio for unknown tokenizers; dense text like JSON or code rarely goes below it
+export const FALLBACK_CHARS_PER_TOKEN = 2.84;
+
+// Role and separator tokens every message adds on top of its content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Tokens that prime the reply after the last message
+const REPLY_PRIMING_TOKENS = 3;
+
+// Documents sent as file parts are billed by their content, not their base64 size; compressed PDF text runs ~10 bytes per token
+const FILE_BYTES_PER_TOKEN = 10;
+
+const FALLBACK_TOKENIZER: TokenizerEntry = { scale: 1 };
+
+// Keys are lowercased architecture.tokenizer values as listed by OpenRouter. Families missing here
+// (llama2, yi and other SentencePiece vocabularies) use the fallback ratio.
+const TOKENIZER_REGISTRY: Record<string, TokenizerEntry> = {
+  // OpenAI's own tables: o200k_base for GPT-4o and later, cl100k_base before (see CL100K_GPT_MODEL)
+  gpt: { encoding: 'o200k_base', ownTable: true, scale: 1 },
+  // Anthropic publishes no tokenizer; its token counting endpoint reports noticeably more tokens than
+  // cl100k_base for the same English text, so the count is raised by 15%
+  claude: { encoding: 'cl100k_base', scale: 1.15 },
+  // SentencePiece with a 256k vocabulary, close to o200k_base in size; 5% covers non-English text
+  gemini: { encoding: 'o200k_base', scale: 1.05 },
+  // Llama 3's tiktoken vocabulary contains all of cl100k_base plus 28k tokens, so it rarely needs more
+  llama3: { encoding: 'cl100k_base', scale: 1 },
+  // Llama 4 extends the vocabulary to about 200k tokens, the size of o200k_base
+  llama4: { encoding: 'o200k_base', scale: 1 },
+  // Qwen's 151k byte-level BPE vocabulary was built on top of cl100k_base
+  qwen: { encoding: 'cl100k_base', scale: 1 },
+  qwen3: { encoding: 'cl100k_base', scale: 1 },
+  // DeepSeek's own 128k byte-level BPE; 5% covers its separately trained merges
+  deepseek: { encoding: 'cl100k_base', scale: 1.05 },
+  // xAI publishes no tokenizer for current Grok models; 10% errs high
+  grok: { encoding: 'cl100k_base', scale: 1.1 },
+  // Older Mistral models use a 32k SentencePiece vocabulary, which needs more tokens than cl100k_base
+  mistral: { encoding: 'cl100k_base', scale: 1.1 },
+  // Cohere's 255k BPE vocabulary is larger than cl100k_base, so it needs fewer tokens
+  cohere: { encoding: 'cl100k_base', scale: 1 }
+};
+
+// GPT-3.5 and GPT-4 (before 4o) still use the older table
+const CL100K_GPT_MODEL = /gpt-3\.5|gpt-4(?!o|\.\d)(?:-turbo|-\d{4}|-32k|$|:)/;
+
+const ENCODING_LOADERS: Record<EncodingName, () => Promise<{ countTokens: (text: string, options?: any) => number }>> = {
+  cl100k_base: () => import('gpt-tokenizer/encoding/cl100k_base'),
+  o200k_base: () => import('gpt-tokenizer/encoding/o200k_base')
+};
+
+const encoders: Partial<Record<EncodingName, (text: string) => number>> = {};
+const pendingEncoders: Partial<Record<EncodingName, Promise<void>>> = {};
+
+/**
+ * Looks up the tokenizer family of a model
+ * @param model The model of the request
+ * @returns Its registry entry, or the conservative fallback
+ */
+const getTokenizerEntry = (model: any): TokenizerEntry => {
+  const family = String(model?.architecture?.tokenizer ?? '').toLowerCase();
+  const entry = TOKENIZER_REGISTRY[family] ?? FALLBACK_TOKENIZER;
+  if (family === 'gpt' && CL100K_GPT_MODEL.test(String(model?.id ?? ''))) {
+    return { ...entry, encoding: 'cl100k_base' };
+  }
+  return entry;
+};
+
+/**
+ * Loads the BPE table of a model's tokenizer family; tables are large, so each is fetched on first use
+ * @param model The model whose prompts will be counted
+ * @returns Resolves once counts for the model are exact; immediately for families without a table
+ */
+export const loadTokenizer = (model: any): Promise<void> => {
+  const { encoding } = getTokenizerEntry(model);
+  if (!encoding || encoders[encoding]) return Promise.resolve();
+  pendingEncoders[encoding] ??= ENCODING_LOADERS[encoding]()
+    .then(({ countTokens }) => {
+      // Text that looks like special tokens is counted as plain text, as providers do for user content
+      encoders[encoding] = (text: string) => countTokens(text, { disallowedSpecial: new Set() });
+    })
+    .catch(error => {
+      delete pendingEncoders[encoding];
+      throw error;
+    });
+  return pendingEncoders[encoding]!;
+};
+
+/**
+ * Checks whether prompts for a model are counted with its BPE table
+ * @param model The model of the request
+ * @returns True once the table is loaded; false for families without one
+ */
+export const isTokenizerLoaded = (model: any): boolean => {
+  const { encoding } = getTokenizerEntry(model);
+  return !!encoding && !!encoders[encoding];
+};
+
+/**
+ * Counts the tokens of a text for a model
+ * @param model The model of the request
+ * @param text The text
+ * @returns The token count; approximate until loadTokenizer has resolved
+ */
+export const countTextTokens = (model: any, text: string): number => {
+  if (!text) return 0;
+  const entry = getTokenizerEntry(model);
+  const encoder = entry.encoding ? encoders[entry.encoding] : undefined;
+  if (encoder) {
+    try {
+      return Math.ceil(encoder(text) * entry.scale);
+    } catch (error) {
+      console.warn('Tokenizer failed, estimating from length instead:', error);
+    }
+  }
+  return Math.ceil(text.length / FALLBACK_CHARS_PER_TOKEN);
+};
+
+/**
+ * Approximate prompt tokens of a document sent as a file part
+ * @param fileData data: URL of the file
+ * @returns Estimated token count
+ */
+export const estimateFileTokens = (fileData: string): number => {
+  return Math.ceil((fileData.length * 0.75) / FILE_BYTES_PER_TOKEN);
+};
+
+/**
+ * Counts the prompt of a request. Image parts are not tokens; they are returned separately so
+ * they can be priced per image.
+ * @param model The model of the request
+ * @param apiMessages Messages in OpenAI chat format
+ * @returns Prompt tokens, image parts, and whether the count came from the family's own BPE table
+ */
+export const countPromptTokens = (model: any, apiMessages: any[]): { tokens: number; images: number; exact: boolean } => {
+  let tokens = apiMessages.length > 0 ? REPLY_PRIMING_TOKENS : 0;
+  let images = 0;
+  const texts: string[] = [];
+
+  for (const message of apiMessages) {
+    tokens += MESSAGE_OVERHEAD_TOKENS;
+    texts.push(String(message?.role ?? ''));
+    if (typeof message?.name === 'string') texts.push(message.name);
+    if (typeof message?.content === 'string') {
+      texts.push(message.content);
+    } else if (Array.isArray(message?.content)) {
+      for (const part of message.content) {
+        if (part?.type === 'text') {
+          texts.push(part.text ?? '');
+        } else if (part?.type === 'image_url') {
+          images++;
+        } else if (part?.type === 'file') {
+          tokens += estimateFileTokens(part.file?.file_data ?? '');
+        } else {
+          texts.push(JSON.stringify(part));
+        }
+      }
+    }
+    if (message?.tool_calls) {
+      texts.push(JSON.stringify(message.tool_calls));
+    }
+  }
+
+  tokens += texts.reduce((total, text) => total + countTextTokens(model, text), 0);
+  // Other families' tables only approximate their tokenizer
+  return { tokens, images, exact: isTokenizerLoaded(model) && !!getTokenizerEntry(model).ownTable };
+};
@@ -0,0 +1,92 @@
+import type { Message, UrlCitation } from '@/types/chat';
+
+// Search results the provider adds to the prompt per web-searched message
+export const WEB_SEARCH_MAX_RESULTS = 5;
+
+/**
+ * Checks whether the latest user message asked for a web search
+ * @param messages Messages of the request
+ * @returns True if the last user message has the web search toggle on
+ */
+export const isWebSearchRequested = (messages: Message[]): boolean => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return !!messages[i].webSearch;
+  }
+  return false;
+};
+
+/**
+ * Request fields that turn on the provider's web search (OpenRouter's web plugin)
+ * @returns Fields to merge into the request body
+ */
+export const getWebSearchRequestFields = (): Record<string, unknown> => {
+  return { plugins: [{ id: 'web', max_results: WEB_SEARCH_MAX_RESULTS }] };
+};
+
+/**
+ * Checks whether a request body turns on the web plugin, e.g. one sent by a script or local tool
+ * @param body The request body
+ * @returns True if the body lists the web plugin
+ */
+export const hasWebSearchPlugin = (body: Record<string, unknown>): boolean => {
+  return Array.isArray(body.plugins) && body.plugins.some(plugin => plugin?.id === 'web');
+};
+
+/**
+ * Reads url_citation annotations from a streamed delta or a complete message
+ * @param annotations The `annotations` array of the delta or message
+ * @returns The cited sources, in order
+ */
+export const readUrlCitations = (annotations: unknown): UrlCitation[] => {
+  if (!Array.isArray(annotations)) return [];
+  return annotations
+    .filter(annotation => annotation?.type === 'url_citation' && typeof annotation.url_citation?.url === 'string')
+    .map(({ url_citation: citation }) => ({
+      url: citation.url,
+      ...(typeof citation.title === 'string' && citation.title ? { title: citation.title } : {}),
+      ...(typeof citation.content === 'string' && citation.content ? { content: citation.content } : {}),
+      ...(typeof citation.start_index === 'number' ? { startIndex: citation.start_index } : {}),
+      ...(typeof citation.end_index === 'number' ? { endIndex: citation.end_index } : {})
+    }));
+};
+
+/**
+ * Adds citations to a list, keeping one entry per URL so footnote numbers stay stable
+ * @param citations Citations collected so far
+ * @param added Newly received citations
+ * @returns The merged list
+ */
+export const mergeUrlCitations = (citations: UrlCitation[], added: UrlCitation[]): UrlCitation[] => {
+  const merged = [...citations];
+  for (const citation of added) {
+    if (!merged.some(existing => existing.url === citation.url)) merged.push(citation);
+  }
+  return merged;
+};
+
+/**
+ * Puts numbered footnote links into an answer where its citations end. Sources the answer already
+ * links to inline are left alone, since the renderer numbers those links itself.
+ * @param content The answer text the citation indices refer to
+ * @param citations Cited sources; a source's footnote number is its position + 1
+ * @returns The answer with [n](url) markers
+ */
+export const insertCitationMarkers = (content: string, citations: UrlCitation[]): string => {
+  const markers = citations
+    .map((citation, index) => ({ citation, number: index + 1 }))
+    .filter(({ citation }) =>
+      typeof citation.endIndex === 'number' &&
+      citation.endIndex >= 0 &&
+      citation.endIndex <= content.length &&
+      !content.includes(`(${citation.url})`)
+    )
+    // From the end, so earlier indices stay valid while inserting
+    .sort((a, b) => b.citation.endIndex! - a.citation.endIndex! || b.number - a.number);
+
+  let result = content;
+  for (const { citation, number } of markers) {
+    const at = citation.endIndex!;
+    result = `${result.slice(0, at)} [${number}](${citation.url})${result.slice(at)}`;
+  }
+  return result;
+};